@@ -0,0 +1,243 @@
+/**
+ * WebSocket relay for online matches.
+ * Pairs two browsers in a room and forwards their inputs to each other; the browsers
+ * run the simulation themselves with rollback. Room rules live in src/net/relayRooms.ts,
+ * this file only speaks WebSocket (RFC 6455, text frames) on top of node:http.
+ *
+ * Usage:
+ *   npm run relay
+ *   npm run relay -- --port 9000 --host 0.0.0.0
+ */
+
+import { createHash } from 'node:crypto';
+import { createServer } from 'node:http';
+import type { Socket } from 'node:net';
+import { parseArgs } from 'node:util';
+import { RelayRooms } from '../src/net/relayRooms';
+import { DEFAULT_RELAY_PORT, parseClientMessage } from '../src/net/protocol';
+import type { ServerMessage } from '../src/net/protocol';
+
+const USAGE = 'Usage: npm run relay -- [--port <n>] [--host <address>]';
+
+/** Fixed GUID from RFC 6455 used to answer the opening handshake */
+const WEBSOCKET_GUID = '258EAFA5-E914-47DA-95CA-C5AB0DC85B11';
+
+/**
+ * Largest message accepted from a client, in one frame or summed over its fragments;
+ * lobby messages and inputs are tiny
+ */
+const MAX_MESSAGE_BYTES = 16 * 1024;
+
+const OPCODE_CONTINUATION = 0x0;
+const OPCODE_TEXT = 0x1;
+const OPCODE_CLOSE = 0x8;
+const OPCODE_PING = 0x9;
+const OPCODE_PONG = 0xa;
+
+/** Encode one unmasked, unfragmented frame (servers never mask) */
+function encodeFrame(opcode: number, payload: Buffer): Buffer {
+    let header: Buffer;
+    if (payload.length < 126) {
+        header = Buffer.from([0x80 | opcode, payload.length]);
+    } else if (payload.length < 0x10000) {
+        header = Buffer.alloc(4);
+        header[0] = 0x80 | opcode;
+        header[1] = 126;
+        header.writeUInt16BE(payload.length, 2);
+    } else {
+        header = Buffer.alloc(10);
+        header[0] = 0x80 | opcode;
+        header[1] = 127;
+        header.writeBigUInt64BE(BigInt(payload.length), 2);
+    }
+    return Buffer.concat([header, payload]);
+}
+
+/**
+ * One upgraded client socket.
+ * Buffers incoming bytes, decodes complete frames and hands text messages to `onMessage`.
+ */
+class WebSocketConnection {
+    private buffered = Buffer.alloc(0);
+    private fragments: Buffer[] = [];
+    /** Total size of the fragments of the message being received */
+    private fragmentBytes = 0;
+    private closed = false;
+    private readonly socket: Socket;
+
+    constructor(
+        socket: Socket,
+        onMessage: (text: string) => void,
+        onClose: () => void
+    ) {
+        this.socket = socket;
+        socket.setNoDelay(true);
+        socket.on('data', (chunk: Buffer) => {
+            this.buffered = Buffer.concat([this.buffered, chunk]);
+            this.readFrames(onMessage);
+        });
+        socket.on('close', () => {
+            this.closed = true;
+            onClose();
+        });
+        socket.on('error', () => socket.destroy());
+    }
+
+    sendText(text: string): void {
+        if (!this.closed) {
+            this.socket.write(encodeFrame(OPCODE_TEXT, Buffer.from(text, 'utf8')));
+        }
+    }
+
+    close(code = 1000): void {
+        if (this.closed) return;
+        const payload = Buffer.alloc(2);
+        payload.writeUInt16BE(code);
+        this.socket.end(encodeFrame(OPCODE_CLOSE, payload));
+        this.closed = true;
+    }
+
+    private readFrames(onMessage: (text: string) => void): void {
+        while (!this.closed && this.buffered.length >= 2) {
+            const first = this.buffered[0];
+            const second = this.buffered[1];
+            const fin = (first & 0x80) !== 0;
+            const opcode = first & 0x0f;
+            const masked = (second & 0x80) !== 0;
+
+            let length = second & 0x7f;
+            let offset = 2;
+            if (length === 126) {
+                if (this.buffered.length < 4) return;
+                length = this.buffered.readUInt16BE(2);
+                offset = 4;
+            } else if (length === 127) {
+                if (this.buffered.length < 10) return;
+                length = Number(this.buffered.readBigUInt64BE(2));
+                offset = 10;
+            }
+
+            // Clients must mask, and nothing we expect comes close to the size limit
+            if (!masked || length > MAX_MESSAGE_BYTES) {
+                this.close(length > MAX_MESSAGE_BYTES ? 1009 : 1002);
+                return;
+            }
+            if (this.buffered.length < offset + 4 + length) return;
+
+            const mask = this.buffered.subarray(offset, offset + 4);
+            const payload = Buffer.from(this.buffered.subarray(offset + 4, offset + 4 + length));
+            for (let i = 0; i < payload.length; i++) {
+                payload[i] ^= mask[i % 4];
+            }
+            this.buffered = this.buffered.subarray(offset + 4 + length);
+
+            switch (opcode) {
+                case OPCODE_TEXT:
+                case OPCODE_CONTINUATION:
+                    // A continuation must follow an unfinished message, and a new message must not
+                    if ((opcode === OPCODE_CONTINUATION) !== this.fragments.length > 0) {
+                        this.close(1002);
+                        return;
+                    }
+                    this.fragmentBytes += payload.length;
+                    if (this.fragmentBytes > MAX_MESSAGE_BYTES) {
+                        this.close(1009);
+                        return;
+                    }
+                    this.fragments.push(payload);
+                    if (fin) {
+                        const message = Buffer.concat(this.fragments).toString('utf8');
+                        this.fragments = [];
+                        this.fragmentBytes = 0;
+                        onMessage(message);
+                    }
+                    break;
+                case OPCODE_PING:
+                    this.socket.write(encodeFrame(OPCODE_PONG, payload));
+                    break;
+                case OPCODE_CLOSE:
+                    this.close();
+                    break;
+                case OPCODE_PONG:
+                    break;
+                default:
+                    // Binary frames are not part of the protocol
+                    this.close(1003);
+            }
+        }
+    }
+}
+
+function fail(message: string): never {
+    console.error(message);
+    console.error(USAGE);
+    process.exit(1);
+}
+
+function main(): void {
+    const { values } = parseArgs({
+        options: {
+            port: { type: 'string' },
+            host: { type: 'string', default: 'localhost' },
+            help: { type: 'boolean', short: 'h', default: false },
+        },
+    });
+
+    if (values.help) {
+        console.log(USAGE);
+        return;
+    }
+
+    const port = values.port !== undefined ? Number(values.port) : DEFAULT_RELAY_PORT;
+    if (!Number.isInteger(port) || port <= 0 || port > 65535) {
+        fail(`--port must be a port number, got "${values.port}"`);
+    }
+
+    const rooms = new RelayRooms();
+    const server = createServer((_request, response) => {
+        response.writeHead(426, { 'Content-Type': 'text/plain' });
+        response.end('Titan Escape relay: connect with a WebSocket\n');
+    });
+
+    server.on('upgrade', (request, socket: Socket) => {
+        const key = request.headers['sec-websocket-key'];
+        if (request.headers.upgrade?.toLowerCase() !== 'websocket' || typeof key !== 'string') {
+            socket.end('HTTP/1.1 400 Bad Request\r\n\r\n');
+            return;
+        }
+
+        const accept = createHash('sha1')
+            .update(key + WEBSOCKET_GUID)
+            .digest('base64');
+        socket.write(
+            'HTTP/1.1 101 Switching Protocols\r\n' +
+                'Upgrade: websocket\r\n' +
+                'Connection: Upgrade\r\n' +
+                `Sec-WebSocket-Accept: ${accept}\r\n\r\n`
+        );
+
+        let connectionId = 0;
+        const connection = new WebSocketConnection(
+            socket,
+            (text) => {
+                try {
+                    rooms.handleMessage(connectionId, parseClientMessage(text));
+                } catch (e) {
+                    const message: ServerMessage = {
+                        type: 'error',
+                        message: e instanceof Error ? e.message : 'Bad message',
+                    };
+                    connection.sendText(JSON.stringify(message));
+                }
+            },
+            () => rooms.disconnect(connectionId)
+        );
+        connectionId = rooms.connect((message) => connection.sendText(JSON.stringify(message)));
+    });
+
+    server.listen(port, values.host, () => {
+        console.log(`Relay listening on ws://${values.host}:${port}`);
+    });
+}
+
+main();
@@ -0,0 +1,150 @@
+/**
+ * Headless match runner CLI.
+ * Simulates a match in Node and prints the results and final state hash as JSON.
+ *
+ * Usage:
+ *   npm run match -- --seed 1234
+ *   npm run match -- --replay match.titanreplay
+ *   npm run match -- --seed 1234 --inputs inputs.json --max-frames 20000
+ *   npm run match -- --seed 1234 --ruleset hard
+ *   npm run match -- --seed 1234 --solo
+ *   npm run match -- --seed 1234 --players 4
+ *
+ * An inputs file is JSON of the form { "player1": number[], "player2": number[] },
+ * one packed input per frame (the same encoding replays use, see packInput).
+ * A solo dive (--solo) only needs "player1"; --players 3 or 4 also needs "player3" and "player4".
+ * Without a replay or inputs file every player idles until the match ends.
+ * Replays carry their own ruleset, so --ruleset only applies to new matches.
+ */
+
+import { readFileSync } from 'node:fs';
+import { parseArgs } from 'node:util';
+import type { EngineConfig, PlayerId, PlayerMap } from '../src/engine/types';
+import { parseReplay } from '../src/engine/replay';
+import { getMatchPlayerIds } from '../src/engine/gameState';
+import { runHeadlessMatch, packedInputSource, DEFAULT_MAX_FRAMES } from '../src/engine/headless';
+import { MAX_DEPTH, WORLD_WIDTH, WORLD_HEIGHT } from '../src/engine/config';
+import { RULESET_PRESETS } from '../src/engine/ruleset';
+import type { RulesetPreset } from '../src/engine/ruleset';
+
+/** Exit code when a replay does not reproduce its recorded final state */
+const EXIT_DESYNC = 2;
+
+const USAGE =
+    'Usage: npm run match -- [--seed <n>] [--replay <file> | --inputs <file>] ' +
+    '[--ruleset easy|normal|hard] [--solo | --players <n>] [--max-frames <n>] [--pretty]';
+
+/** Parse a non-negative integer flag, exiting with usage on bad input */
+function parseIntegerFlag(name: string, value: string): number {
+    const parsed = Number(value);
+    if (!Number.isInteger(parsed) || parsed < 0) {
+        fail(`--${name} must be a non-negative integer, got "${value}"`);
+    }
+    return parsed;
+}
+
+/** Load a packed inputs file with a stream for each of the given players */
+function readInputsFile(path: string, playerIds: PlayerId[]): PlayerMap<number[]> {
+    const file = JSON.parse(readFileSync(path, 'utf8')) as PlayerMap<number[]>;
+    if (!playerIds.every((playerId) => Array.isArray(file[playerId]))) {
+        const names = playerIds.map((playerId) => `"${playerId}"`).join(' and ');
+        throw new Error(`${path} must contain ${names} input arrays`);
+    }
+    return file;
+}
+
+function fail(message: string): never {
+    console.error(message);
+    console.error(USAGE);
+    process.exit(1);
+}
+
+function main(): void {
+    const { values } = parseArgs({
+        options: {
+            seed: { type: 'string' },
+            replay: { type: 'string' },
+            inputs: { type: 'string' },
+            ruleset: { type: 'string' },
+            solo: { type: 'boolean', default: false },
+            players: { type: 'string' },
+            'max-frames': { type: 'string' },
+            pretty: { type: 'boolean', default: false },
+            help: { type: 'boolean', short: 'h', default: false },
+        },
+    });
+
+    if (values.help) {
+        console.log(USAGE);
+        return;
+    }
+    if (values.replay && values.inputs) {
+        fail('Pass either --replay or --inputs, not both');
+    }
+    if (!values.replay && values.seed === undefined) {
+        fail('A --seed is required unless running a replay');
+    }
+    if (values.replay && values.ruleset !== undefined) {
+        fail('--ruleset cannot be used with --replay, which plays back its own ruleset');
+    }
+    if (values.replay && (values.solo || values.players !== undefined)) {
+        fail('--solo and --players cannot be used with --replay, which plays back its own players');
+    }
+    if (values.solo && values.players !== undefined) {
+        fail('Pass either --solo or --players, not both');
+    }
+    const preset = (values.ruleset ?? 'normal') as RulesetPreset;
+    if (!Object.hasOwn(RULESET_PRESETS, preset)) {
+        fail(`--ruleset must be one of ${Object.keys(RULESET_PRESETS).join(', ')}`);
+    }
+
+    const output = (data: unknown) =>
+        console.log(JSON.stringify(data, null, values.pretty ? 2 : undefined));
+
+    if (values.replay) {
+        const replay = parseReplay(readFileSync(values.replay, 'utf8'));
+        const seed = values.seed !== undefined ? parseIntegerFlag('seed', values.seed) : null;
+        if (seed !== null && seed !== replay.config.seed) {
+            fail(`--seed ${values.seed} does not match the replay's seed ${replay.config.seed}`);
+        }
+
+        const result = runHeadlessMatch(
+            replay.config,
+            packedInputSource(replay.inputs),
+            replay.frameCount
+        );
+        const verified = result.finalStateHash === replay.finalStateHash;
+        output({ ...result, replayVerified: verified });
+        if (!verified) {
+            process.exitCode = EXIT_DESYNC;
+        }
+        return;
+    }
+
+    const config: EngineConfig = {
+        seed: parseIntegerFlag('seed', values.seed!),
+        maxDepth: MAX_DEPTH,
+        worldWidth: WORLD_WIDTH,
+        worldHeight: WORLD_HEIGHT,
+        ruleset: RULESET_PRESETS[preset],
+        playerCount: values.solo
+            ? 1
+            : values.players !== undefined
+              ? parseIntegerFlag('players', values.players)
+              : 2,
+    };
+    const inputs = values.inputs ? readInputsFile(values.inputs, getMatchPlayerIds(config)) : {};
+    const maxFrames =
+        values['max-frames'] !== undefined
+            ? parseIntegerFlag('max-frames', values['max-frames'])
+            : DEFAULT_MAX_FRAMES;
+
+    output(runHeadlessMatch(config, packedInputSource(inputs), maxFrames));
+}
+
+try {
+    main();
+} catch (e) {
+    console.error(e instanceof Error ? e.message : e);
+    process.exit(1);
+}
@@ -0,0 +1,124 @@
+/**
+ * Run verification service.
+ * Accepts claimed runs over HTTP, re-simulates them with this engine and answers
+ * whether the claim holds. Verification itself lives in src/engine/verification.ts.
+ *
+ * Usage:
+ *   npm run verify-server
+ *   npm run verify-server -- --port 9000 --host 0.0.0.0
+ *
+ * POST /verify with { "replay": <replay file>, "results": <getGameResults()> }.
+ * Answers 200 with the verdict, { "accepted": true, ... } or { "accepted": false, "reason", ... },
+ * and 400 with { "error" } when the claim cannot be read at all or its replay is over the
+ * frame limit; the limit is checked before the replay's inputs are expanded.
+ */
+
+import { createServer } from 'node:http';
+import type { IncomingMessage, ServerResponse } from 'node:http';
+import { parseArgs } from 'node:util';
+import { parseRunClaim, verifyRun } from '../src/engine/verification';
+
+const USAGE = 'Usage: npm run verify-server -- [--port <n>] [--host <address>] [--max-frames <n>]';
+
+const DEFAULT_PORT = 8788;
+
+/** Largest claim accepted; a ten minute replay is well under this */
+const MAX_BODY_BYTES = 2 * 1024 * 1024;
+
+function fail(message: string): never {
+    console.error(message);
+    console.error(USAGE);
+    process.exit(1);
+}
+
+/** Parse a positive integer flag, exiting with usage on bad input */
+function parsePositiveIntegerFlag(name: string, value: string): number {
+    const parsed = Number(value);
+    if (!Number.isInteger(parsed) || parsed <= 0) {
+        fail(`--${name} must be a positive integer, got "${value}"`);
+    }
+    return parsed;
+}
+
+/** Claims are posted straight from the game in the browser */
+const CORS_HEADERS = {
+    'Access-Control-Allow-Origin': '*',
+    'Access-Control-Allow-Headers': 'Content-Type',
+};
+
+function sendJson(response: ServerResponse, status: number, data: unknown): void {
+    response.writeHead(status, { ...CORS_HEADERS, 'Content-Type': 'application/json' });
+    response.end(JSON.stringify(data));
+}
+
+/** Read a request body, rejecting bodies over the size limit */
+function readBody(request: IncomingMessage): Promise<string> {
+    return new Promise((resolve, reject) => {
+        const chunks: Buffer[] = [];
+        let size = 0;
+        request.on('data', (chunk: Buffer) => {
+            size += chunk.length;
+            if (size > MAX_BODY_BYTES) {
+                reject(new Error(`Claim is larger than ${MAX_BODY_BYTES} bytes`));
+                request.destroy();
+                return;
+            }
+            chunks.push(chunk);
+        });
+        request.on('end', () => resolve(Buffer.concat(chunks).toString('utf8')));
+        request.on('error', reject);
+    });
+}
+
+function main(): void {
+    const { values } = parseArgs({
+        options: {
+            port: { type: 'string' },
+            host: { type: 'string', default: 'localhost' },
+            'max-frames': { type: 'string' },
+            help: { type: 'boolean', short: 'h', default: false },
+        },
+    });
+
+    if (values.help) {
+        console.log(USAGE);
+        return;
+    }
+
+    const port =
+        values.port !== undefined ? parsePositiveIntegerFlag('port', values.port) : DEFAULT_PORT;
+    const maxFrames =
+        values['max-frames'] !== undefined
+            ? parsePositiveIntegerFlag('max-frames', values['max-frames'])
+            : undefined;
+
+    const server = createServer(async (request, response) => {
+        if (request.method === 'OPTIONS') {
+            response.writeHead(204, CORS_HEADERS);
+            response.end();
+            return;
+        }
+        if (request.url !== '/verify' || request.method !== 'POST') {
+            sendJson(response, 404, { error: 'POST claims to /verify' });
+            return;
+        }
+
+        try {
+            const claim = parseRunClaim(await readBody(request), maxFrames);
+            const verdict = verifyRun(claim, maxFrames);
+            console.log(
+                `seed ${claim.replay.config.seed}, ${claim.replay.frameCount} frames: ` +
+                    (verdict.accepted ? 'accepted' : `rejected (${verdict.reason})`)
+            );
+            sendJson(response, 200, verdict);
+        } catch (e) {
+            sendJson(response, 400, { error: e instanceof Error ? e.message : 'Bad claim' });
+        }
+    });
+
+    server.listen(port, values.host, () => {
+        console.log(`Verifier listening on http://${values.host}:${port}/verify`);
+    });
+}
+
+main();
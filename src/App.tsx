@@ -1,55 +1,337 @@
 /**
  * Main App component for Titan Escape game.
- * Manages screen transitions between menu, game, and game over.
+ * Manages screen transitions between menu, match setup, online lobby, game, and game over,
+ * and holds the player's saved control bindings.
  */
 
-import { useState, useCallback } from 'react';
-import type { GameState } from './engine/types';
+import { useState, useCallback, useEffect } from 'react';
+import type { GameState, PlayerMap, Replay } from './engine/types';
+import type { CpuDifficulty } from './engine/cpuPlayer';
+import type { MatchRules } from './engine/matchRules';
+import { findMatchRules } from './engine/matchRules';
+import type { GhostTrack } from './engine/ghost';
+import type { DailyAttempt } from './engine/dailyChallenge';
+import { getDailyDateKey, getDailyResult, getDailySeed } from './engine/dailyChallenge';
+import { createRunRecord } from './engine/runHistory';
+import { readSharedLink } from './engine/shareLinks';
+import type { SharedChallenge, SharedLink } from './engine/shareLinks';
 import { MainMenu } from './ui/MainMenu';
+import { MatchSetup } from './ui/MatchSetup';
 import { GameView } from './ui/GameView';
 import { GameOverScreen } from './ui/GameOverScreen';
+import { ReplayView } from './ui/ReplayView';
+import { OnlineLobby } from './ui/OnlineLobby';
+import { LeaderboardScreen } from './ui/LeaderboardScreen';
+import { ControlsScreen } from './ui/ControlsScreen';
+import type { ControlBindings } from './ui/keyBindings';
+import { loadControlBindings, saveControlBindings } from './ui/controlBindingsStorage';
+import { saveRun } from './ui/runHistoryStorage';
+import { recordDailyResult, startOfficialAttempt } from './ui/dailyChallengeStorage';
+import { getPlayerLabel } from './ui/playerLabels';
+import type { OnlineMatch, RelayClient } from './net/relayClient';
 
-type Screen = 'menu' | 'game' | 'gameOver';
+type Screen =
+    'menu' | 'setup' | 'lobby' | 'game' | 'gameOver' | 'replay' | 'leaderboards' | 'controls';
+
+/** Read the share link the page was opened with; a broken one is reported on the menu */
+function readLaunchLink(): { link: SharedLink | null; error: string | null } {
+    try {
+        return { link: readSharedLink(window.location.href), error: null };
+    } catch (e) {
+        return { link: null, error: e instanceof Error ? e.message : 'Could not open the link' };
+    }
+}
+
+function getLaunchScreen(link: SharedLink | null): Screen {
+    if (link?.kind === 'challenge') return 'setup';
+    if (link?.kind === 'replay') return 'replay';
+    return 'menu';
+}
 
 function App() {
-    const [screen, setScreen] = useState<Screen>('menu');
+    const [launch] = useState(readLaunchLink);
+    const [screen, setScreen] = useState<Screen>(() => getLaunchScreen(launch.link));
+    const [linkError, setLinkError] = useState(launch.error);
+    // Seed and preset of the challenge link being set up, if any
+    const [challenge, setChallenge] = useState<SharedChallenge | null>(
+        launch.link?.kind === 'challenge' ? launch.link.challenge : null
+    );
     const [seed, setSeed] = useState<number>(0);
+    const [cpuDifficulty, setCpuDifficulty] = useState<CpuDifficulty | null>(null);
+    const [solo, setSolo] = useState(challenge?.solo ?? false);
+    const [playerCount, setPlayerCount] = useState(2);
+    // Names typed on the setup screen, recorded in the run history
+    const [playerNames, setPlayerNames] = useState<PlayerMap<string>>({});
+    // House rules of the current local match; online matches use the defaults
+    const [matchRules, setMatchRules] = useState<MatchRules | null>(null);
+    // Recorded run raced in a solo dive on its own seed
+    const [ghost, setGhost] = useState<GhostTrack | null>(null);
+    // Daily Dive being played, if the solo dive is today's challenge
+    const [daily, setDaily] = useState<DailyAttempt | null>(null);
     const [finalGameState, setFinalGameState] = useState<GameState | null>(null);
+    const [lastReplay, setLastReplay] = useState<Replay | null>(null);
+    const [playbackReplay, setPlaybackReplay] = useState<Replay | null>(
+        launch.link?.kind === 'replay' ? launch.link.replay : null
+    );
+    // The relay connection outlives single matches so players can rematch from the lobby
+    const [relayClient, setRelayClient] = useState<RelayClient | null>(null);
+    const [onlineMatch, setOnlineMatch] = useState<OnlineMatch | null>(null);
+    const [controlBindings, setControlBindings] = useState(loadControlBindings);
+
+    // A link is followed once; reloading the page shouldn't follow it again
+    useEffect(() => {
+        if (window.location.search || window.location.hash) {
+            window.history.replaceState(null, '', window.location.pathname);
+        }
+    }, []);
+
+    const handleStartGame = useCallback((cpu: CpuDifficulty | null = null) => {
+        setCpuDifficulty(cpu);
+        setSolo(false);
+        setGhost(null);
+        setDaily(null);
+        setChallenge(null);
+        setScreen('setup');
+    }, []);
 
-    const handleStartGame = useCallback((gameSeed: number) => {
-        setSeed(gameSeed);
+    const handleStartSolo = useCallback(() => {
+        setCpuDifficulty(null);
+        setSolo(true);
+        setGhost(null);
+        setDaily(null);
+        setChallenge(null);
+        setScreen('setup');
+    }, []);
+
+    const handleStartDaily = useCallback((practice: boolean) => {
+        const dateKey = getDailyDateKey(new Date());
+        if (!practice && !startOfficialAttempt(dateKey)) return;
+
+        setDaily({ dateKey, practice });
+        setCpuDifficulty(null);
+        setSolo(true);
+        setPlayerCount(1);
+        setPlayerNames({});
+        setMatchRules(null);
+        setGhost(null);
+        setSeed(getDailySeed(dateKey));
+        setOnlineMatch(null);
+        setFinalGameState(null);
         setScreen('game');
     }, []);
 
-    const handleGameOver = useCallback((state: GameState) => {
-        setFinalGameState(state);
-        setScreen('gameOver');
+    const handleRaceGhost = useCallback((track: GhostTrack) => {
+        setGhost(track);
+        setDaily(null);
+        setCpuDifficulty(null);
+        setSolo(true);
+        setPlayerCount(1);
+        // The race runs on the ghost's config; its rules are only worked out to be shown
+        setMatchRules(findMatchRules(track.config));
+        setSeed(track.config.seed);
+        setOnlineMatch(null);
+        setFinalGameState(null);
+        setScreen('game');
     }, []);
 
-    const handleRestart = useCallback((gameSeed: number) => {
-        setSeed(gameSeed);
+    const handleSetupStart = useCallback(
+        (rules: MatchRules, gameSeed: number, count: number, names: PlayerMap<string>) => {
+            setMatchRules(rules);
+            setSeed(gameSeed);
+            setPlayerCount(count);
+            setPlayerNames(names);
+            setOnlineMatch(null);
+            setScreen('game');
+        },
+        []
+    );
+
+    const handlePlayOnline = useCallback(() => {
+        setScreen('lobby');
+    }, []);
+
+    const handleOnlineMatchStart = useCallback((match: OnlineMatch) => {
+        setSeed(match.seed);
+        setCpuDifficulty(null);
+        setSolo(false);
+        setPlayerCount(2);
+        setPlayerNames({});
+        setMatchRules(null);
+        setGhost(null);
+        setDaily(null);
+        setOnlineMatch(match);
         setFinalGameState(null);
         setScreen('game');
     }, []);
 
+    const handleBackToLobby = useCallback(() => {
+        setOnlineMatch(null);
+        setFinalGameState(null);
+        setScreen(relayClient?.isOpen() ? 'lobby' : 'menu');
+    }, [relayClient]);
+
+    const handleGameOver = useCallback(
+        (state: GameState, replay: Replay) => {
+            const labels: PlayerMap<string> = {};
+            for (const playerId of state.playerIds) {
+                labels[playerId] = getPlayerLabel(playerId, cpuDifficulty);
+            }
+            saveRun(createRunRecord(state, playerNames, Date.now(), replay, labels));
+            if (daily) {
+                recordDailyResult(getDailyResult(daily.dateKey, state), daily.practice);
+            }
+
+            setFinalGameState(state);
+            setLastReplay(replay);
+            setScreen('gameOver');
+        },
+        [playerNames, cpuDifficulty, daily]
+    );
+
+    const handleShowLeaderboards = useCallback(() => {
+        setScreen('leaderboards');
+    }, []);
+
+    const handleShowControls = useCallback(() => {
+        setScreen('controls');
+    }, []);
+
+    const handleSaveControls = useCallback((bindings: ControlBindings) => {
+        setControlBindings(bindings);
+        saveControlBindings(bindings);
+        setScreen('menu');
+    }, []);
+
+    const handleRestart = useCallback(
+        (gameSeed: number) => {
+            // Online rematches are agreed in the lobby
+            if (onlineMatch) {
+                handleBackToLobby();
+                return;
+            }
+            // The ghost's world only matches its own seed
+            if (ghost && gameSeed !== ghost.config.seed) {
+                setGhost(null);
+            }
+            // Another go at the day's seed is practice; the official attempt is spent
+            if (daily) {
+                setDaily(
+                    gameSeed === getDailySeed(daily.dateKey) ? { ...daily, practice: true } : null
+                );
+            }
+            setSeed(gameSeed);
+            setFinalGameState(null);
+            setScreen('game');
+        },
+        [onlineMatch, ghost, daily, handleBackToLobby]
+    );
+
     const handleMainMenu = useCallback(() => {
+        relayClient?.close();
+        setRelayClient(null);
+        setOnlineMatch(null);
         setFinalGameState(null);
+        setLastReplay(null);
+        setGhost(null);
+        setDaily(null);
+        setChallenge(null);
+        setLinkError(null);
         setScreen('menu');
+    }, [relayClient]);
+
+    const handleWatchReplay = useCallback((replay: Replay) => {
+        setPlaybackReplay(replay);
+        setScreen('replay');
     }, []);
 
+    const handleExitReplay = useCallback(() => {
+        setPlaybackReplay(null);
+        setLinkError(null);
+        // Return to the results if we came from a finished match
+        setScreen(finalGameState ? 'gameOver' : 'menu');
+    }, [finalGameState]);
+
     return (
         <>
-            {screen === 'menu' && <MainMenu onStartGame={handleStartGame} />}
+            {screen === 'menu' && (
+                <MainMenu
+                    onStartGame={handleStartGame}
+                    onStartSolo={handleStartSolo}
+                    onStartDaily={handleStartDaily}
+                    onRaceGhost={handleRaceGhost}
+                    onWatchReplay={handleWatchReplay}
+                    onPlayOnline={handlePlayOnline}
+                    onShowLeaderboards={handleShowLeaderboards}
+                    onShowControls={handleShowControls}
+                    controlBindings={controlBindings}
+                    linkError={linkError}
+                />
+            )}
+
+            {screen === 'leaderboards' && (
+                <LeaderboardScreen onWatchReplay={handleWatchReplay} onBack={handleMainMenu} />
+            )}
 
-            {screen === 'game' && <GameView key={seed} seed={seed} onGameOver={handleGameOver} />}
+            {screen === 'controls' && (
+                <ControlsScreen
+                    bindings={controlBindings}
+                    onSave={handleSaveControls}
+                    onBack={handleMainMenu}
+                />
+            )}
+
+            {screen === 'setup' && (
+                <MatchSetup
+                    cpuDifficulty={cpuDifficulty}
+                    solo={solo}
+                    challenge={challenge}
+                    onStart={handleSetupStart}
+                    onBack={handleMainMenu}
+                />
+            )}
+
+            {screen === 'lobby' && (
+                <OnlineLobby
+                    client={relayClient}
+                    onClientChange={setRelayClient}
+                    onMatchStart={handleOnlineMatchStart}
+                    onBack={handleMainMenu}
+                />
+            )}
+
+            {screen === 'game' && (
+                <GameView
+                    key={seed}
+                    seed={seed}
+                    rules={matchRules ?? undefined}
+                    cpuDifficulty={cpuDifficulty}
+                    playerCount={playerCount}
+                    ghost={ghost}
+                    online={onlineMatch}
+                    controlBindings={controlBindings}
+                    onGameOver={handleGameOver}
+                    onLeave={handleBackToLobby}
+                />
+            )}
 
             {screen === 'gameOver' && finalGameState && (
                 <GameOverScreen
                     gameState={finalGameState}
+                    replay={lastReplay}
+                    cpuDifficulty={cpuDifficulty}
+                    rules={matchRules}
+                    ghost={ghost}
+                    daily={daily}
                     onRestart={handleRestart}
+                    onRaceGhost={handleRaceGhost}
                     onMainMenu={handleMainMenu}
+                    onWatchReplay={handleWatchReplay}
                 />
             )}
+
+            {screen === 'replay' && playbackReplay && (
+                <ReplayView replay={playbackReplay} onExit={handleExitReplay} />
+            )}
         </>
     );
 }
@@ -0,0 +1,95 @@
+/**
+ * Maps simulation events to sound effects and gamepad rumble.
+ */
+
+import type { GameEvent, GameState, PlayerId } from '../engine/types';
+import { GameEventType, ProjectileType } from '../engine/types';
+import { soundEngine } from './SoundEngine';
+import { vibrateGamepad, VibrationPatterns } from './vibrationEngine';
+
+/** Gamepad slot each player is bound to */
+const GAMEPAD_INDEX: Record<PlayerId, number> = {
+    player1: 0,
+    player2: 1,
+    player3: 2,
+    player4: 3,
+};
+
+/** Explosions started by one batch of events are staggered so they don't stack into one */
+const EXPLOSION_STAGGER_MS = 50;
+const MAX_EXPLOSIONS_PER_BATCH = 3;
+
+/** Play a damage hit, heavier when the player is left on their last HP */
+function playDamage(playerId: PlayerId, state: GameState): void {
+    const isHeavy = state.players[playerId]!.hp <= 1;
+    soundEngine.playImpact(isHeavy ? 'heavy' : 'light');
+    soundEngine.playMetalScrape(isHeavy ? 'heavy' : 'light');
+    vibrateGamepad(
+        GAMEPAD_INDEX[playerId],
+        isHeavy ? VibrationPatterns.collisionHeavy : VibrationPatterns.collision
+    );
+}
+
+/**
+ * Play audio and haptic feedback for the events of one or more simulation steps.
+ * @param events - Events in emission order
+ * @param state - State after the last step, used to scale feedback
+ */
+export function playEventFeedback(events: readonly GameEvent[], state: GameState): void {
+    let explosions = 0;
+
+    for (const event of events) {
+        switch (event.type) {
+            case GameEventType.Collision:
+                // A crash that kills is covered by its implosion event
+                if (state.players[event.playerId]!.hp > 0) {
+                    playDamage(event.playerId, state);
+                }
+                break;
+            case GameEventType.FishBite:
+                if (event.damage > 0 && state.players[event.playerId]!.hp > 0) {
+                    playDamage(event.playerId, state);
+                }
+                break;
+            case GameEventType.PickupCollected:
+                vibrateGamepad(GAMEPAD_INDEX[event.playerId], VibrationPatterns.pickup);
+                break;
+            case GameEventType.ProjectileFired:
+                if (event.projectileType === ProjectileType.Mine) {
+                    soundEngine.playMineDeploy();
+                    vibrateGamepad(GAMEPAD_INDEX[event.playerId], VibrationPatterns.mineDeploy);
+                } else {
+                    soundEngine.playRocketLaunch();
+                    vibrateGamepad(GAMEPAD_INDEX[event.playerId], VibrationPatterns.rocketFire);
+                }
+                break;
+            case GameEventType.ProjectileHit: {
+                if (explosions >= MAX_EXPLOSIONS_PER_BATCH) break;
+                const intensity = event.projectileType === ProjectileType.Mine ? 'large' : 'small';
+                setTimeout(
+                    () => soundEngine.playExplosion(intensity),
+                    explosions * EXPLOSION_STAGGER_MS
+                );
+                explosions++;
+                if (event.targetType === 'player') {
+                    vibrateGamepad(
+                        GAMEPAD_INDEX[event.targetId as PlayerId],
+                        VibrationPatterns.damage
+                    );
+                }
+                break;
+            }
+            case GameEventType.Eject:
+                soundEngine.playAscent();
+                vibrateGamepad(GAMEPAD_INDEX[event.playerId], VibrationPatterns.eject);
+                break;
+            case GameEventType.Implosion:
+                soundEngine.playDeath();
+                vibrateGamepad(GAMEPAD_INDEX[event.playerId], VibrationPatterns.death);
+                break;
+            case GameEventType.Escape:
+                soundEngine.playVictory();
+                break;
+        }
+    }
+}
@@ -0,0 +1,118 @@
+/**
+ * Frame cost benchmarks for stepGameState.
+ * Each group steps the same scene at increasing depth or entity count, so per-frame
+ * times within a group should stay roughly flat. Run with `npm run bench`.
+ */
+
+import { bench, describe } from 'vitest';
+import { createInitialState, stepGameState } from '../gameState';
+import type { AnglerFish, GameState, PlayerInputFrame, Projectile, PlayerMap } from '../types';
+import { ProjectileType } from '../types';
+import {
+    ANGLER_FISH_HEIGHT,
+    ANGLER_FISH_WIDTH,
+    FIXED_DT,
+    MAX_DEPTH,
+    ROCKET_HEIGHT,
+    ROCKET_WIDTH,
+    WORLD_HEIGHT,
+    WORLD_WIDTH,
+} from '../config';
+import { NORMAL_RULESET } from '../ruleset';
+
+const inputs: PlayerMap<PlayerInputFrame> = {
+    player1: { frame: 0, left: false, right: false, up: false, down: false, action: null },
+    player2: { frame: 0, left: false, right: false, up: false, down: false, action: null },
+};
+
+function createProjectile(i: number): Projectile {
+    return {
+        id: `projectile_bench_${i}`,
+        type: ProjectileType.Rocket,
+        ownerId: i % 2 === 0 ? 'player1' : 'player2',
+        x: 100 + ((i * 53) % (WORLD_WIDTH - 200)),
+        y: 0,
+        width: ROCKET_WIDTH,
+        height: ROCKET_HEIGHT,
+        velocityX: 0,
+        velocityY: NORMAL_RULESET.rocketSpeed,
+        damage: 1,
+        lifetime: 1000,
+        active: true,
+    };
+}
+
+function createFish(i: number): AnglerFish {
+    return {
+        id: `fish_bench_${i}`,
+        x: 100 + ((i * 97) % (WORLD_WIDTH - 200)),
+        y: 0,
+        width: ANGLER_FISH_WIDTH,
+        height: ANGLER_FISH_HEIGHT,
+        velocityX: 0,
+        velocityY: 0,
+        targetPlayerId: null,
+        aggroRadius: NORMAL_RULESET.anglerFishAggroRadius,
+        speed: 0,
+        damage: 1,
+        active: true,
+    };
+}
+
+/**
+ * A match with both players at `depth`, after one step so the obstacles around them
+ * are streamed in, plus extra projectiles and fish spread through the screen above them.
+ */
+function createScene(depth: number, projectiles = 0, fish = 0): GameState {
+    const initial = createInitialState({
+        seed: 31337,
+        maxDepth: MAX_DEPTH,
+        worldWidth: WORLD_WIDTH,
+        worldHeight: WORLD_HEIGHT,
+    });
+    const positioned: GameState = {
+        ...initial,
+        players: {
+            player1: { ...initial.players.player1!, y: depth },
+            player2: { ...initial.players.player2!, y: depth },
+        },
+    };
+    const state = stepGameState(positioned, inputs, FIXED_DT).state;
+
+    const spread = (i: number) => depth - WORLD_HEIGHT / 2 + ((i * 37) % WORLD_HEIGHT);
+    return {
+        ...state,
+        projectiles: Array.from({ length: projectiles }, (_, i) => ({
+            ...createProjectile(i),
+            y: spread(i),
+        })),
+        anglerFish: Array.from({ length: fish }, (_, i) => ({ ...createFish(i), y: spread(i) })),
+    };
+}
+
+describe('frame cost by dive depth', () => {
+    for (const depth of [500, 2500, 5000, 7500, 9500]) {
+        const state = createScene(depth);
+        bench(`depth ${depth}`, () => {
+            stepGameState(state, inputs, FIXED_DT);
+        });
+    }
+});
+
+describe('frame cost by projectile count', () => {
+    for (const count of [0, 10, 40, 160]) {
+        const state = createScene(5000, count);
+        bench(`${count} projectiles`, () => {
+            stepGameState(state, inputs, FIXED_DT);
+        });
+    }
+});
+
+describe('frame cost by angler fish count', () => {
+    for (const count of [0, 8, 32, 128]) {
+        const state = createScene(5000, 0, count);
+        bench(`${count} fish`, () => {
+            stepGameState(state, inputs, FIXED_DT);
+        });
+    }
+});
@@ -0,0 +1,103 @@
+/**
+ * Tests for the CPU opponent.
+ */
+
+import { describe, it, expect } from 'vitest';
+import { CpuController, CpuDifficulty } from '../cpuPlayer';
+import { createInitialState } from '../gameState';
+import { simulateMatch } from '../headless';
+import { unpackInput } from '../replay';
+import type { GameState, PlayerInputFrame } from '../types';
+import { PlayerState } from '../types';
+import { WORLD_WIDTH, WORLD_HEIGHT, MAX_DEPTH } from '../config';
+
+const defaultConfig = {
+    seed: 2024,
+    maxDepth: MAX_DEPTH,
+    worldWidth: WORLD_WIDTH,
+    worldHeight: WORLD_HEIGHT,
+};
+
+/** Play a CPU as player 1 against an idle player 2 */
+function playAgainstIdle(seed: number, difficulty: CpuDifficulty): GameState {
+    const cpu = new CpuController('player1', difficulty);
+    return simulateMatch({ ...defaultConfig, seed }, (frame, state) => ({
+        player1: cpu.getInput(state),
+        player2: unpackInput(0, frame),
+    }));
+}
+
+describe('CPU opponent', () => {
+    it('plays deterministically', () => {
+        const recordCpuInputs = () => {
+            const cpu = new CpuController('player2', CpuDifficulty.Normal);
+            const inputs: PlayerInputFrame[] = [];
+            const getInputs = (frame: number, state: GameState) => {
+                inputs.push(cpu.getInput(state));
+                return { player1: unpackInput(0, frame), player2: inputs[inputs.length - 1] };
+            };
+            simulateMatch(defaultConfig, getInputs, 600);
+            return inputs;
+        };
+
+        expect(recordCpuInputs()).toEqual(recordCpuInputs());
+    });
+
+    it('hard CPU survives and out-dives an idle player', () => {
+        for (const seed of [1, 2]) {
+            const state = playAgainstIdle(seed, CpuDifficulty.Hard);
+
+            expect(state.players.player1!.state).toBe(PlayerState.Escaped);
+            expect(state.winner).toBe('player1');
+        }
+    });
+
+    it('dives deeper on higher difficulties', () => {
+        const depthFor = (difficulty: CpuDifficulty) =>
+            [5, 6]
+                .map((seed) => playAgainstIdle(seed, difficulty).players.player1!.maxDepthReached)
+                .reduce((sum, depth) => sum + depth, 0);
+
+        expect(depthFor(CpuDifficulty.Hard)).toBeGreaterThan(depthFor(CpuDifficulty.Easy));
+    });
+
+    it('dumps ballast when the sub is worn out', () => {
+        const state = createInitialState(defaultConfig);
+        const worn: GameState = {
+            ...state,
+            players: { ...state.players, player1: { ...state.players.player1!, wear: 90 } },
+        };
+
+        expect(new CpuController('player1', CpuDifficulty.Hard).getInput(worn).action).toBe(
+            'dumpBallast'
+        );
+    });
+
+    it('fires a rocket at a level opponent', () => {
+        const state = createInitialState(defaultConfig);
+        const level: GameState = {
+            ...state,
+            players: {
+                ...state.players,
+                player2: { ...state.players.player2!, y: state.players.player1!.y },
+            },
+        };
+
+        expect(new CpuController('player1', CpuDifficulty.Hard).getInput(level).action).toBe(
+            'fireRocket'
+        );
+    });
+
+    it('sends no input once its player is out of the match', () => {
+        const state = createInitialState(defaultConfig);
+        const escaped: GameState = {
+            ...state,
+            players: {
+                ...state.players,
+                player1: { ...state.players.player1!, state: PlayerState.Escaped },
+            },
+        };
+
+        expect(new CpuController('player1').getInput(escaped)).toEqual(unpackInput(0, 0));
+    });
+});
@@ -0,0 +1,79 @@
+/**
+ * Tests for the Daily Dive seed and result summary.
+ */
+
+import { describe, it, expect } from 'vitest';
+import { createInitialState } from '../gameState';
+import {
+    formatDailySummary,
+    getDailyDateKey,
+    getDailyResult,
+    getDailySeed,
+    isBetterDailyResult,
+} from '../dailyChallenge';
+import type { DailyResult } from '../dailyChallenge';
+import { PlayerState } from '../types';
+import { WORLD_WIDTH, WORLD_HEIGHT, MAX_DEPTH } from '../config';
+
+describe('Daily seeds', () => {
+    it('use the local calendar date', () => {
+        expect(getDailyDateKey(new Date(2026, 0, 5, 23, 59))).toBe('2026-01-05');
+        expect(getDailyDateKey(new Date(2026, 11, 31, 0, 1))).toBe('2026-12-31');
+    });
+
+    it('are the same all day and differ between days', () => {
+        const seed = getDailySeed('2026-10-19');
+
+        expect(getDailySeed(getDailyDateKey(new Date(2026, 9, 19, 8)))).toBe(seed);
+        expect(getDailySeed('2026-10-20')).not.toBe(seed);
+        expect(getDailySeed('2027-10-19')).not.toBe(seed);
+        expect(seed).toBeGreaterThanOrEqual(0);
+        expect(seed).toBeLessThan(1000000);
+    });
+
+    it('reject dates in any other format', () => {
+        expect(() => getDailySeed('19/10/2026')).toThrow(/YYYY-MM-DD/);
+    });
+});
+
+describe('Daily results', () => {
+    const escaped: DailyResult = { dateKey: '2026-10-19', score: 812, depth: 812, escaped: true };
+
+    it('score a finished dive like any solo dive', () => {
+        const state = createInitialState({
+            seed: getDailySeed('2026-10-19'),
+            maxDepth: MAX_DEPTH,
+            worldWidth: WORLD_WIDTH,
+            worldHeight: WORLD_HEIGHT,
+            playerCount: 1,
+        });
+        state.players.player1 = {
+            ...state.players.player1!,
+            maxDepthReached: 812.7,
+            state: PlayerState.Escaped,
+        };
+
+        expect(getDailyResult('2026-10-19', state)).toEqual(escaped);
+    });
+
+    it('rank by score, then by depth', () => {
+        const lost: DailyResult = { dateKey: '2026-10-19', score: 0, depth: 950, escaped: false };
+
+        expect(isBetterDailyResult(escaped, null)).toBe(true);
+        expect(isBetterDailyResult(lost, escaped)).toBe(false);
+        expect(isBetterDailyResult(escaped, lost)).toBe(true);
+        expect(isBetterDailyResult(lost, { ...lost, depth: 900 })).toBe(true);
+        expect(isBetterDailyResult(escaped, escaped)).toBe(false);
+    });
+
+    it('summarize the date, depth, outcome and replay code', () => {
+        const summary = formatDailySummary(escaped, false, 'TE.abc');
+
+        expect(summary.split('\n')).toEqual([
+            'Titan Escape Daily Dive 2026-10-19',
+            '812m · escaped 🎉 · score 812',
+            'Replay: TE.abc',
+        ]);
+        expect(formatDailySummary(escaped, true, null)).toMatch(/\(practice\)\n[^\n]+$/);
+    });
+});
@@ -0,0 +1,131 @@
+/**
+ * Tests for the per-step game event stream.
+ */
+
+import { describe, it, expect } from 'vitest';
+import { createInitialState, stepGameState, updateGameState } from '../gameState';
+import { hashState } from '../snapshot';
+import type { GameEvent, GameState, PlayerAction, PlayerInputFrame, PlayerMap } from '../types';
+import { GameEventType, PlayerState, ProjectileType } from '../types';
+import { FIXED_DT, WORLD_WIDTH, WORLD_HEIGHT, MAX_DEPTH } from '../config';
+
+const defaultConfig = {
+    seed: 4242,
+    maxDepth: MAX_DEPTH,
+    worldWidth: WORLD_WIDTH,
+    worldHeight: WORLD_HEIGHT,
+};
+
+function idle(frame: number, action: PlayerAction | null = null): PlayerInputFrame {
+    return { frame, left: false, right: false, up: false, down: false, action };
+}
+
+function createInputs(
+    frame: number,
+    p1Action: PlayerAction | null = null,
+    p2Action: PlayerAction | null = null
+): PlayerMap<PlayerInputFrame> {
+    return { player1: idle(frame, p1Action), player2: idle(frame, p2Action) };
+}
+
+/** Step a match to the end, collecting every event */
+function collectEvents(
+    getInputs: (frame: number) => PlayerMap<PlayerInputFrame>,
+    maxFrames = 20000
+): { state: GameState; events: GameEvent[] } {
+    let state = createInitialState(defaultConfig);
+    const events: GameEvent[] = [];
+    while (!state.gameOver && state.frame < maxFrames) {
+        const step = stepGameState(state, getInputs(state.frame), FIXED_DT);
+        state = step.state;
+        events.push(...step.events);
+    }
+    return { state, events };
+}
+
+describe('Game events', () => {
+    it('emits eject and escape for a player who surfaces', () => {
+        const { state, events } = collectEvents((frame) => {
+            const action = frame === 10 ? 'dumpBallast' : null;
+            return createInputs(frame, action, action);
+        });
+
+        const p1Events = events.filter((e) => 'playerId' in e && e.playerId === 'player1');
+        expect(state.players.player1!.state).toBe(PlayerState.Escaped);
+        expect(p1Events.map((e) => e.type)).toEqual([GameEventType.Eject, GameEventType.Escape]);
+        expect(p1Events[0]).toMatchObject({ frame: 10 });
+        expect(p1Events[1]).toMatchObject({ maxDepth: state.players.player1!.maxDepthReached });
+    });
+
+    it('emits an implosion with its cause when a player dies', () => {
+        const { state, events } = collectEvents((frame) => createInputs(frame));
+
+        for (const playerId of ['player1', 'player2'] as const) {
+            const player = state.players[playerId]!;
+            const implosions = events.filter(
+                (e) => e.type === GameEventType.Implosion && e.playerId === playerId
+            );
+            expect(implosions).toHaveLength(player.state === PlayerState.Dead ? 1 : 0);
+            if (player.state === PlayerState.Dead) {
+                expect(implosions[0]).toMatchObject({ cause: player.deathCause });
+            }
+        }
+    });
+
+    it('emits a fired event per projectile and ties hits back to it', () => {
+        const { events } = collectEvents(
+            (frame) =>
+                createInputs(
+                    frame,
+                    frame % 30 === 5 ? 'fireRocket' : null,
+                    frame === 20 ? 'deployMine' : null
+                ),
+            600
+        );
+
+        const fired = events.filter((e) => e.type === GameEventType.ProjectileFired);
+        expect(fired.filter((e) => e.playerId === 'player1').length).toBeGreaterThan(0);
+        expect(fired).toContainEqual(
+            expect.objectContaining({ playerId: 'player2', projectileType: ProjectileType.Mine })
+        );
+
+        const firedIds = new Set(fired.map((e) => e.projectileId));
+        for (const event of events) {
+            if (event.type === GameEventType.ProjectileHit) {
+                expect(firedIds.has(event.projectileId)).toBe(true);
+            }
+        }
+    });
+
+    it('stamps events with the frame that produced them', () => {
+        let state = createInitialState(defaultConfig);
+        for (let i = 0; i < 50; i++) {
+            state = updateGameState(state, createInputs(i), FIXED_DT);
+        }
+
+        const step = stepGameState(state, createInputs(50, 'fireRocket'), FIXED_DT);
+
+        expect(step.events).toContainEqual(
+            expect.objectContaining({ type: GameEventType.ProjectileFired, frame: 50 })
+        );
+        expect(step.state.frame).toBe(51);
+    });
+
+    it('matches updateGameState exactly', () => {
+        const getInputs = (frame: number) =>
+            createInputs(
+                frame,
+                frame % 45 === 0 ? 'fireRocket' : null,
+                frame === 300 ? 'dumpBallast' : null
+            );
+
+        let stepped = createInitialState(defaultConfig);
+        let updated = createInitialState(defaultConfig);
+        for (let i = 0; i < 400; i++) {
+            stepped = stepGameState(stepped, getInputs(i), FIXED_DT).state;
+            updated = updateGameState(updated, getInputs(i), FIXED_DT);
+        }
+
+        expect(hashState(stepped)).toBe(hashState(updated));
+    });
+});
@@ -4,15 +4,22 @@
 
 import { describe, it, expect } from 'vitest';
 import { createInitialState, updateGameState } from '../gameState';
-import type { PlayerInputFrame, PlayerId } from '../types';
-import { PlayerState } from '../types';
-import { FIXED_DT, CANVAS_WIDTH, CANVAS_HEIGHT, MAX_DEPTH } from '../config';
+import type {
+    EngineConfig,
+    GameState,
+    PlayerInputFrame,
+    PlayerId,
+    Projectile,
+    PlayerMap,
+} from '../types';
+import { PlayerState, DeathCause, ObstacleType, ProjectileType } from '../types';
+import { FIXED_DT, WORLD_WIDTH, WORLD_HEIGHT, MAX_DEPTH } from '../config';
 
 const defaultConfig = {
     seed: 12345,
     maxDepth: MAX_DEPTH,
-    canvasWidth: CANVAS_WIDTH,
-    canvasHeight: CANVAS_HEIGHT,
+    worldWidth: WORLD_WIDTH,
+    worldHeight: WORLD_HEIGHT,
 };
 
 function createEmptyInput(frame: number): PlayerInputFrame {
@@ -22,7 +29,7 @@ function createEmptyInput(frame: number): PlayerInputFrame {
 function createInputs(
     frame: number,
     overrides: Partial<Record<PlayerId, Partial<PlayerInputFrame>>> = {}
-): Record<PlayerId, PlayerInputFrame> {
+): PlayerMap<PlayerInputFrame> {
     return {
         player1: { ...createEmptyInput(frame), ...overrides.player1 },
         player2: { ...createEmptyInput(frame), ...overrides.player2 },
@@ -45,11 +52,11 @@ describe('Game State Determinism', () => {
         }
 
         expect(s1.frame).toBe(s2.frame);
-        expect(s1.players.player1.y).toBe(s2.players.player1.y);
-        expect(s1.players.player2.y).toBe(s2.players.player2.y);
-        expect(s1.players.player1.wear).toBe(s2.players.player1.wear);
+        expect(s1.players.player1!.y).toBe(s2.players.player1!.y);
+        expect(s1.players.player2!.y).toBe(s2.players.player2!.y);
+        expect(s1.players.player1!.wear).toBe(s2.players.player1!.wear);
         expect(s1.obstacles.length).toBe(s2.obstacles.length);
-        expect(s1.rngState).toBe(s2.rngState);
+        expect(s1.rngStreams).toEqual(s2.rngStreams);
     });
 
     it('produces different obstacle layouts for different seeds', () => {
@@ -95,18 +102,36 @@ describe('Game State Determinism', () => {
         }
 
         // Player 1 positions should differ
-        expect(s1.players.player1.x).not.toBe(s2.players.player1.x);
-        expect(s1.players.player1.x).toBeLessThan(s2.players.player1.x);
+        expect(s1.players.player1!.x).not.toBe(s2.players.player1!.x);
+        expect(s1.players.player1!.x).toBeLessThan(s2.players.player1!.x);
 
         // Player 2 should be same in both
-        expect(s1.players.player2.x).toBe(s2.players.player2.x);
+        expect(s1.players.player2!.x).toBe(s2.players.player2!.x);
+    });
+
+    it('simulates inside the configured world width', () => {
+        const narrowConfig = { ...defaultConfig, worldWidth: 800 };
+        let s = createInitialState(narrowConfig);
+
+        expect(s.worldWidth).toBe(800);
+        expect(s.players.player2!.x).toBe(800 * 0.65);
+
+        for (let i = 0; i < 600; i++) {
+            s = updateGameState(s, createInputs(i, { player2: { right: true } }), FIXED_DT);
+        }
+
+        const player2 = s.players.player2!;
+        expect(player2.x + player2.width).toBeLessThanOrEqual(800);
+        for (const obstacle of s.obstacles) {
+            expect(obstacle.x + obstacle.width).toBeLessThanOrEqual(800);
+        }
     });
 
     it('replay produces identical final state', () => {
         const state = createInitialState(defaultConfig);
 
         // Record a sequence of inputs
-        const inputHistory: Record<PlayerId, PlayerInputFrame>[] = [];
+        const inputHistory: PlayerMap<PlayerInputFrame>[] = [];
         let s = state;
 
         for (let i = 0; i < 100; i++) {
@@ -133,36 +158,36 @@ describe('Game State Determinism', () => {
         }
 
         expect(s2.frame).toBe(finalState1.frame);
-        expect(s2.players.player1.x).toBeCloseTo(finalState1.players.player1.x, 10);
-        expect(s2.players.player1.y).toBeCloseTo(finalState1.players.player1.y, 10);
-        expect(s2.players.player2.x).toBeCloseTo(finalState1.players.player2.x, 10);
-        expect(s2.players.player2.y).toBeCloseTo(finalState1.players.player2.y, 10);
-        expect(s2.rngState).toBe(finalState1.rngState);
+        expect(s2.players.player1!.x).toBeCloseTo(finalState1.players.player1!.x, 10);
+        expect(s2.players.player1!.y).toBeCloseTo(finalState1.players.player1!.y, 10);
+        expect(s2.players.player2!.x).toBeCloseTo(finalState1.players.player2!.x, 10);
+        expect(s2.players.player2!.y).toBeCloseTo(finalState1.players.player2!.y, 10);
+        expect(s2.rngStreams).toEqual(finalState1.rngStreams);
     });
 });
 
 describe('Game Mechanics', () => {
     it('players descend over time', () => {
         let state = createInitialState(defaultConfig);
-        const initialY = state.players.player1.y;
+        const initialY = state.players.player1!.y;
 
         for (let i = 0; i < 60; i++) {
             state = updateGameState(state, createInputs(i), FIXED_DT);
         }
 
-        expect(state.players.player1.y).toBeGreaterThan(initialY);
-        expect(state.players.player2.y).toBeGreaterThan(initialY);
+        expect(state.players.player1!.y).toBeGreaterThan(initialY);
+        expect(state.players.player2!.y).toBeGreaterThan(initialY);
     });
 
     it('wear increases over time', () => {
         let state = createInitialState(defaultConfig);
-        const initialWear = state.players.player1.wear;
+        const initialWear = state.players.player1!.wear;
 
         for (let i = 0; i < 120; i++) {
             state = updateGameState(state, createInputs(i), FIXED_DT);
         }
 
-        expect(state.players.player1.wear).toBeGreaterThan(initialWear);
+        expect(state.players.player1!.wear).toBeGreaterThan(initialWear);
     });
 
     it('dump ballast switches player to ascending', () => {
@@ -173,15 +198,15 @@ describe('Game Mechanics', () => {
             state = updateGameState(state, createInputs(i), FIXED_DT);
         }
 
-        expect(state.players.player1.state).toBe(PlayerState.Descending);
+        expect(state.players.player1!.state).toBe(PlayerState.Descending);
 
         // Player 1 dumps ballast
         const inputs = createInputs(60, { player1: { action: 'dumpBallast' } });
         state = updateGameState(state, inputs, FIXED_DT);
 
-        expect(state.players.player1.state).toBe(PlayerState.Ascending);
-        expect(state.players.player1.hp).toBe(1); // Capsule has 1 HP
-        expect(state.players.player2.state).toBe(PlayerState.Descending); // P2 still diving
+        expect(state.players.player1!.state).toBe(PlayerState.Ascending);
+        expect(state.players.player1!.hp).toBe(1); // Capsule has 1 HP
+        expect(state.players.player2!.state).toBe(PlayerState.Descending); // P2 still diving
     });
 
     it('ascending player moves upward', () => {
@@ -192,7 +217,7 @@ describe('Game Mechanics', () => {
             state = updateGameState(state, createInputs(i), FIXED_DT);
         }
 
-        const depthBeforeAscent = state.players.player1.y;
+        const depthBeforeAscent = state.players.player1!.y;
         expect(depthBeforeAscent).toBeGreaterThan(100); // Ensure we dove deep enough
 
         // Dump ballast
@@ -208,8 +233,8 @@ describe('Game Mechanics', () => {
         }
 
         // Player should have moved upward (either still ascending or escaped)
-        expect(state.players.player1.y).toBeLessThan(depthBeforeAscent);
-        expect([PlayerState.Ascending, PlayerState.Escaped]).toContain(state.players.player1.state);
+        expect(state.players.player1!.y).toBeLessThan(depthBeforeAscent);
+        expect([PlayerState.Ascending, PlayerState.Escaped]).toContain(state.players.player1!.state);
     });
 
     it('player escapes when reaching surface', () => {
@@ -229,12 +254,12 @@ describe('Game Mechanics', () => {
 
         // Keep ascending until escaped or timeout
         let frame = 31;
-        while (state.players.player1.state === PlayerState.Ascending && frame < 1000) {
+        while (state.players.player1!.state === PlayerState.Ascending && frame < 1000) {
             state = updateGameState(state, createInputs(frame), FIXED_DT);
             frame++;
         }
 
-        expect(state.players.player1.state).toBe(PlayerState.Escaped);
+        expect(state.players.player1!.state).toBe(PlayerState.Escaped);
     });
 
     it('game ends when both players are done', () => {
@@ -257,6 +282,149 @@ describe('Game Mechanics', () => {
     });
 });
 
+/** A state with nothing generated around the players, so hazards can be placed by hand */
+function createArenaState(config: EngineConfig = defaultConfig): GameState {
+    const state = createInitialState(config);
+    // Mark the chunks around the start as already streamed in, so none get generated
+    const { loadedChunks } = updateGameState(state, createInputs(0), FIXED_DT);
+    return {
+        ...state,
+        obstacles: [],
+        pickups: [],
+        loadedChunks,
+        generatedDepth: Number.MAX_SAFE_INTEGER,
+    };
+}
+
+/** Put player 1 on its last HP */
+function withLastHp(state: GameState): GameState {
+    return {
+        ...state,
+        players: { ...state.players, player1: { ...state.players.player1!, hp: 1 } },
+    };
+}
+
+function createProjectileOnPlayer1(state: GameState, type: ProjectileType): Projectile {
+    const target = state.players.player1!;
+    return {
+        id: 'projectile_test',
+        type,
+        ownerId: 'player2',
+        x: target.x,
+        y: target.y,
+        width: 10,
+        height: 10,
+        velocityX: 0,
+        velocityY: 0,
+        damage: type === ProjectileType.Mine ? 4 : 1,
+        lifetime: 100,
+        active: true,
+    };
+}
+
+describe('Damage', () => {
+    it('a fatal fish bite kills the player', () => {
+        const state = withLastHp(createArenaState());
+        const target = state.players.player1!;
+        const biting: GameState = {
+            ...state,
+            anglerFish: [
+                {
+                    id: 'fish_test',
+                    x: target.x,
+                    y: target.y,
+                    width: 20,
+                    height: 20,
+                    velocityX: 0,
+                    velocityY: 0,
+                    targetPlayerId: 'player1',
+                    aggroRadius: 300,
+                    speed: 0,
+                    damage: 1,
+                    active: true,
+                },
+            ],
+        };
+
+        const next = updateGameState(biting, createInputs(0), FIXED_DT);
+
+        expect(next.players.player1!.hp).toBe(0);
+        expect(next.players.player1!.state).toBe(PlayerState.Dead);
+        expect(next.players.player1!.deathCause).toBe(DeathCause.EatenByAngler);
+        expect(next.players.player1!.killedBy).toBeUndefined();
+    });
+
+    it('credits the attacker for rocket and mine kills', () => {
+        const state = withLastHp(createArenaState());
+
+        for (const [type, cause] of [
+            [ProjectileType.Rocket, DeathCause.KilledByRocket],
+            [ProjectileType.Mine, DeathCause.KilledByMine],
+        ] as const) {
+            const next = updateGameState(
+                { ...state, projectiles: [createProjectileOnPlayer1(state, type)] },
+                createInputs(0),
+                FIXED_DT
+            );
+
+            expect(next.players.player1!.state).toBe(PlayerState.Dead);
+            expect(next.players.player1!.deathCause).toBe(cause);
+            expect(next.players.player1!.killedBy).toBe('player2');
+            expect(next.players.player1!.passengers.every((p) => !p.alive)).toBe(true);
+        }
+    });
+
+    it('a fatal ice block collision crushes the player', () => {
+        const state = withLastHp(createArenaState());
+        const target = state.players.player1!;
+        const next = updateGameState(
+            {
+                ...state,
+                obstacles: [
+                    {
+                        id: 'ice_test',
+                        type: ObstacleType.IceBlock,
+                        x: target.x,
+                        y: target.y,
+                        width: 40,
+                        height: 40,
+                        velocityX: 0,
+                        velocityY: 0,
+                        active: true,
+                    },
+                ],
+            },
+            createInputs(0),
+            FIXED_DT
+        );
+
+        expect(next.players.player1!.state).toBe(PlayerState.Dead);
+        expect(next.players.player1!.deathCause).toBe(DeathCause.CrushedByIce);
+    });
+
+    it('invincible players take no damage', () => {
+        const state = createArenaState();
+        const invincible: GameState = {
+            ...state,
+            players: {
+                ...state.players,
+                player1: { ...state.players.player1!, invincibilityFrames: 30 },
+            },
+        };
+        const next = updateGameState(
+            {
+                ...invincible,
+                projectiles: [createProjectileOnPlayer1(state, ProjectileType.Mine)],
+            },
+            createInputs(0),
+            FIXED_DT
+        );
+
+        expect(next.players.player1!.hp).toBe(state.players.player1!.hp);
+        expect(next.players.player1!.state).toBe(PlayerState.Descending);
+    });
+});
+
 describe('Obstacle Generation', () => {
     it('generates obstacles as players descend', () => {
         let state = createInitialState(defaultConfig);
@@ -284,3 +452,56 @@ describe('Obstacle Generation', () => {
         expect(types.size).toBeGreaterThan(1);
     });
 });
+
+describe('Three and four players', () => {
+    const idle = (frame: number, playerIds: PlayerId[]): PlayerMap<PlayerInputFrame> =>
+        Object.fromEntries(playerIds.map((playerId) => [playerId, createEmptyInput(frame)]));
+
+    /** Have player 2 of a three-player match fire a rocket, with player 3 moved close by */
+    function fireFromMiddleSeat(rocketTarget?: PlayerId): Projectile {
+        const state = createArenaState({ ...defaultConfig, playerCount: 3 });
+        const nearby = { ...state, players: { ...state.players } };
+        nearby.players.player3 = { ...state.players.player3!, x: state.players.player2!.x + 350 };
+        const inputs = idle(0, state.playerIds);
+        inputs.player2 = { ...createEmptyInput(0), action: 'fireRocket', rocketTarget };
+
+        const next = updateGameState(nearby, inputs, FIXED_DT);
+        return next.projectiles.find((p) => p.type === ProjectileType.Rocket)!;
+    }
+
+    it('seats four submarines apart from each other', () => {
+        const state = createInitialState({ ...defaultConfig, playerCount: 4 });
+        const xs = state.playerIds.map((playerId) => state.players[playerId]!.x);
+
+        expect(state.playerIds).toEqual(['player1', 'player2', 'player3', 'player4']);
+        expect(Object.keys(state.stats)).toEqual(state.playerIds);
+        expect(xs).toEqual([...xs].sort((a, b) => a - b));
+        expect(new Set(xs).size).toBe(4);
+    });
+
+    it('plays a four-player match to the end', () => {
+        let state = createInitialState({ ...defaultConfig, playerCount: 4 });
+        while (!state.gameOver && state.frame < 50000) {
+            const inputs = idle(state.frame, state.playerIds);
+            if (state.frame === 30) {
+                for (const playerId of state.playerIds) inputs[playerId]!.action = 'dumpBallast';
+            }
+            state = updateGameState(state, inputs, FIXED_DT);
+        }
+
+        expect(state.gameOver).toBe(true);
+        expect(state.winner).not.toBeNull();
+    });
+
+    it('aims rockets at the nearest opponent by default', () => {
+        expect(fireFromMiddleSeat().velocityX).toBeGreaterThan(0);
+    });
+
+    it('aims rockets at a chosen opponent', () => {
+        expect(fireFromMiddleSeat('player1').velocityX).toBeLessThan(0);
+    });
+
+    it('rejects more than four players', () => {
+        expect(() => createInitialState({ ...defaultConfig, playerCount: 5 })).toThrow(/1 to 4/);
+    });
+});
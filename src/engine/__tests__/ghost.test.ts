@@ -0,0 +1,101 @@
+/**
+ * Tests for racing a ghost re-simulated from a recorded run.
+ */
+
+import { describe, it, expect } from 'vitest';
+import { createInitialState, updateGameState } from '../gameState';
+import { ReplayRecorder, simulateReplay } from '../replay';
+import { createGhostTrack, getGhostGap, getGhostVehicle } from '../ghost';
+import type { EngineConfig, GameState, PlayerAction, Replay } from '../types';
+import { PlayerState } from '../types';
+import { FIXED_DT, WORLD_WIDTH, WORLD_HEIGHT, MAX_DEPTH } from '../config';
+
+const soloConfig: EngineConfig = {
+    seed: 777,
+    maxDepth: MAX_DEPTH,
+    worldWidth: WORLD_WIDTH,
+    worldHeight: WORLD_HEIGHT,
+    playerCount: 1,
+};
+
+/** Dive, holding down if asked, and eject on the given frame */
+function diveInputs(frame: number, holdDown: boolean, ejectFrame: number) {
+    const action: PlayerAction = frame === ejectFrame ? 'dumpBallast' : null;
+    return { player1: { frame, up: false, down: holdDown, left: false, right: false, action } };
+}
+
+function recordDive(holdDown: boolean, ejectFrame: number): Replay {
+    const recorder = new ReplayRecorder(soloConfig);
+    let state = createInitialState(soloConfig);
+    while (!state.gameOver && state.frame < 20000) {
+        const inputs = diveInputs(state.frame, holdDown, ejectFrame);
+        recorder.record(inputs);
+        state = updateGameState(state, inputs, FIXED_DT);
+    }
+    return recorder.finish(state);
+}
+
+/** Replay a dive live, checking the gap to the ghost on every frame */
+function raceDive(
+    holdDown: boolean,
+    ejectFrame: number,
+    check: (state: GameState) => void
+): GameState {
+    let state = createInitialState(soloConfig);
+    while (!state.gameOver && state.frame < 20000) {
+        state = updateGameState(state, diveInputs(state.frame, holdDown, ejectFrame), FIXED_DT);
+        check(state);
+    }
+    return state;
+}
+
+describe('Ghost racing', () => {
+    const replay = recordDive(true, 300);
+    const track = createGhostTrack(replay);
+
+    it("follows the recorded sub's path to the end of the run", () => {
+        const finalState = simulateReplay(replay);
+
+        expect(track.playerId).toBe('player1');
+        expect(track.frames).toHaveLength(replay.frameCount + 1);
+        expect(track.ejectFrame).toBeGreaterThan(300);
+        expect(getGhostVehicle(track, replay.frameCount)).toEqual(finalState.players.player1);
+        expect(getGhostVehicle(track, replay.frameCount + 500)).toEqual(
+            finalState.players.player1
+        );
+    });
+
+    it('shows no gap when the same dive is repeated', () => {
+        raceDive(true, 300, (state) => {
+            const player = state.players.player1!;
+            if (player.state === PlayerState.Escaped) return;
+
+            expect(getGhostGap(track, player, state.frame)).toEqual({
+                depthGap: 0,
+                timeGapFrames: 0,
+            });
+        });
+    });
+
+    it('puts a slower diver above and behind the ghost', () => {
+        raceDive(false, 300, (state) => {
+            const player = state.players.player1!;
+            if (state.frame !== 200) return;
+            const gap = getGhostGap(track, player, state.frame);
+
+            expect(gap.depthGap).toBeLessThan(0);
+            expect(gap.timeGapFrames).toBeGreaterThan(0);
+        });
+    });
+
+    it('has no time gap where the ghost never got to', () => {
+        const deepest = Math.max(...track.frames.map((ghost) => ghost.maxDepthReached));
+        const player = { ...track.frames[0], maxDepthReached: deepest + 100 };
+
+        expect(getGhostGap(track, player, 100).timeGapFrames).toBeNull();
+    });
+
+    it('rejects a seat the replay does not have', () => {
+        expect(() => createGhostTrack(replay, 'player2')).toThrow(/no player2/);
+    });
+});
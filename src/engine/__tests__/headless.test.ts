@@ -0,0 +1,67 @@
+/**
+ * Tests for the headless match runner.
+ */
+
+import { describe, it, expect } from 'vitest';
+import { runHeadlessMatch, packedInputSource, simulateMatch } from '../headless';
+import { createInitialState } from '../gameState';
+import { packInput } from '../replay';
+import { WORLD_WIDTH, WORLD_HEIGHT, MAX_DEPTH } from '../config';
+import { createScriptedInputs, recordScriptedMatch } from './scriptedMatch';
+
+const defaultConfig = {
+    seed: 31337,
+    maxDepth: MAX_DEPTH,
+    worldWidth: WORLD_WIDTH,
+    worldHeight: WORLD_HEIGHT,
+};
+
+describe('Headless runner', () => {
+    it('reproduces a recorded match from its packed inputs', () => {
+        const { replay, state } = recordScriptedMatch(defaultConfig);
+
+        const result = runHeadlessMatch(defaultConfig, packedInputSource(replay.inputs));
+
+        expect(result.completed).toBe(true);
+        expect(result.frames).toBe(replay.frameCount);
+        expect(result.finalStateHash).toBe(replay.finalStateHash);
+        expect(result.results.winner).toBe(state.winner);
+    });
+
+    it('stops at the frame limit', () => {
+        const idle = packedInputSource({ player1: [], player2: [] });
+        const result = runHeadlessMatch(defaultConfig, idle, 100);
+
+        expect(result.frames).toBe(100);
+        expect(result.completed).toBe(false);
+    });
+
+    it('idles once an input stream runs out', () => {
+        const held = packInput(createScriptedInputs(0).player1!);
+        const getInputs = packedInputSource({ player1: [held], player2: [] });
+
+        expect(getInputs(0, createInitialState(defaultConfig)).player1!.left).toBe(true);
+        expect(getInputs(5, createInitialState(defaultConfig)).player1).toEqual({
+            frame: 5,
+            left: false,
+            right: false,
+            up: false,
+            down: false,
+            action: null,
+        });
+    });
+
+    it('passes the current state to the input source', () => {
+        const frames: number[] = [];
+        simulateMatch(
+            defaultConfig,
+            (frame, state) => {
+                frames.push(state.frame);
+                return createScriptedInputs(frame);
+            },
+            5
+        );
+
+        expect(frames).toEqual([0, 1, 2, 3, 4]);
+    });
+});
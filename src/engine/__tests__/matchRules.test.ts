@@ -0,0 +1,123 @@
+/**
+ * Tests for turning setup screen house rules into engine configs.
+ */
+
+import { describe, it, expect } from 'vitest';
+import { createInitialState, updateGameState } from '../gameState';
+import type { GameState, PlayerInputFrame, PlayerMap } from '../types';
+import { ObstacleType } from '../types';
+import {
+    DEFAULT_MATCH_RULES,
+    PickupFrequency,
+    buildMatchConfig,
+    buildRuleset,
+    describeMatchRules,
+    findMatchRules,
+    parseMatchRules,
+} from '../matchRules';
+import { NORMAL_RULESET, RULESET_PRESETS, RulesetPreset } from '../ruleset';
+import { FIXED_DT, WORLD_WIDTH } from '../config';
+
+function runFrames(state: GameState, frames: number): GameState {
+    const idle = { up: false, down: false, left: false, right: false, action: null };
+    for (let i = 0; i < frames; i++) {
+        const inputs: PlayerMap<PlayerInputFrame> = {
+            player1: { frame: i, ...idle },
+            player2: { frame: i, ...idle },
+        };
+        state = updateGameState(state, inputs, FIXED_DT);
+    }
+    return state;
+}
+
+describe('Match rules', () => {
+    it('leave the base preset untouched by default', () => {
+        expect(buildRuleset(DEFAULT_MATCH_RULES)).toEqual(NORMAL_RULESET);
+        expect(describeMatchRules(DEFAULT_MATCH_RULES)).toEqual([]);
+    });
+
+    it('apply each option to the ruleset', () => {
+        const ruleset = buildRuleset({
+            preset: 'hard',
+            weapons: false,
+            anglerFish: false,
+            pickupFrequency: PickupFrequency.Frequent,
+            startingHp: 6,
+            wearMultiplier: 2,
+            maxDepth: 5000,
+        });
+        const hard = RULESET_PRESETS.hard;
+
+        expect(ruleset.startingRockets).toBe(0);
+        expect(ruleset.startingMines).toBe(0);
+        expect(ruleset.ammoPickupChance).toBe(0);
+        expect(ruleset.anglerFishMaxCount).toBe(0);
+        expect(ruleset.hpPickupChance).toBe(hard.hpPickupChance * 2);
+        expect(ruleset.subStartingHp).toBe(6);
+        expect(ruleset.mineDamage).toBe(6);
+        expect(ruleset.baseWearRate).toBe(hard.baseWearRate * 2);
+        expect(ruleset.collisionWear[ObstacleType.IceBlock]).toBe(
+            hard.collisionWear[ObstacleType.IceBlock] * 2
+        );
+    });
+
+    it('build a config the engine plays with', () => {
+        const rules = { ...DEFAULT_MATCH_RULES, weapons: false, startingHp: 2, maxDepth: 2500 };
+        const state = runFrames(createInitialState(buildMatchConfig(rules, 99)), 60);
+
+        expect(state.seed).toBe(99);
+        expect(state.maxDepth).toBe(2500);
+        expect(state.players.player1!.hp).toBe(2);
+        expect(state.players.player1!.rocketsRemaining).toBe(0);
+    });
+
+    it('describe only the options that differ from the defaults', () => {
+        const labels = describeMatchRules({
+            ...DEFAULT_MATCH_RULES,
+            anglerFish: false,
+            wearMultiplier: 1.5,
+        });
+
+        expect(labels).toEqual(['NO FISH', 'WEAR ×1.5']);
+    });
+
+    it('are found again from the config they built, even after a JSON round trip', () => {
+        const rules = {
+            ...DEFAULT_MATCH_RULES,
+            preset: RulesetPreset.Hard,
+            anglerFish: false,
+            pickupFrequency: PickupFrequency.Rare,
+            startingHp: 6,
+            wearMultiplier: 0.75,
+            maxDepth: 5000,
+        };
+        const config = JSON.parse(JSON.stringify(buildMatchConfig(rules, 7)));
+
+        expect(findMatchRules(config)).toEqual(rules);
+        expect(findMatchRules({ ...config, ruleset: undefined, maxDepth: 10000 })).toEqual(
+            DEFAULT_MATCH_RULES
+        );
+    });
+
+    it('are not found for a tuned ruleset or a resized world', () => {
+        const config = buildMatchConfig(DEFAULT_MATCH_RULES, 7);
+
+        expect(
+            findMatchRules({ ...config, ruleset: { ...config.ruleset!, turtleSpeed: 0 } })
+        ).toBeNull();
+        expect(findMatchRules({ ...config, worldWidth: WORLD_WIDTH + 1 })).toBeNull();
+        expect(findMatchRules({ ...config, maxDepth: 100 })).toBeNull();
+    });
+
+    it('fall back to defaults for missing or unknown saved options', () => {
+        expect(parseMatchRules(null)).toEqual(DEFAULT_MATCH_RULES);
+        expect(
+            parseMatchRules({
+                preset: 'nightmare',
+                weapons: false,
+                startingHp: 1000,
+                maxDepth: 5000,
+            })
+        ).toEqual({ ...DEFAULT_MATCH_RULES, weapons: false, maxDepth: 5000 });
+    });
+});
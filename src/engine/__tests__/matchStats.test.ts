@@ -0,0 +1,97 @@
+/**
+ * Tests for per-match player statistics.
+ */
+
+import { describe, it, expect } from 'vitest';
+import { createInitialState, stepGameState } from '../gameState';
+import type { GameEvent, GameState, PlayerAction, PlayerInputFrame, PlayerMap } from '../types';
+import { GameEventType, PlayerState } from '../types';
+import { FIXED_DT, WORLD_WIDTH, WORLD_HEIGHT, MAX_DEPTH } from '../config';
+
+const defaultConfig = {
+    seed: 2718,
+    maxDepth: MAX_DEPTH,
+    worldWidth: WORLD_WIDTH,
+    worldHeight: WORLD_HEIGHT,
+};
+
+function createInput(frame: number, action: PlayerAction, left = false): PlayerInputFrame {
+    return { frame, left, right: false, up: false, down: true, action };
+}
+
+/** Run a match to the end, collecting every event */
+function playMatch(
+    getInputs: (frame: number) => PlayerMap<PlayerInputFrame>
+): { state: GameState; events: GameEvent[] } {
+    let state = createInitialState(defaultConfig);
+    const events: GameEvent[] = [];
+    while (!state.gameOver && state.frame < 20000) {
+        const step = stepGameState(state, getInputs(state.frame), FIXED_DT);
+        state = step.state;
+        events.push(...step.events);
+    }
+    return { state, events };
+}
+
+describe('Match stats', () => {
+    it('starts empty', () => {
+        const { stats } = createInitialState(defaultConfig);
+
+        expect(stats.player1!.distanceTravelled).toBe(0);
+        expect(stats.player2!.rocketsFired).toBe(0);
+        expect(Object.values(stats.player1!.collisions)).toEqual([0, 0, 0]);
+    });
+
+    it('adds up to what happened in the match', () => {
+        const { state, events } = playMatch((frame) => ({
+            player1: createInput(frame, frame % 40 === 10 ? 'fireRocket' : null, frame % 9 < 3),
+            player2: createInput(
+                frame,
+                frame === 30 ? 'deployMine' : frame === 900 ? 'dumpBallast' : null
+            ),
+        }));
+        const player1 = state.stats.player1!;
+        const player2 = state.stats.player2!;
+
+        const p1Fired = events.filter(
+            (e) => e.type === GameEventType.ProjectileFired && e.playerId === 'player1'
+        );
+        expect(player1.rocketsFired).toBe(p1Fired.length);
+        expect(player1.rocketsFired).toBeGreaterThan(0);
+        expect(player2.minesPlaced).toBe(1);
+
+        for (const playerId of ['player1', 'player2'] as const) {
+            const stats = state.stats[playerId]!;
+            const collisions = events.filter(
+                (e) => e.type === GameEventType.Collision && e.playerId === playerId
+            );
+            expect(Object.values(stats.collisions).reduce((a, b) => a + b, 0)).toBe(
+                collisions.length
+            );
+            expect(stats.peakWear).toBeGreaterThanOrEqual(state.players[playerId]!.wear);
+            expect(stats.distanceTravelled).toBeGreaterThan(0);
+        }
+
+        let p1DamageDealt = 0;
+        for (const event of events) {
+            if (event.type === GameEventType.ProjectileHit && event.ownerId === 'player1') {
+                p1DamageDealt += event.damage;
+            }
+        }
+        expect(player1.damageDealt).toBe(p1DamageDealt);
+    });
+
+    it('splits time between descending and ascending', () => {
+        const { state } = playMatch((frame) => ({
+            player1: createInput(frame, frame === 100 ? 'dumpBallast' : null),
+            player2: createInput(frame, frame === 100 ? 'dumpBallast' : null),
+        }));
+
+        expect(state.players.player1!.state).toBe(PlayerState.Escaped);
+        expect(state.stats.player1!.descentFrames).toBe(100);
+        expect(state.stats.player1!.ascentFrames).toBeGreaterThan(0);
+        expect(state.stats.player1!.descentFrames + state.stats.player1!.ascentFrames).toBeLessThan(
+            state.frame
+        );
+    });
+});
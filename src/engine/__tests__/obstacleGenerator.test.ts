@@ -3,17 +3,25 @@
  */
 
 import { describe, it, expect } from 'vitest';
-import { generateObstacles, updateObstacles } from '../obstacleGenerator';
-import { createRNG } from '../rng';
+import {
+    CHUNK_SIZE,
+    generateChunk,
+    generateObstacles,
+    streamObstacleChunks,
+    updateObstacles,
+} from '../obstacleGenerator';
+import type { ObstacleChunks } from '../obstacleGenerator';
+import { createInitialState, updateGameState } from '../gameState';
 import { ObstacleType } from '../types';
+import { FIXED_DT, MAX_DEPTH, WORLD_HEIGHT, WORLD_WIDTH } from '../config';
 
 describe('Obstacle Generation', () => {
-    it('generates obstacles deterministically for same RNG state', () => {
-        const rng1 = createRNG(12345);
-        const rng2 = createRNG(12345);
+    it('generates obstacles deterministically for the same seed', () => {
+        const seed1 = 12345;
+        const seed2 = 12345;
 
-        const obstacles1 = generateObstacles(rng1, [], 0, 500);
-        const obstacles2 = generateObstacles(rng2, [], 0, 500);
+        const obstacles1 = generateObstacles(seed1, [], 0, 500);
+        const obstacles2 = generateObstacles(seed2, [], 0, 500);
 
         expect(obstacles1.length).toBe(obstacles2.length);
 
@@ -27,11 +35,11 @@ describe('Obstacle Generation', () => {
     });
 
     it('generates different obstacles for different seeds', () => {
-        const rng1 = createRNG(11111);
-        const rng2 = createRNG(22222);
+        const seed1 = 11111;
+        const seed2 = 22222;
 
-        const obstacles1 = generateObstacles(rng1, [], 0, 500);
-        const obstacles2 = generateObstacles(rng2, [], 0, 500);
+        const obstacles1 = generateObstacles(seed1, [], 0, 500);
+        const obstacles2 = generateObstacles(seed2, [], 0, 500);
 
         // Convert to string for comparison
         const str1 = JSON.stringify(obstacles1);
@@ -41,14 +49,14 @@ describe('Obstacle Generation', () => {
     });
 
     it('does not regenerate existing chunks', () => {
-        const rng = createRNG(33333);
+        const seed = 33333;
 
         // Generate first batch
-        const obstacles1 = generateObstacles(rng, [], 0, 200);
+        const obstacles1 = generateObstacles(seed, [], 0, 200);
         const count1 = obstacles1.length;
 
         // Generate more, should only add new ones
-        const obstacles2 = generateObstacles(rng, obstacles1, 200, 400);
+        const obstacles2 = generateObstacles(seed, obstacles1, 200, 400);
 
         // All original obstacles should still be there
         for (const o of obstacles1) {
@@ -60,10 +68,10 @@ describe('Obstacle Generation', () => {
     });
 
     it('generates obstacles at appropriate depths', () => {
-        const rng = createRNG(44444);
+        const seed = 44444;
 
         // Generate obstacles for shallow depth
-        const shallowObstacles = generateObstacles(rng, [], 0, 500);
+        const shallowObstacles = generateObstacles(seed, [], 0, 500);
 
         // Should have some coral at shallow depths
         const corals = shallowObstacles.filter((o) => o.type === ObstacleType.Coral);
@@ -71,9 +79,9 @@ describe('Obstacle Generation', () => {
     });
 
     it('generates unique IDs for obstacles', () => {
-        const rng = createRNG(55555);
+        const seed = 55555;
 
-        const obstacles = generateObstacles(rng, [], 0, 1000);
+        const obstacles = generateObstacles(seed, [], 0, 1000);
         const ids = obstacles.map((o) => o.id);
         const uniqueIds = new Set(ids);
 
@@ -83,8 +91,8 @@ describe('Obstacle Generation', () => {
 
 describe('Obstacle Updates', () => {
     it('moves obstacles with velocity', () => {
-        const rng = createRNG(66666);
-        let obstacles = generateObstacles(rng, [], 0, 500);
+        const seed = 66666;
+        let obstacles = generateObstacles(seed, [], 0, 500);
 
         // Find a turtle (they have velocity)
         const turtleIndex = obstacles.findIndex((o) => o.type === ObstacleType.SeaTurtle);
@@ -106,8 +114,8 @@ describe('Obstacle Updates', () => {
     });
 
     it('stationary obstacles do not move', () => {
-        const rng = createRNG(77777);
-        let obstacles = generateObstacles(rng, [], 0, 500);
+        const seed = 77777;
+        let obstacles = generateObstacles(seed, [], 0, 500);
 
         // Find coral (they don't move)
         const coralIndex = obstacles.findIndex((o) => o.type === ObstacleType.Coral);
@@ -126,3 +134,71 @@ describe('Obstacle Updates', () => {
         }
     });
 });
+
+describe('Chunk streaming', () => {
+    const empty: ObstacleChunks = {
+        obstacles: [],
+        loadedChunks: { first: 0, last: -1 },
+        consumedObstacles: {},
+    };
+
+    it('generates the same chunk regardless of what was generated before', () => {
+        const direct = generateChunk(8080, 25);
+        const afterOthers = generateObstacles(8080, generateObstacles(8080, [], 0, 1000), 1000, 3000);
+
+        expect(afterOthers.filter((o) => o.id.startsWith('obs_25_'))).toEqual(direct);
+    });
+
+    it('loads only the chunks covering the requested range', () => {
+        const streamed = streamObstacleChunks(empty, 8080, 1000, 1800);
+
+        expect(streamed.loadedChunks).toEqual({ first: 10, last: 18 });
+        for (const obstacle of streamed.obstacles) {
+            const chunkIndex = Number(obstacle.id.split('_')[1]);
+            expect(chunkIndex).toBeGreaterThanOrEqual(10);
+            expect(chunkIndex).toBeLessThanOrEqual(18);
+        }
+    });
+
+    it('remembers consumed obstacles across eviction and reload', () => {
+        const loaded = streamObstacleChunks(empty, 8080, 500, 1500);
+        const target = loaded.obstacles[0];
+        const consumed = {
+            ...loaded,
+            obstacles: loaded.obstacles.map((o) => (o === target ? { ...o, active: false } : o)),
+        };
+
+        const evicted = streamObstacleChunks(consumed, 8080, 3000, 4000);
+        expect(evicted.obstacles.find((o) => o.id === target.id)).toBeUndefined();
+
+        const reloaded = streamObstacleChunks(evicted, 8080, 500, 1500);
+        expect(reloaded.obstacles.find((o) => o.id === target.id)?.active).toBe(false);
+        expect(reloaded.obstacles.filter((o) => !o.active)).toHaveLength(1);
+    });
+
+    it('keeps the loaded obstacle count bounded through a full dive', () => {
+        let state = createInitialState({
+            seed: 8080,
+            maxDepth: MAX_DEPTH,
+            worldWidth: WORLD_WIDTH,
+            worldHeight: WORLD_HEIGHT,
+        });
+        const idle = { left: false, right: false, up: false, down: true, action: null };
+        let peakChunks = 0;
+        while (!state.gameOver && state.frame < 20000) {
+            state = updateGameState(
+                state,
+                {
+                    player1: { ...idle, frame: state.frame },
+                    player2: { ...idle, frame: state.frame },
+                },
+                FIXED_DT
+            );
+            const { first, last } = state.loadedChunks;
+            peakChunks = Math.max(peakChunks, last - first + 1);
+        }
+
+        expect(state.currentMaxDepth).toBeGreaterThan(WORLD_HEIGHT * 2);
+        expect(peakChunks * CHUNK_SIZE).toBeLessThan(state.currentMaxDepth);
+    });
+});
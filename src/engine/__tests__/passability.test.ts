@@ -0,0 +1,188 @@
+/**
+ * Tests that generated obstacle layouts always leave a route of MIN_PASSAGE_WIDTH.
+ */
+
+import { describe, it, expect } from 'vitest';
+import {
+    CHUNK_SIZE,
+    generateChunk,
+    generateObstacles,
+    getPassageLane,
+    isChunkPassable,
+    updateObstacles,
+} from '../obstacleGenerator';
+import { RULESET_PRESETS, RulesetPreset } from '../ruleset';
+import { createRNG } from '../rng';
+import type { Obstacle } from '../types';
+import { ObstacleType } from '../types';
+import {
+    FIXED_DT,
+    MAX_DEPTH,
+    MIN_PASSAGE_WIDTH,
+    TURTLE_MAX_DEPTH,
+    TURTLE_MIN_DEPTH,
+    WORLD_LEFT_BOUND,
+    WORLD_WIDTH,
+    getWorldRightBound,
+} from '../config';
+
+/** Gap between two boxes along the axis where they are furthest apart */
+function getGap(a: Obstacle, b: Obstacle): number {
+    const dx = Math.max(a.x, b.x) - Math.min(a.x + a.width, b.x + b.width);
+    const dy = Math.max(a.y, b.y) - Math.min(a.y + a.height, b.y + b.height);
+    return Math.max(dx, dy, 0);
+}
+
+/**
+ * Whether a MIN_PASSAGE_WIDTH square can get from the top of the field to the bottom.
+ * It can't exactly when obstacles closer than that to each other form a wall from the
+ * left edge of the world to the right edge.
+ */
+function isFieldPassable(obstacles: Obstacle[], worldWidth: number): boolean {
+    const sorted = [...obstacles].sort((a, b) => a.y - b.y);
+    const maxHeight = Math.max(0, ...sorted.map((o) => o.height));
+    const parent = sorted.map((_, i) => i);
+    const find = (i: number): number => {
+        while (parent[i] !== i) {
+            parent[i] = parent[parent[i]];
+            i = parent[i];
+        }
+        return i;
+    };
+
+    for (let i = 0; i < sorted.length; i++) {
+        for (let j = i + 1; j < sorted.length; j++) {
+            // Everything from here on is too far below obstacle i to link up with it
+            if (sorted[j].y - sorted[i].y >= maxHeight + MIN_PASSAGE_WIDTH) break;
+            if (getGap(sorted[i], sorted[j]) < MIN_PASSAGE_WIDTH) {
+                parent[find(i)] = find(j);
+            }
+        }
+    }
+
+    const rightBound = getWorldRightBound(worldWidth);
+    const touchesLeft = new Set<number>();
+    const touchesRight = new Set<number>();
+    sorted.forEach((o, i) => {
+        if (o.x - WORLD_LEFT_BOUND < MIN_PASSAGE_WIDTH) touchesLeft.add(find(i));
+        if (rightBound - (o.x + o.width) < MIN_PASSAGE_WIDTH) touchesRight.add(find(i));
+    });
+    return ![...touchesLeft].some((root) => touchesRight.has(root));
+}
+
+/** Generate a whole dive's worth of obstacles for a seed */
+function generateDive(seed: number, worldWidth: number): Obstacle[] {
+    return generateObstacles(seed, [], 0, MAX_DEPTH, worldWidth);
+}
+
+describe('Passage lanes', () => {
+    it('overlap between neighbouring chunks by at least the passage width', () => {
+        for (const worldWidth of [WORLD_WIDTH, 640, 360]) {
+            for (let seed = 0; seed < 50; seed++) {
+                for (let chunk = 0; chunk < MAX_DEPTH / CHUNK_SIZE; chunk++) {
+                    const a = getPassageLane(seed, chunk, worldWidth);
+                    const b = getPassageLane(seed, chunk + 1, worldWidth);
+                    const overlap = Math.min(a.x + a.width, b.x + b.width) - Math.max(a.x, b.x);
+                    expect(overlap).toBeGreaterThanOrEqual(MIN_PASSAGE_WIDTH);
+                    expect(a.x).toBeGreaterThanOrEqual(WORLD_LEFT_BOUND);
+                    expect(a.x + a.width).toBeLessThanOrEqual(getWorldRightBound(worldWidth));
+                }
+            }
+        }
+    });
+
+    it('depend only on the seed and chunk index', () => {
+        expect(getPassageLane(9, 42)).toEqual(getPassageLane(9, 42));
+        expect(getPassageLane(9, 42)).not.toEqual(getPassageLane(10, 42));
+    });
+
+    it('are kept clear by every generated chunk', () => {
+        const worldWidth = 480;
+        for (let seed = 0; seed < 200; seed++) {
+            const obstacles = generateDive(seed, worldWidth);
+            const byChunk = new Map<number, Obstacle[]>();
+            for (const o of obstacles) {
+                const chunk = Number(o.id.split('_')[1]);
+                byChunk.set(chunk, [...(byChunk.get(chunk) ?? []), o]);
+            }
+            for (const [chunk, chunkObstacles] of byChunk) {
+                expect(isChunkPassable(chunkObstacles, seed, chunk, worldWidth)).toBe(true);
+            }
+        }
+    });
+
+    it('stay clear while turtles swim and drift', () => {
+        const worldWidth = 480;
+        const ruleset = RULESET_PRESETS[RulesetPreset.Hard];
+        let moving = 0;
+        for (let seed = 0; seed < 10; seed++) {
+            for (
+                let chunk = TURTLE_MIN_DEPTH / CHUNK_SIZE;
+                chunk < TURTLE_MAX_DEPTH / CHUNK_SIZE;
+                chunk += 3
+            ) {
+                let obstacles = generateChunk(seed, chunk, worldWidth, ruleset);
+                moving += obstacles.filter((o) => o.velocityX !== 0).length;
+                // A minute of play, long enough for turtles to cross their range both ways
+                for (let frame = 1; frame <= 3600; frame++) {
+                    obstacles = updateObstacles(obstacles, FIXED_DT, worldWidth);
+                    if (frame % 30 === 0) {
+                        expect(isChunkPassable(obstacles, seed, chunk, worldWidth)).toBe(true);
+                    }
+                }
+            }
+        }
+        expect(moving).toBeGreaterThan(0);
+    });
+});
+
+describe('Passability', () => {
+    it('leaves a route through the full dive for thousands of seeds', () => {
+        for (let seed = 1; seed <= 2000; seed++) {
+            expect(isFieldPassable(generateDive(seed, WORLD_WIDTH), WORLD_WIDTH)).toBe(true);
+        }
+    });
+
+    it('leaves a route in narrow worlds where walls would otherwise form', () => {
+        const worldWidth = 400;
+        let blockedWithoutLanes = 0;
+        for (let seed = 1; seed <= 1000; seed++) {
+            expect(isFieldPassable(generateDive(seed, worldWidth), worldWidth)).toBe(true);
+        }
+
+        // Check the checker: random obstacles in the same narrow world without lanes do wall it off
+        for (let seed = 1; seed <= 50; seed++) {
+            const rng = createRNG(seed);
+            const walls: Obstacle[] = [];
+            for (let i = 0; i < 40; i++) {
+                walls.push({
+                    id: `wall_${i}`,
+                    type: ObstacleType.Coral,
+                    x: rng.nextFloat(WORLD_LEFT_BOUND, getWorldRightBound(worldWidth) - 80),
+                    y: rng.nextFloat(0, 1000),
+                    width: 80,
+                    height: 70,
+                    velocityX: 0,
+                    velocityY: 0,
+                    active: true,
+                });
+            }
+            if (!isFieldPassable(walls, worldWidth)) blockedWithoutLanes++;
+        }
+        expect(blockedWithoutLanes).toBeGreaterThan(0);
+    });
+
+    it('repairs chunks that would block their lane', () => {
+        const worldWidth = 400;
+        let moved = 0;
+        for (let seed = 1; seed <= 200; seed++) {
+            for (const o of generateDive(seed, worldWidth)) {
+                const chunk = Number(o.id.split('_')[1]);
+                const lane = getPassageLane(seed, chunk, worldWidth);
+                // Obstacles flush against a lane edge were slid there by the repair
+                if (o.x + o.width === lane.x || o.x === lane.x + lane.width) moved++;
+            }
+        }
+        expect(moved).toBeGreaterThan(0);
+    });
+});
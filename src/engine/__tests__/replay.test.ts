@@ -0,0 +1,161 @@
+/**
+ * Tests for replay recording, serialization and playback.
+ */
+
+import { describe, it, expect } from 'vitest';
+import {
+    packInput,
+    unpackInput,
+    simulateReplay,
+    serializeReplay,
+    parseReplay,
+    encodeReplayCode,
+    decodeReplayCode,
+    REPLAY_CHECKPOINT_INTERVAL,
+} from '../replay';
+import { hashState } from '../snapshot';
+import type { PlayerInputFrame } from '../types';
+import { WORLD_WIDTH, WORLD_HEIGHT, MAX_DEPTH } from '../config';
+import { recordScriptedMatch } from './scriptedMatch';
+
+const defaultConfig = {
+    seed: 424242,
+    maxDepth: MAX_DEPTH,
+    worldWidth: WORLD_WIDTH,
+    worldHeight: WORLD_HEIGHT,
+};
+
+describe('Input packing', () => {
+    it('round-trips every movement and action combination', () => {
+        const actions: PlayerInputFrame['action'][] = [
+            null,
+            'dumpBallast',
+            'fireRocket',
+            'deployMine',
+        ];
+
+        for (let bits = 0; bits < 16; bits++) {
+            for (const action of actions) {
+                const input: PlayerInputFrame = {
+                    frame: 7,
+                    left: (bits & 1) !== 0,
+                    right: (bits & 2) !== 0,
+                    up: (bits & 4) !== 0,
+                    down: (bits & 8) !== 0,
+                    action,
+                };
+                expect(unpackInput(packInput(input), 7)).toEqual(input);
+            }
+        }
+    });
+
+    it('round-trips the chosen rocket target', () => {
+        const idle = { frame: 3, left: false, right: false, up: false, down: false };
+        for (const rocketTarget of ['player1', 'player4'] as const) {
+            const input: PlayerInputFrame = { ...idle, action: 'fireRocket', rocketTarget };
+            expect(unpackInput(packInput(input), 3)).toEqual(input);
+        }
+        expect(unpackInput(packInput({ ...idle, action: 'fireRocket' }), 3)).not.toHaveProperty(
+            'rocketTarget'
+        );
+    });
+});
+
+describe('Replay recording and playback', () => {
+    it('re-simulates a recorded match to the same final state', () => {
+        const { replay, state } = recordScriptedMatch(defaultConfig);
+        const finalHash = hashState(state);
+
+        expect(replay.frameCount).toBeGreaterThan(0);
+        expect(replay.finalStateHash).toBe(finalHash);
+        expect(hashState(simulateReplay(replay))).toBe(finalHash);
+    });
+
+    it('survives a save and load through the file format', () => {
+        const { replay } = recordScriptedMatch(defaultConfig);
+
+        const loaded = parseReplay(serializeReplay(replay));
+
+        expect(loaded).toEqual(replay);
+        expect(hashState(simulateReplay(loaded))).toBe(replay.finalStateHash);
+    });
+
+    it('keeps a state hash every checkpoint interval', () => {
+        const { replay } = recordScriptedMatch(defaultConfig);
+
+        expect(replay.checkpoints).toHaveLength(
+            Math.floor(replay.frameCount / REPLAY_CHECKPOINT_INTERVAL)
+        );
+        expect(replay.checkpoints[1]).toBe(
+            hashState(simulateReplay(replay, 2 * REPLAY_CHECKPOINT_INTERVAL))
+        );
+    });
+
+    it('loads version 1 files, which have no checkpoints', () => {
+        const { replay } = recordScriptedMatch(defaultConfig);
+        const file = JSON.parse(serializeReplay(replay));
+        file.version = 1;
+        delete file.checkpoints;
+
+        expect(parseReplay(JSON.stringify(file)).checkpoints).toEqual([]);
+    });
+
+    it('can simulate a prefix of the replay', () => {
+        const { replay } = recordScriptedMatch(defaultConfig);
+
+        const partial = simulateReplay(replay, 100);
+
+        expect(partial.frame).toBe(100);
+    });
+
+    it('rejects files that are not replays', () => {
+        expect(() => parseReplay('not json')).toThrow();
+        expect(() => parseReplay(JSON.stringify({ hello: 'world' }))).toThrow();
+    });
+
+    it('rejects replays from a different engine version', () => {
+        const { replay } = recordScriptedMatch(defaultConfig);
+        const file = JSON.parse(serializeReplay(replay));
+        file.engineVersion = replay.engineVersion + 1;
+
+        expect(() => parseReplay(JSON.stringify(file))).toThrow(/engine version/);
+    });
+});
+
+describe('Replay codes', () => {
+    it('round-trip a replay without its checkpoints', () => {
+        const { replay } = recordScriptedMatch(defaultConfig);
+
+        const decoded = decodeReplayCode(encodeReplayCode(replay));
+
+        expect(decoded).toEqual({ ...replay, checkpoints: [] });
+        expect(hashState(simulateReplay(decoded))).toBe(replay.finalStateHash);
+    });
+
+    it('are URL-safe and smaller than the file format', () => {
+        const { replay } = recordScriptedMatch(defaultConfig);
+        const code = encodeReplayCode(replay);
+
+        expect(code).toMatch(/^TE\.[A-Za-z0-9_-]+$/);
+        expect(code.length).toBeLessThan(serializeReplay(replay).length / 2);
+    });
+
+    it('reject damaged or truncated codes', () => {
+        const code = encodeReplayCode(recordScriptedMatch(defaultConfig).replay);
+
+        expect(() => decodeReplayCode('hello')).toThrow(/Not a Titan Escape replay code/);
+        expect(() => decodeReplayCode(code.slice(0, -6))).toThrow(/damaged/);
+        expect(() => decodeReplayCode('TE.' + '!'.repeat(20))).toThrow(/damaged/);
+    });
+
+    it('refuse over-long replays before reading their inputs', () => {
+        const { replay } = recordScriptedMatch(defaultConfig);
+
+        expect(() =>
+            decodeReplayCode(encodeReplayCode({ ...replay, frameCount: 2 ** 40 }))
+        ).toThrow(/the limit is/);
+        expect(() => decodeReplayCode(encodeReplayCode(replay), replay.frameCount - 1)).toThrow(
+            /the limit is/
+        );
+    });
+});
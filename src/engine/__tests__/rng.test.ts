@@ -3,7 +3,7 @@
  */
 
 import { describe, it, expect } from 'vitest';
-import { createRNG } from '../rng';
+import { RNGStream, createRNG, createStreamRNG, getStreamSeed } from '../rng';
 
 describe('SeededRNG', () => {
     it('produces the same sequence for the same seed', () => {
@@ -113,3 +113,49 @@ describe('SeededRNG', () => {
         expect(picks1).toEqual(picks2);
     });
 });
+
+describe('Random streams', () => {
+    it('keeps the generator output pinned for a seed', () => {
+        // If this changes, bump RNG_VERSION and ENGINE_VERSION
+        const rng = createRNG(12345);
+        expect([rng.next(), rng.next(), rng.next()]).toEqual([
+            0.12076167785562575, 0.10254896758124232, 0.985547199845314,
+        ]);
+    });
+
+    it('stores state as four unsigned 32-bit words', () => {
+        const rng = createRNG(0);
+        for (let i = 0; i < 10; i++) rng.next();
+
+        const state = rng.getState();
+        expect(state).toHaveLength(4);
+        for (const word of state) {
+            expect(Number.isInteger(word)).toBe(true);
+            expect(word).toBeGreaterThanOrEqual(0);
+            expect(word).toBeLessThan(2 ** 32);
+        }
+    });
+
+    it('derives a different sequence for every stream of a match', () => {
+        const streams = Object.values(RNGStream);
+        const firstDraws = streams.map((stream) => createStreamRNG(777, stream).next());
+
+        expect(new Set(firstDraws).size).toBe(streams.length);
+        expect(getStreamSeed(777, RNGStream.Pickups)).toBe(getStreamSeed(777, RNGStream.Pickups));
+        expect(getStreamSeed(777, RNGStream.Pickups)).not.toBe(
+            getStreamSeed(778, RNGStream.Pickups)
+        );
+    });
+
+    it('draws from one stream without shifting another', () => {
+        const pickups = createStreamRNG(777, RNGStream.Pickups);
+        const creatures = createStreamRNG(777, RNGStream.Creatures);
+        const untouched = createStreamRNG(777, RNGStream.Creatures);
+
+        for (let i = 0; i < 100; i++) pickups.next();
+
+        expect(Array.from({ length: 10 }, () => creatures.next())).toEqual(
+            Array.from({ length: 10 }, () => untouched.next())
+        );
+    });
+});
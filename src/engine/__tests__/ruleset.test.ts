@@ -0,0 +1,85 @@
+/**
+ * Tests that rulesets and the configured max depth actually drive the simulation.
+ */
+
+import { describe, it, expect } from 'vitest';
+import { createInitialState, updateGameState } from '../gameState';
+import type { EngineConfig, GameState, PlayerInputFrame, PlayerMap } from '../types';
+import { NORMAL_RULESET, RULESET_PRESETS, RulesetPreset, getObstacleDensity } from '../ruleset';
+import { FIXED_DT, WORLD_WIDTH, WORLD_HEIGHT, MAX_DEPTH } from '../config';
+import { serializeState, deserializeState } from '../snapshot';
+
+const defaultConfig: EngineConfig = {
+    seed: 4242,
+    maxDepth: MAX_DEPTH,
+    worldWidth: WORLD_WIDTH,
+    worldHeight: WORLD_HEIGHT,
+};
+
+function createIdleInputs(frame: number): PlayerMap<PlayerInputFrame> {
+    const idle = { frame, up: false, down: false, left: false, right: false, action: null };
+    return { player1: { ...idle }, player2: { ...idle } };
+}
+
+function runFrames(config: EngineConfig, frames: number): GameState {
+    let state = createInitialState(config);
+    for (let i = 0; i < frames; i++) {
+        state = updateGameState(state, createIdleInputs(i), FIXED_DT);
+    }
+    return state;
+}
+
+describe('Rulesets', () => {
+    it('defaults to the Normal ruleset and keeps it in the state', () => {
+        const state = runFrames(defaultConfig, 10);
+
+        expect(state.ruleset).toEqual(NORMAL_RULESET);
+        expect(state.maxDepth).toBe(MAX_DEPTH);
+        expect(deserializeState(serializeState(state)).ruleset).toEqual(NORMAL_RULESET);
+    });
+
+    it('starts players with the ruleset loadout', () => {
+        const ruleset = { ...NORMAL_RULESET, subStartingHp: 6, startingRockets: 5, startingMines: 0 };
+        const player1 = createInitialState({ ...defaultConfig, ruleset }).players.player1!;
+
+        expect(player1.hp).toBe(6);
+        expect(player1.rocketsRemaining).toBe(5);
+        expect(player1.minesRemaining).toBe(0);
+    });
+
+    it('wears submarines faster on harder presets', () => {
+        const wear = (preset: RulesetPreset) =>
+            runFrames({ ...defaultConfig, ruleset: RULESET_PRESETS[preset] }, 120).players
+                .player1!.wear;
+
+        expect(wear(RulesetPreset.Easy)).toBeLessThan(wear(RulesetPreset.Normal));
+        expect(wear(RulesetPreset.Normal)).toBeLessThan(wear(RulesetPreset.Hard));
+    });
+
+    it('places the same seed differently under different rulesets', () => {
+        const easy = runFrames({ ...defaultConfig, ruleset: RULESET_PRESETS.easy }, 300);
+        const hard = runFrames({ ...defaultConfig, ruleset: RULESET_PRESETS.hard }, 300);
+
+        expect(hard.obstacles.length).toBeGreaterThan(easy.obstacles.length);
+    });
+});
+
+describe('Max depth', () => {
+    it('reaches full descent speed sooner in a shallower trench', () => {
+        const deep = runFrames(defaultConfig, 300);
+        const shallow = runFrames({ ...defaultConfig, maxDepth: MAX_DEPTH / 4 }, 300);
+
+        expect(shallow.players.player1!.y).toBeGreaterThan(deep.players.player1!.y);
+    });
+
+    it('scales obstacle density to the configured depth', () => {
+        const depth = MAX_DEPTH / 4;
+
+        expect(getObstacleDensity(depth, NORMAL_RULESET, depth)).toBe(
+            NORMAL_RULESET.obstacleDensityMax
+        );
+        expect(getObstacleDensity(depth, NORMAL_RULESET, MAX_DEPTH)).toBeLessThan(
+            NORMAL_RULESET.obstacleDensityMax
+        );
+    });
+});
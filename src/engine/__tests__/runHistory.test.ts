@@ -0,0 +1,227 @@
+/**
+ * Tests for the run history and the leaderboards built from it.
+ */
+
+import { describe, it, expect } from 'vitest';
+import { createInitialState } from '../gameState';
+import { ReplayRecorder, parseReplay } from '../replay';
+import {
+    createRunRecord,
+    getDeepestDives,
+    getDeepestEscapes,
+    getHeadToHeads,
+    getSeedBests,
+    parseRunHistory,
+} from '../runHistory';
+import type { RunRecord } from '../runHistory';
+import type { EngineConfig, PlayerId, PlayerMap } from '../types';
+import { PlayerState, PLAYER_IDS } from '../types';
+import { WORLD_WIDTH, WORLD_HEIGHT, MAX_DEPTH } from '../config';
+
+/** How one seat finished: name, deepest depth, and whether it escaped */
+type Finish = [name: string, depth: number, escaped: boolean];
+
+function createConfig(seed: number, playerCount: number): EngineConfig {
+    return {
+        seed,
+        maxDepth: MAX_DEPTH,
+        worldWidth: WORLD_WIDTH,
+        worldHeight: WORLD_HEIGHT,
+        playerCount,
+    };
+}
+
+/** A finished match with the given outcome, recorded at the given time */
+function createRun(
+    playedAt: number,
+    seed: number,
+    finishes: Finish[],
+    winner: PlayerId | 'draw' | null
+): RunRecord {
+    const state = createInitialState(createConfig(seed, finishes.length));
+    const names: PlayerMap<string> = {};
+    finishes.forEach(([name, depth, escaped], seat) => {
+        const playerId = PLAYER_IDS[seat];
+        names[playerId] = name;
+        state.players[playerId] = {
+            ...state.players[playerId]!,
+            maxDepthReached: depth,
+            state: escaped ? PlayerState.Escaped : PlayerState.Dead,
+        };
+    });
+    return createRunRecord({ ...state, gameOver: true, winner }, names, playedAt);
+}
+
+describe('Run records', () => {
+    it('keeps the seed, names and results of a finished match', () => {
+        const run = createRun(
+            1000,
+            42,
+            [
+                ['ADA', 812.6, true],
+                ['  ', 300, false],
+            ],
+            'player1'
+        );
+
+        expect(run.id).toBe('1000-42');
+        expect(run.seed).toBe(42);
+        expect(run.players).toEqual([
+            { playerId: 'player1', name: 'ADA' },
+            { playerId: 'player2', name: 'PLAYER 2', unnamed: true },
+        ]);
+        expect(run.results.winner).toBe('player1');
+        expect(run.results.player1?.maxDepth).toBe(812.6);
+        expect(run.replay).toBeUndefined();
+    });
+
+    it('stores a replay that can be read back', () => {
+        const config = createConfig(7, 2);
+        const state = createInitialState(config);
+        const replay = new ReplayRecorder(config).finish(state);
+        const run = createRunRecord(state, {}, 1000, replay);
+
+        expect(parseReplay(run.replay!)).toEqual(replay);
+    });
+
+    it('skips stored entries that are not run records', () => {
+        const run = createRun(1000, 42, [['ADA', 500, true]], null);
+        const stored = JSON.parse(JSON.stringify([run, null, { id: 'broken' }, 'text']));
+
+        expect(parseRunHistory(stored)).toEqual([run]);
+        expect(parseRunHistory({ runs: [run] })).toEqual([]);
+    });
+});
+
+describe('Leaderboards', () => {
+    const history = [
+        createRun(
+            4000,
+            2,
+            [
+                ['ADA', 950, false],
+                ['BO', 400, true],
+            ],
+            'player2'
+        ),
+        createRun(
+            3000,
+            1,
+            [
+                ['BO', 700, true],
+                ['ADA', 700, true],
+            ],
+            'draw'
+        ),
+        createRun(
+            2000,
+            1,
+            [
+                ['ADA', 650.9, true],
+                ['BO', 200, false],
+            ],
+            'player1'
+        ),
+        createRun(
+            1000,
+            3,
+            [
+                ['CY', 100, false],
+                ['ADA', 80, false],
+                ['BO', 50, false],
+            ],
+            null
+        ),
+    ];
+
+    it('ranks escapes by depth, the earlier run first on a tie', () => {
+        const escapes = getDeepestEscapes(history);
+
+        expect(escapes.map((entry) => [entry.name, entry.depth])).toEqual([
+            ['BO', 700],
+            ['ADA', 700],
+            ['ADA', 650],
+            ['BO', 400],
+        ]);
+        expect(getDeepestEscapes(history, 1)).toHaveLength(1);
+    });
+
+    it('ranks every dive, escaped or not', () => {
+        const dives = getDeepestDives(history, 3);
+
+        expect(dives.map((entry) => [entry.name, entry.depth, entry.escaped])).toEqual([
+            ['ADA', 950, false],
+            ['BO', 700, true],
+            ['ADA', 700, true],
+        ]);
+    });
+
+    it('prefers an escape over a deeper death for a seed best', () => {
+        const bests = getSeedBests(history);
+
+        expect(bests.map((entry) => [entry.seed, entry.name, entry.depth])).toEqual([
+            [1, 'BO', 700],
+            [2, 'BO', 400],
+            [3, 'CY', 100],
+        ]);
+    });
+
+    it('tallies wins and draws between named players', () => {
+        expect(getHeadToHeads(history)).toEqual([{ names: ['ADA', 'BO'], wins: [1, 1], draws: 1 }]);
+    });
+
+    it('counts a win against everyone else in a larger match', () => {
+        const matches = [
+            createRun(
+                1000,
+                5,
+                [
+                    ['ADA', 10, true],
+                    ['BO', 5, false],
+                    ['CY', 5, false],
+                ],
+                'player1'
+            ),
+        ];
+
+        expect(getHeadToHeads(matches)).toEqual([
+            { names: ['ADA', 'BO'], wins: [1, 0], draws: 0 },
+            { names: ['ADA', 'CY'], wins: [1, 0], draws: 0 },
+        ]);
+    });
+
+    it('leaves out seats that played without a name', () => {
+        const matches = [
+            createRun(
+                1000,
+                5,
+                [
+                    ['', 10, true],
+                    ['', 5, false],
+                ],
+                'player1'
+            ),
+            createRun(
+                2000,
+                5,
+                [
+                    ['', 10, false],
+                    ['', 5, true],
+                ],
+                'player2'
+            ),
+            createRun(
+                3000,
+                5,
+                [
+                    ['ADA', 10, true],
+                    ['', 5, false],
+                ],
+                'player1'
+            ),
+        ];
+
+        expect(matches[0].players.map((player) => player.name)).toEqual(['PLAYER 1', 'PLAYER 2']);
+        expect(getHeadToHeads(matches)).toEqual([]);
+    });
+});
@@ -0,0 +1,96 @@
+/**
+ * Tests for solo dives: one submarine, scored on the deepest dive that still escapes.
+ */
+
+import { describe, it, expect } from 'vitest';
+import { createInitialState, getGameResults, updateGameState } from '../gameState';
+import { ReplayRecorder, parseReplay, serializeReplay, simulateReplay } from '../replay';
+import { hashState } from '../snapshot';
+import { getPotentialSoloScore, getSoloScore } from '../scoring';
+import type { EngineConfig, GameState, PlayerAction } from '../types';
+import { PlayerState } from '../types';
+import { FIXED_DT, WORLD_WIDTH, WORLD_HEIGHT, MAX_DEPTH } from '../config';
+
+const soloConfig: EngineConfig = {
+    seed: 2024,
+    maxDepth: MAX_DEPTH,
+    worldWidth: WORLD_WIDTH,
+    worldHeight: WORLD_HEIGHT,
+    playerCount: 1,
+};
+
+/** Dive straight down, dumping ballast on the given frame, until the dive ends */
+function playSoloDive(ejectFrame: number | null, recorder?: ReplayRecorder): GameState {
+    let state = createInitialState(soloConfig);
+    while (!state.gameOver && state.frame < 20000) {
+        const action: PlayerAction = state.frame === ejectFrame ? 'dumpBallast' : null;
+        const input = { up: false, down: true, left: false, right: false, action };
+        const inputs = { player1: { frame: state.frame, ...input } };
+        recorder?.record(inputs);
+        state = updateGameState(state, inputs, FIXED_DT);
+    }
+    return state;
+}
+
+describe('Solo dives', () => {
+    it('start one submarine at the middle seat', () => {
+        const state = createInitialState(soloConfig);
+
+        expect(state.playerIds).toEqual(['player1']);
+        expect(Object.keys(state.players)).toEqual(['player1']);
+        expect(Object.keys(state.stats)).toEqual(['player1']);
+        expect(state.players.player1!.x).toBe(WORLD_WIDTH * 0.5);
+    });
+
+    it('reject unsupported player counts', () => {
+        expect(() => createInitialState({ ...soloConfig, playerCount: 0 })).toThrow(/1 to 4/);
+        expect(() => createInitialState({ ...soloConfig, playerCount: 5 })).toThrow(/1 to 4/);
+    });
+
+    it('score the deepest depth of a dive that escapes', () => {
+        const state = playSoloDive(300);
+        const player = state.players.player1!;
+        const results = getGameResults(state);
+
+        expect(state.gameOver).toBe(true);
+        expect(player.state).toBe(PlayerState.Escaped);
+        expect(state.winner).toBe('player1');
+        expect(results.soloScore).toBe(Math.floor(player.maxDepthReached));
+        expect(results.soloScore).toBeGreaterThan(0);
+    });
+
+    it('score nothing when the diver never makes it back', () => {
+        const state = playSoloDive(null);
+        const player = state.players.player1!;
+
+        expect(state.gameOver).toBe(true);
+        expect(player.state).toBe(PlayerState.Dead);
+        expect(state.winner).toBeNull();
+        expect(getGameResults(state).soloScore).toBe(0);
+        expect(getPotentialSoloScore(player)).toBe(0);
+    });
+
+    it('show the score an escape would bank while still diving', () => {
+        const diving = createInitialState(soloConfig).players.player1!;
+        const deep = { ...diving, maxDepthReached: 1234.7 };
+
+        expect(getPotentialSoloScore(deep)).toBe(1234);
+        expect(getSoloScore(deep)).toBe(0);
+        expect(getSoloScore({ ...deep, state: PlayerState.Escaped })).toBe(1234);
+    });
+
+    it('leave versus matches unscored', () => {
+        const state = createInitialState({ ...soloConfig, playerCount: 2 });
+
+        expect(getGameResults(state).soloScore).toBeNull();
+    });
+
+    it('record and play back as replays', () => {
+        const recorder = new ReplayRecorder(soloConfig);
+        const state = playSoloDive(300, recorder);
+        const replay = parseReplay(serializeReplay(recorder.finish(state)));
+
+        expect(Object.keys(replay.inputs)).toEqual(['player1']);
+        expect(hashState(simulateReplay(replay))).toBe(hashState(state));
+    });
+});
@@ -0,0 +1,48 @@
+/**
+ * A scripted two-player match shared by the tests that record, replay or verify one.
+ */
+
+import { createInitialState, updateGameState } from '../gameState';
+import { ReplayRecorder } from '../replay';
+import type { EngineConfig, GameState, PlayerInputFrame, PlayerMap, Replay } from '../types';
+import { FIXED_DT } from '../config';
+
+/** Frames after which a scripted match is cut short if nobody has finished */
+const MAX_SCRIPTED_FRAMES = 5000;
+
+/** Inputs of both players on a frame; changes often and uses every kind of action */
+export function createScriptedInputs(frame: number): PlayerMap<PlayerInputFrame> {
+    return {
+        player1: {
+            frame,
+            left: frame % 7 < 3,
+            right: frame % 11 < 2,
+            up: false,
+            down: frame % 13 < 4,
+            action: frame === 90 ? 'fireRocket' : frame === 400 ? 'dumpBallast' : null,
+        },
+        player2: {
+            frame,
+            left: frame % 5 < 2,
+            right: frame % 9 < 3,
+            up: frame % 17 < 2,
+            down: false,
+            action: frame === 120 ? 'deployMine' : frame === 500 ? 'dumpBallast' : null,
+        },
+    };
+}
+
+/** Play the scripted match to completion while recording it */
+export function recordScriptedMatch(config: EngineConfig): { replay: Replay; state: GameState } {
+    const recorder = new ReplayRecorder(config);
+    let state = createInitialState(config);
+
+    while (!state.gameOver && state.frame < MAX_SCRIPTED_FRAMES) {
+        const inputs = createScriptedInputs(state.frame);
+        recorder.record(inputs);
+        state = updateGameState(state, inputs, FIXED_DT);
+        recorder.recordState(state);
+    }
+
+    return { replay: recorder.finish(state), state };
+}
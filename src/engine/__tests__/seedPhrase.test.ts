@@ -0,0 +1,78 @@
+/**
+ * Tests for word-based seed phrases.
+ */
+
+import { describe, it, expect } from 'vitest';
+import { formatSeed, getSeedPhrase, parseSeedInput, SEED_PHRASE_COUNT } from '../seedPhrase';
+import { createChallengeLink, readSharedLink } from '../shareLinks';
+
+describe('Seed phrases', () => {
+    it('cover every seed generateRandomSeed can draw', () => {
+        expect(SEED_PHRASE_COUNT).toBe(1000000);
+        expect(getSeedPhrase(0)).toBe('rusty-turtle-abyss');
+        expect(getSeedPhrase(SEED_PHRASE_COUNT - 1)).toMatch(/^\w+-\w+-\w+$/);
+        expect(getSeedPhrase(SEED_PHRASE_COUNT)).toBeNull();
+        expect(getSeedPhrase(-1)).toBeNull();
+    });
+
+    it('read back as the seed they were made from', () => {
+        for (const seed of [0, 1, 99, 100, 12345, 424242, 999999]) {
+            expect(parseSeedInput(getSeedPhrase(seed)!)).toBe(seed);
+        }
+    });
+
+    it('give each seed a different phrase', () => {
+        const phrases = new Set<string>();
+        for (let seed = 0; seed < SEED_PHRASE_COUNT; seed += 997) {
+            phrases.add(getSeedPhrase(seed)!);
+        }
+
+        expect(phrases.size).toBe(Math.ceil(SEED_PHRASE_COUNT / 997));
+    });
+
+    it('accept any case and spaces or hyphens between words', () => {
+        expect(parseSeedInput('  Rusty Turtle   ABYSS ')).toBe(0);
+        expect(parseSeedInput('rusty_turtle-abyss')).toBe(0);
+    });
+
+    it('hash phrases of unlisted words into the phrase range', () => {
+        const seed = parseSeedInput('my favourite seed')!;
+
+        expect(parseSeedInput('My-Favourite-Seed')).toBe(seed);
+        expect(parseSeedInput('my favourite seeds')).not.toBe(seed);
+        expect(seed).toBeGreaterThanOrEqual(0);
+        expect(seed).toBeLessThan(SEED_PHRASE_COUNT);
+    });
+});
+
+describe('Seed input', () => {
+    it('takes plain numbers as they are', () => {
+        expect(parseSeedInput('424242')).toBe(424242);
+        expect(parseSeedInput(' 7 ')).toBe(7);
+        expect(parseSeedInput('12345678')).toBe(12345678);
+        expect(parseSeedInput('4294967295')).toBe(4294967295);
+    });
+
+    it('reduces numbers to the 32-bit seeds the RNG uses, so they fit in a challenge link', () => {
+        const seed = parseSeedInput('99999999999999999999')!;
+        const link = createChallengeLink('https://example.com/', {
+            seed,
+            preset: 'normal',
+            solo: false,
+        });
+
+        expect(seed).toBe(1661992959);
+        expect(parseSeedInput('4294967296')).toBe(0);
+        expect(readSharedLink(link)).toMatchObject({ kind: 'challenge', challenge: { seed } });
+    });
+
+    it('is empty when nothing was typed', () => {
+        expect(parseSeedInput('')).toBeNull();
+        expect(parseSeedInput('   ')).toBeNull();
+    });
+
+    it('shows seeds as phrases where they have one', () => {
+        expect(formatSeed(0)).toBe('rusty-turtle-abyss');
+        expect(formatSeed(12345678)).toBe('12345678');
+    });
+});
@@ -0,0 +1,98 @@
+/**
+ * Tests for challenge and replay links.
+ */
+
+import { describe, it, expect } from 'vitest';
+import { createInitialState, updateGameState } from '../gameState';
+import { ReplayRecorder } from '../replay';
+import { createChallengeLink, createReplayLink, readSharedLink } from '../shareLinks';
+import type { EngineConfig, Replay } from '../types';
+import { FIXED_DT, WORLD_WIDTH, WORLD_HEIGHT, MAX_DEPTH } from '../config';
+
+const GAME_URL = 'https://example.com/titan/';
+
+const config: EngineConfig = {
+    seed: 9001,
+    maxDepth: MAX_DEPTH,
+    worldWidth: WORLD_WIDTH,
+    worldHeight: WORLD_HEIGHT,
+};
+
+/** A short match of both subs diving */
+function recordShortMatch(): Replay {
+    const recorder = new ReplayRecorder(config);
+    let state = createInitialState(config);
+    for (let frame = 0; frame < 300; frame++) {
+        const input = { frame, up: false, down: frame % 40 < 30, left: false, right: false };
+        const inputs = {
+            player1: { ...input, action: null },
+            player2: { ...input, action: frame === 200 ? ('dumpBallast' as const) : null },
+        };
+        recorder.record(inputs);
+        state = updateGameState(state, inputs, FIXED_DT);
+    }
+    return recorder.finish(state);
+}
+
+describe('Challenge links', () => {
+    it('carry the seed, preset and mode', () => {
+        const challenge = { seed: 123456, preset: 'hard' as const, solo: true };
+        const link = createChallengeLink(GAME_URL, challenge);
+
+        expect(link).toBe(`${GAME_URL}?seed=123456&rules=hard&mode=solo`);
+        expect(readSharedLink(link)).toEqual({ kind: 'challenge', challenge });
+    });
+
+    it('replace whatever query and hash the page had', () => {
+        const link = createChallengeLink(`${GAME_URL}?seed=1#replay=TE.x`, {
+            seed: 42,
+            preset: 'normal',
+            solo: false,
+        });
+
+        expect(link).toBe(`${GAME_URL}?seed=42&rules=normal`);
+    });
+
+    it('fall back to the default preset when it is missing or unknown', () => {
+        const challenge = { seed: 7, preset: 'normal', solo: false };
+
+        expect(readSharedLink(`${GAME_URL}?seed=7`)).toEqual({ kind: 'challenge', challenge });
+        expect(readSharedLink(`${GAME_URL}?seed=7&rules=brutal`)).toEqual({
+            kind: 'challenge',
+            challenge,
+        });
+    });
+
+    it('reject a seed that is not a whole number', () => {
+        expect(() => readSharedLink(`${GAME_URL}?seed=abc`)).toThrow(/whole number/);
+        expect(() => readSharedLink(`${GAME_URL}?seed=-5`)).toThrow(/whole number/);
+    });
+});
+
+describe('Replay links', () => {
+    it('carry the whole replay in the hash', () => {
+        const replay = recordShortMatch();
+        const link = createReplayLink(GAME_URL, replay);
+
+        expect(new URL(link).search).toBe('');
+        expect(readSharedLink(link)).toEqual({
+            kind: 'replay',
+            replay: { ...replay, checkpoints: [] },
+        });
+    });
+
+    it('reject a damaged replay', () => {
+        expect(() => readSharedLink(`${GAME_URL}#replay=TE.AAAA`)).toThrow(/damaged/);
+    });
+
+    it('reject a replay declaring more frames than any match lasts', () => {
+        const link = createReplayLink(GAME_URL, { ...recordShortMatch(), frameCount: 2 ** 40 });
+
+        expect(() => readSharedLink(link)).toThrow(/the limit is/);
+    });
+
+    it('are not links to anything on a plain page address', () => {
+        expect(readSharedLink(GAME_URL)).toBeNull();
+        expect(readSharedLink(`${GAME_URL}?utm_source=chat#top`)).toBeNull();
+    });
+});
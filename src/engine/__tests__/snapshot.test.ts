@@ -0,0 +1,130 @@
+/**
+ * Tests for state snapshots, hashing and desync detection.
+ */
+
+import { describe, it, expect } from 'vitest';
+import { createInitialState, updateGameState } from '../gameState';
+import {
+    hashState,
+    serializeState,
+    deserializeState,
+    findFirstDesync,
+    STATE_SCHEMA_VERSION,
+} from '../snapshot';
+import type { GameState, PlayerInputFrame, PlayerMap } from '../types';
+import { FIXED_DT, WORLD_WIDTH, WORLD_HEIGHT, MAX_DEPTH } from '../config';
+
+const defaultConfig = {
+    seed: 98765,
+    maxDepth: MAX_DEPTH,
+    worldWidth: WORLD_WIDTH,
+    worldHeight: WORLD_HEIGHT,
+};
+
+function createInputs(frame: number, p1Action: PlayerInputFrame['action'] = null) {
+    const inputs: PlayerMap<PlayerInputFrame> = {
+        player1: {
+            frame,
+            left: frame % 9 < 3,
+            right: false,
+            up: false,
+            down: true,
+            action: p1Action ?? (frame % 120 === 60 ? 'fireRocket' : null),
+        },
+        player2: {
+            frame,
+            left: false,
+            right: frame % 7 < 2,
+            up: false,
+            down: true,
+            action: frame === 200 ? 'deployMine' : null,
+        },
+    };
+    return inputs;
+}
+
+/** Run a match for a number of frames, returning the hash after every frame */
+function traceHashes(
+    frames: number,
+    getInputs: (frame: number) => PlayerMap<PlayerInputFrame> = createInputs
+): { state: GameState; hashes: string[] } {
+    let state = createInitialState(defaultConfig);
+    const hashes: string[] = [];
+    for (let i = 0; i < frames; i++) {
+        state = updateGameState(state, getInputs(i), FIXED_DT);
+        hashes.push(hashState(state));
+    }
+    return { state, hashes };
+}
+
+describe('Entity IDs', () => {
+    it('allocates the same IDs in every run of a seed', () => {
+        const first = traceHashes(400);
+        const second = traceHashes(400);
+
+        expect(first.state.nextEntityIds.projectile).toBeGreaterThan(0);
+        expect(second.state).toEqual(first.state);
+        expect(second.hashes).toEqual(first.hashes);
+    });
+
+    it('does not mutate the previous state', () => {
+        const { state } = traceHashes(300);
+        const before = serializeState(state);
+
+        updateGameState(state, createInputs(300, 'fireRocket'), FIXED_DT);
+
+        expect(serializeState(state)).toBe(before);
+    });
+});
+
+describe('State snapshots', () => {
+    it('round-trips a state mid-match', () => {
+        const { state } = traceHashes(250);
+
+        const restored = deserializeState(serializeState(state));
+
+        expect(restored).toEqual(state);
+        expect(hashState(restored)).toBe(hashState(state));
+    });
+
+    it('continues identically from a restored snapshot', () => {
+        const { state } = traceHashes(250);
+        let original = state;
+        let restored = deserializeState(serializeState(state));
+
+        for (let i = 250; i < 400; i++) {
+            original = updateGameState(original, createInputs(i), FIXED_DT);
+            restored = updateGameState(restored, createInputs(i), FIXED_DT);
+        }
+
+        expect(hashState(restored)).toBe(hashState(original));
+    });
+
+    it('rejects other schema versions and tampered snapshots', () => {
+        const { state } = traceHashes(50);
+        const snapshot = JSON.parse(serializeState(state));
+
+        expect(() =>
+            deserializeState(
+                JSON.stringify({ ...snapshot, schemaVersion: STATE_SCHEMA_VERSION + 1 })
+            )
+        ).toThrow(/schema version/);
+
+        snapshot.state.players.player1!.hp = 99;
+        expect(() => deserializeState(JSON.stringify(snapshot))).toThrow(/checksum/);
+
+        expect(() => deserializeState('{}')).toThrow();
+    });
+});
+
+describe('Desync detection', () => {
+    it('pinpoints the first divergent frame', () => {
+        const reference = traceHashes(300);
+        const diverged = traceHashes(300, (frame) =>
+            createInputs(frame, frame === 180 ? 'dumpBallast' : null)
+        );
+
+        expect(findFirstDesync(reference.hashes, reference.hashes)).toBeNull();
+        expect(findFirstDesync(reference.hashes, diverged.hashes)).toBe(180);
+    });
+});
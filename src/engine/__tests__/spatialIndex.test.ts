@@ -0,0 +1,57 @@
+/**
+ * Tests for the depth-bucketed collision index.
+ */
+
+import { describe, it, expect } from 'vitest';
+import { buildSpatialIndex, querySpatialIndex } from '../spatialIndex';
+import { generateObstacles } from '../obstacleGenerator';
+import { createRNG } from '../rng';
+import type { AABB } from '../types';
+
+function overlaps(a: AABB, b: AABB): boolean {
+    return a.x < b.x + b.width && a.x + a.width > b.x && a.y < b.y + b.height && a.y + a.height > b.y;
+}
+
+describe('Spatial index', () => {
+    it('finds every box a brute-force scan finds', () => {
+        const obstacles = generateObstacles(4711, [], 0, 3000);
+        const index = buildSpatialIndex(obstacles);
+        const rng = createRNG(4711);
+
+        for (let i = 0; i < 500; i++) {
+            const box: AABB = {
+                x: rng.nextFloat(0, 1800),
+                y: rng.nextFloat(-100, 3100),
+                width: rng.nextFloat(5, 200),
+                height: rng.nextFloat(5, 300),
+            };
+            const expected = obstacles.flatMap((o, position) => (overlaps(o, box) ? [position] : []));
+            const found = querySpatialIndex(index, box).filter((p) => overlaps(obstacles[p], box));
+
+            expect(found).toEqual(expected);
+        }
+    });
+
+    it('returns candidates once each, in array order', () => {
+        const boxes: AABB[] = [
+            { x: 0, y: 250, width: 10, height: 10 },
+            { x: 0, y: 50, width: 10, height: 300 },
+            { x: 0, y: 180, width: 10, height: 40 },
+        ];
+        const index = buildSpatialIndex(boxes, 100);
+
+        expect(querySpatialIndex(index, { x: 0, y: 150, width: 10, height: 120 })).toEqual([
+            0, 1, 2,
+        ]);
+        expect(querySpatialIndex(index, { x: 0, y: 10, width: 10, height: 10 })).toEqual([1]);
+    });
+
+    it('only visits boxes near the queried depth', () => {
+        const obstacles = generateObstacles(4711, [], 0, 10000);
+        const index = buildSpatialIndex(obstacles);
+        const candidates = querySpatialIndex(index, { x: 0, y: 5000, width: 60, height: 40 });
+
+        expect(candidates.length).toBeGreaterThan(0);
+        expect(candidates.length).toBeLessThan(obstacles.length / 20);
+    });
+});
@@ -0,0 +1,126 @@
+/**
+ * Tests for authoritative verification of submitted runs.
+ */
+
+import { describe, it, expect } from 'vitest';
+import { getGameResults } from '../gameState';
+import { packInput, serializeReplay, REPLAY_CHECKPOINT_INTERVAL } from '../replay';
+import { parseRunClaim, verifyRun } from '../verification';
+import type { RunClaim } from '../verification';
+import { WORLD_WIDTH, WORLD_HEIGHT, MAX_DEPTH } from '../config';
+import { DEFAULT_MATCH_RULES } from '../matchRules';
+import { NORMAL_RULESET } from '../ruleset';
+import { createScriptedInputs, recordScriptedMatch } from './scriptedMatch';
+
+const config = {
+    seed: 31337,
+    maxDepth: MAX_DEPTH,
+    worldWidth: WORLD_WIDTH,
+    worldHeight: WORLD_HEIGHT,
+};
+
+/** Play a scripted match to completion and claim exactly what happened */
+function recordHonestClaim(): RunClaim {
+    const { replay, state } = recordScriptedMatch(config);
+    // Claims travel as JSON
+    return { replay, results: JSON.parse(JSON.stringify(getGameResults(state))) };
+}
+
+describe('Run verification', () => {
+    const honest = recordHonestClaim();
+
+    it('accepts an honest claim', () => {
+        const verdict = verifyRun(honest);
+
+        expect(verdict.accepted).toBe(true);
+        if (verdict.accepted) {
+            expect(verdict.frames).toBe(honest.replay.frameCount);
+            expect(verdict.finalStateHash).toBe(honest.replay.finalStateHash);
+            expect(verdict.rules).toEqual(DEFAULT_MATCH_RULES);
+        }
+    });
+
+    it('rejects runs played in a doctored world or under rules the game does not offer', () => {
+        const withConfig = (changes: object) => ({
+            ...honest,
+            replay: { ...honest.replay, config: { ...honest.replay.config, ...changes } },
+        });
+
+        const fast = { ...NORMAL_RULESET, verticalSpeed: 1000 };
+        const empty = { ...NORMAL_RULESET, obstacleDensityMin: 0, obstacleDensityMax: 0 };
+        expect(verifyRun(withConfig({ ruleset: fast })).accepted).toBe(false);
+        expect(verifyRun(withConfig({ ruleset: empty })).accepted).toBe(false);
+        expect(verifyRun(withConfig({ worldWidth: WORLD_WIDTH * 2 })).accepted).toBe(false);
+        expect(verifyRun(withConfig({ maxDepth: 100 }))).toMatchObject({
+            accepted: false,
+            reason: expect.stringMatching(/rules/),
+        });
+    });
+
+    it('locates tampered inputs between the surrounding checkpoints', () => {
+        // Hold right for a few frames the player never pressed it
+        const player1 = [...honest.replay.inputs.player1!];
+        const tamperedFrame = 2 * REPLAY_CHECKPOINT_INTERVAL + 10;
+        const right = packInput({ ...createScriptedInputs(0).player1!, left: false, right: true });
+        player1.fill(right, tamperedFrame, tamperedFrame + 5);
+        const claim = {
+            ...honest,
+            replay: { ...honest.replay, inputs: { ...honest.replay.inputs, player1 } },
+        };
+
+        const verdict = verifyRun(claim);
+
+        expect(verdict).toMatchObject({
+            accepted: false,
+            lastMatchingFrame: 2 * REPLAY_CHECKPOINT_INTERVAL,
+            firstDivergentFrame: 3 * REPLAY_CHECKPOINT_INTERVAL,
+        });
+    });
+
+    it('rejects inflated results and names the field', () => {
+        const results = JSON.parse(JSON.stringify(honest.results));
+        results.player2.maxDepth += 500;
+
+        const verdict = verifyRun({ ...honest, results });
+
+        expect(verdict.accepted).toBe(false);
+        if (!verdict.accepted) {
+            expect(verdict.reason).toContain('player2.maxDepth');
+            expect(verdict.firstDivergentFrame).toBeNull();
+        }
+    });
+
+    it('rejects replays from another engine version or over the frame limit', () => {
+        const otherVersion = {
+            ...honest,
+            replay: { ...honest.replay, engineVersion: honest.replay.engineVersion + 1 },
+        };
+
+        expect(verifyRun(otherVersion).accepted).toBe(false);
+        expect(verifyRun(honest, honest.replay.frameCount - 1).accepted).toBe(false);
+    });
+
+    it('reads claims with the replay embedded as file text', () => {
+        const text = JSON.stringify({
+            replay: serializeReplay(honest.replay),
+            results: honest.results,
+        });
+
+        expect(verifyRun(parseRunClaim(text)).accepted).toBe(true);
+        expect(() => parseRunClaim('{"replay": {}}')).toThrow(/results/);
+    });
+
+    it('refuses tiny claims declaring huge runs before expanding them', () => {
+        const file = JSON.parse(serializeReplay(honest.replay));
+        const claimWith = (frameCount: number, run: [number, number]) =>
+            JSON.stringify({
+                replay: { ...file, frameCount, inputs: { player1: [run], player2: [run] } },
+                results: honest.results,
+            });
+
+        expect(() => parseRunClaim(claimWith(1e9, [0, 1e9]))).toThrow(/limit/);
+        expect(() => parseRunClaim(claimWith(10, [0, 1e9]))).toThrow(/frame count/);
+        expect(() => parseRunClaim(claimWith(0, [0, -1]))).toThrow(/frame count/);
+        expect(() => parseRunClaim(claimWith(100, [0, 100]), 99)).toThrow(/limit/);
+    });
+});
@@ -1,6 +1,7 @@
 /**
  * Game configuration constants.
- * All tunable values for game balance and physics.
+ * World geometry, entity sizes and simulation settings. Balance knobs live in
+ * the match's Ruleset instead (see ruleset.ts).
  */
 
 import { ObstacleType } from './types';
@@ -8,25 +9,28 @@ import { ObstacleType } from './types';
 /** Fixed time step for simulation (60 FPS) */
 export const FIXED_DT = 1 / 60;
 
-/** Default canvas dimensions (will be overridden by actual window size) */
-export const DEFAULT_CANVAS_WIDTH = 1920;
-export const DEFAULT_CANVAS_HEIGHT = 1080;
-
-/** Dynamic canvas dimensions - set at runtime */
-export let CANVAS_WIDTH = DEFAULT_CANVAS_WIDTH;
-export let CANVAS_HEIGHT = DEFAULT_CANVAS_HEIGHT;
+/**
+ * Simulation version recorded in replays.
+ * Bump whenever a change makes the same seed + inputs produce a different match.
+ */
+export const ENGINE_VERSION = 11;
 
-/** Update canvas dimensions (called on resize) */
-export function setCanvasDimensions(width: number, height: number): void {
-    CANVAS_WIDTH = width;
-    CANVAS_HEIGHT = height;
-}
+/**
+ * Logical world size the simulation runs in.
+ * The canvas scales this to the browser viewport, so the same seed
+ * produces the same match on every screen.
+ */
+export const WORLD_WIDTH = 1920;
+export const WORLD_HEIGHT = 1080;
 
 /** Maximum depth before the "bottom" (Titanic wreck area) */
 export const MAX_DEPTH = 10000;
 
-/** Titanic wreck starts appearing at this depth */
-export const TITANIC_DEPTH = MAX_DEPTH - 500;
+/** Height above the trench floor at which the Titanic wreck starts appearing */
+export const TITANIC_HEIGHT_ABOVE_FLOOR = 500;
+
+/** Titanic wreck starts appearing at this depth in a trench of MAX_DEPTH */
+export const TITANIC_DEPTH = MAX_DEPTH - TITANIC_HEIGHT_ABOVE_FLOOR;
 
 /** Player submarine dimensions (larger for detailed view with portholes) */
 export const SUB_WIDTH = 80;
@@ -36,83 +40,29 @@ export const SUB_HEIGHT = 40;
 export const CAPSULE_WIDTH = 25;
 export const CAPSULE_HEIGHT = 20;
 
-/** Starting HP for submarines (one per passenger) */
-export const SUB_STARTING_HP = 4;
-
 /** Number of passengers in submarine */
 export const PASSENGER_COUNT = 4;
 
 /** Capsule HP (any hit = death) */
 export const CAPSULE_HP = 1;
 
-/** Horizontal movement speed (pixels per second) */
-export const HORIZONTAL_SPEED = 200;
-
-/** Base vertical descent speed (pixels per second) */
-export const BASE_DESCENT_SPEED = 80;
-
-/** Additional speed gained per unit of normalized depth (0-1) */
-export const DESCENT_SPEED_FACTOR = 120;
-
-/** Ascent speed for escape capsule (much faster than descent) */
-export const ASCENT_SPEED = 350;
-
-/** Base wear increase per second (reduced for easier start) */
-export const BASE_WEAR_RATE = 0.3;
-
-/** Additional wear rate multiplied by normalized depth */
-export const DEPTH_WEAR_FACTOR = 1.5;
-
-/** Wear increase on collision by obstacle type */
-export const COLLISION_WEAR: Record<ObstacleType, number> = {
-    [ObstacleType.Coral]: 5,
-    [ObstacleType.IceBlock]: 12,
-    [ObstacleType.SeaTurtle]: 4,
-};
-
-/** HP damage on collision by obstacle type */
-export const COLLISION_DAMAGE: Record<ObstacleType, number> = {
-    [ObstacleType.Coral]: 1,
-    [ObstacleType.IceBlock]: 1,
-    [ObstacleType.SeaTurtle]: 1,
-};
-
-/** Frames of invincibility after being hit */
-export const INVINCIBILITY_FRAMES = 120; // 2 seconds (more forgiving)
-
-/** Base obstacle spawn rate (obstacles per 100 depth units) - scales with depth */
-export const OBSTACLE_DENSITY_MIN = 1.2; // At surface (was 0.8)
-export const OBSTACLE_DENSITY_MAX = 4.0; // At max depth (was 3.0)
-
 /** Minimum gap between obstacles for player passage */
 export const MIN_PASSAGE_WIDTH = 100; // Ensure players can always pass
 
-/** Calculate obstacle density based on depth (gradual difficulty) */
-export function getObstacleDensity(depth: number): number {
-    const normalizedDepth = Math.min(depth / MAX_DEPTH, 1);
-    // Very slow ramp up: starts very easy, gradually gets harder
-    const curve = Math.pow(normalizedDepth, 0.9);
-    return OBSTACLE_DENSITY_MIN + curve * (OBSTACLE_DENSITY_MAX - OBSTACLE_DENSITY_MIN);
-}
+/**
+ * Width of the obstacle-free lane kept through every chunk.
+ * Lanes of neighbouring chunks overlap by at least MIN_PASSAGE_WIDTH, so the lanes chain
+ * into one continuous route from the surface to the bottom.
+ */
+export const PASSAGE_LANE_WIDTH = MIN_PASSAGE_WIDTH * 2;
 
-/** Rocket/weapon configuration */
-export const ROCKETS_PER_PLAYER = 3; // 2 small + 1 mine
-export const SMALL_ROCKET_COUNT = 2;
-export const SMALL_ROCKET_DAMAGE = 1; // 25% of 4 HP
-export const MINE_DAMAGE = 4; // 100% instant kill
-export const ROCKET_SPEED = 400; // pixels per second
-export const MINE_LIFETIME = 300; // frames (5 seconds)
+/** Projectile dimensions */
 export const ROCKET_WIDTH = 20;
 export const ROCKET_HEIGHT = 8;
 export const MINE_SIZE = 25;
 
-/** HP Pickup configuration */
-export const HP_PICKUP_CHANCE = 0.00015; // Rarer (was 0.0003) - about 1 per 600m
+/** HP pickup dimensions */
 export const HP_PICKUP_SIZE = 20;
-export const HP_PICKUP_HEAL = 1;
-
-/** Vertical movement speed */
-export const VERTICAL_SPEED = 150; // pixels per second
 
 /** Depth zones for obstacle types (extended for more variety) */
 export const CORAL_MIN_DEPTH = 0;
@@ -129,35 +79,35 @@ export const OBSTACLE_SIZE = {
     [ObstacleType.SeaTurtle]: { minW: 35, maxW: 55, minH: 25, maxH: 40 },
 };
 
-/** Turtle movement speed */
-export const TURTLE_SPEED = 30;
-
-/** Angler Fish configuration */
-export const ANGLER_FISH_MIN_DEPTH = 500; // Start appearing at 500m (early game)
-export const ANGLER_FISH_SPAWN_CHANCE = 0.003; // Higher spawn chance
+/** Angler Fish dimensions */
 export const ANGLER_FISH_WIDTH = 35; // Slightly smaller than submarine
 export const ANGLER_FISH_HEIGHT = 25;
-export const ANGLER_FISH_AGGRO_RADIUS = 500; // Large aggro radius (~30% of 1920px)
-export const ANGLER_FISH_SPEED_MULTIPLIER = 0.75; // 25% slower than submarine base speed
-export const ANGLER_FISH_DAMAGE = 1; // 1 HP damage
-export const ANGLER_FISH_MAX_COUNT = 8; // More fish allowed
 
 /** How far ahead to generate obstacles */
 export const OBSTACLE_GENERATION_BUFFER = 800;
 
-/** Player starting positions (use functions for dynamic width) */
-export function getPlayer1StartX(): number {
-    return CANVAS_WIDTH * 0.35;
-}
-export function getPlayer2StartX(): number {
-    return CANVAS_WIDTH * 0.65;
+/** Obstacle chunks further than this above every active player are evicted (regenerated on demand) */
+export const OBSTACLE_EVICTION_DISTANCE = WORLD_HEIGHT;
+
+/** Depth covered by each bucket of the collision spatial index */
+export const SPATIAL_BUCKET_SIZE = 100;
+
+/** Player starting positions (relative to the world width) */
+const PLAYER_START_X_FRACTIONS: Record<number, number[]> = {
+    1: [0.5],
+    2: [0.35, 0.65],
+    3: [0.25, 0.5, 0.75],
+    4: [0.2, 0.4, 0.6, 0.8],
+};
+export function getPlayerStartX(seat: number, playerCount: number, worldWidth: number): number {
+    return worldWidth * PLAYER_START_X_FRACTIONS[playerCount][seat];
 }
 export const PLAYER_START_Y = 50;
 
-/** World bounds for horizontal movement (dynamic based on canvas width) */
+/** World bounds for horizontal movement */
 export const WORLD_LEFT_BOUND = 20;
-export function getWorldRightBound(): number {
-    return CANVAS_WIDTH - 20;
+export function getWorldRightBound(worldWidth: number): number {
+    return worldWidth - 20;
 }
 
 /** Colors for visual rendering */
@@ -167,8 +117,12 @@ export const COLORS = {
     deepOcean: '#0A1628', // Almost black at great depth
     sub1: '#FFA500', // Orange for player 1 sub
     sub2: '#00FF7F', // Green for player 2 sub
+    sub3: '#FF69B4', // Pink for player 3 sub
+    sub4: '#00BFFF', // Sky blue for player 4 sub
     capsule1: '#FFD700', // Gold for player 1 capsule
     capsule2: '#7FFF00', // Chartreuse for player 2 capsule
+    capsule3: '#FFB6C1', // Light pink for player 3 capsule
+    capsule4: '#87CEFA', // Light sky blue for player 4 capsule
     coral: '#FF6B6B', // Coral red/pink
     ice: '#ADD8E6', // Light blue for ice
     turtle: '#228B22', // Forest green for turtles
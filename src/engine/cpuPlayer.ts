@@ -0,0 +1,473 @@
+/**
+ * CPU opponent.
+ * Reads the GameState the way a player reads the screen and answers with a
+ * PlayerInputFrame, so it drives a submarine through exactly the same interface
+ * as a keyboard or gamepad (and its matches record and replay like any other).
+ */
+
+import type {
+    GameState,
+    PlayerId,
+    PlayerInputFrame,
+    PlayerVehicle,
+} from './types';
+import { PlayerState, PickupType } from './types';
+import { calculateDescentSpeed } from './gameState';
+import {
+    FIXED_DT,
+    MINE_SIZE,
+    ROCKET_HEIGHT,
+    WORLD_LEFT_BOUND,
+    getWorldRightBound,
+} from './config';
+
+/** Selectable CPU skill levels */
+export const CpuDifficulty = {
+    Easy: 'easy',
+    Normal: 'normal',
+    Hard: 'hard',
+} as const;
+export type CpuDifficulty = (typeof CpuDifficulty)[keyof typeof CpuDifficulty];
+
+/** Tuning for one difficulty level */
+interface CpuProfile {
+    reactionFrames: number; // Frames between route re-plans
+    lookaheadSeconds: number; // How far ahead hazards are noticed
+    safetyMargin: number; // Horizontal clearance kept around hazards (px)
+    ejectWear: number; // Dump ballast once wear reaches this
+    ejectHp: number; // Dump ballast once HP drops to this
+    boost: boolean; // Hold down to dive faster when the route is clear
+    aimTolerance: number; // Max vertical misalignment to fire a rocket (px)
+    checkLineOfFire: boolean; // Don't waste rockets on obstacles in the way
+    weaponCooldownFrames: number; // Minimum frames between weapon uses
+    readsOpponent: boolean; // Time the ascent against the opponent's result
+}
+
+const CPU_PROFILES: Record<CpuDifficulty, CpuProfile> = {
+    [CpuDifficulty.Easy]: {
+        reactionFrames: 20,
+        lookaheadSeconds: 0.5,
+        safetyMargin: 4,
+        ejectWear: 45,
+        ejectHp: 2,
+        boost: false,
+        aimTolerance: 40,
+        checkLineOfFire: false,
+        weaponCooldownFrames: 300,
+        readsOpponent: false,
+    },
+    [CpuDifficulty.Normal]: {
+        reactionFrames: 8,
+        lookaheadSeconds: 1,
+        safetyMargin: 10,
+        ejectWear: 65,
+        ejectHp: 1,
+        boost: false,
+        aimTolerance: 20,
+        checkLineOfFire: false,
+        weaponCooldownFrames: 150,
+        readsOpponent: true,
+    },
+    [CpuDifficulty.Hard]: {
+        reactionFrames: 2,
+        lookaheadSeconds: 1.6,
+        safetyMargin: 14,
+        ejectWear: 78,
+        ejectHp: 1,
+        boost: true,
+        aimTolerance: 10,
+        checkLineOfFire: true,
+        weaponCooldownFrames: 60,
+        readsOpponent: true,
+    },
+};
+
+/** Spacing of candidate columns when choosing a route (px) */
+const COLUMN_STEP = 20;
+
+/** Route cost per pixel of sideways travel (prefers short moves) */
+const TRAVEL_COST = 0.05;
+
+/** Route cost of crossing a hazard right now (falls off with time to impact) */
+const HAZARD_COST = 1000;
+
+/** Route bonus for collecting a pickup on the way */
+const HEALTH_PICKUP_VALUE = 300;
+const AMMO_PICKUP_VALUE = 150;
+
+/** Depth lead kept over a finished opponent before ascending */
+const DEPTH_LEAD = 150;
+
+/** Ascend before reaching the bottom of the map */
+const BOTTOM_CLEARANCE = 200;
+
+/** Where createRocket / createMine spawn relative to the sub */
+const ROCKET_OFFSET_Y = 20;
+const MINE_OFFSET_X = 30;
+const MINE_OFFSET_Y = 50;
+
+/** Something the route should avoid or collect, with linear motion */
+interface Target {
+    x: number;
+    y: number;
+    width: number;
+    height: number;
+    velocityX: number;
+    velocityY: number;
+}
+
+/** Time interval (seconds from now) during which a target is level with the player */
+interface CrossingWindow {
+    start: number;
+    end: number;
+}
+
+/**
+ * When does a target vertically overlap the player, given the player's vertical speed?
+ * @returns The overlap window clipped to [0, lookahead], or null if it never overlaps
+ */
+function getCrossingWindow(
+    player: PlayerVehicle,
+    target: Target,
+    playerSpeedY: number,
+    lookahead: number
+): CrossingWindow | null {
+    const relativeSpeed = playerSpeedY - target.velocityY;
+
+    if (Math.abs(relativeSpeed) < 1e-6) {
+        const overlapping =
+            player.y < target.y + target.height && player.y + player.height > target.y;
+        return overlapping ? { start: 0, end: lookahead } : null;
+    }
+
+    const enter = (target.y - (player.y + player.height)) / relativeSpeed;
+    const leave = (target.y + target.height - player.y) / relativeSpeed;
+    const start = Math.max(0, Math.min(enter, leave));
+    const end = Math.min(lookahead, Math.max(enter, leave));
+
+    return start <= end ? { start, end } : null;
+}
+
+/** Player x after steering toward targetX for some time at the given horizontal speed */
+function steerX(fromX: number, targetX: number, seconds: number, speed: number): number {
+    const reach = speed * seconds;
+    return fromX + Math.max(-reach, Math.min(reach, targetX - fromX));
+}
+
+/**
+ * Does the player's horizontal sweep during a crossing window touch the target's?
+ */
+function routeOverlaps(
+    player: PlayerVehicle,
+    targetX: number,
+    target: Target,
+    window: CrossingWindow,
+    margin: number,
+    speed: number
+): boolean {
+    const playerStart = steerX(player.x, targetX, window.start, speed);
+    const playerEnd = steerX(player.x, targetX, window.end, speed);
+    const targetStart = target.x + target.velocityX * window.start;
+    const targetEnd = target.x + target.velocityX * window.end;
+
+    const playerLeft = Math.min(playerStart, playerEnd) - margin;
+    const playerRight = Math.max(playerStart, playerEnd) + player.width + margin;
+    const targetLeft = Math.min(targetStart, targetEnd);
+    const targetRight = Math.max(targetStart, targetEnd) + target.width;
+
+    return playerLeft < targetRight && playerRight > targetLeft;
+}
+
+/**
+ * Drives one player from the game state.
+ * Keeps a little memory between frames (current route, weapon cooldown),
+ * so create one controller per player per match.
+ */
+export class CpuController {
+    private readonly playerId: PlayerId;
+    private readonly profile: CpuProfile;
+    private targetX: number | null = null;
+    private verticalInput: -1 | 0 | 1 = 0;
+    private nextPlanFrame = 0;
+    private nextWeaponFrame = 0;
+
+    /**
+     * @param playerId - Player this controller drives
+     * @param difficulty - Skill level
+     */
+    constructor(playerId: PlayerId, difficulty: CpuDifficulty = CpuDifficulty.Normal) {
+        this.playerId = playerId;
+        this.profile = CPU_PROFILES[difficulty];
+    }
+
+    /**
+     * Decide this frame's input from the current state.
+     */
+    getInput(state: GameState): PlayerInputFrame {
+        const input: PlayerInputFrame = {
+            frame: state.frame,
+            left: false,
+            right: false,
+            up: false,
+            down: false,
+            action: null,
+        };
+
+        const self = state.players[this.playerId];
+        if (!self) return input;
+        if (self.state !== PlayerState.Descending && self.state !== PlayerState.Ascending) {
+            return input;
+        }
+
+        if (this.targetX === null || state.frame >= this.nextPlanFrame) {
+            this.planRoute(state, self);
+            this.nextPlanFrame = state.frame + this.profile.reactionFrames;
+        }
+
+        // Steer toward the planned column, with a deadzone of one frame's movement
+        const dx = (this.targetX ?? self.x) - self.x;
+        const deadzone = state.ruleset.horizontalSpeed * FIXED_DT;
+        input.left = dx < -deadzone;
+        input.right = dx > deadzone;
+        input.up = this.verticalInput < 0;
+        input.down = this.verticalInput > 0;
+
+        if (self.state === PlayerState.Descending) {
+            Object.assign(input, this.chooseAction(state, self));
+        }
+
+        return input;
+    }
+
+    /**
+     * Pick the column to steer toward and whether to speed up or brake.
+     * Tries the fastest vertical option first and settles for a slower one
+     * only if it finds a collision-free route.
+     */
+    private planRoute(state: GameState, self: PlayerVehicle): void {
+        const options: Array<-1 | 0 | 1> = [];
+        if (self.state === PlayerState.Ascending) {
+            options.push(0); // Vertical input does nothing for a capsule
+        } else {
+            if (this.profile.boost) options.push(1);
+            options.push(0, -1);
+        }
+
+        let best: { x: number; cost: number; clear: boolean; vertical: -1 | 0 | 1 } | null =
+            null;
+        for (const vertical of options) {
+            const route = this.findBestColumn(state, self, vertical);
+            if (route.clear) {
+                best = { ...route, vertical };
+                break;
+            }
+            if (!best || route.cost < best.cost) {
+                best = { ...route, vertical };
+            }
+        }
+
+        this.targetX = best!.x;
+        this.verticalInput = best!.vertical;
+    }
+
+    /**
+     * Score every candidate column for a given vertical input.
+     * @returns The cheapest column, and whether its route avoids every known hazard
+     */
+    private findBestColumn(
+        state: GameState,
+        self: PlayerVehicle,
+        vertical: -1 | 0 | 1
+    ): { x: number; cost: number; clear: boolean } {
+        const { lookaheadSeconds, safetyMargin } = this.profile;
+        const { ruleset } = state;
+        const descending = self.state === PlayerState.Descending;
+        const speedY = descending
+            ? calculateDescentSpeed(self.y, ruleset, state.maxDepth) +
+              vertical * ruleset.verticalSpeed
+            : -ruleset.ascentSpeed;
+
+        // Crossing windows don't depend on the column, so compute them once
+        const hazards: Array<{ target: Target; window: CrossingWindow }> = [];
+        const addHazard = (target: Target) => {
+            const window = getCrossingWindow(self, target, speedY, lookaheadSeconds);
+            if (window) hazards.push({ target, window });
+        };
+        for (const obstacle of state.obstacles) {
+            if (obstacle.active) addHazard(obstacle);
+        }
+        for (const fish of state.anglerFish) {
+            if (fish.active) addHazard(fish);
+        }
+        for (const projectile of state.projectiles) {
+            if (projectile.active && projectile.ownerId !== this.playerId) addHazard(projectile);
+        }
+
+        const rewards: Array<{ target: Target; window: CrossingWindow; value: number }> = [];
+        if (descending) {
+            for (const pickup of state.pickups) {
+                if (!pickup.active) continue;
+                const value =
+                    pickup.type === PickupType.Health
+                        ? self.hp < ruleset.subStartingHp
+                            ? HEALTH_PICKUP_VALUE
+                            : 0
+                        : AMMO_PICKUP_VALUE;
+                const target: Target = {
+                    x: pickup.x,
+                    y: pickup.y,
+                    width: pickup.size,
+                    height: pickup.size,
+                    velocityX: 0,
+                    velocityY: 0,
+                };
+                const window = getCrossingWindow(self, target, speedY, lookaheadSeconds);
+                if (window && value > 0) rewards.push({ target, window, value });
+            }
+        }
+
+        const minX = WORLD_LEFT_BOUND;
+        const maxX = getWorldRightBound(state.worldWidth) - self.width;
+        const candidates = [self.x];
+        for (let x = minX; x <= maxX; x += COLUMN_STEP) {
+            candidates.push(x);
+        }
+
+        let best = { x: self.x, cost: Infinity, clear: false };
+        for (const x of candidates) {
+            let cost = Math.abs(x - self.x) * TRAVEL_COST;
+            let clear = true;
+
+            for (const { target, window } of hazards) {
+                if (routeOverlaps(self, x, target, window, safetyMargin, ruleset.horizontalSpeed)) {
+                    cost += HAZARD_COST / (1 + window.start);
+                    clear = false;
+                }
+            }
+            for (const { target, window, value } of rewards) {
+                if (routeOverlaps(self, x, target, window, 0, ruleset.horizontalSpeed)) {
+                    cost -= value;
+                }
+            }
+
+            if (cost < best.cost) {
+                best = { x, cost, clear };
+            }
+        }
+
+        return best;
+    }
+
+    /**
+     * Decide whether to eject, fire a rocket or drop a mine this frame.
+     * Rockets are aimed at the opponent the shot was lined up on.
+     */
+    private chooseAction(
+        state: GameState,
+        self: PlayerVehicle
+    ): Pick<PlayerInputFrame, 'action' | 'rocketTarget'> {
+        if (this.shouldEject(state, self)) {
+            return { action: 'dumpBallast' };
+        }
+
+        if (state.frame < this.nextWeaponFrame) {
+            return { action: null };
+        }
+
+        for (const opponentId of this.getOpponentIds(state)) {
+            const opponent = state.players[opponentId]!;
+            if (opponent.state !== PlayerState.Descending || opponent.invincibilityFrames > 0) {
+                continue;
+            }
+
+            if (self.rocketsRemaining > 0 && this.hasRocketShot(state, self, opponent)) {
+                this.nextWeaponFrame = state.frame + this.profile.weaponCooldownFrames;
+                return { action: 'fireRocket', rocketTarget: opponentId };
+            }
+
+            if (self.minesRemaining > 0 && this.hasMineShot(state, self, opponent)) {
+                this.nextWeaponFrame = state.frame + this.profile.weaponCooldownFrames;
+                return { action: 'deployMine' };
+            }
+        }
+
+        return { action: null };
+    }
+
+    /** Every other player in the match, in seat order */
+    private getOpponentIds(state: GameState): PlayerId[] {
+        return state.playerIds.filter((playerId) => playerId !== this.playerId);
+    }
+
+    /**
+     * Dump ballast when the sub is too worn or damaged to risk going deeper,
+     * or (on higher difficulties) once it is safely ahead of every finished opponent.
+     */
+    private shouldEject(state: GameState, self: PlayerVehicle): boolean {
+        if (self.wear >= this.profile.ejectWear || self.hp <= this.profile.ejectHp) {
+            return true;
+        }
+        if (self.y >= state.maxDepth - BOTTOM_CLEARANCE) {
+            return true;
+        }
+
+        const opponents = this.getOpponentIds(state).map((id) => state.players[id]!);
+        if (this.profile.readsOpponent && opponents.length > 0) {
+            const safelyAhead = opponents.every(
+                (opponent) =>
+                    (opponent.state === PlayerState.Dead ||
+                        opponent.state === PlayerState.Escaped) &&
+                    self.maxDepthReached > opponent.maxDepthReached + DEPTH_LEAD
+            );
+            if (safelyAhead) {
+                return true;
+            }
+        }
+
+        return false;
+    }
+
+    /**
+     * Is the opponent level with our rocket's flight path (and, if checked, unobstructed)?
+     */
+    private hasRocketShot(state: GameState, self: PlayerVehicle, opponent: PlayerVehicle): boolean {
+        const rocketCenterY = self.y + ROCKET_OFFSET_Y + ROCKET_HEIGHT / 2;
+        const opponentCenterY = opponent.y + opponent.height / 2;
+        if (Math.abs(rocketCenterY - opponentCenterY) > this.profile.aimTolerance) {
+            return false;
+        }
+
+        if (this.profile.checkLineOfFire) {
+            const left = Math.min(self.x, opponent.x);
+            const right = Math.max(self.x + self.width, opponent.x + opponent.width);
+            const rocketTop = self.y + ROCKET_OFFSET_Y;
+            const blocked = state.obstacles.some(
+                (o) =>
+                    o.active &&
+                    o.x < right &&
+                    o.x + o.width > left &&
+                    o.y < rocketTop + ROCKET_HEIGHT &&
+                    o.y + o.height > rocketTop
+            );
+            if (blocked) return false;
+        }
+
+        return true;
+    }
+
+    /**
+     * Is the opponent directly above us and close enough to sink into a mine
+     * before it expires?
+     */
+    private hasMineShot(state: GameState, self: PlayerVehicle, opponent: PlayerVehicle): boolean {
+        const mineX = self.x + MINE_OFFSET_X;
+        const mineY = self.y + MINE_OFFSET_Y;
+        const gap = mineY - (opponent.y + opponent.height);
+        if (gap <= 0) return false;
+
+        const alignedX = opponent.x < mineX + MINE_SIZE && opponent.x + opponent.width > mineX;
+        const { ruleset } = state;
+        const secondsToReach = gap / calculateDescentSpeed(opponent.y, ruleset, state.maxDepth);
+        return alignedX && secondsToReach < ruleset.mineLifetime * FIXED_DT * 0.6;
+    }
+}
@@ -0,0 +1,104 @@
+/**
+ * Daily Dive: a solo dive on a seed derived from the calendar date, so everyone playing
+ * on the same day dives the same trench. Practice dives are unlimited; only the first
+ * official attempt of the day counts.
+ */
+
+import type { GameState } from './types';
+import { PlayerState } from './types';
+import { deriveSeed } from './rng';
+import { getSoloScore } from './scoring';
+
+/** Mixed into the date so daily seeds don't line up with other derived seeds */
+const DAILY_SEED_KEY = 0xda11;
+
+/** Daily seeds stay in the range of seeds players type in */
+const DAILY_SEED_RANGE = 1000000;
+
+/** Calendar date of a daily challenge, as YYYY-MM-DD */
+const DATE_KEY_PATTERN = /^(\d{4})-(\d{2})-(\d{2})$/;
+
+/** A Daily Dive being played */
+export interface DailyAttempt {
+    /** Challenge date, YYYY-MM-DD */
+    dateKey: string;
+    /** Practice dives are not recorded as the day's official result */
+    practice: boolean;
+}
+
+/** How a Daily Dive went */
+export interface DailyResult {
+    /** Challenge date, YYYY-MM-DD */
+    dateKey: string;
+    score: number;
+    /** Whole metres of the deepest depth reached */
+    depth: number;
+    escaped: boolean;
+}
+
+/**
+ * The challenge date for a moment, on the player's local calendar.
+ * @returns Date as YYYY-MM-DD
+ */
+export function getDailyDateKey(date: Date): string {
+    const month = String(date.getMonth() + 1).padStart(2, '0');
+    const day = String(date.getDate()).padStart(2, '0');
+    return `${date.getFullYear()}-${month}-${day}`;
+}
+
+/**
+ * Seed of the Daily Dive for a date.
+ * @param dateKey - Date as YYYY-MM-DD
+ */
+export function getDailySeed(dateKey: string): number {
+    const match = DATE_KEY_PATTERN.exec(dateKey);
+    if (!match) {
+        throw new Error(`Daily challenge date must be YYYY-MM-DD, got "${dateKey}"`);
+    }
+    const [year, month, day] = match.slice(1).map(Number);
+    return deriveSeed(year * 10000 + month * 100 + day, DAILY_SEED_KEY) % DAILY_SEED_RANGE;
+}
+
+/**
+ * Result of a finished Daily Dive.
+ */
+export function getDailyResult(dateKey: string, state: GameState): DailyResult {
+    const player = state.players[state.playerIds[0]]!;
+    return {
+        dateKey,
+        score: getSoloScore(player),
+        depth: Math.floor(player.maxDepthReached),
+        escaped: player.state === PlayerState.Escaped,
+    };
+}
+
+/**
+ * Whether a result beats the best so far: a higher score, or the same score from deeper.
+ */
+export function isBetterDailyResult(result: DailyResult, best: DailyResult | null): boolean {
+    return (
+        !best ||
+        result.score > best.score ||
+        (result.score === best.score && result.depth > best.depth)
+    );
+}
+
+/**
+ * Plain-text summary of a Daily Dive for pasting into a chat.
+ * @param practice - Whether this was a practice dive rather than the official attempt
+ * @param replayCode - Compact replay code (see encodeReplayCode) so others can watch it
+ */
+export function formatDailySummary(
+    result: DailyResult,
+    practice: boolean,
+    replayCode: string | null
+): string {
+    const lines = [
+        `Titan Escape Daily Dive ${result.dateKey}${practice ? ' (practice)' : ''}`,
+        `${result.depth}m · ${result.escaped ? 'escaped 🎉' : 'lost 💀'} · score ${result.score}`,
+    ];
+    if (replayCode) {
+        lines.push(`Replay: ${replayCode}`);
+    }
+    return lines.join('\n');
+}
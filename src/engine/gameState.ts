@@ -15,57 +15,48 @@ import type {
     Projectile,
     Pickup,
     AnglerFish,
+    EntityIdCounters,
+    GameEvent,
+    DamageSource,
+    Ruleset,
+    PlayerMap,
+    PlayerResult,
 } from './types';
-import { ProjectileType, PickupType } from './types';
-import { PlayerState, DeathCause, GamePhase } from './types';
-import { createRNG } from './rng';
-import { generateObstacles, updateObstacles, getVisibleObstacles } from './obstacleGenerator';
+import { ProjectileType, PickupType, ObstacleType, PLAYER_IDS } from './types';
+import { PlayerState, DeathCause, GamePhase, GameEventType } from './types';
+import { RNGStream, createStreamRNG } from './rng';
+import { createPlayerStats, updateMatchStats } from './matchStats';
+import { streamObstacleChunks, updateObstacles } from './obstacleGenerator';
+import { buildSpatialIndex, querySpatialIndex } from './spatialIndex';
+import type { SpatialIndex } from './spatialIndex';
+import { NORMAL_RULESET } from './ruleset';
+import { getSoloScore } from './scoring';
 import {
     SUB_WIDTH,
     SUB_HEIGHT,
     CAPSULE_WIDTH,
     CAPSULE_HEIGHT,
-    SUB_STARTING_HP,
     CAPSULE_HP,
     PASSENGER_COUNT,
-    HORIZONTAL_SPEED,
-    VERTICAL_SPEED,
-    BASE_DESCENT_SPEED,
-    DESCENT_SPEED_FACTOR,
-    ASCENT_SPEED,
-    BASE_WEAR_RATE,
-    DEPTH_WEAR_FACTOR,
-    COLLISION_WEAR,
-    COLLISION_DAMAGE,
-    INVINCIBILITY_FRAMES,
-    MAX_DEPTH,
     WORLD_LEFT_BOUND,
     getWorldRightBound,
-    getPlayer1StartX,
-    getPlayer2StartX,
+    getPlayerStartX,
     PLAYER_START_Y,
     OBSTACLE_GENERATION_BUFFER,
-    SMALL_ROCKET_COUNT,
-    SMALL_ROCKET_DAMAGE,
-    MINE_DAMAGE,
-    ROCKET_SPEED,
-    MINE_LIFETIME,
+    OBSTACLE_EVICTION_DISTANCE,
     ROCKET_WIDTH,
     ROCKET_HEIGHT,
     MINE_SIZE,
-    HP_PICKUP_CHANCE,
     HP_PICKUP_SIZE,
-    HP_PICKUP_HEAL,
-    ANGLER_FISH_MIN_DEPTH,
-    ANGLER_FISH_SPAWN_CHANCE,
     ANGLER_FISH_WIDTH,
     ANGLER_FISH_HEIGHT,
-    ANGLER_FISH_AGGRO_RADIUS,
-    ANGLER_FISH_SPEED_MULTIPLIER,
-    ANGLER_FISH_DAMAGE,
-    ANGLER_FISH_MAX_COUNT,
 } from './config';
 
+/** Input of a player who pressed nothing */
+function createIdleInput(frame: number): PlayerInputFrame {
+    return { frame, left: false, right: false, up: false, down: false, action: null };
+}
+
 /** Create initial passengers for a submarine */
 function createPassengers(): Passenger[] {
     return Array.from({ length: PASSENGER_COUNT }, () => ({
@@ -75,31 +66,25 @@ function createPassengers(): Passenger[] {
     }));
 }
 
-/** Generate a unique projectile ID */
-let projectileIdCounter = 0;
-function generateProjectileId(): string {
-    return `proj_${projectileIdCounter++}`;
+/** Allocate the next projectile ID from the match's counters */
+function generateProjectileId(ids: EntityIdCounters): string {
+    return `proj_${ids.projectile++}`;
 }
 
-/** Generate a unique pickup ID */
-let pickupIdCounter = 0;
-function generatePickupId(): string {
-    return `pickup_${pickupIdCounter++}`;
+/** Allocate the next pickup ID from the match's counters */
+function generatePickupId(ids: EntityIdCounters): string {
+    return `pickup_${ids.pickup++}`;
 }
 
-/** Generate a unique angler fish ID */
-let anglerFishIdCounter = 0;
-function generateAnglerFishId(): string {
-    return `angler_${anglerFishIdCounter++}`;
+/** Allocate the next angler fish ID from the match's counters */
+function generateAnglerFishId(ids: EntityIdCounters): string {
+    return `angler_${ids.anglerFish++}`;
 }
 
-/** Ammo pickup chance (even rarer than HP) */
-const AMMO_PICKUP_CHANCE = 0.0001; // Very rare - about 1 per 1000m
-
 /** Create a pickup at a given position */
-function createPickup(type: PickupType, x: number, y: number): Pickup {
+function createPickup(ids: EntityIdCounters, type: PickupType, x: number, y: number): Pickup {
     return {
-        id: generatePickupId(),
+        id: generatePickupId(ids),
         type,
         x,
         y,
@@ -131,12 +116,12 @@ function checkPickupCollision(pickup: Pickup, player: PlayerVehicle): boolean {
 }
 
 /** Apply pickup effect to player */
-function applyPickup(pickup: Pickup, player: PlayerVehicle): PlayerVehicle {
+function applyPickup(pickup: Pickup, player: PlayerVehicle, ruleset: Ruleset): PlayerVehicle {
     switch (pickup.type) {
         case PickupType.Health:
             return {
                 ...player,
-                hp: Math.min(player.hp + HP_PICKUP_HEAL, SUB_STARTING_HP),
+                hp: Math.min(player.hp + ruleset.hpPickupHeal, ruleset.subStartingHp),
             };
         case PickupType.Rocket:
             return {
@@ -155,34 +140,78 @@ function applyPickup(pickup: Pickup, player: PlayerVehicle): PlayerVehicle {
 
 /** Create a rocket projectile */
 function createRocket(
+    ids: EntityIdCounters,
     ownerId: PlayerId,
     x: number,
     y: number,
-    _targetPlayerId: PlayerId, // Used for direction calculation
-    targetX: number
+    targetX: number,
+    ruleset: Ruleset
 ): Projectile {
-    // Rocket flies horizontally towards the other player
+    // Rocket flies horizontally towards its target
     const direction = targetX > x ? 1 : -1;
     return {
-        id: generateProjectileId(),
+        id: generateProjectileId(ids),
         type: ProjectileType.Rocket,
         ownerId,
         x: x + (direction > 0 ? 80 : -ROCKET_WIDTH), // Fire from front of sub
         y: y + 20, // Center of sub
         width: ROCKET_WIDTH,
         height: ROCKET_HEIGHT,
-        velocityX: direction * ROCKET_SPEED,
+        velocityX: direction * ruleset.rocketSpeed,
         velocityY: 0,
-        damage: SMALL_ROCKET_DAMAGE,
+        damage: ruleset.rocketDamage,
         lifetime: 300, // 5 seconds
         active: true,
     };
 }
 
+/**
+ * Where a player's rocket is aimed: the chosen opponent if they are still in the water,
+ * else the nearest opponent still in the water, or the nearest opponent at all.
+ * A solo diver fires across the wider side of the trench.
+ */
+function getRocketTargetX(
+    shooterId: PlayerId,
+    players: PlayerMap<PlayerVehicle>,
+    playerIds: PlayerId[],
+    worldWidth: number,
+    chosenTargetId: PlayerId | null = null
+): number {
+    const shooter = players[shooterId]!;
+    const chosen =
+        chosenTargetId && chosenTargetId !== shooterId ? players[chosenTargetId] : undefined;
+    if (
+        chosen &&
+        (chosen.state === PlayerState.Descending || chosen.state === PlayerState.Ascending)
+    ) {
+        return chosen.x;
+    }
+
+    const opponents = playerIds
+        .filter((id) => id !== shooterId)
+        .map((id) => players[id]!);
+    if (opponents.length === 0) {
+        return shooter.x < worldWidth / 2 ? getWorldRightBound(worldWidth) : WORLD_LEFT_BOUND;
+    }
+
+    const inWater = opponents.filter(
+        (p) => p.state === PlayerState.Descending || p.state === PlayerState.Ascending
+    );
+    const candidates = inWater.length > 0 ? inWater : opponents;
+    const distance = (p: PlayerVehicle) => Math.hypot(p.x - shooter.x, p.y - shooter.y);
+    return candidates.reduce((nearest, p) => (distance(p) < distance(nearest) ? p : nearest)).x;
+}
+
 /** Create a mine (stationary) */
-function createMine(ownerId: PlayerId, x: number, y: number): Projectile {
+function createMine(
+    ids: EntityIdCounters,
+    ownerId: PlayerId,
+    x: number,
+    y: number,
+    ruleset: Ruleset
+): Projectile {
     return {
-        id: generateProjectileId(),
+        id: generateProjectileId(ids),
         type: ProjectileType.Mine,
         ownerId,
         x: x + 30,
@@ -191,8 +220,8 @@ function createMine(ownerId: PlayerId, x: number, y: number): Projectile {
         height: MINE_SIZE,
         velocityX: 0,
         velocityY: 0,
-        damage: MINE_DAMAGE,
-        lifetime: MINE_LIFETIME,
+        damage: ruleset.mineDamage,
+        lifetime: ruleset.mineLifetime,
         active: true,
     };
 }
@@ -213,25 +242,28 @@ function updateProjectiles(projectiles: Projectile[], dt: number): Projectile[]
         .filter((p) => p.active && p.lifetime > 0);
 }
 
-/** Check projectile collisions with players and obstacles */
+/**
+ * Check projectile collisions with players and obstacles.
+ * `obstacleIndex` must index `obstacles` at their current positions.
+ */
 function checkProjectileCollisions(
     projectiles: Projectile[],
-    players: Record<PlayerId, PlayerVehicle>,
-    obstacles: Obstacle[]
+    players: PlayerMap<PlayerVehicle>,
+    playerIds: PlayerId[],
+    obstacles: Obstacle[],
+    obstacleIndex: SpatialIndex,
+    frame: number,
+    ruleset: Ruleset
 ): {
     projectiles: Projectile[];
-    players: Record<PlayerId, PlayerVehicle>;
+    players: PlayerMap<PlayerVehicle>;
     obstacles: Obstacle[];
-    hits: Array<{ projectileId: string; targetType: 'player' | 'obstacle'; targetId: string }>;
+    events: GameEvent[];
 } {
-    let updatedProjectiles = [...projectiles];
-    let updatedPlayers = { ...players };
-    let updatedObstacles = [...obstacles];
-    const hits: Array<{
-        projectileId: string;
-        targetType: 'player' | 'obstacle';
-        targetId: string;
-    }> = [];
+    const destroyedIds = new Set<string>();
+    const updatedPlayers = { ...players };
+    const updatedObstacles = [...obstacles];
+    const events: GameEvent[] = [];
 
     for (const proj of projectiles) {
         if (!proj.active) continue;
@@ -244,7 +276,7 @@ function checkProjectileCollisions(
         };
 
         // Check collision with obstacles first (can block projectiles)
-        for (let i = 0; i < updatedObstacles.length; i++) {
+        for (const i of querySpatialIndex(obstacleIndex, projBox)) {
             const obs = updatedObstacles[i];
             if (!obs.active) continue;
 
@@ -257,82 +289,106 @@ function checkProjectileCollisions(
 
             if (checkAABBCollision(projBox, obsBox)) {
                 // Projectile hits obstacle - both are destroyed
-                updatedProjectiles = updatedProjectiles.map((p) =>
-                    p.id === proj.id ? { ...p, active: false } : p
-                );
+                destroyedIds.add(proj.id);
                 updatedObstacles[i] = { ...obs, active: false };
-                hits.push({ projectileId: proj.id, targetType: 'obstacle', targetId: obs.id });
+                events.push({
+                    type: GameEventType.ProjectileHit,
+                    frame,
+                    ownerId: proj.ownerId,
+                    projectileId: proj.id,
+                    projectileType: proj.type,
+                    targetType: 'obstacle',
+                    targetId: obs.id,
+                    damage: 0,
+                });
                 break; // Projectile is destroyed, stop checking
             }
         }
 
         // Check if projectile is still active after obstacle check
-        const stillActive = updatedProjectiles.find((p) => p.id === proj.id)?.active;
-        if (!stillActive) continue;
-
-        // Check collision with enemy player
-        const enemyId: PlayerId = proj.ownerId === 'player1' ? 'player2' : 'player1';
-        const enemy = updatedPlayers[enemyId];
-
-        // Skip if enemy is dead or has invincibility
-        if (enemy.state === PlayerState.Dead || enemy.state === PlayerState.Escaped) continue;
-        if (enemy.invincibilityFrames > 0) continue;
-
-        const enemyBox: AABB = {
-            x: enemy.x,
-            y: enemy.y,
-            width: enemy.width,
-            height: enemy.height,
-        };
+        if (destroyedIds.has(proj.id)) continue;
+
+        // Check collision with enemy players, in seat order
+        for (const enemyId of playerIds) {
+            if (enemyId === proj.ownerId) continue;
+            const enemy = updatedPlayers[enemyId]!;
+
+            // Skip if enemy is dead or has invincibility
+            if (enemy.state === PlayerState.Dead || enemy.state === PlayerState.Escaped) continue;
+            if (enemy.invincibilityFrames > 0) continue;
+
+            const enemyBox: AABB = {
+                x: enemy.x,
+                y: enemy.y,
+                width: enemy.width,
+                height: enemy.height,
+            };
+            if (!checkAABBCollision(projBox, enemyBox)) continue;
 
-        if (checkAABBCollision(projBox, enemyBox)) {
             // Projectile hits enemy player
-            updatedProjectiles = updatedProjectiles.map((p) =>
-                p.id === proj.id ? { ...p, active: false } : p
+            destroyedIds.add(proj.id);
+
+            const hit = applyDamage(
+                enemyId,
+                enemy,
+                {
+                    kind: 'projectile',
+                    projectileId: proj.id,
+                    projectileType: proj.type,
+                    attackerId: proj.ownerId,
+                },
+                proj.damage,
+                0,
+                frame,
+                ruleset
             );
 
-            const prevHp = enemy.hp;
-            let newEnemy = {
-                ...enemy,
-                hp: Math.max(0, enemy.hp - proj.damage),
-                invincibilityFrames: INVINCIBILITY_FRAMES,
-            };
-
-            // Kill passengers for each HP lost
-            for (let i = 0; i < prevHp - newEnemy.hp; i++) {
-                newEnemy.passengers = killPassenger(newEnemy.passengers);
-            }
-
-            // Check for death
-            if (newEnemy.hp <= 0) {
-                newEnemy = {
-                    ...newEnemy,
-                    state: PlayerState.Dead,
-                    deathCause: DeathCause.Imploded,
-                    implosionFrame: 1,
-                    passengers: newEnemy.passengers.map((p) => ({ ...p, alive: false })),
-                };
-            }
-
-            updatedPlayers[enemyId] = newEnemy;
-            hits.push({ projectileId: proj.id, targetType: 'player', targetId: enemyId });
+            updatedPlayers[enemyId] = hit.player;
+            events.push(
+                {
+                    type: GameEventType.ProjectileHit,
+                    frame,
+                    ownerId: proj.ownerId,
+                    projectileId: proj.id,
+                    projectileType: proj.type,
+                    targetType: 'player',
+                    targetId: enemyId,
+                    damage: hit.damage,
+                },
+                ...hit.events
+            );
+            break; // The projectile is spent
         }
     }
 
     return {
-        projectiles: updatedProjectiles.filter((p) => p.active),
+        projectiles: projectiles.filter((p) => p.active && !destroyedIds.has(p.id)),
         players: updatedPlayers,
         obstacles: updatedObstacles,
-        hits,
+        events,
     };
 }
 
+/**
+ * Seats taken in a match created from the given config, in seat order.
+ * Throws if the config asks for an unsupported number of players.
+ */
+export function getMatchPlayerIds(config: EngineConfig): PlayerId[] {
+    const playerCount = config.playerCount ?? 2;
+    if (!Number.isInteger(playerCount) || playerCount < 1 || playerCount > PLAYER_IDS.length) {
+        throw new Error(`A match needs 1 to ${PLAYER_IDS.length} players, got ${playerCount}`);
+    }
+    return PLAYER_IDS.slice(0, playerCount);
+}
+
 /**
  * Create the initial game state from configuration.
  * This is the starting point for any game session.
  */
 export function createInitialState(config: EngineConfig): GameState {
-    const rng = createRNG(config.seed);
+    const ruleset = config.ruleset ?? NORMAL_RULESET;
+    const playerIds = getMatchPlayerIds(config);
+    const playerCount = playerIds.length;
 
     const createPlayer = (startX: number): PlayerVehicle => ({
         x: startX,
@@ -341,27 +397,33 @@ export function createInitialState(config: EngineConfig): GameState {
         velocityY: 0,
         width: SUB_WIDTH,
         height: SUB_HEIGHT,
-        hp: SUB_STARTING_HP,
+        hp: ruleset.subStartingHp,
         wear: 0,
         state: PlayerState.Descending,
         maxDepthReached: PLAYER_START_Y,
         invincibilityFrames: 0,
         passengers: createPassengers(),
         implosionFrame: 0,
-        rocketsRemaining: SMALL_ROCKET_COUNT,
-        minesRemaining: 1,
+        rocketsRemaining: ruleset.startingRockets,
+        minesRemaining: ruleset.startingMines,
     });
 
     return {
         frame: 0,
         seed: config.seed,
-        rngState: rng.getState(),
+        rngStreams: {
+            pickups: createStreamRNG(config.seed, RNGStream.Pickups).getState(),
+            creatures: createStreamRNG(config.seed, RNGStream.Creatures).getState(),
+        },
         phase: GamePhase.Playing,
         introProgress: 1,
-        players: {
-            player1: createPlayer(getPlayer1StartX()),
-            player2: createPlayer(getPlayer2StartX()),
-        },
+        playerIds,
+        players: Object.fromEntries(
+            playerIds.map((playerId, seat) => [
+                playerId,
+                createPlayer(getPlayerStartX(seat, playerCount, config.worldWidth)),
+            ])
+        ),
         obstacles: [],
         projectiles: [],
         pickups: [],
@@ -369,7 +431,15 @@ export function createInitialState(config: EngineConfig): GameState {
         gameOver: false,
         winner: null,
         generatedDepth: 0,
+        loadedChunks: { first: 0, last: -1 },
+        consumedObstacles: {},
         currentMaxDepth: PLAYER_START_Y,
+        worldWidth: config.worldWidth,
+        worldHeight: config.worldHeight,
+        maxDepth: config.maxDepth,
+        ruleset,
+        nextEntityIds: { projectile: 0, pickup: 0, anglerFish: 0 },
+        stats: Object.fromEntries(playerIds.map((playerId) => [playerId, createPlayerStats()])),
     };
 }
 
@@ -384,18 +454,20 @@ function checkAABBCollision(a: AABB, b: AABB): boolean {
 
 /**
  * Calculate descent speed based on current depth.
+ * @param maxDepth - Depth of the trench floor, where descent is fastest
  */
-function calculateDescentSpeed(depth: number): number {
-    const normalizedDepth = Math.min(depth / MAX_DEPTH, 1);
-    return BASE_DESCENT_SPEED + normalizedDepth * DESCENT_SPEED_FACTOR;
+export function calculateDescentSpeed(depth: number, ruleset: Ruleset, maxDepth: number): number {
+    const normalizedDepth = Math.min(depth / maxDepth, 1);
+    return ruleset.baseDescentSpeed + normalizedDepth * ruleset.descentSpeedFactor;
 }
 
 /**
  * Calculate wear increase rate based on depth.
+ * @param maxDepth - Depth of the trench floor, where wear is fastest
  */
-function calculateWearRate(depth: number): number {
-    const normalizedDepth = Math.min(depth / MAX_DEPTH, 1);
-    return BASE_WEAR_RATE + normalizedDepth * DEPTH_WEAR_FACTOR;
+function calculateWearRate(depth: number, ruleset: Ruleset, maxDepth: number): number {
+    const normalizedDepth = Math.min(depth / maxDepth, 1);
+    return ruleset.baseWearRate + normalizedDepth * ruleset.depthWearFactor;
 }
 
 /** Physics constants for passenger sway */
@@ -453,24 +525,104 @@ function killPassenger(passengers: Passenger[]): Passenger[] {
     return newPassengers;
 }
 
+/** Death cause for a fatal hit from `source` on a player in `state` */
+function getDeathCause(source: DamageSource, state: PlayerState): DeathCause {
+    switch (source.kind) {
+        case 'projectile':
+            return source.projectileType === ProjectileType.Mine
+                ? DeathCause.KilledByMine
+                : DeathCause.KilledByRocket;
+        case 'anglerFish':
+            return DeathCause.EatenByAngler;
+        case 'obstacle':
+            if (state === PlayerState.Ascending) return DeathCause.CrashedAscent;
+            return source.obstacleType === ObstacleType.IceBlock
+                ? DeathCause.CrushedByIce
+                : DeathCause.Imploded;
+    }
+}
+
+/**
+ * Apply a hit to a player: HP and wear loss, one passenger lost per HP,
+ * invincibility frames, and death once HP hits 0 or wear hits 100.
+ * Hits on invincible, dead or escaped players are blocked and change nothing.
+ */
+function applyDamage(
+    playerId: PlayerId,
+    player: PlayerVehicle,
+    source: DamageSource,
+    damage: number,
+    wear: number,
+    frame: number,
+    ruleset: Ruleset
+): { player: PlayerVehicle; damage: number; blocked: boolean; events: GameEvent[] } {
+    if (
+        player.invincibilityFrames > 0 ||
+        (player.state !== PlayerState.Descending && player.state !== PlayerState.Ascending)
+    ) {
+        return { player, damage: 0, blocked: true, events: [] };
+    }
+
+    const hp = Math.max(0, player.hp - damage);
+    let newPlayer: PlayerVehicle = {
+        ...player,
+        hp,
+        wear: Math.min(100, player.wear + wear),
+        invincibilityFrames: ruleset.invincibilityFrames,
+    };
+
+    // Kill passengers for each HP lost
+    for (let i = 0; i < player.hp - hp; i++) {
+        newPlayer.passengers = killPassenger(newPlayer.passengers);
+    }
+
+    if (newPlayer.hp > 0 && newPlayer.wear < 100) {
+        return { player: newPlayer, damage: player.hp - hp, blocked: false, events: [] };
+    }
+
+    const cause = getDeathCause(source, player.state);
+    newPlayer = {
+        ...newPlayer,
+        state: PlayerState.Dead,
+        deathCause: cause,
+        implosionFrame: 1, // Start implosion animation
+        passengers: newPlayer.passengers.map((p) => ({ ...p, alive: false })),
+    };
+    const death: GameEvent = {
+        type: GameEventType.Implosion,
+        frame,
+        playerId,
+        cause,
+        depth: newPlayer.y,
+    };
+    if (source.kind === 'projectile') {
+        newPlayer.killedBy = source.attackerId;
+        death.killedBy = source.attackerId;
+    }
+
+    return { player: newPlayer, damage: player.hp - hp, blocked: false, events: [death] };
+}
+
 /**
  * Create a new angler fish at a random position.
  */
 function createAnglerFish(
+    ids: EntityIdCounters,
     rngNext: () => number,
     depth: number,
-    canvasWidth: number
+    worldWidth: number,
+    ruleset: Ruleset
 ): AnglerFish {
     const side = rngNext() > 0.5 ? 'left' : 'right';
     // Spawn on visible edges of screen (not far outside)
-    const x = side === 'left' ? 50 : canvasWidth - 50;
+    const x = side === 'left' ? 50 : worldWidth - 50;
     const y = depth + (rngNext() - 0.5) * 300; // Spawn near player depth
     
     // Initial velocity towards center of screen
     const initialVelocityX = side === 'left' ? 30 : -30;
     
     return {
-        id: generateAnglerFishId(),
+        id: generateAnglerFishId(ids),
         x,
         y,
         width: ANGLER_FISH_WIDTH,
@@ -478,23 +630,26 @@ function createAnglerFish(
         velocityX: initialVelocityX,
         velocityY: 0,
         targetPlayerId: null,
-        aggroRadius: ANGLER_FISH_AGGRO_RADIUS,
-        speed: HORIZONTAL_SPEED * ANGLER_FISH_SPEED_MULTIPLIER,
-        damage: ANGLER_FISH_DAMAGE,
+        aggroRadius: ruleset.anglerFishAggroRadius,
+        speed: ruleset.horizontalSpeed * ruleset.anglerFishSpeedMultiplier,
+        damage: ruleset.anglerFishDamage,
         active: true,
     };
 }
 
 /**
  * Update angler fish: check aggro, move towards target, check collisions.
+ * `obstacleIndex` must index `obstacles` at their current positions.
  */
 function updateAnglerFish(
     fish: AnglerFish[],
-    players: Record<PlayerId, PlayerVehicle>,
+    players: PlayerMap<PlayerVehicle>,
+    playerIds: PlayerId[],
     obstacles: Obstacle[],
+    obstacleIndex: SpatialIndex,
     dt: number
-): { fish: AnglerFish[]; damagedPlayers: PlayerId[] } {
-    const damagedPlayers: PlayerId[] = [];
+): { fish: AnglerFish[]; bites: Array<{ playerId: PlayerId; fishId: string }> } {
+    const bites: Array<{ playerId: PlayerId; fishId: string }> = [];
     
     const updatedFish = fish.map(f => {
         if (!f.active) return f;
@@ -503,8 +658,8 @@ function updateAnglerFish(
         
         // Check aggro if no target
         if (!newFish.targetPlayerId) {
-            for (const playerId of ['player1', 'player2'] as const) {
-                const player = players[playerId];
+            for (const playerId of playerIds) {
+                const player = players[playerId]!;
                 if (player.state !== PlayerState.Descending) continue;
                 
                 const dx = player.x + player.width / 2 - (f.x + f.width / 2);
@@ -520,7 +675,7 @@ function updateAnglerFish(
         
         // Move towards target
         if (newFish.targetPlayerId) {
-            const target = players[newFish.targetPlayerId];
+            const target = players[newFish.targetPlayerId]!;
             if (target.state === PlayerState.Dead || target.state === PlayerState.Escaped) {
                 // Target is gone, stay idle
                 newFish.targetPlayerId = null;
@@ -549,7 +704,8 @@ function updateAnglerFish(
             height: newFish.height,
         };
         
-        for (const obs of obstacles) {
+        for (const i of querySpatialIndex(obstacleIndex, fishBox)) {
+            const obs = obstacles[i];
             if (!obs.active) continue;
             const obsBox: AABB = {
                 x: obs.x,
@@ -566,7 +722,7 @@ function updateAnglerFish(
         
         // Check collision with target player
         if (newFish.active && newFish.targetPlayerId) {
-            const target = players[newFish.targetPlayerId];
+            const target = players[newFish.targetPlayerId]!;
             if (target.state === PlayerState.Descending) {
                 const playerBox: AABB = {
                     x: target.x,
@@ -575,7 +731,7 @@ function updateAnglerFish(
                     height: target.height,
                 };
                 if (checkAABBCollision(fishBox, playerBox)) {
-                    damagedPlayers.push(newFish.targetPlayerId);
+                    bites.push({ playerId: newFish.targetPlayerId, fishId: newFish.id });
                     newFish.active = false;
                 }
             }
@@ -584,18 +740,25 @@ function updateAnglerFish(
         return newFish;
     });
     
-    return { fish: updatedFish.filter(f => f.active), damagedPlayers };
+    return { fish: updatedFish.filter(f => f.active), bites };
 }
 
 /**
  * Update a single player's state for one frame.
+ * `frame` is only used to stamp the events this update emits.
  */
 function updatePlayer(
+    playerId: PlayerId,
     player: PlayerVehicle,
     input: PlayerInputFrame,
     obstacles: Obstacle[],
-    dt: number
-): { player: PlayerVehicle; collidedObstacles: string[] } {
+    obstacleIndex: SpatialIndex,
+    dt: number,
+    worldWidth: number,
+    frame: number,
+    ruleset: Ruleset,
+    maxDepth: number
+): { player: PlayerVehicle; collidedObstacles: string[]; events: GameEvent[] } {
     // Dead or escaped players don't update (but continue implosion animation)
     if (player.state === PlayerState.Dead || player.state === PlayerState.Escaped) {
         // Continue implosion animation
@@ -603,13 +766,15 @@ function updatePlayer(
             return {
                 player: { ...player, implosionFrame: player.implosionFrame + 1 },
                 collidedObstacles: [],
+                events: [],
             };
         }
-        return { player, collidedObstacles: [] };
+        return { player, collidedObstacles: [], events: [] };
     }
 
     let newPlayer = { ...player };
     const collidedObstacles: string[] = [];
+    const events: GameEvent[] = [];
     const prevX = player.x;
 
     // Decrease invincibility frames
@@ -626,31 +791,32 @@ function updatePlayer(
             height: CAPSULE_HEIGHT,
             hp: CAPSULE_HP,
             wear: 0,
-            invincibilityFrames: INVINCIBILITY_FRAMES,
+            invincibilityFrames: ruleset.invincibilityFrames,
             passengers: [], // Capsule has no visible passengers
         };
+        events.push({ type: GameEventType.Eject, frame, playerId, depth: newPlayer.y });
     }
 
     // Horizontal movement
     let horizontalMove = 0;
-    if (input.left) horizontalMove -= HORIZONTAL_SPEED * dt;
-    if (input.right) horizontalMove += HORIZONTAL_SPEED * dt;
+    if (input.left) horizontalMove -= ruleset.horizontalSpeed * dt;
+    if (input.right) horizontalMove += ruleset.horizontalSpeed * dt;
 
     newPlayer.x += horizontalMove;
 
     // Clamp to world bounds
     newPlayer.x = Math.max(
         WORLD_LEFT_BOUND,
-        Math.min(getWorldRightBound() - newPlayer.width, newPlayer.x)
+        Math.min(getWorldRightBound(worldWidth) - newPlayer.width, newPlayer.x)
     );
 
     // Vertical player-controlled movement (up/down within screen)
     let verticalMove = 0;
-    if (input.up) verticalMove -= VERTICAL_SPEED * dt;
-    if (input.down) verticalMove += VERTICAL_SPEED * dt;
+    if (input.up) verticalMove -= ruleset.verticalSpeed * dt;
+    if (input.down) verticalMove += ruleset.verticalSpeed * dt;
 
     // Calculate acceleration for passenger physics
-    const acceleration = (newPlayer.x - prevX) / dt / HORIZONTAL_SPEED;
+    const acceleration = (newPlayer.x - prevX) / dt / ruleset.horizontalSpeed;
     newPlayer.velocityX = (newPlayer.x - prevX) / dt;
     newPlayer.velocityY = verticalMove / dt;
 
@@ -662,7 +828,7 @@ function updatePlayer(
     // Vertical movement based on state
     if (newPlayer.state === PlayerState.Descending) {
         // Base descent speed (automatic)
-        const baseSpeed = calculateDescentSpeed(newPlayer.y);
+        const baseSpeed = calculateDescentSpeed(newPlayer.y, ruleset, maxDepth);
         // Add player-controlled vertical movement
         newPlayer.y += baseSpeed * dt + verticalMove;
 
@@ -672,7 +838,7 @@ function updatePlayer(
         }
 
         // Increase wear over time
-        const wearRate = calculateWearRate(newPlayer.y);
+        const wearRate = calculateWearRate(newPlayer.y, ruleset, maxDepth);
         newPlayer.wear += wearRate * dt;
 
         // Check for implosion due to wear
@@ -683,17 +849,30 @@ function updatePlayer(
             newPlayer.implosionFrame = 1; // Start implosion animation
             // Kill all passengers
             newPlayer.passengers = newPlayer.passengers.map((p) => ({ ...p, alive: false }));
-            return { player: newPlayer, collidedObstacles };
+            events.push({
+                type: GameEventType.Implosion,
+                frame,
+                playerId,
+                cause: DeathCause.Imploded,
+                depth: newPlayer.y,
+            });
+            return { player: newPlayer, collidedObstacles, events };
         }
     } else if (newPlayer.state === PlayerState.Ascending) {
         // Capsule moves upward
-        newPlayer.y -= ASCENT_SPEED * dt;
+        newPlayer.y -= ruleset.ascentSpeed * dt;
 
         // Check if reached surface
         if (newPlayer.y <= 0) {
             newPlayer.y = 0;
             newPlayer.state = PlayerState.Escaped;
-            return { player: newPlayer, collidedObstacles };
+            events.push({
+                type: GameEventType.Escape,
+                frame,
+                playerId,
+                maxDepth: newPlayer.maxDepthReached,
+            });
+            return { player: newPlayer, collidedObstacles, events };
         }
     }
 
@@ -706,7 +885,8 @@ function updatePlayer(
             height: newPlayer.height,
         };
 
-        for (const obstacle of obstacles) {
+        for (const i of querySpatialIndex(obstacleIndex, playerBox)) {
+            const obstacle = obstacles[i];
             if (!obstacle.active) continue;
 
             const obstacleBox: AABB = {
@@ -719,84 +899,64 @@ function updatePlayer(
             if (checkAABBCollision(playerBox, obstacleBox)) {
                 collidedObstacles.push(obstacle.id);
 
-                if (newPlayer.state === PlayerState.Ascending) {
-                    // Any collision during ascent = instant death
-                    newPlayer.hp = 0;
-                    newPlayer.state = PlayerState.Dead;
-                    newPlayer.deathCause = DeathCause.CrashedAscent;
-                    newPlayer.implosionFrame = 1;
-                    return { player: newPlayer, collidedObstacles };
-                } else {
-                    // Descent collision - apply damage and wear
-                    const damage = COLLISION_DAMAGE[obstacle.type];
-                    const wear = COLLISION_WEAR[obstacle.type];
-
-                    const prevHp = newPlayer.hp;
-                    newPlayer.hp -= damage;
-                    newPlayer.wear += wear;
-                    newPlayer.invincibilityFrames = INVINCIBILITY_FRAMES;
-
-                    // Kill passengers for each HP lost
-                    for (let i = 0; i < prevHp - newPlayer.hp; i++) {
-                        newPlayer.passengers = killPassenger(newPlayer.passengers);
-                    }
-
-                    // Check for death
-                    if (newPlayer.hp <= 0 || newPlayer.wear >= 100) {
-                        newPlayer.wear = Math.min(newPlayer.wear, 100);
-                        newPlayer.state = PlayerState.Dead;
-                        newPlayer.deathCause = DeathCause.Imploded;
-                        newPlayer.implosionFrame = 1; // Start implosion animation
-                        // Kill all remaining passengers
-                        newPlayer.passengers = newPlayer.passengers.map((p) => ({
-                            ...p,
-                            alive: false,
-                        }));
-                        return { player: newPlayer, collidedObstacles };
-                    }
-                }
+                // Any collision during ascent = instant death
+                const isAscending = newPlayer.state === PlayerState.Ascending;
+                const hit = applyDamage(
+                    playerId,
+                    newPlayer,
+                    { kind: 'obstacle', obstacleId: obstacle.id, obstacleType: obstacle.type },
+                    isAscending ? newPlayer.hp : ruleset.collisionDamage[obstacle.type],
+                    isAscending ? 0 : ruleset.collisionWear[obstacle.type],
+                    frame,
+                    ruleset
+                );
+                newPlayer = hit.player;
+                events.push(
+                    {
+                        type: GameEventType.Collision,
+                        frame,
+                        playerId,
+                        obstacleId: obstacle.id,
+                        obstacleType: obstacle.type,
+                        damage: hit.damage,
+                    },
+                    ...hit.events
+                );
+                break; // The hit made the player invincible (or dead) for the rest of the frame
             }
         }
     }
 
-    return { player: newPlayer, collidedObstacles };
+    return { player: newPlayer, collidedObstacles, events };
 }
 
 /**
  * Determine the winner of the game.
+ * Escaping beats dying, and among equals the deeper dive wins. A solo diver wins by
+ * escaping at all; their score is judged separately (see scoring.ts).
  */
-function determineWinner(players: Record<PlayerId, PlayerVehicle>): PlayerId | 'draw' | null {
-    const p1 = players.player1;
-    const p2 = players.player2;
-
-    const p1Survived = p1.state === PlayerState.Escaped;
-    const p2Survived = p2.state === PlayerState.Escaped;
-
-    if (p1Survived && p2Survived) {
-        // Both survived - deeper dive wins
-        if (p1.maxDepthReached > p2.maxDepthReached) return 'player1';
-        if (p2.maxDepthReached > p1.maxDepthReached) return 'player2';
-        return 'draw';
+function determineWinner(
+    players: PlayerMap<PlayerVehicle>,
+    playerIds: PlayerId[]
+): PlayerId | 'draw' | null {
+    const survivors = playerIds.filter((id) => players[id]!.state === PlayerState.Escaped);
+    if (playerIds.length === 1) {
+        return survivors.length === 1 ? survivors[0] : null;
     }
 
-    if (p1Survived && !p2Survived) return 'player1';
-    if (p2Survived && !p1Survived) return 'player2';
-
-    // Both dead - deeper dive wins
-    if (p1.maxDepthReached > p2.maxDepthReached) return 'player1';
-    if (p2.maxDepthReached > p1.maxDepthReached) return 'player2';
-    return 'draw';
+    const contenders = survivors.length > 0 ? survivors : playerIds;
+    const deepest = Math.max(...contenders.map((id) => players[id]!.maxDepthReached));
+    const leaders = contenders.filter((id) => players[id]!.maxDepthReached === deepest);
+    return leaders.length === 1 ? leaders[0] : 'draw';
 }
 
 /**
  * Check if the game is over.
  */
-function isGameOver(players: Record<PlayerId, PlayerVehicle>): boolean {
-    const p1Done =
-        players.player1.state === PlayerState.Dead || players.player1.state === PlayerState.Escaped;
-    const p2Done =
-        players.player2.state === PlayerState.Dead || players.player2.state === PlayerState.Escaped;
-    return p1Done && p2Done;
+function isGameOver(players: PlayerVehicle[]): boolean {
+    return players.every(
+        (player) => player.state === PlayerState.Dead || player.state === PlayerState.Escaped
+    );
 }
 
 /**
@@ -804,58 +964,86 @@ function isGameOver(players: Record<PlayerId, PlayerVehicle>): boolean {
  * This is the core of the deterministic simulation.
  *
  * @param state - Current game state
- * @param inputs - Player inputs for this frame
+ * @param inputs - Player inputs for this frame; a missing input counts as no keys pressed
  * @param dt - Delta time (should be fixed for determinism)
- * @returns New game state
+ * @returns New game state and the events that happened during the step, in order
  */
-export function updateGameState(
+export function stepGameState(
     state: GameState,
-    inputs: Record<PlayerId, PlayerInputFrame>,
+    inputs: PlayerMap<PlayerInputFrame>,
     dt: number
-): GameState {
+): { state: GameState; events: GameEvent[] } {
     // Don't update if game is over
     if (state.gameOver) {
-        return state;
+        return { state, events: [] };
     }
 
-    // Restore RNG state
-    const rng = createRNG(state.seed);
-    rng.setState(state.rngState);
+    const frame = state.frame;
+    const { ruleset } = state;
+
+    // Restore the stateful random streams
+    const pickupRng = createStreamRNG(state.seed, RNGStream.Pickups);
+    pickupRng.setState(state.rngStreams.pickups);
+    const creatureRng = createStreamRNG(state.seed, RNGStream.Creatures);
+    creatureRng.setState(state.rngStreams.creatures);
+
+    // Copy the ID counters so entities spawned this frame don't touch the previous state
+    const ids = { ...state.nextEntityIds };
 
-    // Calculate the furthest depth any active player has reached
+    // Calculate the depth range spanned by active players
+    let minActiveDepth = Infinity;
     let maxActiveDepth = 0;
     for (const player of Object.values(state.players)) {
         if (player.state === PlayerState.Descending || player.state === PlayerState.Ascending) {
+            minActiveDepth = Math.min(minActiveDepth, player.y);
             maxActiveDepth = Math.max(maxActiveDepth, player.y);
         }
     }
 
-    // Generate new obstacles if needed
+    // Keep the obstacle chunks around active players loaded and evict the rest
     const targetDepth = maxActiveDepth + OBSTACLE_GENERATION_BUFFER;
-    let obstacles = state.obstacles;
+    let { obstacles, loadedChunks, consumedObstacles } = state;
+    if (minActiveDepth !== Infinity) {
+        ({ obstacles, loadedChunks, consumedObstacles } = streamObstacleChunks(
+            { obstacles, loadedChunks, consumedObstacles },
+            state.seed,
+            minActiveDepth - OBSTACLE_EVICTION_DISTANCE,
+            targetDepth,
+            state.worldWidth,
+            ruleset,
+            state.maxDepth
+        ));
+    }
+
     let generatedDepth = state.generatedDepth;
     let pickups = [...state.pickups];
 
     if (targetDepth > generatedDepth) {
-        obstacles = generateObstacles(rng, obstacles, generatedDepth, targetDepth);
-
         // Generate pickups in the new depth range
         const segmentSize = 100; // Check every 100m
 
         for (let depth = generatedDepth; depth < targetDepth; depth += segmentSize) {
             // HP pickup
-            if (rng.next() < HP_PICKUP_CHANCE * segmentSize) {
-                const x = rng.nextFloat(WORLD_LEFT_BOUND + 50, getWorldRightBound() - 50);
+            if (pickupRng.next() < ruleset.hpPickupChance * segmentSize) {
+                const x = pickupRng.nextFloat(
+                    WORLD_LEFT_BOUND + 50,
+                    getWorldRightBound(state.worldWidth) - 50
+                );
                 pickups.push(
-                    createPickup(PickupType.Health, x, depth + rng.nextFloat(0, segmentSize))
+                    createPickup(ids, PickupType.Health, x, depth + pickupRng.nextFloat(0, segmentSize))
                 );
             }
 
             // Ammo pickup (rarer)
-            if (rng.next() < AMMO_PICKUP_CHANCE * segmentSize) {
-                const x = rng.nextFloat(WORLD_LEFT_BOUND + 50, getWorldRightBound() - 50);
-                const ammoType = rng.next() < 0.6 ? PickupType.Rocket : PickupType.Mine;
-                pickups.push(createPickup(ammoType, x, depth + rng.nextFloat(0, segmentSize)));
+            if (pickupRng.next() < ruleset.ammoPickupChance * segmentSize) {
+                const x = pickupRng.nextFloat(
+                    WORLD_LEFT_BOUND + 50,
+                    getWorldRightBound(state.worldWidth) - 50
+                );
+                const ammoType = pickupRng.next() < 0.6 ? PickupType.Rocket : PickupType.Mine;
+                pickups.push(
+                    createPickup(ids, ammoType, x, depth + pickupRng.nextFloat(0, segmentSize))
+                );
             }
         }
 
@@ -863,173 +1051,204 @@ export function updateGameState(
     }
 
     // Update obstacle positions (moving obstacles)
-    obstacles = updateObstacles(obstacles, dt);
+    obstacles = updateObstacles(obstacles, dt, state.worldWidth);
 
-    // Get obstacles in the active range for collision detection
-    const minDepth = Math.min(state.players.player1.y, state.players.player2.y);
-    const visibleObstacles = getVisibleObstacles(obstacles, minDepth - 100, maxActiveDepth + 200);
+    // Index obstacles by depth for this frame's collision queries. Obstacles are only
+    // deactivated in place from here on, so the index stays valid for the whole step.
+    const obstacleIndex = buildSpatialIndex(obstacles);
 
     // Update players
-    const p1Result = updatePlayer(state.players.player1, inputs.player1, visibleObstacles, dt);
-    const p2Result = updatePlayer(state.players.player2, inputs.player2, visibleObstacles, dt);
+    const updated: PlayerMap<PlayerVehicle> = {};
+    const events: GameEvent[] = [];
+    const allCollidedIds = new Set<string>();
+    for (const playerId of state.playerIds) {
+        const result = updatePlayer(
+            playerId,
+            state.players[playerId]!,
+            inputs[playerId] ?? createIdleInput(frame),
+            obstacles,
+            obstacleIndex,
+            dt,
+            state.worldWidth,
+            frame,
+            ruleset,
+            state.maxDepth
+        );
+        updated[playerId] = result.player;
+        events.push(...result.events);
+        for (const id of result.collidedObstacles) allCollidedIds.add(id);
+    }
 
     // Mark collided obstacles as inactive (so they don't trigger again)
-    const allCollidedIds = new Set([...p1Result.collidedObstacles, ...p2Result.collidedObstacles]);
     obstacles = obstacles.map((o) => (allCollidedIds.has(o.id) ? { ...o, active: false } : o));
 
     // Handle projectile creation
     let newProjectiles = [...state.projectiles];
 
-    // Player 1 fires rocket
-    if (
-        inputs.player1.action === 'fireRocket' &&
-        p1Result.player.rocketsRemaining > 0 &&
-        p1Result.player.state === PlayerState.Descending
-    ) {
-        const rocket = createRocket(
-            'player1',
-            p1Result.player.x,
-            p1Result.player.y,
-            'player2',
-            p2Result.player.x
-        );
-        newProjectiles.push(rocket);
-        p1Result.player = {
-            ...p1Result.player,
-            rocketsRemaining: p1Result.player.rocketsRemaining - 1,
-        };
-    }
-
-    // Player 1 deploys mine
-    if (
-        inputs.player1.action === 'deployMine' &&
-        p1Result.player.minesRemaining > 0 &&
-        p1Result.player.state === PlayerState.Descending
-    ) {
-        const mine = createMine('player1', p1Result.player.x, p1Result.player.y);
-        newProjectiles.push(mine);
-        p1Result.player = {
-            ...p1Result.player,
-            minesRemaining: p1Result.player.minesRemaining - 1,
-        };
-    }
+    for (const playerId of state.playerIds) {
+        const action = inputs[playerId]?.action;
+        const rocketTarget = inputs[playerId]?.rocketTarget ?? null;
+        let player = updated[playerId]!;
+        if (player.state !== PlayerState.Descending) continue;
+
+        if (action === 'fireRocket' && player.rocketsRemaining > 0) {
+            const rocket = createRocket(
+                ids,
+                playerId,
+                player.x,
+                player.y,
+                getRocketTargetX(
+                    playerId,
+                    updated,
+                    state.playerIds,
+                    state.worldWidth,
+                    rocketTarget
+                ),
+                ruleset
+            );
+            newProjectiles.push(rocket);
+            events.push({
+                type: GameEventType.ProjectileFired,
+                frame,
+                playerId,
+                projectileId: rocket.id,
+                projectileType: rocket.type,
+            });
+            player = { ...player, rocketsRemaining: player.rocketsRemaining - 1 };
+        }
 
-    // Player 2 fires rocket
-    if (
-        inputs.player2.action === 'fireRocket' &&
-        p2Result.player.rocketsRemaining > 0 &&
-        p2Result.player.state === PlayerState.Descending
-    ) {
-        const rocket = createRocket(
-            'player2',
-            p2Result.player.x,
-            p2Result.player.y,
-            'player1',
-            p1Result.player.x
-        );
-        newProjectiles.push(rocket);
-        p2Result.player = {
-            ...p2Result.player,
-            rocketsRemaining: p2Result.player.rocketsRemaining - 1,
-        };
-    }
+        if (action === 'deployMine' && player.minesRemaining > 0) {
+            const mine = createMine(ids, playerId, player.x, player.y, ruleset);
+            newProjectiles.push(mine);
+            events.push({
+                type: GameEventType.ProjectileFired,
+                frame,
+                playerId,
+                projectileId: mine.id,
+                projectileType: mine.type,
+            });
+            player = { ...player, minesRemaining: player.minesRemaining - 1 };
+        }
 
-    // Player 2 deploys mine
-    if (
-        inputs.player2.action === 'deployMine' &&
-        p2Result.player.minesRemaining > 0 &&
-        p2Result.player.state === PlayerState.Descending
-    ) {
-        const mine = createMine('player2', p2Result.player.x, p2Result.player.y);
-        newProjectiles.push(mine);
-        p2Result.player = {
-            ...p2Result.player,
-            minesRemaining: p2Result.player.minesRemaining - 1,
-        };
+        updated[playerId] = player;
     }
 
     // Update projectile positions
     newProjectiles = updateProjectiles(newProjectiles, dt);
 
     // Check projectile collisions
-    let newPlayers = {
-        player1: p1Result.player,
-        player2: p2Result.player,
-    };
+    let newPlayers = updated;
 
-    const collisionResult = checkProjectileCollisions(newProjectiles, newPlayers, obstacles);
+    const collisionResult = checkProjectileCollisions(
+        newProjectiles,
+        newPlayers,
+        state.playerIds,
+        obstacles,
+        obstacleIndex,
+        frame,
+        ruleset
+    );
     newProjectiles = collisionResult.projectiles;
     newPlayers = collisionResult.players;
     obstacles = collisionResult.obstacles;
+    events.push(...collisionResult.events);
 
     // Check pickup collisions
+    const collectedPickupIds = new Set<string>();
     for (const pickup of pickups) {
         if (!pickup.active) continue;
 
-        // Check player 1
-        if (checkPickupCollision(pickup, newPlayers.player1)) {
-            newPlayers = {
-                ...newPlayers,
-                player1: applyPickup(pickup, newPlayers.player1),
-            };
-            pickup.active = false;
-        }
-        // Check player 2
-        else if (checkPickupCollision(pickup, newPlayers.player2)) {
-            newPlayers = {
-                ...newPlayers,
-                player2: applyPickup(pickup, newPlayers.player2),
-            };
-            pickup.active = false;
-        }
+        // Earlier seats get priority if several players touch it on the same frame
+        const collectorId = state.playerIds.find((playerId) =>
+            checkPickupCollision(pickup, newPlayers[playerId]!)
+        );
+        if (!collectorId) continue;
+
+        newPlayers = {
+            ...newPlayers,
+            [collectorId]: applyPickup(pickup, newPlayers[collectorId]!, ruleset),
+        };
+        collectedPickupIds.add(pickup.id);
+        events.push({
+            type: GameEventType.PickupCollected,
+            frame,
+            playerId: collectorId,
+            pickupId: pickup.id,
+            pickupType: pickup.type,
+        });
     }
 
     // Remove collected pickups
-    pickups = pickups.filter((p) => p.active);
+    pickups = pickups.filter((p) => !collectedPickupIds.has(p.id));
 
     // Spawn angler fish at deep depths
     let anglerFish = [...state.anglerFish];
-    if (maxActiveDepth > ANGLER_FISH_MIN_DEPTH && anglerFish.length < ANGLER_FISH_MAX_COUNT) {
+    if (
+        maxActiveDepth > ruleset.anglerFishMinDepth &&
+        anglerFish.length < ruleset.anglerFishMaxCount
+    ) {
         // Chance to spawn based on depth
-        if (rng.next() < ANGLER_FISH_SPAWN_CHANCE * (maxActiveDepth - ANGLER_FISH_MIN_DEPTH)) {
-            const newFish = createAnglerFish(rng.next.bind(rng), maxActiveDepth, 1920);
+        const spawnChance =
+            ruleset.anglerFishSpawnChance * (maxActiveDepth - ruleset.anglerFishMinDepth);
+        if (creatureRng.next() < spawnChance) {
+            const newFish = createAnglerFish(
+                ids,
+                creatureRng.next.bind(creatureRng),
+                maxActiveDepth,
+                state.worldWidth,
+                ruleset
+            );
             anglerFish.push(newFish);
         }
     }
 
     // Update angler fish (movement and collisions)
-    const fishResult = updateAnglerFish(anglerFish, newPlayers, obstacles, dt);
+    const fishResult = updateAnglerFish(
+        anglerFish,
+        newPlayers,
+        state.playerIds,
+        obstacles,
+        obstacleIndex,
+        dt
+    );
     anglerFish = fishResult.fish;
 
     // Apply damage from fish attacks
-    for (const playerId of fishResult.damagedPlayers) {
-        const player = newPlayers[playerId];
-        if (player.invincibilityFrames === 0 && player.state === PlayerState.Descending) {
-            const newHp = player.hp - ANGLER_FISH_DAMAGE;
-            newPlayers = {
-                ...newPlayers,
-                [playerId]: {
-                    ...player,
-                    hp: Math.max(0, newHp),
-                    invincibilityFrames: INVINCIBILITY_FRAMES,
-                    passengers: newHp < player.hp ? killPassenger(player.passengers) : player.passengers,
-                },
-            };
-        }
+    for (const { playerId, fishId } of fishResult.bites) {
+        if (newPlayers[playerId]!.state !== PlayerState.Descending) continue;
+
+        const hit = applyDamage(
+            playerId,
+            newPlayers[playerId]!,
+            { kind: 'anglerFish', fishId },
+            ruleset.anglerFishDamage,
+            0,
+            frame,
+            ruleset
+        );
+        if (hit.blocked) continue;
+
+        newPlayers = { ...newPlayers, [playerId]: hit.player };
+        events.push(
+            { type: GameEventType.FishBite, frame, playerId, fishId, damage: hit.damage },
+            ...hit.events
+        );
     }
 
     // Update current max depth
-    const newMaxDepth = Math.max(state.currentMaxDepth, newPlayers.player1.y, newPlayers.player2.y);
+    const playersInMatch = state.playerIds.map((playerId) => newPlayers[playerId]!);
+    const newMaxDepth = Math.max(state.currentMaxDepth, ...playersInMatch.map((p) => p.y));
 
-    const gameOver = isGameOver(newPlayers);
-    const winner = gameOver ? determineWinner(newPlayers) : null;
+    const gameOver = isGameOver(playersInMatch);
+    const winner = gameOver ? determineWinner(newPlayers, state.playerIds) : null;
 
-    return {
+    const nextState: GameState = {
         frame: state.frame + 1,
         seed: state.seed,
-        rngState: rng.getState(),
+        rngStreams: { pickups: pickupRng.getState(), creatures: creatureRng.getState() },
         phase: gameOver ? GamePhase.GameOver : state.phase,
         introProgress: state.introProgress,
+        playerIds: state.playerIds,
         players: newPlayers,
         obstacles,
         projectiles: newProjectiles,
@@ -1038,28 +1257,55 @@ export function updateGameState(
         gameOver,
         winner,
         generatedDepth,
+        loadedChunks,
+        consumedObstacles,
         currentMaxDepth: newMaxDepth,
+        worldWidth: state.worldWidth,
+        worldHeight: state.worldHeight,
+        maxDepth: state.maxDepth,
+        ruleset,
+        nextEntityIds: ids,
+        stats: updateMatchStats(state.stats, state.players, newPlayers, events),
     };
+
+    return { state: nextState, events };
+}
+
+/**
+ * Advance the simulation one step, discarding its events.
+ * @see stepGameState
+ */
+export function updateGameState(
+    state: GameState,
+    inputs: PlayerMap<PlayerInputFrame>,
+    dt: number
+): GameState {
+    return stepGameState(state, inputs, dt).state;
 }
 
 /**
  * Get the result summary for display.
  */
 export function getGameResults(state: GameState) {
+    const players: PlayerMap<PlayerResult> = {};
+    for (const playerId of state.playerIds) {
+        const player = state.players[playerId]!;
+        players[playerId] = {
+            playerId,
+            state: player.state,
+            maxDepth: player.maxDepthReached,
+            deathCause: player.deathCause,
+            killedBy: player.killedBy,
+            stats: state.stats[playerId]!,
+        };
+    }
+
     return {
-        player1: {
-            playerId: 'player1' as PlayerId,
-            state: state.players.player1.state,
-            maxDepth: state.players.player1.maxDepthReached,
-            deathCause: state.players.player1.deathCause,
-        },
-        player2: {
-            playerId: 'player2' as PlayerId,
-            state: state.players.player2.state,
-            maxDepth: state.players.player2.maxDepthReached,
-            deathCause: state.players.player2.deathCause,
-        },
+        ...players,
         winner: state.winner,
         seed: state.seed,
+        /** Solo dives only; null in versus matches */
+        soloScore:
+            state.playerIds.length === 1 ? getSoloScore(state.players[state.playerIds[0]]!) : null,
     };
 }
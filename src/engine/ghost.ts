@@ -0,0 +1,113 @@
+/**
+ * Ghost racing: a recorded run re-simulated from its replay so a live dive can race it.
+ * The ghost lives in its own copy of the world, so it never collides with anything
+ * in the live match; only its sub's path is kept, frame by frame.
+ */
+
+import type { EngineConfig, PlayerId, PlayerVehicle, Replay } from './types';
+import { PlayerState } from './types';
+import { createInitialState, updateGameState } from './gameState';
+import { getReplayInputs } from './replay';
+import { FIXED_DT } from './config';
+
+/** A recorded run's sub, ready to race against */
+export interface GhostTrack {
+    /** Seat of the replay the ghost follows */
+    playerId: PlayerId;
+    /** Config of the recorded match; racing on it gives the live dive the ghost's world */
+    config: EngineConfig;
+    /** The ghost's sub before the first frame and after every recorded frame */
+    frames: PlayerVehicle[];
+    /** First frame the ghost was ascending, or null if it never ejected */
+    ejectFrame: number | null;
+}
+
+/** How far a live player is from the ghost */
+export interface GhostGap {
+    /** Metres the live player is below the ghost right now; negative when above it */
+    depthGap: number;
+    /**
+     * Frames the live player is behind the ghost at their current point of the dive;
+     * negative when ahead, null when the ghost never got this far
+     */
+    timeGapFrames: number | null;
+}
+
+/**
+ * Re-simulate a replay and record the path of one of its subs.
+ * @param replay - Recorded run to race
+ * @param playerId - Seat to follow (defaults to the first player)
+ */
+export function createGhostTrack(replay: Replay, playerId?: PlayerId): GhostTrack {
+    let state = createInitialState(replay.config);
+    const ghostId = playerId ?? state.playerIds[0];
+    if (!state.players[ghostId]) {
+        throw new Error(`Replay has no ${ghostId} to race against`);
+    }
+
+    const frames = [state.players[ghostId]!];
+    let ejectFrame: number | null = null;
+    for (let frame = 0; frame < replay.frameCount; frame++) {
+        state = updateGameState(state, getReplayInputs(replay, frame), FIXED_DT);
+        const ghost = state.players[ghostId]!;
+        if (ejectFrame === null && ghost.state === PlayerState.Ascending) {
+            ejectFrame = frame + 1;
+        }
+        frames.push(ghost);
+    }
+
+    return { playerId: ghostId, config: replay.config, frames, ejectFrame };
+}
+
+/**
+ * The ghost's sub on a frame of the live match.
+ * Past the end of the recording the ghost stays as it finished.
+ */
+export function getGhostVehicle(track: GhostTrack, frame: number): PlayerVehicle {
+    return track.frames[Math.min(frame, track.frames.length - 1)];
+}
+
+/**
+ * Compare a live player with the ghost.
+ * While diving, the time gap compares when each first reached the player's deepest depth;
+ * on the way up, when each climbed back to the player's current depth.
+ */
+export function getGhostGap(track: GhostTrack, player: PlayerVehicle, frame: number): GhostGap {
+    const ghost = getGhostVehicle(track, frame);
+    return {
+        depthGap: player.y - ghost.y,
+        timeGapFrames: getTimeGapFrames(track, player, frame),
+    };
+}
+
+function getTimeGapFrames(track: GhostTrack, player: PlayerVehicle, frame: number): number | null {
+    const { frames, ejectFrame } = track;
+    let ghostFrame = -1;
+
+    if (player.state === PlayerState.Descending) {
+        // Depth reached only grows, so the first frame at or past it can be searched for
+        let low = 0;
+        let high = frames.length;
+        while (low < high) {
+            const mid = (low + high) >> 1;
+            if (frames[mid].maxDepthReached >= player.maxDepthReached) {
+                high = mid;
+            } else {
+                low = mid + 1;
+            }
+        }
+        ghostFrame = low < frames.length ? low : -1;
+    } else if (player.state === PlayerState.Ascending && ejectFrame !== null) {
+        for (let i = ejectFrame; i < frames.length; i++) {
+            const ghost = frames[i];
+            const climbing =
+                ghost.state === PlayerState.Ascending || ghost.state === PlayerState.Escaped;
+            if (climbing && ghost.y <= player.y) {
+                ghostFrame = i;
+                break;
+            }
+        }
+    }
+
+    return ghostFrame >= 0 ? frame - ghostFrame : null;
+}
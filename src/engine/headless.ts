@@ -0,0 +1,76 @@
+/**
+ * Headless match runner.
+ * Drives createInitialState + updateGameState at FIXED_DT without any browser APIs,
+ * so matches can be simulated in Node for verification, balance runs and regression checks.
+ */
+
+import type { EngineConfig, GameState, PlayerInputFrame, PlayerMap } from './types';
+import { createInitialState, updateGameState, getGameResults } from './gameState';
+import { unpackInput } from './replay';
+import { hashState } from './snapshot';
+import { ENGINE_VERSION, FIXED_DT } from './config';
+
+/** Default frame limit: ten minutes of simulated time */
+export const DEFAULT_MAX_FRAMES = 10 * 60 * 60;
+
+/** Per-frame input source: returns every player's inputs for a frame */
+export type InputSource = (frame: number, state: GameState) => PlayerMap<PlayerInputFrame>;
+
+/** Summary of a finished headless run */
+export interface HeadlessMatchResult {
+    engineVersion: number;
+    seed: number;
+    frames: number;
+    completed: boolean; // False if the frame limit was hit before game over
+    results: ReturnType<typeof getGameResults>;
+    finalStateHash: string;
+}
+
+/**
+ * Build an input source from packed per-frame inputs (the replay encoding).
+ * Frames past the end of a stream are played with no keys held.
+ */
+export function packedInputSource(inputs: PlayerMap<readonly number[]>): InputSource {
+    return (frame, state) =>
+        Object.fromEntries(
+            state.playerIds.map((playerId) => [
+                playerId,
+                unpackInput(inputs[playerId]?.[frame] ?? 0, frame),
+            ])
+        );
+}
+
+/**
+ * Simulate a match until it ends or the frame limit is reached.
+ * @returns The final state
+ */
+export function simulateMatch(
+    config: EngineConfig,
+    getInputs: InputSource,
+    maxFrames: number = DEFAULT_MAX_FRAMES
+): GameState {
+    let state = createInitialState(config);
+    while (!state.gameOver && state.frame < maxFrames) {
+        state = updateGameState(state, getInputs(state.frame, state), FIXED_DT);
+    }
+    return state;
+}
+
+/**
+ * Simulate a match and summarize it in a JSON-friendly form.
+ */
+export function runHeadlessMatch(
+    config: EngineConfig,
+    getInputs: InputSource,
+    maxFrames: number = DEFAULT_MAX_FRAMES
+): HeadlessMatchResult {
+    const state = simulateMatch(config, getInputs, maxFrames);
+    return {
+        engineVersion: ENGINE_VERSION,
+        seed: config.seed,
+        frames: state.frame,
+        completed: state.gameOver,
+        results: getGameResults(state),
+        finalStateHash: hashState(state),
+    };
+}
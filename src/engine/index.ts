@@ -6,26 +6,155 @@
 // Types
 export type {
     PlayerId,
+    PlayerMap,
     PlayerAction,
     PlayerInputFrame,
     Obstacle,
+    ObstacleTravel,
     PlayerVehicle,
     GameState,
     EngineConfig,
     AABB,
+    ChunkRange,
+    StatefulRNGStream,
     PlayerResult,
+    Replay,
+    EntityIdCounters,
+    GameEvent,
+    PlayerMatchStats,
+    Ruleset,
 } from './types';
 
-export { PlayerState, ObstacleType, DeathCause } from './types';
+export { PlayerState, ObstacleType, DeathCause, GameEventType, PLAYER_IDS } from './types';
 
 // RNG
-export { SeededRNG, createRNG, generateRandomSeed } from './rng';
+export {
+    RNG_VERSION,
+    RNGStream,
+    SeededRNG,
+    createRNG,
+    createStreamRNG,
+    deriveSeed,
+    getStreamSeed,
+    generateRandomSeed,
+} from './rng';
+export type { RNGState } from './rng';
+export { SEED_PHRASE_COUNT, getSeedPhrase, parseSeedInput, formatSeed } from './seedPhrase';
+
+// Rulesets
+export { RulesetPreset, NORMAL_RULESET, RULESET_PRESETS, getObstacleDensity } from './ruleset';
+
+// House rules
+export {
+    PickupFrequency,
+    DEFAULT_MATCH_RULES,
+    STARTING_HP_OPTIONS,
+    WEAR_MULTIPLIER_OPTIONS,
+    MAX_DEPTH_OPTIONS,
+    buildRuleset,
+    buildMatchConfig,
+    describeMatchRules,
+    findMatchRules,
+    parseMatchRules,
+} from './matchRules';
+export type { MatchRules } from './matchRules';
 
 // Game State
-export { createInitialState, updateGameState, getGameResults } from './gameState';
+export {
+    createInitialState,
+    getMatchPlayerIds,
+    stepGameState,
+    updateGameState,
+    getGameResults,
+} from './gameState';
+
+// Solo scoring
+export { getSoloScore, getPotentialSoloScore } from './scoring';
+
+// Match statistics
+export { createPlayerStats, updateMatchStats } from './matchStats';
+
+// CPU opponent
+export { CpuController, CpuDifficulty } from './cpuPlayer';
+
+// Replays
+export {
+    REPLAY_FORMAT_VERSION,
+    REPLAY_CHECKPOINT_INTERVAL,
+    MAX_REPLAY_FRAMES,
+    ReplayRecorder,
+    packInput,
+    unpackInput,
+    getReplayInputs,
+    simulateReplay,
+    serializeReplay,
+    parseReplay,
+    encodeReplayCode,
+    decodeReplayCode,
+} from './replay';
+
+// Ghost racing
+export { createGhostTrack, getGhostVehicle, getGhostGap } from './ghost';
+export type { GhostTrack, GhostGap } from './ghost';
+
+// Daily challenge
+export {
+    getDailyDateKey,
+    getDailySeed,
+    getDailyResult,
+    isBetterDailyResult,
+    formatDailySummary,
+} from './dailyChallenge';
+export type { DailyAttempt, DailyResult } from './dailyChallenge';
+
+// Share links
+export { createChallengeLink, createReplayLink, readSharedLink } from './shareLinks';
+export type { SharedChallenge, SharedLink } from './shareLinks';
+
+// Run history and leaderboards
+export {
+    createRunRecord,
+    parseRunHistory,
+    getDeepestEscapes,
+    getDeepestDives,
+    getSeedBests,
+    getHeadToHeads,
+} from './runHistory';
+export type { GameResults, RunRecord, RunPlayer, DepthEntry, HeadToHead } from './runHistory';
+
+// Headless simulation
+export { DEFAULT_MAX_FRAMES, packedInputSource, simulateMatch, runHeadlessMatch } from './headless';
+export type { InputSource, HeadlessMatchResult } from './headless';
+
+// Run verification
+export { parseRunClaim, verifyRun } from './verification';
+export type { RunClaim, RunVerdict } from './verification';
+
+// State hashing and snapshots
+export {
+    STATE_SCHEMA_VERSION,
+    hashState,
+    serializeState,
+    deserializeState,
+    findFirstDesync,
+} from './snapshot';
 
 // Obstacle Generation
-export { generateObstacles, updateObstacles, getVisibleObstacles } from './obstacleGenerator';
+export {
+    CHUNK_SIZE,
+    generateChunk,
+    generateObstacles,
+    streamObstacleChunks,
+    updateObstacles,
+    getVisibleObstacles,
+    getPassageLane,
+    isChunkPassable,
+} from './obstacleGenerator';
+export type { PassageLane, ObstacleChunks } from './obstacleGenerator';
+
+// Collision spatial index
+export { buildSpatialIndex, querySpatialIndex } from './spatialIndex';
+export type { SpatialIndex } from './spatialIndex';
 
 // Config
 export * from './config';
@@ -0,0 +1,191 @@
+/**
+ * House rules chosen on the match setup screen.
+ * Each option maps onto one or more Ruleset fields on top of a base preset, so any
+ * combination still runs through the ordinary engine config and replays like any match.
+ */
+
+import type { EngineConfig, ObstacleType, Ruleset } from './types';
+import { RulesetPreset, RULESET_PRESETS } from './ruleset';
+import { MAX_DEPTH, WORLD_WIDTH, WORLD_HEIGHT } from './config';
+
+/** How often health and ammo pickups appear */
+export const PickupFrequency = {
+    Off: 'off',
+    Rare: 'rare',
+    Normal: 'normal',
+    Frequent: 'frequent',
+} as const;
+export type PickupFrequency = (typeof PickupFrequency)[keyof typeof PickupFrequency];
+
+const PICKUP_CHANCE_MULTIPLIERS: Record<PickupFrequency, number> = {
+    [PickupFrequency.Off]: 0,
+    [PickupFrequency.Rare]: 0.5,
+    [PickupFrequency.Normal]: 1,
+    [PickupFrequency.Frequent]: 2,
+};
+
+/** Options for one match, as picked on the setup screen */
+export interface MatchRules {
+    /** Base tuning the other options are applied to */
+    preset: RulesetPreset;
+    /** Rockets, mines and ammo pickups */
+    weapons: boolean;
+    anglerFish: boolean;
+    pickupFrequency: PickupFrequency;
+    startingHp: number;
+    /** Scales depth wear and collision wear */
+    wearMultiplier: number;
+    maxDepth: number;
+}
+
+/** Values offered for each numeric option */
+export const STARTING_HP_OPTIONS = [1, 2, 3, 4, 6, 8] as const;
+export const WEAR_MULTIPLIER_OPTIONS = [0.5, 0.75, 1, 1.5, 2] as const;
+export const MAX_DEPTH_OPTIONS = [2500, 5000, 7500, MAX_DEPTH] as const;
+
+export const DEFAULT_MATCH_RULES: MatchRules = {
+    preset: RulesetPreset.Normal,
+    weapons: true,
+    anglerFish: true,
+    pickupFrequency: PickupFrequency.Normal,
+    startingHp: RULESET_PRESETS[RulesetPreset.Normal].subStartingHp,
+    wearMultiplier: 1,
+    maxDepth: MAX_DEPTH,
+};
+
+/**
+ * Apply house rules to their base preset.
+ */
+export function buildRuleset(rules: MatchRules): Ruleset {
+    const base = RULESET_PRESETS[rules.preset];
+    const pickupMultiplier = PICKUP_CHANCE_MULTIPLIERS[rules.pickupFrequency];
+    const collisionWear = Object.fromEntries(
+        Object.entries(base.collisionWear).map(([type, wear]) => [
+            type,
+            wear * rules.wearMultiplier,
+        ])
+    ) as Record<ObstacleType, number>;
+
+    return {
+        ...base,
+        subStartingHp: rules.startingHp,
+        // Mines stay an instant kill whatever the hull strength
+        mineDamage: Math.max(base.mineDamage, rules.startingHp),
+        startingRockets: rules.weapons ? base.startingRockets : 0,
+        startingMines: rules.weapons ? base.startingMines : 0,
+        baseWearRate: base.baseWearRate * rules.wearMultiplier,
+        depthWearFactor: base.depthWearFactor * rules.wearMultiplier,
+        collisionWear,
+        hpPickupChance: base.hpPickupChance * pickupMultiplier,
+        ammoPickupChance: rules.weapons ? base.ammoPickupChance * pickupMultiplier : 0,
+        anglerFishMaxCount: rules.anglerFish ? base.anglerFishMaxCount : 0,
+    };
+}
+
+/**
+ * Engine config for a match played under the given house rules.
+ * @param playerCount - 1 for a solo dive
+ */
+export function buildMatchConfig(rules: MatchRules, seed: number, playerCount = 2): EngineConfig {
+    return {
+        seed,
+        playerCount,
+        maxDepth: rules.maxDepth,
+        worldWidth: WORLD_WIDTH,
+        worldHeight: WORLD_HEIGHT,
+        ruleset: buildRuleset(rules),
+    };
+}
+
+/** Structural equality of plain JSON values, as configs are compared after a round trip */
+function isSameValue(a: unknown, b: unknown): boolean {
+    if (typeof a !== 'object' || a === null || typeof b !== 'object' || b === null) {
+        return a === b;
+    }
+    const keys = Object.keys(a);
+    return (
+        keys.length === Object.keys(b).length &&
+        keys.every((key) =>
+            isSameValue((a as Record<string, unknown>)[key], (b as Record<string, unknown>)[key])
+        )
+    );
+}
+
+/**
+ * Find the house rules an engine config was built with, so a submitted run can be held
+ * to rules the setup screen actually offers, and a raced ghost can show what it dived on.
+ * A config without a ruleset plays the Normal preset.
+ * @returns Null if the world size is non-standard or no combination of options gives the config
+ */
+export function findMatchRules(config: EngineConfig): MatchRules | null {
+    if (config.worldWidth !== WORLD_WIDTH || config.worldHeight !== WORLD_HEIGHT) return null;
+    const ruleset = config.ruleset ?? RULESET_PRESETS[RulesetPreset.Normal];
+    const maxDepth = MAX_DEPTH_OPTIONS.find((option) => option === config.maxDepth);
+    const startingHp = STARTING_HP_OPTIONS.find((option) => option === ruleset.subStartingHp);
+    if (maxDepth === undefined || startingHp === undefined) return null;
+
+    for (const preset of Object.values(RulesetPreset)) {
+        for (const weapons of [true, false]) {
+            for (const anglerFish of [true, false]) {
+                for (const pickupFrequency of Object.values(PickupFrequency)) {
+                    for (const wearMultiplier of WEAR_MULTIPLIER_OPTIONS) {
+                        const rules: MatchRules = {
+                            preset,
+                            weapons,
+                            anglerFish,
+                            pickupFrequency,
+                            startingHp,
+                            wearMultiplier,
+                            maxDepth,
+                        };
+                        if (isSameValue(buildRuleset(rules), ruleset)) return rules;
+                    }
+                }
+            }
+        }
+    }
+    return null;
+}
+
+/**
+ * Short labels for every option that differs from the defaults, for the HUD and results.
+ * @returns An empty list for standard rules
+ */
+export function describeMatchRules(rules: MatchRules): string[] {
+    const labels: string[] = [];
+    if (rules.preset !== DEFAULT_MATCH_RULES.preset) labels.push(rules.preset.toUpperCase());
+    if (!rules.weapons) labels.push('NO WEAPONS');
+    if (!rules.anglerFish) labels.push('NO FISH');
+    if (rules.pickupFrequency !== DEFAULT_MATCH_RULES.pickupFrequency) {
+        labels.push(`PICKUPS ${rules.pickupFrequency.toUpperCase()}`);
+    }
+    if (rules.startingHp !== DEFAULT_MATCH_RULES.startingHp) labels.push(`${rules.startingHp} HP`);
+    if (rules.wearMultiplier !== DEFAULT_MATCH_RULES.wearMultiplier) {
+        labels.push(`WEAR ×${rules.wearMultiplier}`);
+    }
+    if (rules.maxDepth !== DEFAULT_MATCH_RULES.maxDepth) labels.push(`${rules.maxDepth}m FLOOR`);
+    return labels;
+}
+
+/**
+ * Read house rules saved by an earlier version of the game or edited by hand.
+ * Every missing or unknown option falls back to its default.
+ */
+export function parseMatchRules(value: unknown): MatchRules {
+    const saved = (typeof value === 'object' && value !== null ? value : {}) as Record<
+        string,
+        unknown
+    >;
+    const pick = <T>(key: keyof MatchRules, options: readonly T[]): T =>
+        options.includes(saved[key] as T) ? (saved[key] as T) : (DEFAULT_MATCH_RULES[key] as T);
+
+    return {
+        preset: pick('preset', Object.values(RulesetPreset)),
+        weapons: pick('weapons', [true, false]),
+        anglerFish: pick('anglerFish', [true, false]),
+        pickupFrequency: pick('pickupFrequency', Object.values(PickupFrequency)),
+        startingHp: pick('startingHp', STARTING_HP_OPTIONS),
+        wearMultiplier: pick('wearMultiplier', WEAR_MULTIPLIER_OPTIONS),
+        maxDepth: pick('maxDepth', MAX_DEPTH_OPTIONS),
+    };
+}
@@ -0,0 +1,126 @@
+/**
+ * Per-match player statistics.
+ * Folded into GameState every step from the step's events and the players' movement,
+ * so they stay deterministic and survive snapshots and replays.
+ */
+
+import type { GameEvent, PlayerId, PlayerMap, PlayerMatchStats, PlayerVehicle } from './types';
+import { GameEventType, ObstacleType, PlayerState, ProjectileType } from './types';
+
+/** Empty stats for the start of a match */
+export function createPlayerStats(): PlayerMatchStats {
+    return {
+        distanceTravelled: 0,
+        descentFrames: 0,
+        ascentFrames: 0,
+        collisions: {
+            [ObstacleType.Coral]: 0,
+            [ObstacleType.IceBlock]: 0,
+            [ObstacleType.SeaTurtle]: 0,
+        },
+        damageTaken: 0,
+        damageDealt: 0,
+        rocketsFired: 0,
+        rocketsHit: 0,
+        minesPlaced: 0,
+        pickupsCollected: 0,
+        fishBites: 0,
+        peakWear: 0,
+    };
+}
+
+/** Fold one player's movement over a step into their stats */
+function addMovement(
+    stats: PlayerMatchStats,
+    prev: PlayerVehicle,
+    next: PlayerVehicle
+): PlayerMatchStats {
+    return {
+        ...stats,
+        distanceTravelled: stats.distanceTravelled + Math.hypot(next.x - prev.x, next.y - prev.y),
+        descentFrames: stats.descentFrames + (next.state === PlayerState.Descending ? 1 : 0),
+        ascentFrames: stats.ascentFrames + (next.state === PlayerState.Ascending ? 1 : 0),
+        peakWear: Math.max(stats.peakWear, next.wear),
+    };
+}
+
+/**
+ * Advance match stats by one simulation step.
+ * @param stats - Stats before the step, one entry per player in the match
+ * @param prevPlayers - Players before the step
+ * @param nextPlayers - Players after the step
+ * @param events - Events the step emitted
+ */
+export function updateMatchStats(
+    stats: PlayerMap<PlayerMatchStats>,
+    prevPlayers: PlayerMap<PlayerVehicle>,
+    nextPlayers: PlayerMap<PlayerVehicle>,
+    events: readonly GameEvent[]
+): PlayerMap<PlayerMatchStats> {
+    const updated: PlayerMap<PlayerMatchStats> = {};
+    for (const playerId of Object.keys(stats) as PlayerId[]) {
+        updated[playerId] = addMovement(
+            stats[playerId]!,
+            prevPlayers[playerId]!,
+            nextPlayers[playerId]!
+        );
+    }
+
+    for (const event of events) {
+        switch (event.type) {
+            case GameEventType.Collision: {
+                const player = updated[event.playerId]!;
+                updated[event.playerId] = {
+                    ...player,
+                    collisions: {
+                        ...player.collisions,
+                        [event.obstacleType]: player.collisions[event.obstacleType] + 1,
+                    },
+                    damageTaken: player.damageTaken + event.damage,
+                };
+                break;
+            }
+            case GameEventType.ProjectileFired: {
+                const player = updated[event.playerId]!;
+                updated[event.playerId] =
+                    event.projectileType === ProjectileType.Mine
+                        ? { ...player, minesPlaced: player.minesPlaced + 1 }
+                        : { ...player, rocketsFired: player.rocketsFired + 1 };
+                break;
+            }
+            case GameEventType.ProjectileHit: {
+                if (event.targetType !== 'player') break;
+                const targetId = event.targetId as PlayerId;
+                const owner = updated[event.ownerId]!;
+                updated[event.ownerId] = {
+                    ...owner,
+                    damageDealt: owner.damageDealt + event.damage,
+                    rocketsHit:
+                        owner.rocketsHit + (event.projectileType === ProjectileType.Rocket ? 1 : 0),
+                };
+                const target = updated[targetId]!;
+                updated[targetId] = { ...target, damageTaken: target.damageTaken + event.damage };
+                break;
+            }
+            case GameEventType.PickupCollected: {
+                const player = updated[event.playerId]!;
+                updated[event.playerId] = {
+                    ...player,
+                    pickupsCollected: player.pickupsCollected + 1,
+                };
+                break;
+            }
+            case GameEventType.FishBite: {
+                const player = updated[event.playerId]!;
+                updated[event.playerId] = {
+                    ...player,
+                    fishBites: player.fishBites + 1,
+                    damageTaken: player.damageTaken + event.damage,
+                };
+                break;
+            }
+        }
+    }
+
+    return updated;
+}
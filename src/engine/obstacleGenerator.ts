@@ -1,14 +1,20 @@
 /**
  * Deterministic obstacle generation based on depth and seed.
- * Obstacles are generated in chunks as players descend,
- * and persist for the ascent phase.
+ * Each chunk is derived purely from (seed, chunkIndex), so chunks far from every player
+ * can be evicted and regenerated identically later (e.g. on the way back up).
+ * Obstacles consumed before eviction are remembered in a per-chunk bitmask.
+ *
+ * Every chunk keeps a seed-derived passage lane free of obstacles. Lanes of neighbouring
+ * chunks overlap by at least MIN_PASSAGE_WIDTH, so a sub can always get through.
+ * Moving obstacles bounce within a travel range beside the lanes, so they stay clear too.
  */
 
-import type { Obstacle } from './types';
+import type { ChunkRange, Obstacle, Ruleset } from './types';
 import { ObstacleType } from './types';
-import type { SeededRNG } from './rng';
+import { RNGStream, createRNG, deriveSeed, getStreamSeed } from './rng';
+import { NORMAL_RULESET, getObstacleDensity } from './ruleset';
 import {
-    getObstacleDensity,
+    MAX_DEPTH,
     CORAL_MIN_DEPTH,
     CORAL_MAX_DEPTH,
     ICE_MIN_DEPTH,
@@ -16,13 +22,180 @@ import {
     TURTLE_MIN_DEPTH,
     TURTLE_MAX_DEPTH,
     OBSTACLE_SIZE,
-    TURTLE_SPEED,
     WORLD_LEFT_BOUND,
+    WORLD_WIDTH,
     getWorldRightBound,
+    MIN_PASSAGE_WIDTH,
+    PASSAGE_LANE_WIDTH,
 } from './config';
 
 /** Chunk size for obstacle generation (in depth units) */
-const CHUNK_SIZE = 100;
+export const CHUNK_SIZE = 100;
+
+/** Keys separating the obstacle stream's seed-derived values of each generation concern */
+const LANE_SEED_KEY = 1;
+const CHUNK_SEED_KEY = 2;
+
+/** Horizontal extent of a chunk's passage lane; it spans the chunk's full depth */
+export interface PassageLane {
+    x: number;
+    width: number;
+}
+
+/** How far a lane can sit from the left edge of the world */
+function getLaneTravel(worldWidth: number): number {
+    return Math.max(0, getWorldRightBound(worldWidth) - WORLD_LEFT_BOUND - PASSAGE_LANE_WIDTH);
+}
+
+/**
+ * Chunks between two random lane anchors.
+ * Chosen so the lane never shifts more than (lane width - MIN_PASSAGE_WIDTH) per chunk.
+ */
+function getLaneAnchorSpacing(worldWidth: number): number {
+    const maxShift = PASSAGE_LANE_WIDTH - MIN_PASSAGE_WIDTH;
+    return Math.max(1, Math.ceil(getLaneTravel(worldWidth) / maxShift));
+}
+
+function getLaneAnchorX(seed: number, anchorIndex: number, worldWidth: number): number {
+    const laneSeed = deriveSeed(getStreamSeed(seed, RNGStream.Obstacles), LANE_SEED_KEY);
+    const value = deriveSeed(laneSeed, anchorIndex);
+    return WORLD_LEFT_BOUND + (value / 2 ** 32) * getLaneTravel(worldWidth);
+}
+
+/**
+ * Get the passage lane for a chunk.
+ * Lanes interpolate between random anchors, so they depend only on the seed and chunk index.
+ */
+export function getPassageLane(
+    seed: number,
+    chunkIndex: number,
+    worldWidth: number = WORLD_WIDTH
+): PassageLane {
+    const spacing = getLaneAnchorSpacing(worldWidth);
+    const anchorIndex = Math.floor(chunkIndex / spacing);
+    const t = (chunkIndex - anchorIndex * spacing) / spacing;
+    const from = getLaneAnchorX(seed, anchorIndex, worldWidth);
+    const to = getLaneAnchorX(seed, anchorIndex + 1, worldWidth);
+
+    return {
+        x: from + (to - from) * t,
+        width: Math.min(PASSAGE_LANE_WIDTH, getWorldRightBound(worldWidth) - WORLD_LEFT_BOUND),
+    };
+}
+
+/**
+ * Lanes an obstacle from a chunk overlaps in depth: its own, plus the next if it hangs over
+ * or drifts vertically (drifting obstacles stay within their chunk and the next).
+ */
+function getLanesInReach(
+    obstacle: Obstacle,
+    seed: number,
+    chunkIndex: number,
+    worldWidth: number
+): PassageLane[] {
+    const lanes = [getPassageLane(seed, chunkIndex, worldWidth)];
+    if (obstacle.y + obstacle.height > (chunkIndex + 1) * CHUNK_SIZE || obstacle.velocityY !== 0) {
+        lanes.push(getPassageLane(seed, chunkIndex + 1, worldWidth));
+    }
+    return lanes;
+}
+
+function overlapsLane(x: number, width: number, lane: PassageLane): boolean {
+    return x < lane.x + lane.width && x + width > lane.x;
+}
+
+/**
+ * Check that none of a chunk's obstacles sit in a passage lane,
+ * including the next chunk's lane for obstacles that cross the boundary.
+ */
+export function isChunkPassable(
+    obstacles: Obstacle[],
+    seed: number,
+    chunkIndex: number,
+    worldWidth: number = WORLD_WIDTH
+): boolean {
+    return obstacles.every((o) =>
+        getLanesInReach(o, seed, chunkIndex, worldWidth).every(
+            (lane) => !overlapsLane(o.x, o.width, lane)
+        )
+    );
+}
+
+/**
+ * Move obstacles out of the passage lanes they block.
+ * Each one slides sideways to the nearest free position, or is dropped
+ * when the world is too narrow to fit it beside the lanes. Uses no randomness.
+ */
+function repairChunk(
+    obstacles: Obstacle[],
+    seed: number,
+    chunkIndex: number,
+    worldWidth: number
+): Obstacle[] {
+    const repaired: Obstacle[] = [];
+
+    for (const obstacle of obstacles) {
+        const lanes = getLanesInReach(obstacle, seed, chunkIndex, worldWidth);
+        const minX = WORLD_LEFT_BOUND;
+        const maxX = getWorldRightBound(worldWidth) - obstacle.width;
+        const isFree = (x: number) =>
+            x >= minX && x <= maxX && lanes.every((lane) => !overlapsLane(x, obstacle.width, lane));
+
+        if (isFree(obstacle.x)) {
+            repaired.push(obstacle);
+            continue;
+        }
+
+        // The nearest free position is against a world wall or a lane edge
+        const candidates = [minX, maxX];
+        for (const lane of lanes) {
+            candidates.push(lane.x - obstacle.width, lane.x + lane.width);
+        }
+
+        let bestX: number | null = null;
+        for (const x of candidates) {
+            if (!isFree(x)) continue;
+            const distance = Math.abs(x - obstacle.x);
+            const bestDistance = bestX === null ? Infinity : Math.abs(bestX - obstacle.x);
+            if (distance < bestDistance || (distance === bestDistance && x < bestX!)) {
+                bestX = x;
+            }
+        }
+
+        if (bestX !== null) {
+            repaired.push({ ...obstacle, x: bestX });
+        }
+    }
+
+    return repaired;
+}
+
+/**
+ * Give a moving obstacle the range it may travel: sideways up to the walls or the lanes
+ * in reach, whichever is closer, and vertically (if it drifts) within its chunk and the next.
+ * The obstacle must already be clear of those lanes.
+ */
+function setTravel(
+    obstacle: Obstacle,
+    seed: number,
+    chunkIndex: number,
+    worldWidth: number
+): Obstacle {
+    let minX = WORLD_LEFT_BOUND;
+    let maxX = getWorldRightBound(worldWidth) - obstacle.width;
+    for (const lane of getLanesInReach(obstacle, seed, chunkIndex, worldWidth)) {
+        if (lane.x + lane.width <= obstacle.x) {
+            minX = Math.max(minX, lane.x + lane.width);
+        } else {
+            maxX = Math.min(maxX, lane.x - obstacle.width);
+        }
+    }
+
+    const drifts = obstacle.velocityY !== 0;
+    const minY = drifts ? chunkIndex * CHUNK_SIZE : obstacle.y;
+    const maxY = drifts ? (chunkIndex + 2) * CHUNK_SIZE - obstacle.height : obstacle.y;
+    return { ...obstacle, travel: { minX, maxX, minY, maxY } };
+}
 
 /**
  * Generate a unique ID for an obstacle based on its generation parameters.
@@ -32,6 +205,12 @@ function generateObstacleId(chunkIndex: number, obstacleIndex: number): string {
     return `obs_${chunkIndex}_${obstacleIndex}`;
 }
 
+/** Recover the chunk and index an obstacle was generated with */
+function parseObstacleId(id: string): { chunkIndex: number; obstacleIndex: number } {
+    const [, chunkIndex, obstacleIndex] = id.split('_');
+    return { chunkIndex: Number(chunkIndex), obstacleIndex: Number(obstacleIndex) };
+}
+
 /**
  * Determine which obstacle types can spawn at a given depth.
  */
@@ -55,19 +234,32 @@ function getAvailableTypes(depth: number): ObstacleType[] {
 
 /**
  * Generate obstacles for a specific depth chunk.
- * This is deterministic - same RNG state + chunk = same obstacles.
+ * This is pure - same seed + chunk = same obstacles, regardless of what was generated before.
+ * Obstacles that would block a passage lane are moved aside before the chunk is returned,
+ * and moving obstacles are given a travel range that keeps them out of the lanes.
  *
- * @param rng - Seeded RNG instance
+ * @param seed - Match seed
  * @param chunkIndex - Which chunk to generate (chunk 0 = depth 0-100, etc.)
+ * @param worldWidth - Logical world width obstacles are placed within
+ * @param ruleset - Tuning for obstacle density and turtle speed
+ * @param maxDepth - Depth of the trench floor, where density peaks
  */
-function generateChunk(rng: SeededRNG, chunkIndex: number): Obstacle[] {
+export function generateChunk(
+    seed: number,
+    chunkIndex: number,
+    worldWidth: number = WORLD_WIDTH,
+    ruleset: Ruleset = NORMAL_RULESET,
+    maxDepth: number = MAX_DEPTH
+): Obstacle[] {
+    const chunkSeed = deriveSeed(getStreamSeed(seed, RNGStream.Obstacles), CHUNK_SEED_KEY);
+    const rng = createRNG(deriveSeed(chunkSeed, chunkIndex));
     const obstacles: Obstacle[] = [];
     const chunkStartDepth = chunkIndex * CHUNK_SIZE;
     const chunkEndDepth = chunkStartDepth + CHUNK_SIZE;
     const chunkMidDepth = (chunkStartDepth + chunkEndDepth) / 2;
 
     // Number of obstacles in this chunk (scales with depth for gradual difficulty)
-    const baseDensity = getObstacleDensity(chunkMidDepth);
+    const baseDensity = getObstacleDensity(chunkMidDepth, ruleset, maxDepth);
     const numObstacles = Math.floor(baseDensity + rng.next() * 1.5);
 
     for (let i = 0; i < numObstacles; i++) {
@@ -89,14 +281,14 @@ function generateChunk(rng: SeededRNG, chunkIndex: number): Obstacle[] {
         const height = rng.nextFloat(sizeConfig.minH, sizeConfig.maxH);
 
         // Generate horizontal position (within world bounds)
-        const x = rng.nextFloat(WORLD_LEFT_BOUND, getWorldRightBound() - width);
+        const x = rng.nextFloat(WORLD_LEFT_BOUND, getWorldRightBound(worldWidth) - width);
 
         // Generate velocity for moving obstacles (turtles)
         let velocityX = 0;
         let velocityY = 0;
         if (type === ObstacleType.SeaTurtle) {
             // Turtles move horizontally, random direction
-            velocityX = rng.nextBool() ? TURTLE_SPEED : -TURTLE_SPEED;
+            velocityX = rng.nextBool() ? ruleset.turtleSpeed : -ruleset.turtleSpeed;
             // Small chance of slight vertical movement
             if (rng.nextBool(0.3)) {
                 velocityY = rng.nextFloat(-10, 10);
@@ -116,81 +308,179 @@ function generateChunk(rng: SeededRNG, chunkIndex: number): Obstacle[] {
         });
     }
 
-    return obstacles;
+    const passable = isChunkPassable(obstacles, seed, chunkIndex, worldWidth)
+        ? obstacles
+        : repairChunk(obstacles, seed, chunkIndex, worldWidth);
+    return passable.map((o) =>
+        o.velocityX !== 0 || o.velocityY !== 0 ? setTravel(o, seed, chunkIndex, worldWidth) : o
+    );
 }
 
 /**
  * Generate obstacles up to the specified depth.
  * Only generates new chunks that haven't been generated yet.
  *
- * @param rng - Seeded RNG instance
+ * @param seed - Match seed
  * @param currentObstacles - Existing obstacles array
  * @param fromDepth - Depth already generated up to
  * @param toDepth - Depth to generate up to
+ * @param worldWidth - Logical world width obstacles are placed within
+ * @param ruleset - Tuning for obstacle density and turtle speed
+ * @param maxDepth - Depth of the trench floor, where density peaks
  * @returns New array with all obstacles
  */
 export function generateObstacles(
-    rng: SeededRNG,
+    seed: number,
     currentObstacles: Obstacle[],
     fromDepth: number,
-    toDepth: number
+    toDepth: number,
+    worldWidth: number = WORLD_WIDTH,
+    ruleset: Ruleset = NORMAL_RULESET,
+    maxDepth: number = MAX_DEPTH
 ): Obstacle[] {
     const fromChunk = Math.floor(fromDepth / CHUNK_SIZE);
     const toChunk = Math.ceil(toDepth / CHUNK_SIZE);
+    const existingChunks = new Set(currentObstacles.map((o) => parseObstacleId(o.id).chunkIndex));
 
-    let newObstacles = [...currentObstacles];
-
+    const newObstacles = [...currentObstacles];
     for (let chunkIndex = fromChunk; chunkIndex <= toChunk; chunkIndex++) {
-        // Check if this chunk already exists
-        const chunkPrefix = `obs_${chunkIndex}_`;
-        const chunkExists = currentObstacles.some((o) => o.id.startsWith(chunkPrefix));
-
-        if (!chunkExists) {
-            const chunkObstacles = generateChunk(rng, chunkIndex);
-            newObstacles = [...newObstacles, ...chunkObstacles];
+        if (!existingChunks.has(chunkIndex)) {
+            newObstacles.push(...generateChunk(seed, chunkIndex, worldWidth, ruleset, maxDepth));
         }
     }
 
     return newObstacles;
 }
 
+/** Loaded obstacles plus what is needed to reload evicted chunks faithfully */
+export interface ObstacleChunks {
+    obstacles: Obstacle[];
+    loadedChunks: ChunkRange;
+    /** Per chunk, a bitmask of obstacle indices consumed before the chunk was evicted */
+    consumedObstacles: Record<number, number>;
+}
+
+/**
+ * Load the chunks covering a depth range and evict every other chunk.
+ * Evicted chunks' consumed obstacles are folded into the bitmasks, and
+ * reloaded chunks come back with those obstacles still inactive.
+ *
+ * @param current - Currently loaded chunks
+ * @param seed - Match seed
+ * @param fromDepth - Shallowest depth that must be loaded
+ * @param toDepth - Deepest depth that must be loaded
+ * @param worldWidth - Logical world width obstacles are placed within
+ * @param ruleset - Tuning for obstacle density and turtle speed
+ * @param maxDepth - Depth of the trench floor, where density peaks
+ */
+export function streamObstacleChunks(
+    current: ObstacleChunks,
+    seed: number,
+    fromDepth: number,
+    toDepth: number,
+    worldWidth: number = WORLD_WIDTH,
+    ruleset: Ruleset = NORMAL_RULESET,
+    maxDepth: number = MAX_DEPTH
+): ObstacleChunks {
+    const wanted: ChunkRange = {
+        first: Math.max(0, Math.floor(fromDepth / CHUNK_SIZE)),
+        last: Math.max(0, Math.floor(toDepth / CHUNK_SIZE)),
+    };
+    const { loadedChunks } = current;
+    if (wanted.first === loadedChunks.first && wanted.last === loadedChunks.last) {
+        return current;
+    }
+
+    const consumedObstacles = { ...current.consumedObstacles };
+    const kept = new Map<number, Obstacle[]>();
+    for (const obstacle of current.obstacles) {
+        const { chunkIndex, obstacleIndex } = parseObstacleId(obstacle.id);
+        if (chunkIndex >= wanted.first && chunkIndex <= wanted.last) {
+            kept.set(chunkIndex, [...(kept.get(chunkIndex) ?? []), obstacle]);
+        } else if (!obstacle.active) {
+            const consumed = consumedObstacles[chunkIndex] ?? 0;
+            consumedObstacles[chunkIndex] = consumed | (1 << obstacleIndex);
+        }
+    }
+
+    const obstacles: Obstacle[] = [];
+    for (let chunkIndex = wanted.first; chunkIndex <= wanted.last; chunkIndex++) {
+        const isLoaded = chunkIndex >= loadedChunks.first && chunkIndex <= loadedChunks.last;
+        if (isLoaded) {
+            obstacles.push(...(kept.get(chunkIndex) ?? []));
+            continue;
+        }
+
+        const consumed = consumedObstacles[chunkIndex] ?? 0;
+        for (const obstacle of generateChunk(seed, chunkIndex, worldWidth, ruleset, maxDepth)) {
+            const { obstacleIndex } = parseObstacleId(obstacle.id);
+            const isConsumed = (consumed & (1 << obstacleIndex)) !== 0;
+            obstacles.push(isConsumed ? { ...obstacle, active: false } : obstacle);
+        }
+    }
+
+    return { obstacles, loadedChunks: wanted, consumedObstacles };
+}
+
 /**
  * Update obstacle positions (for moving obstacles like turtles).
+ * Obstacles bounce off the ends of their travel range, or off the world walls if they have none.
  *
  * @param obstacles - Current obstacles
  * @param dt - Delta time in seconds
+ * @param worldWidth - Logical world width obstacles without a travel range bounce within
  * @returns Updated obstacles array
  */
-export function updateObstacles(obstacles: Obstacle[], dt: number): Obstacle[] {
+export function updateObstacles(
+    obstacles: Obstacle[],
+    dt: number,
+    worldWidth: number = WORLD_WIDTH
+): Obstacle[] {
     return obstacles.map((obstacle) => {
         if (obstacle.velocityX === 0 && obstacle.velocityY === 0) {
             return obstacle;
         }
 
+        const travel = obstacle.travel ?? {
+            minX: WORLD_LEFT_BOUND,
+            maxX: getWorldRightBound(worldWidth) - obstacle.width,
+            minY: -Infinity,
+            maxY: Infinity,
+        };
         let newX = obstacle.x + obstacle.velocityX * dt;
         let newVelocityX = obstacle.velocityX;
+        let newY = obstacle.y + obstacle.velocityY * dt;
+        let newVelocityY = obstacle.velocityY;
 
-        // Bounce off walls
-        if (newX < WORLD_LEFT_BOUND) {
-            newX = WORLD_LEFT_BOUND;
+        // Bounce off the ends of the travel range
+        if (newX < travel.minX) {
+            newX = travel.minX;
             newVelocityX = -newVelocityX;
-        } else if (newX + obstacle.width > getWorldRightBound()) {
-            newX = getWorldRightBound() - obstacle.width;
+        } else if (newX > travel.maxX) {
+            newX = travel.maxX;
             newVelocityX = -newVelocityX;
         }
+        if (newY < travel.minY) {
+            newY = travel.minY;
+            newVelocityY = -newVelocityY;
+        } else if (newY > travel.maxY) {
+            newY = travel.maxY;
+            newVelocityY = -newVelocityY;
+        }
 
         return {
             ...obstacle,
             x: newX,
-            y: obstacle.y + obstacle.velocityY * dt,
+            y: newY,
             velocityX: newVelocityX,
+            velocityY: newVelocityY,
         };
     });
 }
 
 /**
  * Get obstacles that are within a visible range of depth.
- * Used for efficient collision detection and rendering.
+ * Used for rendering; collision queries go through the spatial index instead.
  *
  * @param obstacles - All obstacles
  * @param minDepth - Minimum visible depth
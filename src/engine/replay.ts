@@ -0,0 +1,425 @@
+/**
+ * Replay recording, packing and deterministic playback.
+ * A replay is the engine config plus one packed input per frame per player;
+ * feeding those inputs back through updateGameState reproduces the match exactly.
+ */
+
+import type {
+    EngineConfig,
+    GameState,
+    PlayerAction,
+    PlayerId,
+    PlayerInputFrame,
+    PlayerMap,
+    Replay,
+} from './types';
+import { PLAYER_IDS } from './types';
+import { createInitialState, getMatchPlayerIds, updateGameState } from './gameState';
+import { hashState } from './snapshot';
+import { ENGINE_VERSION, FIXED_DT } from './config';
+
+/** Current replay file format version (2 added checkpoint hashes, 3 rocket targets) */
+export const REPLAY_FORMAT_VERSION = 3;
+
+/** Frames between state hashes stored in a replay: one per second of play */
+export const REPLAY_CHECKPOINT_INTERVAL = 60;
+
+/** Longest replay read back by default: an hour of play, far beyond any real match */
+export const MAX_REPLAY_FRAMES = 60 * 60 * 60;
+
+/** Marker stored in replay files so random JSON is rejected early */
+const REPLAY_FILE_TYPE = 'titan-escape-replay';
+
+/** Bit flags for packed inputs */
+const INPUT_LEFT = 1;
+const INPUT_RIGHT = 2;
+const INPUT_UP = 4;
+const INPUT_DOWN = 8;
+const ACTION_SHIFT = 4;
+const ACTION_MASK = 3;
+const TARGET_SHIFT = 6;
+
+/** Action codes stored above the movement bits of a packed input */
+const ACTION_CODES: PlayerAction[] = [null, 'dumpBallast', 'fireRocket', 'deployMine'];
+
+/**
+ * On-disk replay layout. Inputs are run-length encoded as [packedInput, count] pairs,
+ * since players hold the same keys for many frames in a row.
+ */
+interface ReplayFile {
+    type: typeof REPLAY_FILE_TYPE;
+    version: number;
+    engineVersion: number;
+    config: EngineConfig;
+    frameCount: number;
+    inputs: PlayerMap<Array<[number, number]>>;
+    finalStateHash: string;
+    checkpoints?: string[]; // Missing in version 1 files
+}
+
+/**
+ * Pack a single input frame into a small integer.
+ */
+export function packInput(input: PlayerInputFrame): number {
+    let packed = 0;
+    if (input.left) packed |= INPUT_LEFT;
+    if (input.right) packed |= INPUT_RIGHT;
+    if (input.up) packed |= INPUT_UP;
+    if (input.down) packed |= INPUT_DOWN;
+    packed |= ACTION_CODES.indexOf(input.action) << ACTION_SHIFT;
+    // Rocket target as a seat number; 0 aims at the nearest opponent
+    if (input.rocketTarget) packed |= (PLAYER_IDS.indexOf(input.rocketTarget) + 1) << TARGET_SHIFT;
+    return packed;
+}
+
+/**
+ * Unpack an integer produced by packInput back into an input frame.
+ * @param packed - Packed input value
+ * @param frame - Frame index to stamp on the result
+ */
+export function unpackInput(packed: number, frame: number): PlayerInputFrame {
+    const input: PlayerInputFrame = {
+        frame,
+        left: (packed & INPUT_LEFT) !== 0,
+        right: (packed & INPUT_RIGHT) !== 0,
+        up: (packed & INPUT_UP) !== 0,
+        down: (packed & INPUT_DOWN) !== 0,
+        action: ACTION_CODES[(packed >> ACTION_SHIFT) & ACTION_MASK],
+    };
+    const rocketTarget = PLAYER_IDS[(packed >> TARGET_SHIFT) - 1];
+    if (rocketTarget) input.rocketTarget = rocketTarget;
+    return input;
+}
+
+/**
+ * Records the inputs of a live match so it can be saved as a replay.
+ */
+export class ReplayRecorder {
+    private readonly config: EngineConfig;
+    private readonly playerIds: PlayerId[];
+    private readonly inputs: PlayerMap<number[]> = {};
+    private readonly checkpoints: string[] = [];
+
+    /**
+     * @param config - Engine config the match was created with
+     */
+    constructor(config: EngineConfig) {
+        this.config = { ...config };
+        this.playerIds = getMatchPlayerIds(config);
+        for (const playerId of this.playerIds) {
+            this.inputs[playerId] = [];
+        }
+    }
+
+    /**
+     * Record the inputs that were fed to updateGameState for one frame.
+     */
+    record(inputs: PlayerMap<PlayerInputFrame>): void {
+        for (const playerId of this.playerIds) {
+            const input = inputs[playerId];
+            this.inputs[playerId]!.push(input ? packInput(input) : 0);
+        }
+    }
+
+    /**
+     * Note the state a recorded frame produced.
+     * Every REPLAY_CHECKPOINT_INTERVAL frames its hash is kept, so a verifier can tell
+     * roughly where a replay stopped matching the recorded match.
+     */
+    recordState(state: GameState): void {
+        if (state.frame > 0 && state.frame % REPLAY_CHECKPOINT_INTERVAL === 0) {
+            this.checkpoints[state.frame / REPLAY_CHECKPOINT_INTERVAL - 1] = hashState(state);
+        }
+    }
+
+    /**
+     * Number of frames recorded so far.
+     */
+    getFrameCount(): number {
+        return this.inputs[this.playerIds[0]]!.length;
+    }
+
+    /**
+     * Produce the replay, stamping it with the hash of the final state.
+     * @param finalState - State after the last recorded frame
+     */
+    finish(finalState: GameState): Replay {
+        return {
+            version: REPLAY_FORMAT_VERSION,
+            engineVersion: ENGINE_VERSION,
+            config: { ...this.config },
+            frameCount: this.getFrameCount(),
+            inputs: mapPlayers(this.inputs, (values) => [...values]),
+            finalStateHash: hashState(finalState),
+            checkpoints: [...this.checkpoints],
+        };
+    }
+}
+
+/**
+ * Get the inputs every player gave on a given frame of a replay.
+ */
+export function getReplayInputs(replay: Replay, frame: number): PlayerMap<PlayerInputFrame> {
+    return mapPlayers(replay.inputs, (values) => unpackInput(values[frame] ?? 0, frame));
+}
+
+/**
+ * Re-simulate a replay from its initial state.
+ * @param replay - Replay to run
+ * @param toFrame - Number of frames to simulate (defaults to the whole replay)
+ * @returns State after the requested number of frames
+ */
+export function simulateReplay(replay: Replay, toFrame: number = replay.frameCount): GameState {
+    let state = createInitialState(replay.config);
+    const lastFrame = Math.min(toFrame, replay.frameCount);
+    for (let frame = 0; frame < lastFrame; frame++) {
+        state = updateGameState(state, getReplayInputs(replay, frame), FIXED_DT);
+    }
+    return state;
+}
+
+/** Apply a function to every player's entry of a per-player map */
+function mapPlayers<T, U>(map: PlayerMap<T>, fn: (value: T) => U): PlayerMap<U> {
+    return Object.fromEntries(
+        Object.entries(map).map(([playerId, value]) => [playerId, fn(value as T)])
+    ) as PlayerMap<U>;
+}
+
+/** Run-length encode a packed input stream */
+function encodeRuns(values: number[]): Array<[number, number]> {
+    const runs: Array<[number, number]> = [];
+    for (const value of values) {
+        const last = runs[runs.length - 1];
+        if (last && last[0] === value) {
+            last[1]++;
+        } else {
+            runs.push([value, 1]);
+        }
+    }
+    return runs;
+}
+
+/**
+ * Number of frames a run-length encoded input stream expands to, without expanding it.
+ * @returns NaN if any run's count is not a whole number of frames
+ */
+function countRunFrames(runs: Array<[number, number]>): number {
+    let frames = 0;
+    for (const [, count] of runs) {
+        if (!Number.isSafeInteger(count) || count < 0) return NaN;
+        frames += count;
+    }
+    return frames;
+}
+
+/** Reject a declared frame count that is not a count, or is longer than maxFrames */
+function checkFrameCount(frameCount: number, maxFrames: number): void {
+    if (!Number.isSafeInteger(frameCount) || frameCount < 0) {
+        throw new Error('Replay frame count is invalid');
+    }
+    if (frameCount > maxFrames) {
+        throw new Error(`Replay is ${frameCount} frames long, the limit is ${maxFrames}`);
+    }
+}
+
+/** Expand a run-length encoded input stream */
+function decodeRuns(runs: Array<[number, number]>): number[] {
+    const values: number[] = [];
+    for (const [value, count] of runs) {
+        for (let i = 0; i < count; i++) {
+            values.push(value);
+        }
+    }
+    return values;
+}
+
+/**
+ * Serialize a replay to the JSON text stored in replay files.
+ */
+export function serializeReplay(replay: Replay): string {
+    const file: ReplayFile = {
+        type: REPLAY_FILE_TYPE,
+        version: replay.version,
+        engineVersion: replay.engineVersion,
+        config: replay.config,
+        frameCount: replay.frameCount,
+        inputs: mapPlayers(replay.inputs, encodeRuns),
+        finalStateHash: replay.finalStateHash,
+        checkpoints: replay.checkpoints,
+    };
+    return JSON.stringify(file);
+}
+
+/**
+ * Parse replay file text back into a replay.
+ * Throws if the text is not a replay this engine version can play back.
+ * @param maxFrames - Longest replay accepted; checked before any input is expanded
+ */
+export function parseReplay(text: string, maxFrames: number = MAX_REPLAY_FRAMES): Replay {
+    let file: ReplayFile;
+    try {
+        file = JSON.parse(text) as ReplayFile;
+    } catch {
+        throw new Error('Replay file is not valid JSON');
+    }
+
+    if (!file || file.type !== REPLAY_FILE_TYPE) {
+        throw new Error('Not a Titan Escape replay file');
+    }
+    return readReplayFile(file, maxFrames);
+}
+
+/** Check a replay file can be played back on this engine and expand its inputs */
+function readReplayFile(file: ReplayFile, maxFrames: number): Replay {
+    if (file.version > REPLAY_FORMAT_VERSION) {
+        throw new Error(`Unsupported replay format version ${file.version}`);
+    }
+    if (file.engineVersion !== ENGINE_VERSION) {
+        throw new Error(
+            `Replay was recorded with engine version ${file.engineVersion}, this build runs ${ENGINE_VERSION}`
+        );
+    }
+
+    let playerIds: PlayerId[];
+    try {
+        playerIds = getMatchPlayerIds(file.config);
+    } catch (error) {
+        throw new Error(`Replay config is invalid: ${(error as Error).message}`);
+    }
+    checkFrameCount(file.frameCount, maxFrames);
+
+    const inputs: PlayerMap<number[]> = {};
+    for (const playerId of playerIds) {
+        const runs = file.inputs[playerId] ?? [];
+        // Counted before expanding, so a tiny file cannot declare billions of frames
+        if (countRunFrames(runs) !== file.frameCount) {
+            throw new Error('Replay input streams do not match the recorded frame count');
+        }
+        inputs[playerId] = decodeRuns(runs);
+        if (inputs[playerId].length !== file.frameCount) {
+            throw new Error('Replay input streams do not match the recorded frame count');
+        }
+    }
+
+    return {
+        version: file.version,
+        engineVersion: file.engineVersion,
+        config: file.config,
+        frameCount: file.frameCount,
+        inputs,
+        finalStateHash: file.finalStateHash,
+        checkpoints: file.checkpoints ?? [],
+    };
+}
+
+/** Start of every compact replay code */
+const REPLAY_CODE_PREFIX = 'TE.';
+
+/** Everything in a replay code except the input streams; checkpoints are left out */
+type ReplayCodeHeader = Omit<ReplayFile, 'type' | 'inputs' | 'checkpoints'>;
+
+/** Append a non-negative integer as a little-endian base-128 varint */
+function writeVarint(bytes: number[], value: number): void {
+    while (value >= 0x80) {
+        bytes.push((value & 0x7f) | 0x80);
+        value = Math.floor(value / 0x80);
+    }
+    bytes.push(value);
+}
+
+/** Read the varint at the cursor and advance past it */
+function readVarint(bytes: Uint8Array, cursor: { offset: number }): number {
+    let value = 0;
+    for (let scale = 1; ; scale *= 0x80) {
+        if (cursor.offset >= bytes.length) {
+            throw new Error('Replay code ends early');
+        }
+        const byte = bytes[cursor.offset++];
+        value += (byte & 0x7f) * scale;
+        if (byte < 0x80) return value;
+    }
+}
+
+function toBase64Url(bytes: Uint8Array): string {
+    let binary = '';
+    for (const byte of bytes) {
+        binary += String.fromCharCode(byte);
+    }
+    return btoa(binary).replace(/\+/g, '-').replace(/\//g, '_').replace(/=+$/, '');
+}
+
+function fromBase64Url(text: string): Uint8Array {
+    const binary = atob(text.replace(/-/g, '+').replace(/_/g, '/'));
+    return Uint8Array.from(binary, (char) => char.charCodeAt(0));
+}
+
+/**
+ * Encode a replay as a compact, URL-safe code short enough to paste into a message.
+ * The input runs are packed as varints instead of JSON; checkpoint hashes are dropped,
+ * so a decoded replay still verifies but cannot locate where a mismatch began.
+ */
+export function encodeReplayCode(replay: Replay): string {
+    const header: ReplayCodeHeader = {
+        version: replay.version,
+        engineVersion: replay.engineVersion,
+        config: replay.config,
+        frameCount: replay.frameCount,
+        finalStateHash: replay.finalStateHash,
+    };
+    const bytes: number[] = [];
+    const headerBytes = new TextEncoder().encode(JSON.stringify(header));
+    writeVarint(bytes, headerBytes.length);
+    bytes.push(...headerBytes);
+
+    for (const playerId of getMatchPlayerIds(replay.config)) {
+        const runs = encodeRuns(replay.inputs[playerId] ?? []);
+        writeVarint(bytes, runs.length);
+        for (const [value, count] of runs) {
+            writeVarint(bytes, value);
+            writeVarint(bytes, count);
+        }
+    }
+    return REPLAY_CODE_PREFIX + toBase64Url(Uint8Array.from(bytes));
+}
+
+/**
+ * Decode a replay code made by encodeReplayCode.
+ * Throws if the code is damaged or is not a replay this engine version can play back.
+ * @param maxFrames - Longest replay accepted; checked before any input is read
+ */
+export function decodeReplayCode(code: string, maxFrames: number = MAX_REPLAY_FRAMES): Replay {
+    const text = code.trim();
+    if (!text.startsWith(REPLAY_CODE_PREFIX)) {
+        throw new Error('Not a Titan Escape replay code');
+    }
+
+    let bytes: Uint8Array;
+    let header: ReplayCodeHeader;
+    const cursor = { offset: 0 };
+    try {
+        bytes = fromBase64Url(text.slice(REPLAY_CODE_PREFIX.length));
+        const headerLength = readVarint(bytes, cursor);
+        const headerBytes = bytes.subarray(cursor.offset, cursor.offset + headerLength);
+        header = JSON.parse(new TextDecoder().decode(headerBytes)) as ReplayCodeHeader;
+        if (!header) throw new Error('Replay code has no header');
+        cursor.offset += headerLength;
+    } catch {
+        throw new Error('Replay code is damaged or incomplete');
+    }
+    checkFrameCount(header.frameCount, maxFrames);
+
+    // Each run takes at least two bytes of the code; readReplayFile sums them before expanding
+    const inputs: PlayerMap<Array<[number, number]>> = {};
+    try {
+        for (const playerId of getMatchPlayerIds(header.config)) {
+            const runs: Array<[number, number]> = [];
+            for (let runCount = readVarint(bytes, cursor); runCount > 0; runCount--) {
+                runs.push([readVarint(bytes, cursor), readVarint(bytes, cursor)]);
+            }
+            inputs[playerId] = runs;
+        }
+    } catch {
+        throw new Error('Replay code is damaged or incomplete');
+    }
+    return readReplayFile({ type: REPLAY_FILE_TYPE, ...header, inputs }, maxFrames);
+}
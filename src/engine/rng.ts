@@ -1,57 +1,101 @@
 /**
- * Deterministic seeded random number generator.
- * Uses a Linear Congruential Generator (LCG) for reproducibility.
+ * Deterministic seeded random number generation.
+ * Uses xoshiro128** seeded through splitmix32, so all state fits in four 32-bit integers.
  *
  * Given the same seed and sequence of calls, this will always
  * produce the same sequence of numbers - essential for deterministic
  * game simulation and replay functionality.
+ *
+ * Each gameplay system draws from its own named stream derived from the match seed,
+ * so a system can change how many numbers it draws without shifting any other system.
+ */
+
+/**
+ * Version of the generator algorithm and seeding.
+ * Bump it (together with ENGINE_VERSION) whenever the output for a seed changes.
+ * 1 was the original glibc LCG.
  */
+export const RNG_VERSION = 2;
 
-// LCG parameters (same as glibc)
-const LCG_A = 1103515245;
-const LCG_C = 12345;
-const LCG_M = 2147483648; // 2^31
+/** Serializable generator state: four unsigned 32-bit words */
+export type RNGState = [number, number, number, number];
+
+/** Independent random streams derived from the match seed */
+export const RNGStream = {
+    Obstacles: 'obstacles', // Passage lanes and obstacle chunks (derived per chunk, no state)
+    Pickups: 'pickups', // Pickup placement
+    Creatures: 'creatures', // Angler fish spawns
+    Effects: 'effects', // Cosmetic randomness that never feeds back into the simulation
+} as const;
+export type RNGStream = (typeof RNGStream)[keyof typeof RNGStream];
+
+function rotl(x: number, k: number): number {
+    return (x << k) | (x >>> (32 - k));
+}
+
+/** Expand a 32-bit seed into a full generator state with splitmix32 */
+function seedState(seed: number): RNGState {
+    let x = Math.floor(seed) >>> 0;
+    const nextWord = (): number => {
+        x = (x + 0x9e3779b9) | 0;
+        let z = x;
+        z = Math.imul(z ^ (z >>> 16), 0x85ebca6b);
+        z = Math.imul(z ^ (z >>> 13), 0xc2b2ae35);
+        return (z ^ (z >>> 16)) >>> 0;
+    };
+    return [nextWord(), nextWord(), nextWord(), nextWord()];
+}
 
 /**
  * Seeded RNG class that maintains its own state.
  * Can be serialized/deserialized for save states and replays.
  */
 export class SeededRNG {
-    private state: number;
+    private state: RNGState;
+
+    /** Seed the generator was created with (unaffected by draws and setState) */
+    readonly seed: number;
 
     /**
      * Create a new RNG with the given seed.
      * @param seed - Initial seed value
      */
     constructor(seed: number) {
-        // Ensure seed is a positive integer
-        this.state = Math.abs(Math.floor(seed)) % LCG_M;
-        if (this.state === 0) {
-            this.state = 1; // Avoid zero state
-        }
+        this.seed = seed;
+        this.state = seedState(seed);
     }
 
     /**
-     * Get the current internal state (for serialization).
+     * Get a copy of the current internal state (for serialization).
      */
-    getState(): number {
-        return this.state;
+    getState(): RNGState {
+        return [...this.state];
     }
 
     /**
      * Set the internal state (for deserialization).
      * @param state - State value to restore
      */
-    setState(state: number): void {
-        this.state = state;
+    setState(state: RNGState): void {
+        this.state = [...state];
     }
 
     /**
      * Generate the next random number in [0, 1).
      */
     next(): number {
-        this.state = (LCG_A * this.state + LCG_C) % LCG_M;
-        return this.state / LCG_M;
+        // xoshiro128**
+        let [s0, s1, s2, s3] = this.state;
+        const result = Math.imul(rotl(Math.imul(s1, 5), 7), 9) >>> 0;
+        const t = s1 << 9;
+        s2 ^= s0;
+        s3 ^= s1;
+        s1 ^= s2;
+        s0 ^= s3;
+        s2 ^= t;
+        s3 = rotl(s3, 11);
+        this.state = [s0 >>> 0, s1 >>> 0, s2 >>> 0, s3 >>> 0];
+        return result / 2 ** 32;
     }
 
     /**
@@ -97,8 +141,8 @@ export class SeededRNG {
      * Useful for "what-if" scenarios without affecting the main RNG.
      */
     clone(): SeededRNG {
-        const cloned = new SeededRNG(1);
-        cloned.state = this.state;
+        const cloned = new SeededRNG(this.seed);
+        cloned.state = [...this.state];
         return cloned;
     }
 }
@@ -111,6 +155,45 @@ export function createRNG(seed: number): SeededRNG {
     return new SeededRNG(seed);
 }
 
+/**
+ * Derive an independent value from a seed and an integer key, without drawing from any RNG.
+ * Lets generation look up "the random value for index N" in any order.
+ * @returns Unsigned 32-bit integer
+ */
+export function deriveSeed(seed: number, key: number): number {
+    // murmur3 finalizer over the combined inputs
+    let h = Math.imul(seed | 0, 0x9e3779b1) ^ (key | 0);
+    h = Math.imul(h ^ (h >>> 16), 0x85ebca6b);
+    h = Math.imul(h ^ (h >>> 13), 0xc2b2ae35);
+    return (h ^ (h >>> 16)) >>> 0;
+}
+
+/** FNV-1a hash of a stream name, so stream seeds don't depend on declaration order */
+function hashStreamName(stream: RNGStream): number {
+    let h = 0x811c9dc5;
+    for (let i = 0; i < stream.length; i++) {
+        h = Math.imul(h ^ stream.charCodeAt(i), 0x01000193);
+    }
+    return h >>> 0;
+}
+
+/**
+ * Get the seed of a named stream for a match.
+ * Use it with deriveSeed for stateless lookups keyed by index (e.g. obstacle chunks).
+ */
+export function getStreamSeed(seed: number, stream: RNGStream): number {
+    return deriveSeed(seed, hashStreamName(stream));
+}
+
+/**
+ * Create the RNG for a named stream of a match.
+ * @param seed - Match seed
+ * @param stream - Which system the numbers are for
+ */
+export function createStreamRNG(seed: number, stream: RNGStream): SeededRNG {
+    return new SeededRNG(getStreamSeed(seed, stream));
+}
+
 /**
  * Generate a random seed using Math.random().
  * Used only for initial seed generation in the UI layer.
@@ -0,0 +1,116 @@
+/**
+ * Built-in rulesets.
+ * A ruleset holds every balance knob of a match. It is passed in EngineConfig and stored
+ * in GameState, so replays, tests and headless runs each carry their own tuning.
+ */
+
+import type { Ruleset } from './types';
+import { ObstacleType } from './types';
+
+/** Selectable ruleset presets */
+export const RulesetPreset = {
+    Easy: 'easy',
+    Normal: 'normal',
+    Hard: 'hard',
+} as const;
+export type RulesetPreset = (typeof RulesetPreset)[keyof typeof RulesetPreset];
+
+/** The standard tuning, used when a config names no ruleset */
+export const NORMAL_RULESET: Ruleset = {
+    subStartingHp: 4, // One per passenger
+    startingRockets: 2,
+    startingMines: 1,
+    horizontalSpeed: 200,
+    verticalSpeed: 150,
+    baseDescentSpeed: 80,
+    descentSpeedFactor: 120,
+    ascentSpeed: 350, // Much faster than descent
+    baseWearRate: 0.3,
+    depthWearFactor: 1.5,
+    collisionWear: {
+        [ObstacleType.Coral]: 5,
+        [ObstacleType.IceBlock]: 12,
+        [ObstacleType.SeaTurtle]: 4,
+    },
+    collisionDamage: {
+        [ObstacleType.Coral]: 1,
+        [ObstacleType.IceBlock]: 1,
+        [ObstacleType.SeaTurtle]: 1,
+    },
+    invincibilityFrames: 120, // 2 seconds
+    obstacleDensityMin: 1.2,
+    obstacleDensityMax: 4.0,
+    turtleSpeed: 30,
+    rocketSpeed: 400,
+    rocketDamage: 1, // 25% of 4 HP
+    mineDamage: 4, // Instant kill
+    mineLifetime: 300, // 5 seconds
+    hpPickupChance: 0.00015, // About 1 per 600m
+    hpPickupHeal: 1,
+    ammoPickupChance: 0.0001, // About 1 per 1000m
+    anglerFishMinDepth: 500,
+    anglerFishSpawnChance: 0.003,
+    anglerFishMaxCount: 8,
+    anglerFishAggroRadius: 500, // About 30% of the world width
+    anglerFishSpeedMultiplier: 0.75,
+    anglerFishDamage: 1,
+};
+
+/** Slower wear, sparser obstacles, fewer fish and more supplies */
+const EASY_RULESET: Ruleset = {
+    ...NORMAL_RULESET,
+    startingRockets: 3,
+    baseWearRate: 0.2,
+    depthWearFactor: 1.0,
+    invincibilityFrames: 180,
+    obstacleDensityMin: 0.9,
+    obstacleDensityMax: 3.0,
+    hpPickupChance: 0.00025,
+    ammoPickupChance: 0.00015,
+    anglerFishMinDepth: 1000,
+    anglerFishSpawnChance: 0.002,
+    anglerFishMaxCount: 5,
+    anglerFishAggroRadius: 400,
+};
+
+/** Harsher wear and collisions, denser obstacles and a bigger, faster school of fish */
+const HARD_RULESET: Ruleset = {
+    ...NORMAL_RULESET,
+    baseWearRate: 0.4,
+    depthWearFactor: 2.0,
+    collisionWear: {
+        [ObstacleType.Coral]: 8,
+        [ObstacleType.IceBlock]: 18,
+        [ObstacleType.SeaTurtle]: 6,
+    },
+    invincibilityFrames: 90,
+    obstacleDensityMin: 1.6,
+    obstacleDensityMax: 5.0,
+    turtleSpeed: 45,
+    hpPickupChance: 0.0001,
+    anglerFishMinDepth: 300,
+    anglerFishSpawnChance: 0.004,
+    anglerFishMaxCount: 12,
+    anglerFishAggroRadius: 600,
+    anglerFishSpeedMultiplier: 0.85,
+};
+
+export const RULESET_PRESETS: Record<RulesetPreset, Ruleset> = {
+    [RulesetPreset.Easy]: EASY_RULESET,
+    [RulesetPreset.Normal]: NORMAL_RULESET,
+    [RulesetPreset.Hard]: HARD_RULESET,
+};
+
+/**
+ * Calculate obstacle density based on depth (gradual difficulty).
+ * @returns Obstacles per 100 depth units
+ */
+export function getObstacleDensity(depth: number, ruleset: Ruleset, maxDepth: number): number {
+    const normalizedDepth = Math.min(depth / maxDepth, 1);
+    // Very slow ramp up: starts very easy, gradually gets harder
+    const curve = Math.pow(normalizedDepth, 0.9);
+    return (
+        ruleset.obstacleDensityMin +
+        curve * (ruleset.obstacleDensityMax - ruleset.obstacleDensityMin)
+    );
+}
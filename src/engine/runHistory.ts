@@ -0,0 +1,214 @@
+/**
+ * History of finished matches and the leaderboards built from it.
+ * A run record keeps what the results screen showed, keyed by the names players went by,
+ * so bests and rivalries can be tallied long after the match.
+ */
+
+import type { GameState, PlayerId, PlayerMap, Replay } from './types';
+import { PlayerState } from './types';
+import { getGameResults } from './gameState';
+import { serializeReplay } from './replay';
+import { ENGINE_VERSION } from './config';
+
+/** Results of a finished match, as getGameResults reports them */
+export type GameResults = ReturnType<typeof getGameResults>;
+
+/** One finished match */
+export interface RunRecord {
+    /** Unique within one history */
+    id: string;
+    /** When the match finished, in milliseconds since the epoch */
+    playedAt: number;
+    seed: number;
+    engineVersion: number;
+    /** Players in seat order and the names they played under */
+    players: RunPlayer[];
+    results: GameResults;
+    /** Serialized replay, dropped when storage runs short */
+    replay?: string;
+}
+
+/** One seat of a run record */
+export interface RunPlayer {
+    playerId: PlayerId;
+    name: string;
+    /** Set when the seat went by its label rather than a name the player chose */
+    unnamed?: boolean;
+}
+
+/** One row of a depth leaderboard */
+export interface DepthEntry {
+    name: string;
+    depth: number;
+    escaped: boolean;
+    seed: number;
+    playedAt: number;
+    runId: string;
+}
+
+/** Tally of the matches two players played against each other */
+export interface HeadToHead {
+    /** Names in alphabetical order */
+    names: [string, string];
+    /** Wins of each name, in the same order */
+    wins: [number, number];
+    draws: number;
+}
+
+/** A seat recorded under the given name, or under its label if the player chose none */
+function createRunPlayer(playerId: PlayerId, name: string | undefined, label: string): RunPlayer {
+    const chosen = name?.trim();
+    return chosen ? { playerId, name: chosen } : { playerId, name: label, unnamed: true };
+}
+
+/**
+ * Record a finished match.
+ * @param names - Names the players chose
+ * @param labels - Label of each seat without a chosen name; "PLAYER n" if not given
+ */
+export function createRunRecord(
+    state: GameState,
+    names: PlayerMap<string>,
+    playedAt: number,
+    replay: Replay | null = null,
+    labels: PlayerMap<string> = {}
+): RunRecord {
+    const record: RunRecord = {
+        id: `${playedAt}-${state.seed}`,
+        playedAt,
+        seed: state.seed,
+        engineVersion: ENGINE_VERSION,
+        players: state.playerIds.map((playerId, seat) =>
+            createRunPlayer(playerId, names[playerId], labels[playerId] ?? `PLAYER ${seat + 1}`)
+        ),
+        results: getGameResults(state),
+    };
+    if (replay) {
+        record.replay = serializeReplay(replay);
+    }
+    return record;
+}
+
+/**
+ * Read a stored history back, skipping anything that is not a run record.
+ */
+export function parseRunHistory(value: unknown): RunRecord[] {
+    if (!Array.isArray(value)) return [];
+    return value.filter(
+        (record): record is RunRecord =>
+            typeof record === 'object' &&
+            record !== null &&
+            typeof record.id === 'string' &&
+            typeof record.playedAt === 'number' &&
+            typeof record.seed === 'number' &&
+            Array.isArray(record.players) &&
+            typeof record.results === 'object' &&
+            record.results !== null
+    );
+}
+
+/** Every player of every run as a depth entry */
+function getDepthEntries(history: readonly RunRecord[]): DepthEntry[] {
+    return history.flatMap((run) =>
+        run.players.flatMap(({ playerId, name }) => {
+            const result = run.results[playerId];
+            if (!result) return [];
+            return [
+                {
+                    name,
+                    depth: Math.floor(result.maxDepth),
+                    escaped: result.state === PlayerState.Escaped,
+                    seed: run.seed,
+                    playedAt: run.playedAt,
+                    runId: run.id,
+                },
+            ];
+        })
+    );
+}
+
+/** Deeper first; the earlier run keeps a tie */
+function byDepth(a: DepthEntry, b: DepthEntry): number {
+    return b.depth - a.depth || a.playedAt - b.playedAt;
+}
+
+/**
+ * Deepest dives that made it back to the surface.
+ */
+export function getDeepestEscapes(history: readonly RunRecord[], limit = 10): DepthEntry[] {
+    return getDepthEntries(history)
+        .filter((entry) => entry.escaped)
+        .sort(byDepth)
+        .slice(0, limit);
+}
+
+/**
+ * Deepest dives, whether or not the diver came back.
+ */
+export function getDeepestDives(history: readonly RunRecord[], limit = 10): DepthEntry[] {
+    return getDepthEntries(history).sort(byDepth).slice(0, limit);
+}
+
+/**
+ * Best run on each seed played: the deepest escape, or the deepest dive if nobody escaped.
+ * Seeds are ordered by their best depth.
+ */
+export function getSeedBests(history: readonly RunRecord[]): DepthEntry[] {
+    const bests = new Map<number, DepthEntry>();
+    for (const entry of getDepthEntries(history)) {
+        const best = bests.get(entry.seed);
+        const better =
+            !best ||
+            (entry.escaped && !best.escaped) ||
+            (entry.escaped === best.escaped && byDepth(entry, best) < 0);
+        if (better) {
+            bests.set(entry.seed, entry);
+        }
+    }
+    return [...bests.values()].sort(
+        (a, b) => Number(b.escaped) - Number(a.escaped) || byDepth(a, b)
+    );
+}
+
+/**
+ * Win counts between every pair of names that met in a match.
+ * The winner of a match beats everyone else in it; a draw is shared by every pair.
+ * Seats without a chosen name are left out, as their labels say nothing about who played.
+ * Pairs are ordered by how many matches they played.
+ */
+export function getHeadToHeads(history: readonly RunRecord[]): HeadToHead[] {
+    const tallies = new Map<string, HeadToHead>();
+    for (const run of history) {
+        const { winner } = run.results;
+        const players = run.players.filter((player) => !player.unnamed);
+        for (let i = 0; i < players.length; i++) {
+            for (let j = i + 1; j < players.length; j++) {
+                const [first, second] = [players[i], players[j]].sort((a, b) =>
+                    a.name.localeCompare(b.name)
+                );
+                if (first.name === second.name) continue;
+
+                const key = JSON.stringify([first.name, second.name]);
+                const tally = tallies.get(key) ?? {
+                    names: [first.name, second.name],
+                    wins: [0, 0],
+                    draws: 0,
+                };
+                if (winner === first.playerId) {
+                    tally.wins[0]++;
+                } else if (winner === second.playerId) {
+                    tally.wins[1]++;
+                } else if (winner === 'draw') {
+                    tally.draws++;
+                } else {
+                    // Someone else won, or nobody escaped: not a result between these two
+                    continue;
+                }
+                tallies.set(key, tally);
+            }
+        }
+    }
+
+    const played = (tally: HeadToHead) => tally.wins[0] + tally.wins[1] + tally.draws;
+    return [...tallies.values()].sort((a, b) => played(b) - played(a));
+}
@@ -0,0 +1,23 @@
+/**
+ * Scoring for solo dives.
+ * With nobody to beat, a dive is judged by how deep it went and whether it came back:
+ * only an escape scores, and it scores one point per metre of the deepest depth reached.
+ */
+
+import type { PlayerVehicle } from './types';
+import { PlayerState } from './types';
+
+/**
+ * Score of a finished solo dive.
+ * @returns Whole metres of the deepest depth reached if the diver escaped, otherwise 0
+ */
+export function getSoloScore(player: PlayerVehicle): number {
+    return player.state === PlayerState.Escaped ? Math.floor(player.maxDepthReached) : 0;
+}
+
+/**
+ * Score the diver banks by escaping from where they are now, shown while diving.
+ */
+export function getPotentialSoloScore(player: PlayerVehicle): number {
+    return player.state === PlayerState.Dead ? 0 : Math.floor(player.maxDepthReached);
+}
@@ -0,0 +1,103 @@
+/**
+ * Seed phrases: three words such as "rusty-turtle-abyss" that stand for a numeric seed,
+ * easier to read out across the room than six digits.
+ * Each word list has 100 entries, so the phrases number exactly the seeds that
+ * generateRandomSeed draws from, and every such seed has a phrase of its own.
+ */
+
+/** Split a whitespace-separated block of words */
+function wordList(words: string): readonly string[] {
+    return words.trim().split(/\s+/);
+}
+
+/** First words of phrases */
+const ADJECTIVES = wordList(`
+    rusty silent frozen murky gloomy salty brave hollow sunken ancient crimson golden silver
+    cobalt amber pale dark bright swift sleepy grumpy jolly lucky shady stormy misty foggy icy
+    briny heavy tiny giant wild calm quiet noisy lonely hungry curious clever sly bold shy proud
+    humble eager fuzzy slimy spiky glowing shiny dusty cracked crooked twisted bent broken lost
+    hidden secret strange weird odd wobbly bouncy speedy lazy mighty feeble fierce gentle grim
+    happy jumpy nervous restless sturdy tough brittle fragile polar arctic tidal velvet marble
+    copper iron azure violet scarlet emerald inky dim faint hazy chilly frosty drowsy soggy
+    ghostly
+`);
+
+/** Second words of phrases */
+const CREATURES = wordList(`
+    turtle squid octopus shark whale dolphin eel crab lobster shrimp oyster clam urchin starfish
+    jellyfish seal walrus otter penguin narwhal orca manatee dugong seahorse stingray marlin
+    tuna cod herring salmon trout pike carp minnow guppy angler hagfish lamprey krill plankton
+    barnacle nautilus cuttlefish mackerel sardine anchovy grouper snapper halibut flounder perch
+    bass catfish sturgeon beluga puffin gull pelican albatross tern cormorant heron frog newt
+    axolotl salamander crocodile iguana hermit sponge anemone mussel scallop limpet snail slug
+    worm leech isopod copepod dragonfish viperfish gulper blobfish sunfish swordfish barracuda
+    moray wrasse goby blenny remora kraken leviathan selkie mermaid triton siren hydra serpent
+`);
+
+/** Third words of phrases */
+const PLACES = wordList(`
+    abyss trench reef lagoon harbor cove bay gulf strait channel current tide wave shoal shelf
+    ridge canyon chasm rift vent cavern grotto wreck anchor buoy beacon lighthouse pier dock
+    jetty island atoll cape fjord inlet estuary delta marsh bog swamp pool pond lake sea ocean
+    floor bed basin crater geyser spring well pit shaft tunnel dome vault keep tower ruin temple
+    palace garden forest meadow dune beach shore coast cliff rock stone boulder pebble sand silt
+    mud ice glacier iceberg floe storm squall gale fog haze gloom night dawn dusk moon star
+    comet nebula void station outpost base hatch sound
+`);
+
+/** Seeds below this have a phrase; it matches the range of generateRandomSeed */
+export const SEED_PHRASE_COUNT = ADJECTIVES.length * CREATURES.length * PLACES.length;
+
+/**
+ * The phrase for a seed.
+ * @returns Null for seeds outside the phrase range, which are only shown as numbers
+ */
+export function getSeedPhrase(seed: number): string | null {
+    if (!Number.isInteger(seed) || seed < 0 || seed >= SEED_PHRASE_COUNT) return null;
+    const place = seed % PLACES.length;
+    const creature = Math.floor(seed / PLACES.length) % CREATURES.length;
+    const adjective = Math.floor(seed / (PLACES.length * CREATURES.length));
+    return `${ADJECTIVES[adjective]}-${CREATURES[creature]}-${PLACES[place]}`;
+}
+
+/** FNV-1a hash of free-form text, for phrases made of words not on the lists */
+function hashPhrase(text: string): number {
+    let h = 0x811c9dc5;
+    for (let i = 0; i < text.length; i++) {
+        h = Math.imul(h ^ text.charCodeAt(i), 0x01000193);
+    }
+    return h >>> 0;
+}
+
+/**
+ * Read a seed typed as a number or a phrase.
+ * Words may be separated by hyphens or spaces, in any case. A phrase that isn't made of
+ * listed words still works: it is hashed to a seed in the phrase range, so it shows
+ * as a different phrase afterwards. A number is reduced to the 32 bits the RNG is seeded
+ * with, so every seed that can be typed also fits in a challenge link.
+ * @returns Null if nothing was typed
+ */
+export function parseSeedInput(text: string): number | null {
+    const trimmed = text.trim();
+    if (!trimmed) return null;
+    if (/^\d+$/.test(trimmed)) return Number(BigInt(trimmed) % 0x100000000n);
+
+    const words = trimmed
+        .toLowerCase()
+        .split(/[\s_-]+/)
+        .filter(Boolean);
+    const adjective = ADJECTIVES.indexOf(words[0]);
+    const creature = CREATURES.indexOf(words[1]);
+    const place = PLACES.indexOf(words[2]);
+    if (words.length === 3 && adjective >= 0 && creature >= 0 && place >= 0) {
+        return (adjective * CREATURES.length + creature) * PLACES.length + place;
+    }
+    return hashPhrase(words.join('-')) % SEED_PHRASE_COUNT;
+}
+
+/**
+ * A seed as shown to players: its phrase if it has one, otherwise the number.
+ */
+export function formatSeed(seed: number): string {
+    return getSeedPhrase(seed) ?? String(seed);
+}
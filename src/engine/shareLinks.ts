@@ -0,0 +1,95 @@
+/**
+ * Shareable links. A challenge link carries a seed and ruleset preset in its query string
+ * and opens the match setup screen; a replay link carries a compact replay code
+ * (see encodeReplayCode) in its hash and opens straight into playback.
+ * The replay lives in the hash so it is never sent to the server hosting the game.
+ */
+
+import type { Replay } from './types';
+import { RulesetPreset } from './ruleset';
+import { DEFAULT_MATCH_RULES } from './matchRules';
+import { MAX_REPLAY_FRAMES, decodeReplayCode, encodeReplayCode } from './replay';
+
+const SEED_PARAM = 'seed';
+const PRESET_PARAM = 'rules';
+const MODE_PARAM = 'mode';
+const REPLAY_PARAM = 'replay';
+
+/** Mode parameter value of a solo challenge; versus challenges leave it out */
+const SOLO_MODE = 'solo';
+
+/** A seed to dive, as shared in a challenge link */
+export interface SharedChallenge {
+    seed: number;
+    preset: RulesetPreset;
+    solo: boolean;
+}
+
+/** What a link opens */
+export type SharedLink =
+    { kind: 'challenge'; challenge: SharedChallenge } | { kind: 'replay'; replay: Replay };
+
+/** The page a link points at, without any query or hash it already had */
+function getPageUrl(baseUrl: string): URL {
+    const url = new URL(baseUrl);
+    url.search = '';
+    url.hash = '';
+    return url;
+}
+
+/**
+ * Link that opens the match setup screen on a seed and preset.
+ * @param baseUrl - Address of the game
+ */
+export function createChallengeLink(baseUrl: string, challenge: SharedChallenge): string {
+    const url = getPageUrl(baseUrl);
+    url.searchParams.set(SEED_PARAM, String(challenge.seed));
+    url.searchParams.set(PRESET_PARAM, challenge.preset);
+    if (challenge.solo) {
+        url.searchParams.set(MODE_PARAM, SOLO_MODE);
+    }
+    return url.toString();
+}
+
+/**
+ * Link that opens a replay for playback.
+ * @param baseUrl - Address of the game
+ */
+export function createReplayLink(baseUrl: string, replay: Replay): string {
+    const url = getPageUrl(baseUrl);
+    url.hash = new URLSearchParams({ [REPLAY_PARAM]: encodeReplayCode(replay) }).toString();
+    return url.toString();
+}
+
+/**
+ * Read what a link opens.
+ * An unknown preset falls back to the default, as in saved match rules.
+ * @returns Null for a plain link to the game
+ * @throws If the link's seed or replay is unusable, or the replay is longer than MAX_REPLAY_FRAMES
+ */
+export function readSharedLink(link: string): SharedLink | null {
+    const url = new URL(link);
+
+    const replayCode = new URLSearchParams(url.hash.slice(1)).get(REPLAY_PARAM);
+    if (replayCode !== null) {
+        return { kind: 'replay', replay: decodeReplayCode(replayCode, MAX_REPLAY_FRAMES) };
+    }
+
+    const seedText = url.searchParams.get(SEED_PARAM);
+    if (seedText === null) return null;
+    const seed = Number(seedText);
+    if (!/^\d+$/.test(seedText) || !Number.isSafeInteger(seed)) {
+        throw new Error(`Link seed must be a whole number, got "${seedText}"`);
+    }
+    const preset = Object.values(RulesetPreset).find(
+        (option) => option === url.searchParams.get(PRESET_PARAM)
+    );
+    return {
+        kind: 'challenge',
+        challenge: {
+            seed,
+            preset: preset ?? DEFAULT_MATCH_RULES.preset,
+            solo: url.searchParams.get(MODE_PARAM) === SOLO_MODE,
+        },
+    };
+}
@@ -0,0 +1,127 @@
+/**
+ * Stable hashing and versioned snapshots of game states.
+ * Two simulations that agree frame by frame produce identical hashes,
+ * which lets replays and tests detect desyncs cheaply.
+ */
+
+import type { GameState } from './types';
+
+/** Current GameState snapshot layout. Bump when GameState fields change shape. */
+export const STATE_SCHEMA_VERSION = 8;
+
+/** Marker stored in snapshots so random JSON is rejected early */
+const STATE_SNAPSHOT_TYPE = 'titan-escape-state';
+
+/** Serialized snapshot layout */
+interface StateSnapshot {
+    type: typeof STATE_SNAPSHOT_TYPE;
+    schemaVersion: number;
+    checksum: string; // hashState() of the embedded state
+    state: GameState;
+}
+
+/** FNV-1a 32-bit parameters */
+const FNV_OFFSET_BASIS = 0x811c9dc5;
+const FNV_PRIME = 0x01000193;
+
+/**
+ * Serialize a value to JSON with object keys sorted,
+ * so the output does not depend on property insertion order.
+ */
+function canonicalStringify(value: unknown): string {
+    if (value === null || typeof value !== 'object') {
+        return JSON.stringify(value) ?? 'null';
+    }
+
+    if (Array.isArray(value)) {
+        return `[${value.map((item) => canonicalStringify(item)).join(',')}]`;
+    }
+
+    const entries = Object.keys(value)
+        .sort()
+        .filter((key) => (value as Record<string, unknown>)[key] !== undefined)
+        .map(
+            (key) =>
+                `${JSON.stringify(key)}:${canonicalStringify((value as Record<string, unknown>)[key])}`
+        );
+    return `{${entries.join(',')}}`;
+}
+
+/**
+ * Hash a string with FNV-1a (32-bit).
+ * @returns 8-character lowercase hex digest
+ */
+function fnv1a(text: string): string {
+    let hash = FNV_OFFSET_BASIS;
+    for (let i = 0; i < text.length; i++) {
+        hash ^= text.charCodeAt(i);
+        hash = Math.imul(hash, FNV_PRIME);
+    }
+    return (hash >>> 0).toString(16).padStart(8, '0');
+}
+
+/**
+ * Compute a stable hash of a game state.
+ * Identical states always hash identically, regardless of key order.
+ */
+export function hashState(state: GameState): string {
+    return fnv1a(canonicalStringify(state));
+}
+
+/**
+ * Serialize a game state to a versioned, checksummed JSON snapshot.
+ * Output is canonical: equal states always serialize to the same text.
+ */
+export function serializeState(state: GameState): string {
+    return canonicalStringify({
+        type: STATE_SNAPSHOT_TYPE,
+        schemaVersion: STATE_SCHEMA_VERSION,
+        checksum: hashState(state),
+        state,
+    });
+}
+
+/**
+ * Restore a game state written by serializeState.
+ * Throws if the text is not a snapshot, was written with another schema version,
+ * or fails its checksum.
+ */
+export function deserializeState(text: string): GameState {
+    let snapshot: StateSnapshot;
+    try {
+        snapshot = JSON.parse(text) as StateSnapshot;
+    } catch {
+        throw new Error('State snapshot is not valid JSON');
+    }
+
+    if (!snapshot || snapshot.type !== STATE_SNAPSHOT_TYPE || !snapshot.state) {
+        throw new Error('Not a Titan Escape state snapshot');
+    }
+    if (snapshot.schemaVersion !== STATE_SCHEMA_VERSION) {
+        throw new Error(
+            `State snapshot uses schema version ${snapshot.schemaVersion}, this build reads ${STATE_SCHEMA_VERSION}`
+        );
+    }
+    if (hashState(snapshot.state) !== snapshot.checksum) {
+        throw new Error('State snapshot checksum mismatch');
+    }
+
+    return snapshot.state;
+}
+
+/**
+ * Find where two per-frame hash traces first disagree.
+ * @returns Index of the first differing hash, or null if the shared prefix matches
+ */
+export function findFirstDesync(
+    hashesA: readonly string[],
+    hashesB: readonly string[]
+): number | null {
+    const length = Math.min(hashesA.length, hashesB.length);
+    for (let i = 0; i < length; i++) {
+        if (hashesA[i] !== hashesB[i]) {
+            return i;
+        }
+    }
+    return null;
+}
@@ -0,0 +1,74 @@
+/**
+ * Depth-bucketed spatial index for collision queries.
+ * Each box is filed under every depth bucket it spans, so a query only visits the
+ * boxes near its own depth instead of every entity in the world.
+ *
+ * The index stores array positions rather than entities. It stays valid while entries
+ * are replaced in place (e.g. deactivated), and is rebuilt whenever boxes move or the
+ * array changes length.
+ */
+
+import type { AABB } from './types';
+import { SPATIAL_BUCKET_SIZE } from './config';
+
+export interface SpatialIndex {
+    bucketSize: number;
+    /** Bucket number -> positions of the boxes overlapping it, ascending */
+    buckets: Map<number, number[]>;
+}
+
+function getFirstBucket(box: AABB, bucketSize: number): number {
+    return Math.floor(box.y / bucketSize);
+}
+
+function getLastBucket(box: AABB, bucketSize: number): number {
+    return Math.floor((box.y + box.height) / bucketSize);
+}
+
+/**
+ * Build an index over a list of boxes.
+ *
+ * @param boxes - Boxes to index (obstacles, fish, projectiles...)
+ * @param bucketSize - Depth covered by each bucket
+ */
+export function buildSpatialIndex(
+    boxes: readonly AABB[],
+    bucketSize: number = SPATIAL_BUCKET_SIZE
+): SpatialIndex {
+    const buckets = new Map<number, number[]>();
+
+    boxes.forEach((box, i) => {
+        const last = getLastBucket(box, bucketSize);
+        for (let bucket = getFirstBucket(box, bucketSize); bucket <= last; bucket++) {
+            const positions = buckets.get(bucket);
+            if (positions) {
+                positions.push(i);
+            } else {
+                buckets.set(bucket, [i]);
+            }
+        }
+    });
+
+    return { bucketSize, buckets };
+}
+
+/**
+ * Get the positions of the boxes sharing a depth bucket with `box`.
+ * Positions come back ascending, so callers visit candidates in their original order.
+ * This is a broad phase only: candidates still need an exact overlap test.
+ */
+export function querySpatialIndex(index: SpatialIndex, box: AABB): readonly number[] {
+    const first = getFirstBucket(box, index.bucketSize);
+    const last = getLastBucket(box, index.bucketSize);
+    if (first === last) {
+        return index.buckets.get(first) ?? [];
+    }
+
+    const found = new Set<number>();
+    for (let bucket = first; bucket <= last; bucket++) {
+        for (const position of index.buckets.get(bucket) ?? []) {
+            found.add(position);
+        }
+    }
+    return [...found].sort((a, b) => a - b);
+}
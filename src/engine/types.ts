@@ -3,8 +3,16 @@
  * This file contains all shared types used across the engine.
  */
 
+import type { RNGState, RNGStream } from './rng';
+
 /** Unique identifier for players */
-export type PlayerId = 'player1' | 'player2';
+export type PlayerId = 'player1' | 'player2' | 'player3' | 'player4';
+
+/** Every player slot, in seat order; a match uses the first `playerCount` of them */
+export const PLAYER_IDS: readonly PlayerId[] = ['player1', 'player2', 'player3', 'player4'];
+
+/** Per-player data, holding only the players taking part in the match */
+export type PlayerMap<T> = Partial<Record<PlayerId, T>>;
 
 /** Current state of a player in the game */
 export const PlayerState = {
@@ -20,7 +28,7 @@ export type PlayerState = (typeof PlayerState)[keyof typeof PlayerState];
 export const GamePhase = {
     Intro: 'intro', // Cargo ship scene, submarines deploying
     Playing: 'playing', // Main gameplay
-    GameOver: 'gameover', // Both players done
+    GameOver: 'gameover', // Every player done
 } as const;
 export type GamePhase = (typeof GamePhase)[keyof typeof GamePhase];
 
@@ -36,6 +44,10 @@ export type ObstacleType = (typeof ObstacleType)[keyof typeof ObstacleType];
 export const DeathCause = {
     Imploded: 'imploded', // Wear reached 100% or HP reached 0 during descent
     CrashedAscent: 'crashedAscent', // Collision during ascent
+    KilledByRocket: 'killedByRocket',
+    KilledByMine: 'killedByMine',
+    EatenByAngler: 'eatenByAngler',
+    CrushedByIce: 'crushedByIce', // Fatal ice block collision during descent
 } as const;
 export type DeathCause = (typeof DeathCause)[keyof typeof DeathCause];
 
@@ -53,6 +65,8 @@ export interface PlayerInputFrame {
     up: boolean;
     down: boolean;
     action: PlayerAction;
+    /** Opponent a rocket fired this frame is aimed at; unset aims at the nearest */
+    rocketTarget?: PlayerId | null;
 }
 
 /** Projectile types */
@@ -144,6 +158,18 @@ export interface Obstacle {
     velocityX: number; // For moving obstacles like turtles
     velocityY: number;
     active: boolean; // Whether the obstacle can still cause collision
+    travel?: ObstacleTravel; // Set on moving obstacles
+}
+
+/**
+ * Range a moving obstacle's position (its top-left corner) bounces within,
+ * chosen so it never swims or drifts into a passage lane.
+ */
+export interface ObstacleTravel {
+    minX: number;
+    maxX: number;
+    minY: number;
+    maxY: number;
 }
 
 /**
@@ -170,6 +196,7 @@ export interface PlayerVehicle {
     state: PlayerState;
     maxDepthReached: number;
     deathCause?: DeathCause;
+    killedBy?: PlayerId; // Opponent credited with the kill, if any
     invincibilityFrames: number; // Brief invincibility after hit
     passengers: Passenger[]; // 4 passengers with physics
     implosionFrame: number; // Frame counter for implosion animation (0 = not imploding)
@@ -177,6 +204,165 @@ export interface PlayerVehicle {
     minesRemaining: number; // Big mine (instant kill)
 }
 
+/**
+ * What dealt a hit to a player. Decides the death cause and who gets credit for a kill.
+ */
+export type DamageSource =
+    | { kind: 'obstacle'; obstacleId: string; obstacleType: ObstacleType }
+    | {
+          kind: 'projectile';
+          projectileId: string;
+          projectileType: ProjectileType;
+          attackerId: PlayerId;
+      }
+    | { kind: 'anglerFish'; fishId: string };
+
+/** Kinds of events a simulation step can emit */
+export const GameEventType = {
+    Collision: 'collision', // Player ran into an obstacle
+    PickupCollected: 'pickupCollected',
+    ProjectileFired: 'projectileFired', // Rocket fired or mine deployed
+    ProjectileHit: 'projectileHit', // Projectile struck a player or an obstacle
+    FishBite: 'fishBite', // Angler fish reached its target
+    Eject: 'eject', // Player dumped ballast and started ascending
+    Implosion: 'implosion', // Player died, for any cause
+    Escape: 'escape', // Capsule reached the surface
+} as const;
+export type GameEventType = (typeof GameEventType)[keyof typeof GameEventType];
+
+/**
+ * Something that happened during one simulation step.
+ * `frame` is the step's input frame (the state's frame before the update).
+ */
+export type GameEvent =
+    | {
+          type: typeof GameEventType.Collision;
+          frame: number;
+          playerId: PlayerId;
+          obstacleId: string;
+          obstacleType: ObstacleType;
+          damage: number;
+      }
+    | {
+          type: typeof GameEventType.PickupCollected;
+          frame: number;
+          playerId: PlayerId;
+          pickupId: string;
+          pickupType: PickupType;
+      }
+    | {
+          type: typeof GameEventType.ProjectileFired;
+          frame: number;
+          playerId: PlayerId;
+          projectileId: string;
+          projectileType: ProjectileType;
+      }
+    | {
+          type: typeof GameEventType.ProjectileHit;
+          frame: number;
+          ownerId: PlayerId;
+          projectileId: string;
+          projectileType: ProjectileType;
+          targetType: 'player' | 'obstacle';
+          targetId: string; // PlayerId or obstacle id
+          damage: number; // HP removed (0 for obstacles)
+      }
+    | {
+          type: typeof GameEventType.FishBite;
+          frame: number;
+          playerId: PlayerId;
+          fishId: string;
+          damage: number;
+      }
+    | { type: typeof GameEventType.Eject; frame: number; playerId: PlayerId; depth: number }
+    | {
+          type: typeof GameEventType.Implosion;
+          frame: number;
+          playerId: PlayerId;
+          cause: DeathCause;
+          killedBy?: PlayerId;
+          depth: number;
+      }
+    | { type: typeof GameEventType.Escape; frame: number; playerId: PlayerId; maxDepth: number };
+
+/** Inclusive range of obstacle chunk indices (empty when last < first) */
+export interface ChunkRange {
+    first: number;
+    last: number;
+}
+
+/**
+ * Statistics accumulated for one player over a match.
+ */
+export interface PlayerMatchStats {
+    distanceTravelled: number; // Pixels moved in any direction
+    descentFrames: number;
+    ascentFrames: number;
+    collisions: Record<ObstacleType, number>;
+    damageTaken: number; // HP lost to obstacles, projectiles and fish
+    damageDealt: number; // HP removed from the opponent with projectiles
+    rocketsFired: number;
+    rocketsHit: number; // Rockets that struck the opponent
+    minesPlaced: number;
+    pickupsCollected: number;
+    fishBites: number;
+    peakWear: number; // 0-100
+}
+
+/**
+ * Next free number for each kind of spawned entity.
+ * Kept in GameState so every match allocates the same IDs from frame 0.
+ */
+export interface EntityIdCounters {
+    projectile: number;
+    pickup: number;
+    anglerFish: number;
+}
+
+/** Random streams whose generator state is carried from frame to frame */
+export type StatefulRNGStream = typeof RNGStream.Pickups | typeof RNGStream.Creatures;
+
+/**
+ * Balance knobs of a match. Speeds are in pixels per second, rates per second,
+ * chances per depth unit and durations in frames.
+ * @see RULESET_PRESETS for the built-in tunings
+ */
+export interface Ruleset {
+    subStartingHp: number;
+    startingRockets: number;
+    startingMines: number;
+    horizontalSpeed: number;
+    verticalSpeed: number;
+    /** Automatic descent at the surface, rising by descentSpeedFactor towards the bottom */
+    baseDescentSpeed: number;
+    descentSpeedFactor: number;
+    ascentSpeed: number;
+    /** Hull wear per second at the surface, rising by depthWearFactor towards the bottom */
+    baseWearRate: number;
+    depthWearFactor: number;
+    collisionWear: Record<ObstacleType, number>;
+    collisionDamage: Record<ObstacleType, number>;
+    invincibilityFrames: number;
+    /** Obstacles per 100 depth units at the surface and at the bottom */
+    obstacleDensityMin: number;
+    obstacleDensityMax: number;
+    turtleSpeed: number;
+    rocketSpeed: number;
+    rocketDamage: number;
+    mineDamage: number;
+    mineLifetime: number;
+    hpPickupChance: number;
+    hpPickupHeal: number;
+    ammoPickupChance: number;
+    anglerFishMinDepth: number;
+    anglerFishSpawnChance: number;
+    anglerFishMaxCount: number;
+    anglerFishAggroRadius: number;
+    /** Fish speed as a share of the submarine's horizontal speed */
+    anglerFishSpeedMultiplier: number;
+    anglerFishDamage: number;
+}
+
 /**
  * Complete state of the game at any point in time.
  * Designed to be serializable and deterministically reproducible.
@@ -184,20 +370,39 @@ export interface PlayerVehicle {
 export interface GameState {
     frame: number;
     seed: number;
-    rngState: number; // Current state of the RNG
+    /** Generator state of each stateful random stream (obstacles are derived per chunk) */
+    rngStreams: Record<StatefulRNGStream, RNGState>;
     phase: GamePhase; // Current game phase
     introProgress: number; // 0-1, progress through intro animation
-    players: Record<PlayerId, PlayerVehicle>;
+    /** Players taking part, in seat order */
+    playerIds: PlayerId[];
+    players: PlayerMap<PlayerVehicle>;
     obstacles: Obstacle[];
     projectiles: Projectile[]; // Rockets and mines
     pickups: Pickup[]; // Health and ammo pickups
     anglerFish: AnglerFish[]; // Enemy fish
     gameOver: boolean;
+    /** Null while playing, and after a solo dive that did not escape */
     winner: PlayerId | 'draw' | null;
-    /** Depth at which we've generated obstacles up to */
+    /** Depth at which we've generated pickups up to */
     generatedDepth: number;
+    /** Obstacle chunks currently held in `obstacles` */
+    loadedChunks: ChunkRange;
+    /** Per evicted chunk, a bitmask of obstacle indices that were consumed */
+    consumedObstacles: Record<number, number>;
     /** Highest depth any player has reached (for camera) */
     currentMaxDepth: number;
+    /** Logical world size the match is simulated in */
+    worldWidth: number;
+    worldHeight: number;
+    /** Depth of the trench floor; depth-based difficulty tops out here */
+    maxDepth: number;
+    /** Balance knobs the match is played with */
+    ruleset: Ruleset;
+    /** ID allocation for projectiles, pickups and angler fish */
+    nextEntityIds: EntityIdCounters;
+    /** Running per-player statistics for the match */
+    stats: PlayerMap<PlayerMatchStats>;
 }
 
 /**
@@ -206,8 +411,10 @@ export interface GameState {
 export interface EngineConfig {
     seed: number;
     maxDepth: number;
-    canvasWidth: number;
-    canvasHeight: number;
+    worldWidth: number; // Logical world size, independent of the browser window
+    worldHeight: number;
+    ruleset?: Ruleset; // Defaults to the Normal preset
+    playerCount?: number; // 1 for a solo dive; defaults to 2
 }
 
 /**
@@ -228,4 +435,20 @@ export interface PlayerResult {
     state: PlayerState;
     maxDepth: number;
     deathCause?: DeathCause;
+    killedBy?: PlayerId;
+    stats: PlayerMatchStats;
+}
+
+/**
+ * A recorded match: everything needed to re-simulate it deterministically.
+ * Inputs are packed into one number per frame per player (see replay.ts).
+ */
+export interface Replay {
+    version: number; // Replay file format version
+    engineVersion: number; // ENGINE_VERSION the match was recorded with
+    config: EngineConfig;
+    frameCount: number;
+    inputs: PlayerMap<number[]>;
+    finalStateHash: string; // hashState() of the state after the last frame
+    checkpoints: string[]; // hashState() every REPLAY_CHECKPOINT_INTERVAL frames, to locate desyncs
 }
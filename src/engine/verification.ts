@@ -0,0 +1,191 @@
+/**
+ * Authoritative verification of submitted runs.
+ * A client claims a result by sending its replay together with the results it saw.
+ * The verifier re-simulates the replay with this engine and only accepts the claim
+ * if the simulation ends in the same state and the same results.
+ */
+
+import type { GameState, Replay } from './types';
+import type { MatchRules } from './matchRules';
+import { findMatchRules } from './matchRules';
+import { createInitialState, updateGameState, getGameResults } from './gameState';
+import { getReplayInputs, parseReplay, REPLAY_CHECKPOINT_INTERVAL } from './replay';
+import { hashState } from './snapshot';
+import { DEFAULT_MAX_FRAMES } from './headless';
+import { ENGINE_VERSION, FIXED_DT } from './config';
+
+/** A run submitted for verification */
+export interface RunClaim {
+    replay: Replay;
+    /** getGameResults() as the client saw it at the end of the match */
+    results: unknown;
+}
+
+export type RunVerdict =
+    | {
+          accepted: true;
+          frames: number;
+          finalStateHash: string;
+          results: ReturnType<typeof getGameResults>;
+          /** House rules the run was played under, so leaderboards can keep to standard ones */
+          rules: MatchRules;
+      }
+    | {
+          accepted: false;
+          reason: string;
+          /** Earliest frame known to differ from the claim, if the run got that far */
+          firstDivergentFrame: number | null;
+          /** Last frame known to still match the claim */
+          lastMatchingFrame: number | null;
+      };
+
+/**
+ * Find the first field where claimed results differ from simulated ones.
+ * Missing and undefined fields are treated alike, since claims arrive as JSON.
+ * @returns Dotted path of the field and both values, or null if they agree
+ */
+function findResultMismatch(
+    expected: unknown,
+    claimed: unknown,
+    path: string
+): { path: string; expected: unknown; claimed: unknown } | null {
+    const bothObjects =
+        typeof expected === 'object' &&
+        expected !== null &&
+        typeof claimed === 'object' &&
+        claimed !== null;
+    if (!bothObjects) {
+        return (expected ?? null) === (claimed ?? null) ? null : { path, expected, claimed };
+    }
+
+    const keys = new Set([...Object.keys(expected), ...Object.keys(claimed)]);
+    for (const key of [...keys].sort()) {
+        const mismatch = findResultMismatch(
+            (expected as Record<string, unknown>)[key],
+            (claimed as Record<string, unknown>)[key],
+            path ? `${path}.${key}` : key
+        );
+        if (mismatch) return mismatch;
+    }
+    return null;
+}
+
+/**
+ * Parse a claim sent as JSON: { "replay": <replay file>, "results": <getGameResults()> }.
+ * The replay may be embedded as an object or as the replay file's text.
+ * Throws if the text is not a claim or the replay cannot be played back.
+ * @param maxFrames - Longest replay accepted; longer ones are refused before being expanded
+ */
+export function parseRunClaim(text: string, maxFrames: number = DEFAULT_MAX_FRAMES): RunClaim {
+    let body: { replay?: unknown; results?: unknown };
+    try {
+        body = JSON.parse(text) as typeof body;
+    } catch {
+        throw new Error('Claim is not valid JSON');
+    }
+    if (!body || typeof body !== 'object' || body.replay === undefined) {
+        throw new Error('Claim must contain a "replay"');
+    }
+    if (typeof body.results !== 'object' || body.results === null) {
+        throw new Error('Claim must contain the claimed "results"');
+    }
+
+    const replayText = typeof body.replay === 'string' ? body.replay : JSON.stringify(body.replay);
+    return { replay: parseReplay(replayText, maxFrames), results: body.results };
+}
+
+function reject(
+    reason: string,
+    firstDivergentFrame: number | null,
+    lastMatchingFrame: number | null
+): RunVerdict {
+    return { accepted: false, reason, firstDivergentFrame, lastMatchingFrame };
+}
+
+/**
+ * Re-simulate a claimed run and decide whether to accept it.
+ * Only runs in the standard world under rules the setup screen offers are simulated.
+ * The replay's checkpoint hashes locate a desync to within REPLAY_CHECKPOINT_INTERVAL frames.
+ * @param maxFrames - Longest replay accepted, bounding the work a single claim can cause
+ */
+export function verifyRun(claim: RunClaim, maxFrames: number = DEFAULT_MAX_FRAMES): RunVerdict {
+    const { replay } = claim;
+    if (replay.engineVersion !== ENGINE_VERSION) {
+        return reject(
+            `Replay was recorded with engine version ${replay.engineVersion}, the verifier runs ${ENGINE_VERSION}`,
+            null,
+            null
+        );
+    }
+    if (replay.frameCount > maxFrames) {
+        return reject(
+            `Replay is ${replay.frameCount} frames long, the limit is ${maxFrames}`,
+            null,
+            null
+        );
+    }
+    const rules = findMatchRules(replay.config);
+    if (!rules) {
+        return reject(
+            'Replay was played in a world or under rules the game does not offer',
+            null,
+            null
+        );
+    }
+
+    let state: GameState = createInitialState(replay.config);
+    let lastMatchingFrame = 0;
+    for (let frame = 0; frame < replay.frameCount; frame++) {
+        if (state.gameOver) {
+            return reject(
+                `Match ended at frame ${state.frame} but the replay continues to frame ${replay.frameCount}`,
+                state.frame,
+                lastMatchingFrame
+            );
+        }
+        state = updateGameState(state, getReplayInputs(replay, frame), FIXED_DT);
+
+        if (state.frame % REPLAY_CHECKPOINT_INTERVAL === 0) {
+            const claimed = replay.checkpoints[state.frame / REPLAY_CHECKPOINT_INTERVAL - 1];
+            if (claimed !== undefined && claimed !== hashState(state)) {
+                return reject(
+                    `State diverged between frame ${lastMatchingFrame} and frame ${state.frame}`,
+                    state.frame,
+                    lastMatchingFrame
+                );
+            }
+            if (claimed !== undefined) lastMatchingFrame = state.frame;
+        }
+    }
+
+    if (!state.gameOver) {
+        return reject(
+            `Match had not finished after the replay's ${replay.frameCount} frames`,
+            null,
+            lastMatchingFrame
+        );
+    }
+
+    const finalStateHash = hashState(state);
+    if (finalStateHash !== replay.finalStateHash) {
+        return reject(
+            `Final state hash ${finalStateHash} does not match the claimed ${replay.finalStateHash}; ` +
+                `state diverged between frame ${lastMatchingFrame} and frame ${state.frame}`,
+            state.frame,
+            lastMatchingFrame
+        );
+    }
+
+    // The replay itself checks out here, so only the reported results can be wrong
+    const results = getGameResults(state);
+    const mismatch = findResultMismatch(results, claim.results, '');
+    if (mismatch) {
+        return reject(
+            `Claimed ${mismatch.path} ${JSON.stringify(mismatch.claimed)} but the simulation gives ${JSON.stringify(mismatch.expected)}`,
+            null,
+            state.frame
+        );
+    }
+
+    return { accepted: true, frames: state.frame, finalStateHash, results, rules };
+}
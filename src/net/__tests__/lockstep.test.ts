@@ -0,0 +1,123 @@
+/**
+ * Tests for lockstep simulation between two peers.
+ */
+
+import { describe, it, expect } from 'vitest';
+import { LockstepSession } from '../lockstep';
+import type { InputTransport } from '../lockstep';
+import { createInitialState, updateGameState } from '../../engine/gameState';
+import { hashState } from '../../engine/snapshot';
+import type { PlayerId, PlayerInputFrame } from '../../engine/types';
+import { FIXED_DT, WORLD_WIDTH, WORLD_HEIGHT, MAX_DEPTH } from '../../engine/config';
+
+const config = {
+    seed: 8080,
+    maxDepth: MAX_DEPTH,
+    worldWidth: WORLD_WIDTH,
+    worldHeight: WORLD_HEIGHT,
+};
+
+const INPUT_DELAY = 3;
+const FRAMES = 600;
+
+const idleInput: PlayerInputFrame = {
+    frame: 0,
+    left: false,
+    right: false,
+    up: false,
+    down: false,
+    action: null,
+};
+
+/** The n-th input each player submits */
+function scriptedInput(playerId: PlayerId, n: number): PlayerInputFrame {
+    const offset = playerId === 'player1' ? 0 : 3;
+    return {
+        frame: n,
+        left: (n + offset) % 7 < 3,
+        right: (n + offset) % 11 < 2,
+        up: false,
+        down: (n + offset) % 13 < 4,
+        action: n === 60 + offset * 10 ? 'fireRocket' : null,
+    };
+}
+
+/**
+ * Two transports wired to each other. Sent inputs wait in a queue until `deliver`
+ * is called, like packets still on the wire.
+ */
+function createTransportPair() {
+    const queues: Array<Array<[number, number]>> = [[], []];
+    const handlers: Array<((frame: number, input: number) => void) | null> = [null, null];
+    const transport = (side: 0 | 1): InputTransport => ({
+        send: (frame, input) => queues[1 - side].push([frame, input]),
+        subscribe: (handler) => {
+            handlers[side] = handler;
+            return () => {
+                handlers[side] = null;
+            };
+        },
+    });
+    const deliver = () => {
+        for (const side of [0, 1]) {
+            for (const [frame, input] of queues[side].splice(0)) handlers[side]?.(frame, input);
+        }
+    };
+    return { transports: [transport(0), transport(1)] as const, deliver };
+}
+
+describe('Lockstep sessions', () => {
+    it('keeps both peers identical to an offline run with delayed inputs', () => {
+        const { transports, deliver } = createTransportPair();
+        const peers = [
+            new LockstepSession(createInitialState(config), 'player1', INPUT_DELAY, transports[0]),
+            new LockstepSession(createInitialState(config), 'player2', INPUT_DELAY, transports[1]),
+        ];
+        const playerIds: PlayerId[] = ['player1', 'player2'];
+        const submitted = [0, 0];
+
+        for (let frame = 0; frame < FRAMES; frame++) {
+            peers.forEach((peer, i) => {
+                while (peer.needsLocalInput()) {
+                    peer.submitLocalInput(scriptedInput(playerIds[i], submitted[i]++));
+                }
+            });
+            deliver();
+            for (const peer of peers) expect(peer.step()).not.toBeNull();
+        }
+
+        let offline = createInitialState(config);
+        for (let frame = 0; frame < FRAMES; frame++) {
+            const delayed = (playerId: PlayerId) =>
+                frame < INPUT_DELAY ? idleInput : scriptedInput(playerId, frame - INPUT_DELAY);
+            offline = updateGameState(
+                offline,
+                { player1: delayed('player1'), player2: delayed('player2') },
+                FIXED_DT
+            );
+        }
+
+        expect(hashState(peers[0].getState())).toBe(hashState(offline));
+        expect(hashState(peers[1].getState())).toBe(hashState(offline));
+    });
+
+    it('stalls once the delay window is used up without the opponent', () => {
+        const { transports } = createTransportPair();
+        const session = new LockstepSession(
+            createInitialState(config),
+            'player1',
+            INPUT_DELAY,
+            transports[0]
+        );
+
+        let stepped = 0;
+        for (let frame = 0; frame < INPUT_DELAY * 3; frame++) {
+            if (session.needsLocalInput()) session.submitLocalInput(idleInput);
+            if (session.step()) stepped++;
+        }
+
+        expect(stepped).toBe(INPUT_DELAY);
+        expect(session.isWaitingForPeer()).toBe(true);
+        expect(session.needsLocalInput()).toBe(false);
+    });
+});
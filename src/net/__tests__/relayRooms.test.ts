@@ -0,0 +1,149 @@
+/**
+ * Tests for the relay's room rules.
+ */
+
+import { describe, it, expect } from 'vitest';
+import { RelayRooms } from '../relayRooms';
+import { PROTOCOL_VERSION, DEFAULT_INPUT_DELAY, parseClientMessage } from '../protocol';
+import type { ServerMessage } from '../protocol';
+
+/** A greeted connection that keeps everything the relay sends it */
+function connectClient(rooms: RelayRooms): { id: number; inbox: ServerMessage[] } {
+    const inbox: ServerMessage[] = [];
+    const id = rooms.connect((message) => inbox.push(message));
+    rooms.handleMessage(id, { type: 'hello', protocolVersion: PROTOCOL_VERSION });
+    return { id, inbox };
+}
+
+/** Two clients seated in the same room; returns the room code too */
+function createFullRoom(rooms: RelayRooms) {
+    const host = connectClient(rooms);
+    rooms.handleMessage(host.id, { type: 'createRoom' });
+    const joined = host.inbox.find((m) => m.type === 'joined')!;
+    const code = joined.type === 'joined' ? joined.room.code : '';
+
+    const guest = connectClient(rooms);
+    rooms.handleMessage(guest.id, { type: 'joinRoom', code: code.toLowerCase() });
+    return { host, guest, code };
+}
+
+function lastOfType<T extends ServerMessage['type']>(inbox: ServerMessage[], type: T) {
+    return inbox.filter((m): m is Extract<ServerMessage, { type: T }> => m.type === type).at(-1);
+}
+
+describe('Relay rooms', () => {
+    it('seats the creator as host and the next client as player 2', () => {
+        const rooms = new RelayRooms();
+        const { host, guest, code } = createFullRoom(rooms);
+
+        expect(lastOfType(host.inbox, 'joined')?.playerId).toBe('player1');
+        expect(lastOfType(guest.inbox, 'joined')?.playerId).toBe('player2');
+        const room = lastOfType(host.inbox, 'room')!.room;
+        expect(room.code).toBe(code);
+        expect(room.host).toBe('player1');
+        expect(room.slots.player2.connected).toBe(true);
+
+        const third = connectClient(rooms);
+        rooms.handleMessage(third.id, { type: 'joinRoom', code });
+        expect(lastOfType(third.inbox, 'error')?.message).toContain('full');
+    });
+
+    it('requires a hello with a matching protocol version', () => {
+        const rooms = new RelayRooms();
+        const inbox: ServerMessage[] = [];
+        const id = rooms.connect((message) => inbox.push(message));
+
+        rooms.handleMessage(id, { type: 'createRoom' });
+        rooms.handleMessage(id, { type: 'hello', protocolVersion: PROTOCOL_VERSION + 1 });
+        rooms.handleMessage(id, { type: 'createRoom' });
+
+        expect(inbox.every((m) => m.type === 'error')).toBe(true);
+        expect(rooms.getRoomCount()).toBe(0);
+    });
+
+    it('only lets the host change the seed, and a new seed clears readiness', () => {
+        const rooms = new RelayRooms();
+        const { host, guest } = createFullRoom(rooms);
+
+        rooms.handleMessage(guest.id, { type: 'setReady', ready: true });
+        rooms.handleMessage(guest.id, { type: 'setSeed', seed: 7 });
+        expect(lastOfType(guest.inbox, 'error')?.message).toContain('host');
+
+        rooms.handleMessage(host.id, { type: 'setSeed', seed: 99 });
+        const room = lastOfType(guest.inbox, 'room')!.room;
+        expect(room.seed).toBe(99);
+        expect(room.slots.player2.ready).toBe(false);
+    });
+
+    it('starts the match once both players are ready and relays inputs only during it', () => {
+        const rooms = new RelayRooms();
+        const { host, guest } = createFullRoom(rooms);
+        rooms.handleMessage(host.id, { type: 'setSeed', seed: 1234 });
+
+        rooms.handleMessage(host.id, { type: 'input', frame: 4, input: 3 });
+        expect(lastOfType(guest.inbox, 'input')).toBeUndefined();
+
+        rooms.handleMessage(host.id, { type: 'setReady', ready: true });
+        expect(lastOfType(host.inbox, 'matchStart')).toBeUndefined();
+        rooms.handleMessage(guest.id, { type: 'setReady', ready: true });
+
+        for (const client of [host, guest]) {
+            expect(lastOfType(client.inbox, 'matchStart')).toEqual({
+                type: 'matchStart',
+                seed: 1234,
+                inputDelay: DEFAULT_INPUT_DELAY,
+            });
+        }
+
+        rooms.handleMessage(host.id, { type: 'input', frame: 4, input: 3 });
+        expect(lastOfType(guest.inbox, 'input')).toEqual({
+            type: 'input',
+            playerId: 'player1',
+            frame: 4,
+            input: 3,
+        });
+        expect(lastOfType(host.inbox, 'input')).toBeUndefined();
+    });
+
+    it('keeps relaying inputs when a player unreadies mid-match, and stops once one readies up', () => {
+        const rooms = new RelayRooms();
+        const { host, guest } = createFullRoom(rooms);
+        rooms.handleMessage(host.id, { type: 'setReady', ready: true });
+        rooms.handleMessage(guest.id, { type: 'setReady', ready: true });
+
+        rooms.handleMessage(guest.id, { type: 'setReady', ready: false });
+        rooms.handleMessage(host.id, { type: 'input', frame: 10, input: 1 });
+        expect(lastOfType(guest.inbox, 'input')?.frame).toBe(10);
+        expect(lastOfType(guest.inbox, 'room')?.room.inMatch).toBe(true);
+
+        rooms.handleMessage(guest.id, { type: 'setReady', ready: true });
+        rooms.handleMessage(host.id, { type: 'input', frame: 11, input: 1 });
+        expect(lastOfType(guest.inbox, 'input')?.frame).toBe(10);
+        expect(lastOfType(guest.inbox, 'room')?.room.inMatch).toBe(false);
+    });
+
+    it('hands the room to the remaining player and deletes empty rooms', () => {
+        const rooms = new RelayRooms();
+        const { host, guest } = createFullRoom(rooms);
+
+        rooms.disconnect(host.id);
+        expect(lastOfType(guest.inbox, 'peerLeft')?.playerId).toBe('player1');
+        expect(lastOfType(guest.inbox, 'room')?.room.host).toBe('player2');
+        expect(rooms.getRoomCount()).toBe(1);
+
+        rooms.handleMessage(guest.id, { type: 'leaveRoom' });
+        expect(rooms.getRoomCount()).toBe(0);
+    });
+});
+
+describe('Client message parsing', () => {
+    it('accepts well-formed messages and rejects malformed ones', () => {
+        expect(parseClientMessage('{"type":"setSeed","seed":5}')).toEqual({
+            type: 'setSeed',
+            seed: 5,
+        });
+        expect(() => parseClientMessage('not json')).toThrow();
+        expect(() => parseClientMessage('{"type":"setSeed","seed":"5"}')).toThrow();
+        expect(() => parseClientMessage('{"type":"teleport"}')).toThrow();
+    });
+});
@@ -0,0 +1,201 @@
+/**
+ * Tests for rollback sessions and the loopback network they are tested over.
+ */
+
+import { describe, it, expect } from 'vitest';
+import { RollbackSession } from '../rollback';
+import type { RollbackOptions } from '../rollback';
+import { LoopbackLink } from '../loopback';
+import type { OnlinePlayerId } from '../protocol';
+import { createInitialState, updateGameState } from '../../engine/gameState';
+import { hashState } from '../../engine/snapshot';
+import type { PlayerId, PlayerInputFrame } from '../../engine/types';
+import { FIXED_DT, WORLD_WIDTH, WORLD_HEIGHT, MAX_DEPTH } from '../../engine/config';
+
+const config = {
+    seed: 5150,
+    maxDepth: MAX_DEPTH,
+    worldWidth: WORLD_WIDTH,
+    worldHeight: WORLD_HEIGHT,
+};
+
+const options = { inputDelay: 2, maxRollbackFrames: 8 };
+const FRAMES = 300;
+const PLAYER_IDS: OnlinePlayerId[] = ['player1', 'player2'];
+
+const idleInput: PlayerInputFrame = {
+    frame: 0,
+    left: false,
+    right: false,
+    up: false,
+    down: false,
+    action: null,
+};
+
+/** The n-th input each player submits; changes often enough to break predictions */
+function scriptedInput(playerId: PlayerId, n: number): PlayerInputFrame {
+    const offset = playerId === 'player1' ? 0 : 4;
+    return {
+        frame: n,
+        left: (n + offset) % 23 < 6,
+        right: (n + offset) % 19 < 4,
+        up: false,
+        down: (n + offset) % 29 < 9,
+        action: n === 50 + offset * 10 ? 'fireRocket' : null,
+    };
+}
+
+/**
+ * Run both peers over the link until every frame before FRAMES is confirmed on both.
+ * Each peer only has inputs for frames before FRAMES, so both stop exactly there.
+ */
+function playOverLink(
+    link: LoopbackLink,
+    sessionOptions: RollbackOptions = options
+): RollbackSession[] {
+    const peers = PLAYER_IDS.map(
+        (playerId, i) =>
+            new RollbackSession(createInitialState(config), playerId, link.ends[i], sessionOptions)
+    );
+    const submitted = [0, 0];
+    const lastInput = FRAMES - options.inputDelay;
+
+    for (let tick = 0; tick < FRAMES * 4; tick++) {
+        peers.forEach((peer, i) => {
+            if (submitted[i] < lastInput && peer.needsLocalInput()) {
+                peer.submitLocalInput(scriptedInput(PLAYER_IDS[i], submitted[i]++));
+            }
+            peer.step();
+        });
+        link.tick();
+        if (peers.every((peer) => peer.getConfirmedFrame() === FRAMES - 1)) break;
+    }
+    return peers;
+}
+
+/** The same match without a network: every input simply arrives inputDelay frames late */
+function playOffline(): string {
+    let state = createInitialState(config);
+    for (let frame = 0; frame < FRAMES; frame++) {
+        const delayed = (playerId: PlayerId) =>
+            frame < options.inputDelay
+                ? idleInput
+                : scriptedInput(playerId, frame - options.inputDelay);
+        state = updateGameState(
+            state,
+            { player1: delayed('player1'), player2: delayed('player2') },
+            FIXED_DT
+        );
+    }
+    return hashState(state);
+}
+
+describe('Rollback sessions', () => {
+    it('converge on the offline result despite latency, jitter and packet loss', () => {
+        const link = new LoopbackLink({
+            latencyTicks: 4,
+            jitterTicks: 3,
+            packetLoss: 0.2,
+            seed: 77,
+        });
+        const peers = playOverLink(link);
+        const expected = playOffline();
+
+        for (const peer of peers) {
+            expect(peer.getConfirmedFrame()).toBe(FRAMES - 1);
+            expect(peer.getState().frame).toBe(FRAMES);
+            expect(hashState(peer.getState())).toBe(expected);
+            expect(peer.getTotalRollbackFrames()).toBeGreaterThan(0);
+        }
+        expect(link.getStats().dropped).toBeGreaterThan(0);
+    });
+
+    it('sends each input once over a reliable link and confirms the offline frames', () => {
+        const link = new LoopbackLink({ latencyTicks: 4, jitterTicks: 3, seed: 12 });
+        const peers = playOverLink(link, { ...options, resendInputs: false });
+        const expected = playOffline();
+
+        expect(link.getStats().sent).toBe(2 * (FRAMES - options.inputDelay));
+        for (const peer of peers) {
+            expect(peer.isConfirmed()).toBe(true);
+            expect(peer.getTotalRollbackFrames()).toBeGreaterThan(0);
+
+            // Confirmed steps cover every frame once, with the inputs each side really sent
+            const steps = peer.takeConfirmedSteps();
+            expect(steps.map((step) => step.state.frame)).toEqual(
+                Array.from({ length: FRAMES }, (_, frame) => frame + 1)
+            );
+            expect(hashState(steps[FRAMES - 1].state)).toBe(expected);
+            expect(steps[100].inputs.player2).toEqual({
+                ...scriptedInput('player2', 100 - options.inputDelay),
+                frame: 100,
+            });
+            expect(peer.takeConfirmedSteps()).toEqual([]);
+        }
+    });
+
+    it('never rolls back while the repeated input prediction holds', () => {
+        const link = new LoopbackLink({ latencyTicks: 5 });
+        const peers = PLAYER_IDS.map(
+            (playerId, i) =>
+                new RollbackSession(createInitialState(config), playerId, link.ends[i], options)
+        );
+        const steady = { ...idleInput, down: true };
+
+        for (let tick = 0; tick < 120; tick++) {
+            for (const peer of peers) {
+                if (peer.needsLocalInput()) peer.submitLocalInput(steady);
+                peer.step();
+            }
+            link.tick();
+        }
+
+        // Only the first held input, after the idle delay window, was mispredicted
+        for (const peer of peers) {
+            expect(peer.getState().frame).toBeGreaterThan(100);
+            expect(peer.getTotalRollbackFrames()).toBeGreaterThan(0);
+            expect(peer.getTotalRollbackFrames()).toBeLessThanOrEqual(options.maxRollbackFrames);
+        }
+    });
+
+    it('stalls once it has predicted a full rollback window ahead', () => {
+        const link = new LoopbackLink();
+        const session = new RollbackSession(
+            createInitialState(config),
+            'player1',
+            link.ends[0],
+            options
+        );
+
+        let stepped = 0;
+        for (let tick = 0; tick < 40; tick++) {
+            if (session.needsLocalInput()) session.submitLocalInput(idleInput);
+            if (session.step()) stepped++;
+            link.tick();
+        }
+
+        expect(stepped).toBe(options.inputDelay + options.maxRollbackFrames);
+        expect(session.isWaitingForPeer()).toBe(true);
+    });
+});
+
+describe('Loopback link', () => {
+    it('delivers after the configured latency and drops the configured share', () => {
+        const link = new LoopbackLink({ latencyTicks: 3, packetLoss: 0.25, seed: 9 });
+        const received: number[] = [];
+        link.ends[1].subscribe((frame) => received.push(frame));
+
+        for (let frame = 0; frame < 400; frame++) link.ends[0].send(frame, 0);
+        link.tick();
+        link.tick();
+        expect(received).toEqual([]);
+        link.tick();
+
+        const { sent, dropped, delivered } = link.getStats();
+        expect(sent).toBe(400);
+        expect(delivered).toBe(received.length);
+        expect(sent - dropped).toBe(delivered);
+        expect(dropped / sent).toBeGreaterThan(0.15);
+        expect(dropped / sent).toBeLessThan(0.35);
+    });
+});
@@ -0,0 +1,136 @@
+/**
+ * Lockstep simulation for online matches.
+ * Each peer simulates the full match with updateGameState. A frame is only simulated
+ * once both players' inputs for it are known, so the peers never diverge.
+ *
+ * Local inputs are scheduled `inputDelay` frames ahead and sent straight away.
+ * While the network delivers them within that window, neither peer ever has to wait.
+ */
+
+import type { GameEvent, GameState, PlayerInputFrame } from '../engine/types';
+import { stepGameState } from '../engine/gameState';
+import { packInput, unpackInput } from '../engine/replay';
+import { FIXED_DT } from '../engine/config';
+import type { OnlinePlayerId } from './protocol';
+
+/** Carries packed inputs between the two peers of a match */
+export interface InputTransport {
+    /** Send one of the local player's inputs to the opponent */
+    send(frame: number, input: number): void;
+    /**
+     * Receive the opponent's inputs.
+     * @returns Function that stops delivering inputs to the handler
+     */
+    subscribe(handler: (frame: number, input: number) => void): () => void;
+}
+
+/** A simulated frame and the inputs that produced it */
+export interface LockstepStep {
+    state: GameState;
+    events: GameEvent[];
+    inputs: Record<OnlinePlayerId, PlayerInputFrame>;
+}
+
+export class LockstepSession {
+    private state: GameState;
+    private readonly localPlayerId: OnlinePlayerId;
+    private readonly remotePlayerId: OnlinePlayerId;
+    private readonly inputDelay: number;
+    private readonly transport: InputTransport;
+    private readonly unsubscribe: () => void;
+    /** Packed inputs received or scheduled for frames not simulated yet */
+    private readonly pending: Record<OnlinePlayerId, Map<number, number>> = {
+        player1: new Map(),
+        player2: new Map(),
+    };
+    /** Frame the next local input will be scheduled for */
+    private nextLocalFrame: number;
+
+    /**
+     * @param initialState - State both peers start from
+     * @param localPlayerId - Player this browser controls
+     * @param inputDelay - Frames between sampling a local input and simulating it
+     * @param transport - Connection to the opponent
+     */
+    constructor(
+        initialState: GameState,
+        localPlayerId: OnlinePlayerId,
+        inputDelay: number,
+        transport: InputTransport
+    ) {
+        this.state = initialState;
+        this.localPlayerId = localPlayerId;
+        this.remotePlayerId = localPlayerId === 'player1' ? 'player2' : 'player1';
+        this.inputDelay = inputDelay;
+        this.transport = transport;
+        this.nextLocalFrame = initialState.frame + inputDelay;
+
+        // Nobody can have pressed anything for the frames inside the first delay window
+        for (let frame = initialState.frame; frame < this.nextLocalFrame; frame++) {
+            this.pending.player1.set(frame, 0);
+            this.pending.player2.set(frame, 0);
+        }
+
+        this.unsubscribe = transport.subscribe((frame, input) => {
+            if (frame >= this.state.frame) {
+                this.pending[this.remotePlayerId].set(frame, input);
+            }
+        });
+    }
+
+    getState(): GameState {
+        return this.state;
+    }
+
+    /**
+     * Whether the local player has room to schedule another input.
+     * False once inputs are scheduled a full delay window ahead of the simulation.
+     */
+    needsLocalInput(): boolean {
+        return this.nextLocalFrame <= this.state.frame + this.inputDelay;
+    }
+
+    /**
+     * Schedule the local player's input `inputDelay` frames ahead and send it to the opponent.
+     * Does nothing when needsLocalInput() is false.
+     */
+    submitLocalInput(input: PlayerInputFrame): void {
+        if (!this.needsLocalInput()) return;
+
+        const packed = packInput(input);
+        this.pending[this.localPlayerId].set(this.nextLocalFrame, packed);
+        this.transport.send(this.nextLocalFrame, packed);
+        this.nextLocalFrame++;
+    }
+
+    /** Whether the next frame is stalled on the opponent's input */
+    isWaitingForPeer(): boolean {
+        return !this.pending[this.remotePlayerId].has(this.state.frame);
+    }
+
+    /**
+     * Simulate the next frame if both players' inputs for it are known.
+     * @returns The step, or null when still waiting for an input
+     */
+    step(): LockstepStep | null {
+        const frame = this.state.frame;
+        const player1 = this.pending.player1.get(frame);
+        const player2 = this.pending.player2.get(frame);
+        if (player1 === undefined || player2 === undefined) return null;
+
+        this.pending.player1.delete(frame);
+        this.pending.player2.delete(frame);
+        const inputs = {
+            player1: unpackInput(player1, frame),
+            player2: unpackInput(player2, frame),
+        };
+        const { state, events } = stepGameState(this.state, inputs, FIXED_DT);
+        this.state = state;
+        return { state, events, inputs };
+    }
+
+    /** Stop listening to the transport */
+    dispose(): void {
+        this.unsubscribe();
+    }
+}
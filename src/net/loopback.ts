@@ -0,0 +1,102 @@
+/**
+ * In-memory network for testing online sessions without sockets.
+ * Two transports are joined by a link that delays, reorders and drops packets on a
+ * simulated clock: nothing arrives until tick() is called, and one tick stands for one frame.
+ */
+
+import type { InputTransport } from './lockstep';
+import { createRNG } from '../engine/rng';
+import type { SeededRNG } from '../engine/rng';
+
+export interface LoopbackOptions {
+    /** Ticks every packet spends in flight */
+    latencyTicks?: number;
+    /** Extra random delay of up to this many ticks, which can also reorder packets */
+    jitterTicks?: number;
+    /** Chance (0-1) that a packet is dropped */
+    packetLoss?: number;
+    /** Seed for loss and jitter, so runs repeat exactly */
+    seed?: number;
+}
+
+/** Packet counts for one link, both directions together */
+export interface LoopbackStats {
+    sent: number;
+    dropped: number;
+    delivered: number;
+}
+
+type HandlerFn = (frame: number, input: number) => void;
+
+interface Packet {
+    deliverAt: number;
+    frame: number;
+    input: number;
+}
+
+export class LoopbackLink {
+    /** The two ends of the link; what one sends, the other receives */
+    readonly ends: readonly [InputTransport, InputTransport];
+
+    private readonly latencyTicks: number;
+    private readonly jitterTicks: number;
+    private readonly packetLoss: number;
+    private readonly rng: SeededRNG;
+    /** Packets in flight towards each end */
+    private readonly inFlight: [Packet[], Packet[]] = [[], []];
+    private readonly handlers: [Set<HandlerFn>, Set<HandlerFn>] = [new Set(), new Set()];
+    private readonly stats: LoopbackStats = { sent: 0, dropped: 0, delivered: 0 };
+    private now = 0;
+
+    constructor(options: LoopbackOptions = {}) {
+        this.latencyTicks = options.latencyTicks ?? 0;
+        this.jitterTicks = options.jitterTicks ?? 0;
+        this.packetLoss = options.packetLoss ?? 0;
+        this.rng = createRNG(options.seed ?? 1);
+        this.ends = [this.createEnd(0), this.createEnd(1)];
+    }
+
+    /**
+     * Advance the clock by one tick and deliver every packet that is due,
+     * in order of arrival time.
+     */
+    tick(): void {
+        this.now++;
+        for (const side of [0, 1] as const) {
+            const due = this.inFlight[side].filter((packet) => packet.deliverAt <= this.now);
+            if (due.length === 0) continue;
+
+            this.inFlight[side] = this.inFlight[side].filter(
+                (packet) => packet.deliverAt > this.now
+            );
+            due.sort((a, b) => a.deliverAt - b.deliverAt);
+            for (const packet of due) {
+                this.stats.delivered++;
+                for (const handler of this.handlers[side]) handler(packet.frame, packet.input);
+            }
+        }
+    }
+
+    getStats(): LoopbackStats {
+        return { ...this.stats };
+    }
+
+    private createEnd(side: 0 | 1): InputTransport {
+        const destination = side === 0 ? 1 : 0;
+        return {
+            send: (frame, input) => {
+                this.stats.sent++;
+                if (this.rng.nextBool(this.packetLoss)) {
+                    this.stats.dropped++;
+                    return;
+                }
+                const delay = this.latencyTicks + this.rng.nextInt(0, this.jitterTicks);
+                this.inFlight[destination].push({ deliverAt: this.now + delay, frame, input });
+            },
+            subscribe: (handler) => {
+                this.handlers[side].add(handler);
+                return () => this.handlers[side].delete(handler);
+            },
+        };
+    }
+}
@@ -0,0 +1,100 @@
+/**
+ * Messages exchanged between browsers and the relay server.
+ * Shared by the relay (scripts/relayServer.ts) and the browser client, and sent as JSON text.
+ * Inputs travel packed, in the same encoding replays use (see packInput).
+ */
+
+import type { PlayerId } from '../engine/types';
+
+/** Bumped whenever a message changes shape, so old clients are turned away */
+export const PROTOCOL_VERSION = 1;
+
+/** Port the bundled relay listens on by default */
+export const DEFAULT_RELAY_PORT = 8787;
+
+/**
+ * Frames between sampling a local input and simulating it.
+ * Covers part of the round trip; rollback hides the rest.
+ */
+export const DEFAULT_INPUT_DELAY = 2;
+
+/** Length of the room codes players share to join each other */
+export const ROOM_CODE_LENGTH = 4;
+
+/** Online rooms seat two players */
+export type OnlinePlayerId = Extract<PlayerId, 'player1' | 'player2'>;
+
+/** Lobby view of one player slot */
+export interface RoomSlot {
+    connected: boolean;
+    ready: boolean;
+}
+
+/** Everything the lobby screen shows about a room */
+export interface RoomInfo {
+    code: string;
+    seed: number;
+    /** The player who may change the seed */
+    host: OnlinePlayerId;
+    slots: Record<OnlinePlayerId, RoomSlot>;
+    inMatch: boolean;
+}
+
+export type ClientMessage =
+    | { type: 'hello'; protocolVersion: number }
+    | { type: 'createRoom' }
+    | { type: 'joinRoom'; code: string }
+    | { type: 'leaveRoom' }
+    | { type: 'setSeed'; seed: number }
+    | { type: 'setReady'; ready: boolean }
+    | { type: 'input'; frame: number; input: number };
+
+export type ServerMessage =
+    | { type: 'joined'; playerId: OnlinePlayerId; room: RoomInfo }
+    | { type: 'room'; room: RoomInfo }
+    | { type: 'matchStart'; seed: number; inputDelay: number }
+    | { type: 'input'; playerId: OnlinePlayerId; frame: number; input: number }
+    | { type: 'peerLeft'; playerId: OnlinePlayerId }
+    | { type: 'error'; message: string };
+
+const CLIENT_MESSAGE_FIELDS: Record<ClientMessage['type'], Record<string, string>> = {
+    hello: { protocolVersion: 'number' },
+    createRoom: {},
+    joinRoom: { code: 'string' },
+    leaveRoom: {},
+    setSeed: { seed: 'number' },
+    setReady: { ready: 'boolean' },
+    input: { frame: 'number', input: 'number' },
+};
+
+/**
+ * Parse and validate a message sent by a client.
+ * Throws on anything that is not a well-formed ClientMessage.
+ */
+export function parseClientMessage(text: string): ClientMessage {
+    let message: Record<string, unknown>;
+    try {
+        message = JSON.parse(text) as Record<string, unknown>;
+    } catch {
+        throw new Error('Message is not valid JSON');
+    }
+
+    const fields =
+        message && typeof message.type === 'string'
+            ? CLIENT_MESSAGE_FIELDS[message.type as ClientMessage['type']]
+            : undefined;
+    if (!fields) {
+        throw new Error('Unknown message type');
+    }
+    for (const [name, type] of Object.entries(fields)) {
+        if (typeof message[name] !== type) {
+            throw new Error(`"${message.type}" message needs a ${type} "${name}"`);
+        }
+    }
+    return message as ClientMessage;
+}
+
+/** Normalize a room code typed by a player */
+export function normalizeRoomCode(code: string): string {
+    return code.trim().toUpperCase();
+}
@@ -0,0 +1,142 @@
+/**
+ * Browser side of the relay connection.
+ * Wraps the WebSocket, keeps track of the room this browser sits in,
+ * and carries match inputs for a RollbackSession.
+ */
+
+import type { InputTransport } from './lockstep';
+import type { ClientMessage, OnlinePlayerId, RoomInfo, ServerMessage } from './protocol';
+import { DEFAULT_RELAY_PORT, PROTOCOL_VERSION } from './protocol';
+
+/** An online match both browsers agreed to start */
+export interface OnlineMatch {
+    client: RelayClient;
+    /** Player this browser controls */
+    playerId: OnlinePlayerId;
+    seed: number;
+    inputDelay: number;
+}
+
+/** Relay address to offer by default: the bundled relay on the host serving the game */
+export function getDefaultRelayUrl(): string {
+    return `ws://${window.location.hostname || 'localhost'}:${DEFAULT_RELAY_PORT}`;
+}
+
+export class RelayClient {
+    private readonly socket: WebSocket;
+    private readonly listeners = new Set<(message: ServerMessage) => void>();
+    private readonly closeListeners = new Set<() => void>();
+    /** Every opponent input of the current match, for transports subscribed late */
+    private matchInputs: Array<{ frame: number; input: number }> = [];
+
+    /** Seat and room from the relay's latest updates */
+    playerId: OnlinePlayerId | null = null;
+    room: RoomInfo | null = null;
+
+    private constructor(socket: WebSocket) {
+        this.socket = socket;
+        socket.addEventListener('message', (event) => {
+            const message = JSON.parse(String(event.data)) as ServerMessage;
+            if (message.type === 'joined') {
+                this.playerId = message.playerId;
+                this.room = message.room;
+            } else if (message.type === 'room') {
+                this.room = message.room;
+            } else if (message.type === 'matchStart') {
+                this.matchInputs = [];
+            } else if (message.type === 'input') {
+                this.matchInputs.push({ frame: message.frame, input: message.input });
+            }
+            for (const listener of this.listeners) listener(message);
+        });
+        socket.addEventListener('close', () => {
+            this.playerId = null;
+            this.room = null;
+            for (const listener of this.closeListeners) listener();
+        });
+    }
+
+    /**
+     * Open a connection to a relay.
+     * Resolves once the socket is open; rejects if it cannot connect.
+     */
+    static connect(url: string): Promise<RelayClient> {
+        return new Promise((resolve, reject) => {
+            let socket: WebSocket;
+            try {
+                socket = new WebSocket(url);
+            } catch {
+                reject(new Error(`Invalid relay address ${url}`));
+                return;
+            }
+            const handleError = () => reject(new Error(`Could not reach a relay at ${url}`));
+            socket.addEventListener('error', handleError, { once: true });
+            socket.addEventListener(
+                'open',
+                () => {
+                    socket.removeEventListener('error', handleError);
+                    const client = new RelayClient(socket);
+                    client.send({ type: 'hello', protocolVersion: PROTOCOL_VERSION });
+                    resolve(client);
+                },
+                { once: true }
+            );
+        });
+    }
+
+    send(message: ClientMessage): void {
+        if (this.socket.readyState === WebSocket.OPEN) {
+            this.socket.send(JSON.stringify(message));
+        }
+    }
+
+    /**
+     * Listen to every message from the relay.
+     * @returns Function that removes the listener
+     */
+    subscribe(listener: (message: ServerMessage) => void): () => void {
+        this.listeners.add(listener);
+        return () => this.listeners.delete(listener);
+    }
+
+    /**
+     * Listen for the connection dropping.
+     * @returns Function that removes the listener
+     */
+    onClose(listener: () => void): () => void {
+        this.closeListeners.add(listener);
+        return () => this.closeListeners.delete(listener);
+    }
+
+    /** Leave the current room, if any */
+    leaveRoom(): void {
+        this.send({ type: 'leaveRoom' });
+        this.playerId = null;
+        this.room = null;
+    }
+
+    isOpen(): boolean {
+        return this.socket.readyState === WebSocket.OPEN;
+    }
+
+    close(): void {
+        this.socket.close();
+    }
+
+    /**
+     * Transport for the current match's inputs.
+     * The opponent may start sending before this browser's game view is up,
+     * so each subscriber first gets every input received since matchStart.
+     */
+    createInputTransport(): InputTransport {
+        return {
+            send: (frame, input) => this.send({ type: 'input', frame, input }),
+            subscribe: (handler) => {
+                for (const { frame, input } of this.matchInputs) handler(frame, input);
+                return this.subscribe((message) => {
+                    if (message.type === 'input') handler(message.frame, message.input);
+                });
+            },
+        };
+    }
+}
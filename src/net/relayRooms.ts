@@ -0,0 +1,299 @@
+/**
+ * Room bookkeeping for the relay server.
+ * Knows nothing about sockets: connections are ids with a send callback, so the
+ * lobby rules can run (and be tested) without a network.
+ *
+ * The relay never simulates anything. Once a match starts it only forwards each
+ * player's inputs to the other player, and the browsers run the rollback simulation.
+ */
+
+import type { ClientMessage, OnlinePlayerId, RoomInfo, ServerMessage } from './protocol';
+import {
+    DEFAULT_INPUT_DELAY,
+    PROTOCOL_VERSION,
+    ROOM_CODE_LENGTH,
+    normalizeRoomCode,
+} from './protocol';
+
+const PLAYER_IDS: OnlinePlayerId[] = ['player1', 'player2'];
+
+/** Letters that are hard to mix up when read out loud (no I or O) */
+const ROOM_CODE_ALPHABET = 'ABCDEFGHJKLMNPQRSTUVWXYZ';
+
+interface Room {
+    code: string;
+    seed: number;
+    host: OnlinePlayerId;
+    members: Partial<Record<OnlinePlayerId, number>>;
+    ready: Record<OnlinePlayerId, boolean>;
+    inMatch: boolean;
+}
+
+interface Connection {
+    send: (message: ServerMessage) => void;
+    greeted: boolean;
+    roomCode: string | null;
+    playerId: OnlinePlayerId | null;
+}
+
+function getOpponentId(playerId: OnlinePlayerId): OnlinePlayerId {
+    return playerId === 'player1' ? 'player2' : 'player1';
+}
+
+export class RelayRooms {
+    private readonly connections = new Map<number, Connection>();
+    private readonly rooms = new Map<string, Room>();
+    private readonly random: () => number;
+    private nextConnectionId = 1;
+
+    /**
+     * @param random - Source for room codes and default seeds (injectable for tests)
+     */
+    constructor(random: () => number = Math.random) {
+        this.random = random;
+    }
+
+    /**
+     * Register a new connection.
+     * @param send - Delivers a message to this connection
+     * @returns Id to pass to handleMessage and disconnect
+     */
+    connect(send: (message: ServerMessage) => void): number {
+        const id = this.nextConnectionId++;
+        this.connections.set(id, { send, greeted: false, roomCode: null, playerId: null });
+        return id;
+    }
+
+    /**
+     * Forget a connection, leaving any room it was in.
+     */
+    disconnect(connectionId: number): void {
+        this.leaveRoom(connectionId);
+        this.connections.delete(connectionId);
+    }
+
+    /** Number of open rooms */
+    getRoomCount(): number {
+        return this.rooms.size;
+    }
+
+    /**
+     * Apply one message from a connection.
+     */
+    handleMessage(connectionId: number, message: ClientMessage): void {
+        const connection = this.connections.get(connectionId);
+        if (!connection) return;
+
+        if (message.type === 'hello') {
+            if (message.protocolVersion !== PROTOCOL_VERSION) {
+                this.sendError(
+                    connectionId,
+                    `Relay speaks protocol ${PROTOCOL_VERSION}, client speaks ${message.protocolVersion}`
+                );
+                return;
+            }
+            connection.greeted = true;
+            return;
+        }
+        if (!connection.greeted) {
+            this.sendError(connectionId, 'Expected a hello message first');
+            return;
+        }
+
+        switch (message.type) {
+            case 'createRoom':
+                this.createRoom(connectionId);
+                break;
+            case 'joinRoom':
+                this.joinRoom(connectionId, normalizeRoomCode(message.code));
+                break;
+            case 'leaveRoom':
+                this.leaveRoom(connectionId);
+                break;
+            case 'setSeed':
+                this.setSeed(connectionId, message.seed);
+                break;
+            case 'setReady':
+                this.setReady(connectionId, message.ready);
+                break;
+            case 'input':
+                this.relayInput(connectionId, message.frame, message.input);
+                break;
+        }
+    }
+
+    private createRoom(connectionId: number): void {
+        this.leaveRoom(connectionId);
+
+        let code: string;
+        do {
+            code = Array.from(
+                { length: ROOM_CODE_LENGTH },
+                () => ROOM_CODE_ALPHABET[Math.floor(this.random() * ROOM_CODE_ALPHABET.length)]
+            ).join('');
+        } while (this.rooms.has(code));
+
+        const room: Room = {
+            code,
+            seed: Math.floor(this.random() * 1000000),
+            host: 'player1',
+            members: {},
+            ready: { player1: false, player2: false },
+            inMatch: false,
+        };
+        this.rooms.set(code, room);
+        this.seat(connectionId, room, 'player1');
+    }
+
+    private joinRoom(connectionId: number, code: string): void {
+        const room = this.rooms.get(code);
+        if (!room) {
+            this.sendError(connectionId, `No room with code ${code}`);
+            return;
+        }
+        const freeSlot = PLAYER_IDS.find((playerId) => room.members[playerId] === undefined);
+        if (!freeSlot) {
+            this.sendError(connectionId, `Room ${code} is full`);
+            return;
+        }
+
+        this.leaveRoom(connectionId);
+        this.seat(connectionId, room, freeSlot);
+    }
+
+    private seat(connectionId: number, room: Room, playerId: OnlinePlayerId): void {
+        const connection = this.connections.get(connectionId)!;
+        connection.roomCode = room.code;
+        connection.playerId = playerId;
+        room.members[playerId] = connectionId;
+
+        connection.send({ type: 'joined', playerId, room: this.getRoomInfo(room) });
+        this.broadcastRoom(room);
+    }
+
+    private leaveRoom(connectionId: number): void {
+        const seat = this.getSeat(connectionId);
+        if (!seat) return;
+        const { connection, room, playerId } = seat;
+
+        connection.roomCode = null;
+        connection.playerId = null;
+        delete room.members[playerId];
+        if (PLAYER_IDS.every((id) => room.members[id] === undefined)) {
+            this.rooms.delete(room.code);
+            return;
+        }
+
+        // Whoever stays takes over the room and goes back to the lobby
+        room.host = getOpponentId(playerId);
+        room.inMatch = false;
+        room.ready = { player1: false, player2: false };
+        this.sendToPlayer(room, room.host, { type: 'peerLeft', playerId });
+        this.broadcastRoom(room);
+    }
+
+    private setSeed(connectionId: number, seed: number): void {
+        const seat = this.getSeat(connectionId);
+        if (!seat) {
+            this.sendError(connectionId, 'Join a room first');
+            return;
+        }
+        const { room, playerId } = seat;
+        if (playerId !== room.host) {
+            this.sendError(connectionId, 'Only the host can change the seed');
+            return;
+        }
+        if (room.inMatch) {
+            this.sendError(connectionId, 'The seed cannot change during a match');
+            return;
+        }
+        if (!Number.isInteger(seed) || seed < 0) {
+            this.sendError(connectionId, 'Seed must be a non-negative integer');
+            return;
+        }
+
+        // Readiness was for the old seed
+        room.seed = seed;
+        room.ready = { player1: false, player2: false };
+        this.broadcastRoom(room);
+    }
+
+    private setReady(connectionId: number, ready: boolean): void {
+        const seat = this.getSeat(connectionId);
+        if (!seat) {
+            this.sendError(connectionId, 'Join a room first');
+            return;
+        }
+        const { room, playerId } = seat;
+
+        // Readying up again means this player is back in the lobby, so the match is over;
+        // unreadying says nothing about a match in progress
+        if (ready) room.inMatch = false;
+        room.ready[playerId] = ready;
+
+        const everyoneReady = PLAYER_IDS.every(
+            (id) => room.members[id] !== undefined && room.ready[id]
+        );
+        if (everyoneReady) {
+            room.inMatch = true;
+            room.ready = { player1: false, player2: false };
+            for (const id of PLAYER_IDS) {
+                this.sendToPlayer(room, id, {
+                    type: 'matchStart',
+                    seed: room.seed,
+                    inputDelay: DEFAULT_INPUT_DELAY,
+                });
+            }
+        }
+        this.broadcastRoom(room);
+    }
+
+    private relayInput(connectionId: number, frame: number, input: number): void {
+        const seat = this.getSeat(connectionId);
+        if (!seat?.room.inMatch) return;
+
+        const { room, playerId } = seat;
+        this.sendToPlayer(room, getOpponentId(playerId), { type: 'input', playerId, frame, input });
+    }
+
+    private getSeat(
+        connectionId: number
+    ): { connection: Connection; room: Room; playerId: OnlinePlayerId } | null {
+        const connection = this.connections.get(connectionId);
+        if (!connection?.roomCode || !connection.playerId) return null;
+        const room = this.rooms.get(connection.roomCode);
+        return room ? { connection, room, playerId: connection.playerId } : null;
+    }
+
+    private getRoomInfo(room: Room): RoomInfo {
+        const slot = (playerId: OnlinePlayerId) => ({
+            connected: room.members[playerId] !== undefined,
+            ready: room.ready[playerId],
+        });
+        return {
+            code: room.code,
+            seed: room.seed,
+            host: room.host,
+            slots: { player1: slot('player1'), player2: slot('player2') },
+            inMatch: room.inMatch,
+        };
+    }
+
+    private broadcastRoom(room: Room): void {
+        const info = this.getRoomInfo(room);
+        for (const playerId of PLAYER_IDS) {
+            this.sendToPlayer(room, playerId, { type: 'room', room: info });
+        }
+    }
+
+    private sendToPlayer(room: Room, playerId: OnlinePlayerId, message: ServerMessage): void {
+        const connectionId = room.members[playerId];
+        if (connectionId !== undefined) {
+            this.connections.get(connectionId)?.send(message);
+        }
+    }
+
+    private sendError(connectionId: number, message: string): void {
+        this.connections.get(connectionId)?.send({ type: 'error', message });
+    }
+}
@@ -0,0 +1,323 @@
+/**
+ * Rollback simulation for online matches.
+ * Unlike lockstep, the local peer never waits for the opponent's input. It predicts
+ * the missing input, simulates ahead, and when the real input turns out different it
+ * rewinds to a stored snapshot and resimulates up to the present frame.
+ *
+ * GameState is immutable, so a snapshot is simply the state object a frame started from.
+ * Both peers must use the same options: a peer's progress tells the other which of its
+ * inputs have arrived, and that inference relies on the shared rollback window.
+ * Over a transport that never drops inputs, such as the relay, resending can be turned off.
+ */
+
+import type { GameEvent, GameState, PlayerInputFrame } from '../engine/types';
+import { stepGameState } from '../engine/gameState';
+import { packInput, unpackInput } from '../engine/replay';
+import { FIXED_DT } from '../engine/config';
+import type { InputTransport } from './lockstep';
+import type { OnlinePlayerId } from './protocol';
+
+/** Default frames between sampling a local input and simulating it */
+export const DEFAULT_ROLLBACK_INPUT_DELAY = 2;
+
+/** Default number of frames the simulation may run ahead of the opponent's confirmed input */
+export const DEFAULT_MAX_ROLLBACK_FRAMES = 8;
+
+export interface RollbackOptions {
+    /** Frames between sampling a local input and simulating it */
+    inputDelay?: number;
+    /** Predicted frames allowed before the session stalls for the opponent */
+    maxRollbackFrames?: number;
+    /** Resend recent inputs every step (default), or send each once for a reliable transport */
+    resendInputs?: boolean;
+}
+
+/** A newly simulated frame and the inputs that produced it */
+export interface RollbackStep {
+    state: GameState;
+    /** Events of the new frame only; resimulated frames already reported theirs */
+    events: GameEvent[];
+    /** Inputs the frame was simulated with, the opponent's possibly predicted */
+    inputs: Record<OnlinePlayerId, PlayerInputFrame>;
+    /** Frames resimulated before this one because a prediction was wrong */
+    rolledBackFrames: number;
+}
+
+/** A frame both peers agree on, which no later rollback can change */
+export interface ConfirmedStep {
+    /** State the frame produced */
+    state: GameState;
+    inputs: Record<OnlinePlayerId, PlayerInputFrame>;
+}
+
+export class RollbackSession {
+    private state: GameState;
+    private readonly localPlayerId: OnlinePlayerId;
+    private readonly inputDelay: number;
+    private readonly maxRollbackFrames: number;
+    private readonly resendInputs: boolean;
+    private readonly transport: InputTransport;
+    private readonly unsubscribe: () => void;
+    /** Ring buffer of the states each of the last frames started from, indexed by frame */
+    private readonly snapshots: GameState[];
+    /** Packed local inputs still needed for resimulation or resending */
+    private readonly localInputs = new Map<number, number>();
+    /** Packed opponent inputs received for frames not yet confirmed */
+    private readonly remoteInputs = new Map<number, number>();
+    /** Opponent input each unconfirmed frame was simulated with */
+    private readonly simulatedRemoteInputs = new Map<number, number>();
+    /** Inputs each simulated frame not yet handed out as confirmed was simulated with */
+    private readonly simulatedInputs = new Map<number, Record<OnlinePlayerId, PlayerInputFrame>>();
+    /** Confirmed frames waiting for takeConfirmedSteps() */
+    private confirmedSteps: ConfirmedStep[] = [];
+    /** Last frame queued as a confirmed step */
+    private reportedFrame: number;
+    /** Last frame up to which every opponent input is known and simulated */
+    private confirmedFrame: number;
+    /** Opponent input for confirmedFrame, the basis for predictions */
+    private lastConfirmedInput = 0;
+    /** Highest frame the opponent has sent an input for */
+    private latestRemoteFrame: number;
+    /** Frame the next local input will be scheduled for */
+    private nextLocalFrame: number;
+    private pendingRollbackFrames = 0;
+    private totalRollbackFrames = 0;
+
+    /**
+     * @param initialState - State both peers start from
+     * @param localPlayerId - Player this browser controls
+     * @param transport - Connection to the opponent
+     * @param options - Input delay and rollback window, identical on both peers
+     */
+    constructor(
+        initialState: GameState,
+        localPlayerId: OnlinePlayerId,
+        transport: InputTransport,
+        options: RollbackOptions = {}
+    ) {
+        this.state = initialState;
+        this.localPlayerId = localPlayerId;
+        this.inputDelay = options.inputDelay ?? DEFAULT_ROLLBACK_INPUT_DELAY;
+        this.maxRollbackFrames = options.maxRollbackFrames ?? DEFAULT_MAX_ROLLBACK_FRAMES;
+        this.resendInputs = options.resendInputs ?? true;
+        this.transport = transport;
+        this.snapshots = new Array<GameState>(this.maxRollbackFrames + 1);
+        this.nextLocalFrame = initialState.frame + this.inputDelay;
+
+        // Nobody can have pressed anything for the frames inside the first delay window
+        for (let frame = initialState.frame; frame < this.nextLocalFrame; frame++) {
+            this.localInputs.set(frame, 0);
+        }
+        this.confirmedFrame = this.nextLocalFrame - 1;
+        this.latestRemoteFrame = this.confirmedFrame;
+        this.reportedFrame = initialState.frame - 1;
+
+        this.unsubscribe = transport.subscribe((frame, input) => {
+            if (frame > this.confirmedFrame) {
+                this.remoteInputs.set(frame, input);
+                this.latestRemoteFrame = Math.max(this.latestRemoteFrame, frame);
+            }
+        });
+    }
+
+    /** Latest simulated state, which may rest on predicted opponent input */
+    getState(): GameState {
+        return this.state;
+    }
+
+    /** Last frame for which the opponent's input is known rather than predicted */
+    getConfirmedFrame(): number {
+        return this.confirmedFrame;
+    }
+
+    /** Whether every simulated frame rests on the opponent's real input */
+    isConfirmed(): boolean {
+        return this.confirmedFrame >= this.state.frame - 1;
+    }
+
+    /**
+     * Hand out the frames confirmed since the last call, oldest first.
+     * Unlike step() results these never change, so they are what a replay should record.
+     */
+    takeConfirmedSteps(): ConfirmedStep[] {
+        const steps = this.confirmedSteps;
+        this.confirmedSteps = [];
+        return steps;
+    }
+
+    /** Frames resimulated over the whole session */
+    getTotalRollbackFrames(): number {
+        return this.totalRollbackFrames;
+    }
+
+    /**
+     * Whether the local player has room to schedule another input.
+     * False once inputs are scheduled a full delay window ahead of the simulation.
+     */
+    needsLocalInput(): boolean {
+        return this.nextLocalFrame <= this.state.frame + this.inputDelay;
+    }
+
+    /**
+     * Schedule the local player's input `inputDelay` frames ahead.
+     * Does nothing when needsLocalInput() is false.
+     */
+    submitLocalInput(input: PlayerInputFrame): void {
+        if (!this.needsLocalInput()) return;
+
+        const packed = packInput(input);
+        this.localInputs.set(this.nextLocalFrame, packed);
+        if (!this.resendInputs) this.transport.send(this.nextLocalFrame, packed);
+        this.nextLocalFrame++;
+    }
+
+    /** Whether the session has predicted as far ahead as it may and must wait */
+    isWaitingForPeer(): boolean {
+        this.reconcile();
+        return this.state.frame > this.confirmedFrame + this.maxRollbackFrames;
+    }
+
+    /**
+     * Correct any mispredicted frames, then simulate the next frame if allowed.
+     * Also resends recent local inputs, so a lost packet costs a rollback rather than the match.
+     * A finished match only waits for its final frames to be confirmed, or rolled back.
+     * @returns The new frame, or null when out of local input, too far ahead of the opponent
+     * or at the end of the match
+     */
+    step(): RollbackStep | null {
+        if (this.resendInputs) this.sendUnacknowledgedInputs();
+        this.reconcile();
+
+        const frame = this.state.frame;
+        if (this.state.gameOver) return null;
+        if (frame > this.confirmedFrame + this.maxRollbackFrames) return null;
+        if (!this.localInputs.has(frame)) return null;
+
+        const { events, inputs } = this.simulateFrame();
+        this.queueConfirmedSteps();
+        const rolledBackFrames = this.pendingRollbackFrames;
+        this.pendingRollbackFrames = 0;
+        return { state: this.state, events, inputs, rolledBackFrames };
+    }
+
+    /** Stop listening to the transport */
+    dispose(): void {
+        this.unsubscribe();
+    }
+
+    /**
+     * Simulate the frame the current state is at, predicting the opponent's input if needed.
+     */
+    private simulateFrame(): {
+        events: GameEvent[];
+        inputs: Record<OnlinePlayerId, PlayerInputFrame>;
+    } {
+        const frame = this.state.frame;
+        this.snapshots[frame % this.snapshots.length] = this.state;
+
+        const remote = this.remoteInputs.get(frame) ?? this.predictRemoteInput(frame);
+        if (frame > this.confirmedFrame) {
+            this.simulatedRemoteInputs.set(frame, remote);
+        }
+
+        const localInput = unpackInput(this.localInputs.get(frame)!, frame);
+        const remoteInput = unpackInput(remote, frame);
+        const inputs =
+            this.localPlayerId === 'player1'
+                ? { player1: localInput, player2: remoteInput }
+                : { player1: remoteInput, player2: localInput };
+        const { state, events } = stepGameState(this.state, inputs, FIXED_DT);
+        this.simulatedInputs.set(frame, inputs);
+        this.state = state;
+        return { events, inputs };
+    }
+
+    /**
+     * Guess the opponent's input by repeating their last known one.
+     * Actions are single-frame presses, so only the held movement keys carry over.
+     */
+    private predictRemoteInput(frame: number): number {
+        return packInput({ ...unpackInput(this.lastConfirmedInput, frame), action: null });
+    }
+
+    /**
+     * Fold received opponent inputs into the confirmed history, and rewind to the first
+     * frame whose prediction was wrong.
+     */
+    private reconcile(): void {
+        let rollbackFrame: number | null = null;
+        for (let frame = this.confirmedFrame + 1; frame < this.state.frame; frame++) {
+            const actual = this.remoteInputs.get(frame);
+            if (actual !== undefined && actual !== this.simulatedRemoteInputs.get(frame)) {
+                rollbackFrame = frame;
+                break;
+            }
+        }
+
+        if (rollbackFrame !== null) {
+            const presentFrame = this.state.frame;
+            this.state = this.snapshots[rollbackFrame % this.snapshots.length];
+            // The corrected history may end the match sooner, and a finished state stops advancing
+            while (this.state.frame < presentFrame && !this.state.gameOver) {
+                this.simulateFrame();
+            }
+            for (let frame = this.state.frame; frame < presentFrame; frame++) {
+                this.simulatedInputs.delete(frame);
+            }
+            this.pendingRollbackFrames += presentFrame - rollbackFrame;
+            this.totalRollbackFrames += presentFrame - rollbackFrame;
+        }
+
+        // Only frames already simulated with the real input count as confirmed
+        while (
+            this.confirmedFrame + 1 < this.state.frame &&
+            this.remoteInputs.has(this.confirmedFrame + 1)
+        ) {
+            this.confirmedFrame++;
+            this.lastConfirmedInput = this.remoteInputs.get(this.confirmedFrame)!;
+            this.remoteInputs.delete(this.confirmedFrame);
+            this.simulatedRemoteInputs.delete(this.confirmedFrame);
+        }
+        this.queueConfirmedSteps();
+    }
+
+    /**
+     * Queue every simulated frame that is now confirmed.
+     * The state a frame produced is the snapshot the next frame started from, and the rollback
+     * window keeps unconfirmed frames within the snapshot ring.
+     */
+    private queueConfirmedSteps(): void {
+        const lastFrame = Math.min(this.confirmedFrame, this.state.frame - 1);
+        while (this.reportedFrame < lastFrame) {
+            const frame = ++this.reportedFrame;
+            const state =
+                frame + 1 === this.state.frame
+                    ? this.state
+                    : this.snapshots[(frame + 1) % this.snapshots.length];
+            this.confirmedSteps.push({ state, inputs: this.simulatedInputs.get(frame)! });
+            this.simulatedInputs.delete(frame);
+            // Without resending, a local input is only kept while a rollback may need it
+            if (!this.resendInputs) this.localInputs.delete(frame);
+        }
+    }
+
+    /**
+     * Send every local input the opponent may still be missing.
+     * An opponent that sent its input for frame F had simulated at least F - inputDelay
+     * frames, which its rollback window only allows once it had our inputs up to
+     * F - inputDelay - maxRollbackFrames - 1.
+     */
+    private sendUnacknowledgedInputs(): void {
+        const acknowledged = this.latestRemoteFrame - this.inputDelay - this.maxRollbackFrames - 1;
+        // Inputs older than that and the oldest frame we may rewind to are no longer needed
+        const oldestNeeded = Math.min(acknowledged + 1, this.confirmedFrame + 1);
+        for (const frame of this.localInputs.keys()) {
+            if (frame < oldestNeeded) this.localInputs.delete(frame);
+        }
+
+        for (let frame = acknowledged + 1; frame < this.nextLocalFrame; frame++) {
+            const input = this.localInputs.get(frame);
+            if (input !== undefined) this.transport.send(frame, input);
+        }
+    }
+}
@@ -0,0 +1,393 @@
+/**
+ * Controls screen for rebinding each player's keys and gamepad buttons.
+ * Click a binding, then press the key or gamepad button to bind to it.
+ * Bindings that clash can't be saved until the clash is cleared up.
+ */
+
+import { useState, useEffect } from 'react';
+import type { PlayerId } from '../engine/types';
+import { PLAYER_IDS } from '../engine/types';
+import type { ControlBindings, GamepadAction, KeyAction } from './keyBindings';
+import {
+    DEFAULT_CONTROL_BINDINGS,
+    DPAD_BUTTONS,
+    GAMEPAD_ACTIONS,
+    KEY_ACTIONS,
+    findGamepadConflicts,
+    findKeyConflicts,
+    getGamepadButtonLabel,
+    getKeyLabel,
+} from './keyBindings';
+import { PLAYER_COLORS, getSeatNumber } from './playerLabels';
+
+interface ControlsScreenProps {
+    bindings: ControlBindings;
+    onSave: (bindings: ControlBindings) => void;
+    onBack: () => void;
+}
+
+const ControlsDevice = {
+    Keyboard: 'keyboard',
+    Gamepad: 'gamepad',
+} as const;
+type ControlsDevice = (typeof ControlsDevice)[keyof typeof ControlsDevice];
+
+const DEVICE_LABELS: Record<ControlsDevice, string> = {
+    [ControlsDevice.Keyboard]: '⌨️ KEYBOARD',
+    [ControlsDevice.Gamepad]: '🎮 GAMEPAD',
+};
+
+const KEY_ACTION_LABELS: Record<KeyAction, string> = {
+    up: 'Up',
+    down: 'Down',
+    left: 'Left',
+    right: 'Right',
+    eject: 'Eject',
+    rocket: '🚀 Rocket',
+    mine: '💣 Mine',
+    target: '🎯 Target',
+};
+
+const GAMEPAD_ACTION_LABELS: Record<GamepadAction, string> = {
+    rocket: '🚀 Rocket',
+    mine: '💣 Mine',
+    eject: 'Eject',
+    target: '🎯 Target',
+};
+
+/** The binding waiting for a key or button press */
+type Listening =
+    | { device: typeof ControlsDevice.Keyboard; playerId: PlayerId; action: KeyAction }
+    | { device: typeof ControlsDevice.Gamepad; playerId: PlayerId; action: GamepadAction };
+
+/** Buttons held on a gamepad */
+function getPressedButtons(gamepad: Gamepad | null): number[] {
+    if (!gamepad) return [];
+    return gamepad.buttons.flatMap((button, i) => (button.pressed ? [i] : []));
+}
+
+export function ControlsScreen({ bindings, onSave, onBack }: ControlsScreenProps) {
+    const [draft, setDraft] = useState(bindings);
+    const [device, setDevice] = useState<ControlsDevice>(ControlsDevice.Keyboard);
+    const [listening, setListening] = useState<Listening | null>(null);
+
+    const keyConflicts = findKeyConflicts(draft.keys);
+    const gamepadConflicts = findGamepadConflicts(draft.gamepad);
+    const hasConflicts = keyConflicts.length > 0 || gamepadConflicts.length > 0;
+
+    // Capture the next key press for the binding being changed; Escape cancels
+    useEffect(() => {
+        if (listening?.device !== ControlsDevice.Keyboard) return;
+        const { playerId, action } = listening;
+
+        const handleKeyDown = (e: KeyboardEvent) => {
+            e.preventDefault();
+            e.stopPropagation();
+            if (e.code !== 'Escape') {
+                setDraft((current) => ({
+                    ...current,
+                    keys: {
+                        ...current.keys,
+                        [playerId]: { ...current.keys[playerId], [action]: e.code },
+                    },
+                }));
+            }
+            setListening(null);
+        };
+
+        window.addEventListener('keydown', handleKeyDown, true);
+        return () => window.removeEventListener('keydown', handleKeyDown, true);
+    }, [listening]);
+
+    // Poll the player's gamepad for a newly pressed button; Escape on the keyboard cancels
+    useEffect(() => {
+        if (listening?.device !== ControlsDevice.Gamepad) return;
+        const { playerId, action } = listening;
+        const padIndex = getSeatNumber(playerId) - 1;
+        // Buttons already held when listening began don't count
+        let held = getPressedButtons(navigator.getGamepads()[padIndex]);
+        let frame = 0;
+
+        const poll = () => {
+            const pressed = getPressedButtons(navigator.getGamepads()[padIndex]);
+            const button = pressed.find(
+                (i) => !held.includes(i) && !(DPAD_BUTTONS as readonly number[]).includes(i)
+            );
+            if (button !== undefined) {
+                setDraft((current) => ({
+                    ...current,
+                    gamepad: {
+                        ...current.gamepad,
+                        [playerId]: { ...current.gamepad[playerId], [action]: [button] },
+                    },
+                }));
+                setListening(null);
+                return;
+            }
+            held = pressed;
+            frame = requestAnimationFrame(poll);
+        };
+
+        const handleKeyDown = (e: KeyboardEvent) => {
+            if (e.code === 'Escape') setListening(null);
+        };
+
+        frame = requestAnimationFrame(poll);
+        window.addEventListener('keydown', handleKeyDown);
+        return () => {
+            cancelAnimationFrame(frame);
+            window.removeEventListener('keydown', handleKeyDown);
+        };
+    }, [listening]);
+
+    const isListening = (playerId: PlayerId, action: string) =>
+        listening?.device === device &&
+        listening.playerId === playerId &&
+        listening.action === action;
+
+    const isKeyConflict = (playerId: PlayerId, action: KeyAction) =>
+        keyConflicts.some((conflict) =>
+            conflict.actions.some((bound) => bound.playerId === playerId && bound.action === action)
+        );
+
+    const isGamepadConflict = (playerId: PlayerId, action: GamepadAction) =>
+        gamepadConflicts.some(
+            (conflict) =>
+                conflict.playerId === playerId &&
+                draft.gamepad[playerId][action].some((button) => conflict.buttons.includes(button))
+        );
+
+    const renderCell = (playerId: PlayerId, action: KeyAction | GamepadAction) => {
+        const keyboard = device === ControlsDevice.Keyboard;
+        const label = keyboard
+            ? getKeyLabel(draft.keys[playerId][action as KeyAction])
+            : draft.gamepad[playerId][action as GamepadAction]
+                  .map(getGamepadButtonLabel)
+                  .join(' / ');
+        const conflict = keyboard
+            ? isKeyConflict(playerId, action as KeyAction)
+            : isGamepadConflict(playerId, action as GamepadAction);
+        const active = isListening(playerId, action);
+        return (
+            <td key={playerId} style={cellStyle}>
+                <button
+                    onClick={() =>
+                        setListening(
+                            active
+                                ? null
+                                : keyboard
+                                  ? { device, playerId, action: action as KeyAction }
+                                  : { device, playerId, action: action as GamepadAction }
+                        )
+                    }
+                    style={{
+                        ...bindingButtonStyle,
+                        borderColor: active ? '#FFD700' : conflict ? '#FF6666' : '#2A4A6A',
+                        color: active ? '#FFD700' : conflict ? '#FF6666' : '#FFFFFF',
+                    }}
+                >
+                    {active ? (keyboard ? 'press a key…' : 'press a button…') : label}
+                </button>
+            </td>
+        );
+    };
+
+    const actions: readonly (KeyAction | GamepadAction)[] =
+        device === ControlsDevice.Keyboard ? KEY_ACTIONS : GAMEPAD_ACTIONS;
+
+    return (
+        <div style={screenStyle}>
+            <h1 style={{ fontSize: '42px', color: '#87CEEB', marginBottom: '10px' }}>
+                🎛️ CONTROLS
+            </h1>
+            <p style={{ color: '#8AA', marginBottom: '30px' }}>
+                {device === ControlsDevice.Keyboard
+                    ? 'Click a key, then press the key to use instead. Escape cancels.'
+                    : `Click a button, then press it on that player's gamepad. Movement stays on the stick and D-pad.`}
+            </p>
+
+            <div style={panelStyle}>
+                <div style={{ display: 'flex', gap: '6px' }}>
+                    {Object.values(ControlsDevice).map((option) => (
+                        <button
+                            key={option}
+                            onClick={() => {
+                                setDevice(option);
+                                setListening(null);
+                            }}
+                            style={{
+                                ...tabButtonStyle,
+                                backgroundColor: option === device ? '#4A90D9' : 'transparent',
+                                color: option === device ? '#FFFFFF' : '#87CEEB',
+                            }}
+                        >
+                            {DEVICE_LABELS[option]}
+                        </button>
+                    ))}
+                </div>
+
+                <table style={tableStyle}>
+                    <thead>
+                        <tr>
+                            <th style={cellStyle} />
+                            {PLAYER_IDS.map((playerId) => (
+                                <th
+                                    key={playerId}
+                                    style={{ ...cellStyle, color: PLAYER_COLORS[playerId] }}
+                                >
+                                    P{getSeatNumber(playerId)}
+                                </th>
+                            ))}
+                        </tr>
+                    </thead>
+                    <tbody>
+                        {actions.map((action) => (
+                            <tr key={action}>
+                                <td style={{ ...cellStyle, color: '#87CEEB' }}>
+                                    {device === ControlsDevice.Keyboard
+                                        ? KEY_ACTION_LABELS[action as KeyAction]
+                                        : GAMEPAD_ACTION_LABELS[action as GamepadAction]}
+                                </td>
+                                {PLAYER_IDS.map((playerId) => renderCell(playerId, action))}
+                            </tr>
+                        ))}
+                    </tbody>
+                </table>
+
+                {hasConflicts && (
+                    <div style={conflictStyle}>
+                        {keyConflicts.map((conflict) => (
+                            <div key={conflict.code}>
+                                ⚠️ {getKeyLabel(conflict.code)} is bound to{' '}
+                                {conflict.actions
+                                    .map(
+                                        ({ playerId, action }) =>
+                                            `P${getSeatNumber(playerId)} ${KEY_ACTION_LABELS[action]}`
+                                    )
+                                    .join(' and ')}
+                            </div>
+                        ))}
+                        {gamepadConflicts.map(({ playerId, buttons }) => (
+                            <div key={playerId}>
+                                ⚠️ P{getSeatNumber(playerId)} gamepad:{' '}
+                                {buttons.map(getGamepadButtonLabel).join(', ')}{' '}
+                                {buttons.length === 1 ? 'is' : 'are'} bound twice or to the D-pad
+                            </div>
+                        ))}
+                    </div>
+                )}
+
+                <button
+                    onClick={() => onSave(draft)}
+                    disabled={hasConflicts}
+                    style={{
+                        ...saveButtonStyle,
+                        opacity: hasConflicts ? 0.5 : 1,
+                        cursor: hasConflicts ? 'not-allowed' : 'pointer',
+                    }}
+                >
+                    💾 SAVE CONTROLS
+                </button>
+                <div style={{ display: 'flex', gap: '8px' }}>
+                    <button
+                        onClick={() => {
+                            setDraft(DEFAULT_CONTROL_BINDINGS);
+                            setListening(null);
+                        }}
+                        style={{ ...secondaryButtonStyle, flex: 1 }}
+                    >
+                        RESET TO DEFAULTS
+                    </button>
+                    <button onClick={onBack} style={{ ...secondaryButtonStyle, flex: 1 }}>
+                        🏠 MAIN MENU
+                    </button>
+                </div>
+            </div>
+        </div>
+    );
+}
+
+const screenStyle: React.CSSProperties = {
+    position: 'fixed',
+    inset: 0,
+    display: 'flex',
+    flexDirection: 'column',
+    alignItems: 'center',
+    justifyContent: 'center',
+    background: 'linear-gradient(180deg, #0A1628 0%, #050B14 100%)',
+    color: '#FFFFFF',
+    fontFamily: 'system-ui, -apple-system, sans-serif',
+};
+
+const panelStyle: React.CSSProperties = {
+    display: 'flex',
+    flexDirection: 'column',
+    gap: '16px',
+    width: '760px',
+    padding: '25px',
+    backgroundColor: 'rgba(0, 0, 0, 0.4)',
+    borderRadius: '12px',
+};
+
+const tabButtonStyle: React.CSSProperties = {
+    flex: 1,
+    padding: '8px 6px',
+    fontSize: '13px',
+    fontWeight: 'bold',
+    borderRadius: '6px',
+    border: '2px solid #4A90D9',
+    cursor: 'pointer',
+};
+
+const tableStyle: React.CSSProperties = {
+    width: '100%',
+    borderCollapse: 'collapse',
+    fontFamily: 'monospace',
+    fontSize: '14px',
+};
+
+const cellStyle: React.CSSProperties = {
+    padding: '4px 8px',
+    borderBottom: '1px solid #1A2A3A',
+    textAlign: 'left',
+};
+
+const bindingButtonStyle: React.CSSProperties = {
+    width: '100%',
+    padding: '6px 8px',
+    fontFamily: 'monospace',
+    fontSize: '13px',
+    borderRadius: '6px',
+    border: '2px solid',
+    backgroundColor: 'rgba(42, 74, 106, 0.4)',
+    cursor: 'pointer',
+};
+
+const conflictStyle: React.CSSProperties = {
+    padding: '10px',
+    backgroundColor: 'rgba(255, 100, 100, 0.2)',
+    borderRadius: '8px',
+    color: '#FF9999',
+    fontSize: '13px',
+    lineHeight: '1.6',
+};
+
+const saveButtonStyle: React.CSSProperties = {
+    padding: '16px 30px',
+    fontSize: '20px',
+    fontWeight: 'bold',
+    borderRadius: '8px',
+    border: 'none',
+    backgroundColor: '#4A90D9',
+    color: '#FFFFFF',
+};
+
+const secondaryButtonStyle: React.CSSProperties = {
+    padding: '12px 24px',
+    fontSize: '16px',
+    borderRadius: '8px',
+    border: '2px solid #2A4A6A',
+    backgroundColor: 'transparent',
+    color: '#87CEEB',
+    cursor: 'pointer',
+};
@@ -10,18 +10,68 @@ import type {
     PlayerVehicle,
     Obstacle,
     PlayerId,
+    PlayerMap,
     Passenger,
     Projectile,
     Pickup,
     AnglerFish,
 } from '../engine/types';
 import { PlayerState, ObstacleType, ProjectileType, PickupType } from '../engine/types';
-import { COLORS, MAX_DEPTH, TITANIC_DEPTH, PASSENGER_COUNT } from '../engine/config';
+import { getGhostVehicle } from '../engine/ghost';
+import type { GhostTrack } from '../engine/ghost';
+import { COLORS, TITANIC_HEIGHT_ABOVE_FLOOR, PASSENGER_COUNT } from '../engine/config';
+import { CAPSULE_COLORS, PLAYER_COLORS, getSeatNumber } from './playerLabels';
 
 interface GameCanvasProps {
     gameState: GameState;
+    /** Size of the canvas element in screen pixels */
     width: number;
     height: number;
+    /** Recorded run raced alongside the live one, drawn see-through */
+    ghost?: GhostTrack | null;
+}
+
+/** Color of the bars around the world when the window's aspect ratio differs */
+const LETTERBOX_COLOR = '#000000';
+
+/** Opacity of a raced ghost, which only shows where the recorded run was */
+const GHOST_ALPHA = 0.35;
+
+/** Shirt color of each submarine's passengers */
+const PASSENGER_COLORS: Record<PlayerId, string> = {
+    player1: '#FF6600',
+    player2: '#00CC66',
+    player3: '#E0479E',
+    player4: '#0099DD',
+};
+
+/** Split screen area following one player, in world units before the viewport transform */
+interface SplitPane {
+    playerId: PlayerId;
+    x: number;
+    y: number;
+    width: number;
+    height: number;
+    /** World-to-pane scale: 1 for stacked halves, 0.5 for the 2x2 grid */
+    scale: number;
+}
+
+/**
+ * Fit the logical world into the viewport, preserving its aspect ratio.
+ * Returns the scale factor and the offsets that center it.
+ */
+function getWorldViewport(
+    viewportWidth: number,
+    viewportHeight: number,
+    worldWidth: number,
+    worldHeight: number
+): { scale: number; offsetX: number; offsetY: number } {
+    const scale = Math.min(viewportWidth / worldWidth, viewportHeight / worldHeight);
+    return {
+        scale,
+        offsetX: (viewportWidth - worldWidth * scale) / 2,
+        offsetY: (viewportHeight - worldHeight * scale) / 2,
+    };
 }
 
 /** Base URL from Vite config */
@@ -92,8 +142,8 @@ function preloadSprites(): void {
 }
 
 /** Get water color based on depth (gradient from light blue to very dark) */
-function getWaterColor(depth: number): string {
-    const normalizedDepth = Math.min(depth / MAX_DEPTH, 1);
+function getWaterColor(depth: number, maxDepth: number): string {
+    const normalizedDepth = Math.min(depth / maxDepth, 1);
 
     // Use exponential curve for more dramatic darkening
     const darkeningFactor = Math.pow(normalizedDepth, 0.6);
@@ -108,15 +158,15 @@ function getWaterColor(depth: number): string {
 }
 
 /** Get darkness overlay opacity based on depth */
-function getDarknessOverlay(depth: number): number {
-    const normalizedDepth = Math.min(depth / MAX_DEPTH, 1);
+function getDarknessOverlay(depth: number, maxDepth: number): number {
+    const normalizedDepth = Math.min(depth / maxDepth, 1);
     // Exponential darkening - gets very dark at max depth
     return Math.pow(normalizedDepth, 0.5) * 0.7;
 }
 
 /** Get base obstacle visibility based on depth (100% at surface → 10% at max depth) */
-function getDepthVisibility(depth: number): number {
-    const normalizedDepth = Math.min(depth / MAX_DEPTH, 1);
+function getDepthVisibility(depth: number, maxDepth: number): number {
+    const normalizedDepth = Math.min(depth / maxDepth, 1);
     // Linear interpolation from 1.0 (100%) to 0.1 (10%)
     return 1.0 - normalizedDepth * 0.9;
 }
@@ -175,12 +225,13 @@ function isInFlashlight(
 /** Calculate final visibility for an obstacle considering depth and flashlights */
 function getObstacleVisibility(
     obstacle: Obstacle,
-    players: Record<PlayerId, PlayerVehicle>
+    players: PlayerMap<PlayerVehicle>,
+    maxDepth: number
 ): number {
-    const baseVisibility = getDepthVisibility(obstacle.y);
+    const baseVisibility = getDepthVisibility(obstacle.y, maxDepth);
 
     // Check if obstacle is lit by any submarine's flashlight
-    for (const player of Object.values(players)) {
+    for (const player of Object.values(players) as PlayerVehicle[]) {
         if (player.state === PlayerState.Dead || player.state === PlayerState.Escaped) continue;
         if (player.state === PlayerState.Ascending) continue; // Capsule has no flashlight
 
@@ -203,37 +254,58 @@ function getObstacleVisibility(
     return baseVisibility;
 }
 
-/** Determine camera mode and viewports based on player states */
-function getCameraMode(players: Record<PlayerId, PlayerVehicle>): {
+/** Determine camera mode and the players that get a split screen pane */
+function getCameraMode(
+    players: PlayerMap<PlayerVehicle>,
+    playerIds: readonly PlayerId[]
+): {
     mode: 'single' | 'split';
-    topPlayer: PlayerId | null;
-    bottomPlayer: PlayerId | null;
+    splitPlayers: PlayerId[];
 } {
-    const p1 = players.player1;
-    const p2 = players.player2;
-
-    const p1Active = p1.state === PlayerState.Ascending || p1.state === PlayerState.Descending;
-    const p2Active = p2.state === PlayerState.Ascending || p2.state === PlayerState.Descending;
-    const p1Ascending = p1.state === PlayerState.Ascending;
-    const p2Ascending = p2.state === PlayerState.Ascending;
-
-    // Split screen when both players are active AND at least one is ascending
-    // This keeps split even when both players have ejected (both ascending)
-    if (p1Active && p2Active && (p1Ascending || p2Ascending)) {
-        // Player 1 always on top, Player 2 always on bottom
-        return {
-            mode: 'split',
-            topPlayer: 'player1',
-            bottomPlayer: 'player2',
-        };
+    const isActive = (player?: PlayerVehicle) =>
+        player?.state === PlayerState.Ascending || player?.state === PlayerState.Descending;
+    const activePlayers = playerIds.filter((playerId) => isActive(players[playerId]));
+    const anyAscending = activePlayers.some(
+        (playerId) => players[playerId]!.state === PlayerState.Ascending
+    );
+
+    // Split screen when several players are active AND at least one is ascending
+    // This keeps split even when every player has ejected (all ascending)
+    if (activePlayers.length > 1 && anyAscending) {
+        return { mode: 'split', splitPlayers: activePlayers };
     }
 
-    // Otherwise single view - show whoever is active
-    return {
-        mode: 'single',
-        topPlayer: p1Active ? 'player1' : p2Active ? 'player2' : null,
-        bottomPlayer: null,
-    };
+    // Otherwise single view of whoever is active (a solo dive always uses it)
+    return { mode: 'single', splitPlayers: [] };
+}
+
+/**
+ * Lay out split screen panes in seat order: two players stack top and bottom at full scale,
+ * three or four share a 2x2 grid at half scale.
+ */
+function getSplitPanes(
+    splitPlayers: readonly PlayerId[],
+    width: number,
+    height: number
+): SplitPane[] {
+    if (splitPlayers.length <= 2) {
+        return splitPlayers.map((playerId, i) => ({
+            playerId,
+            x: 0,
+            y: (i * height) / 2,
+            width,
+            height: height / 2,
+            scale: 1,
+        }));
+    }
+    return splitPlayers.map((playerId, i) => ({
+        playerId,
+        x: ((i % 2) * width) / 2,
+        y: (Math.floor(i / 2) * height) / 2,
+        width: width / 2,
+        height: height / 2,
+        scale: 0.5,
+    }));
 }
 
 /** Draw a cargo ship at the surface */
@@ -283,7 +355,7 @@ function drawCargoShip(
 
     // Surface water line
     ctx.fillStyle = 'rgba(135, 206, 235, 0.5)';
-    ctx.fillRect(0, surfaceY, ctx.canvas.width, 10);
+    ctx.fillRect(0, surfaceY, centerX * 2, 10);
 
     ctx.restore();
 }
@@ -324,7 +396,7 @@ function drawSubmarine(
     color: string,
     cameraY: number,
     canvasHeight: number,
-    isPlayer1: boolean
+    passengerColor: string
 ) {
     const screenY = player.y - cameraY + canvasHeight / 2;
     const centerX = player.x + player.width / 2;
@@ -392,13 +464,7 @@ function drawSubmarine(
 
         // Draw passenger if alive
         if (player.passengers[i]) {
-            drawPassenger(
-                ctx,
-                portholeX,
-                portholeY,
-                player.passengers[i],
-                isPlayer1 ? '#FF6600' : '#00CC66'
-            );
+            drawPassenger(ctx, portholeX, portholeY, player.passengers[i], passengerColor);
         }
     }
 
@@ -611,9 +677,10 @@ function drawTitanic(
     ctx: CanvasRenderingContext2D,
     cameraY: number,
     canvasWidth: number,
-    canvasHeight: number
+    canvasHeight: number,
+    maxDepth: number
 ) {
-    const screenY = TITANIC_DEPTH - cameraY + canvasHeight / 2;
+    const screenY = maxDepth - TITANIC_HEIGHT_ABOVE_FLOOR - cameraY + canvasHeight / 2;
 
     // Only draw if visible
     if (screenY > canvasHeight + 200 || screenY < -400) return;
@@ -870,7 +937,8 @@ function drawFlashlight(
     player: PlayerVehicle,
     cameraY: number,
     canvasHeight: number,
-    depth: number
+    depth: number,
+    maxDepth: number
 ) {
     // Only draw flashlight for descending submarines (not dead/escaped/ascending)
     if (player.state !== PlayerState.Descending) return;
@@ -880,7 +948,7 @@ function drawFlashlight(
     const lightY = screenY + player.height;
 
     // Flashlight visibility increases with depth (more visible in darkness)
-    const normalizedDepth = Math.min(depth / MAX_DEPTH, 1);
+    const normalizedDepth = Math.min(depth / maxDepth, 1);
     const flashlightOpacity = 0.05 + normalizedDepth * 0.15; // 5% at surface, 20% at max depth
 
     ctx.save();
@@ -1043,12 +1111,12 @@ function drawPlayer(
     cameraY: number,
     canvasHeight: number
 ) {
-    const isPlayer1 = playerId === 'player1';
-    const color = isPlayer1 ? COLORS.sub1 : COLORS.sub2;
+    const color = PLAYER_COLORS[playerId];
+    const passengerColor = PASSENGER_COLORS[playerId];
 
     // Draw implosion animation for dead players
     if (player.state === PlayerState.Dead && player.implosionFrame > 0) {
-        drawSubmarine(ctx, player, color, cameraY, canvasHeight, isPlayer1);
+        drawSubmarine(ctx, player, color, cameraY, canvasHeight, passengerColor);
         return;
     }
 
@@ -1057,10 +1125,9 @@ function drawPlayer(
     }
 
     if (player.state === PlayerState.Descending) {
-        drawSubmarine(ctx, player, color, cameraY, canvasHeight, isPlayer1);
+        drawSubmarine(ctx, player, color, cameraY, canvasHeight, passengerColor);
     } else if (player.state === PlayerState.Ascending) {
-        const capsuleColor = isPlayer1 ? COLORS.capsule1 : COLORS.capsule2;
-        drawCapsule(ctx, player, capsuleColor, cameraY, canvasHeight);
+        drawCapsule(ctx, player, CAPSULE_COLORS[playerId], cameraY, canvasHeight);
     }
 
     // Invincibility flash effect
@@ -1084,7 +1151,97 @@ function drawPlayer(
     }
 }
 
-export function GameCanvas({ gameState, width, height }: GameCanvasProps) {
+/** Draw the ghost's sub as it was on the current frame */
+function drawGhost(
+    ctx: CanvasRenderingContext2D,
+    ghost: GhostTrack,
+    frame: number,
+    cameraY: number,
+    canvasHeight: number
+) {
+    ctx.save();
+    ctx.globalAlpha = GHOST_ALPHA;
+    drawPlayer(ctx, getGhostVehicle(ghost, frame), ghost.playerId, cameraY, canvasHeight);
+    ctx.restore();
+}
+
+/** Draw one player's split screen pane, with the camera following them */
+function drawSplitPane(
+    ctx: CanvasRenderingContext2D,
+    gameState: GameState,
+    pane: SplitPane,
+    ghost: GhostTrack | null
+) {
+    const { players, playerIds, obstacles, maxDepth, worldWidth, worldHeight } = gameState;
+    const player = players[pane.playerId]!;
+    const isAscending = player.state === PlayerState.Ascending;
+    const cameraY = player.y;
+
+    ctx.save();
+    ctx.translate(pane.x, pane.y);
+    ctx.beginPath();
+    ctx.rect(0, 0, pane.width, pane.height);
+    ctx.clip();
+
+    ctx.fillStyle = getWaterColor(cameraY, maxDepth);
+    ctx.fillRect(0, 0, pane.width, pane.height);
+
+    // Center the followed player in the pane
+    ctx.save();
+    ctx.scale(pane.scale, pane.scale);
+    ctx.translate(0, pane.height / (2 * pane.scale) - worldHeight / 2);
+
+    drawTitanic(ctx, cameraY, worldWidth, worldHeight, maxDepth);
+
+    // Flashlights
+    for (const playerId of playerIds) {
+        drawFlashlight(ctx, players[playerId]!, cameraY, worldHeight, cameraY, maxDepth);
+    }
+
+    for (const obstacle of obstacles) {
+        const visibility = getObstacleVisibility(obstacle, players, maxDepth);
+        drawObstacle(ctx, obstacle, cameraY, worldHeight, visibility);
+    }
+    for (const projectile of gameState.projectiles) {
+        drawProjectile(ctx, projectile, cameraY, worldHeight, gameState.frame);
+    }
+    for (const pickup of gameState.pickups) {
+        drawPickup(ctx, pickup, cameraY, worldHeight, gameState.frame);
+    }
+    for (const fish of gameState.anglerFish) {
+        drawAnglerFish(ctx, fish, cameraY, worldHeight, gameState.frame);
+    }
+    if (ghost) {
+        drawGhost(ctx, ghost, gameState.frame, cameraY, worldHeight);
+    }
+    drawPlayer(ctx, player, pane.playerId, cameraY, worldHeight);
+    ctx.restore();
+
+    // Darkness overlay
+    const darknessOpacity = getDarknessOverlay(cameraY, maxDepth);
+    if (darknessOpacity > 0) {
+        ctx.fillStyle = `rgba(0, 0, 0, ${darknessOpacity})`;
+        ctx.fillRect(0, 0, pane.width, pane.height);
+    }
+
+    ctx.restore();
+
+    const seat = getSeatNumber(pane.playerId);
+    ctx.fillStyle = COLORS.hud;
+    ctx.font = 'bold 16px monospace';
+    ctx.fillText(
+        isAscending ? `↑ P${seat} ASCENDING` : `↓ P${seat} DESCENDING`,
+        pane.x + 10,
+        pane.y + 25
+    );
+}
+
+export function GameCanvas({
+    gameState,
+    width: viewportWidth,
+    height: viewportHeight,
+    ghost = null,
+}: GameCanvasProps) {
     const canvasRef = useRef<HTMLCanvasElement>(null);
 
     // Preload sprites on mount
@@ -1099,8 +1256,23 @@ export function GameCanvas({ gameState, width, height }: GameCanvasProps) {
         const ctx = canvas.getContext('2d');
         if (!ctx) return;
 
-        const { players, obstacles } = gameState;
-        const cameraMode = getCameraMode(players);
+        const { players, playerIds, obstacles, maxDepth } = gameState;
+        const seats = playerIds.map((playerId) => ({ playerId, player: players[playerId]! }));
+        const cameraMode = getCameraMode(players, playerIds);
+
+        // Everything below draws in world units; the viewport transform scales it to the window
+        const { worldWidth: width, worldHeight: height } = gameState;
+        const viewport = getWorldViewport(viewportWidth, viewportHeight, width, height);
+
+        ctx.fillStyle = LETTERBOX_COLOR;
+        ctx.fillRect(0, 0, viewportWidth, viewportHeight);
+
+        ctx.save();
+        ctx.translate(viewport.offsetX, viewport.offsetY);
+        ctx.scale(viewport.scale, viewport.scale);
+        ctx.beginPath();
+        ctx.rect(0, 0, width, height);
+        ctx.clip();
 
         // Clear canvas
         ctx.clearRect(0, 0, width, height);
@@ -1110,7 +1282,7 @@ export function GameCanvas({ gameState, width, height }: GameCanvasProps) {
             let focusDepth = 0;
             let activeCount = 0;
 
-            for (const player of Object.values(players)) {
+            for (const { player } of seats) {
                 if (
                     player.state === PlayerState.Descending ||
                     player.state === PlayerState.Ascending
@@ -1123,29 +1295,27 @@ export function GameCanvas({ gameState, width, height }: GameCanvasProps) {
             if (activeCount > 0) {
                 focusDepth /= activeCount;
             } else {
-                focusDepth = Math.max(
-                    players.player1.maxDepthReached,
-                    players.player2.maxDepthReached
-                );
+                focusDepth = Math.max(...seats.map(({ player }) => player.maxDepthReached));
             }
 
             // Draw background with water color
-            ctx.fillStyle = getWaterColor(focusDepth);
+            ctx.fillStyle = getWaterColor(focusDepth, maxDepth);
             ctx.fillRect(0, 0, width, height);
 
             // Draw cargo ship at surface
             drawCargoShip(ctx, width / 2, focusDepth, height);
 
             // Draw Titanic
-            drawTitanic(ctx, focusDepth, width, height);
+            drawTitanic(ctx, focusDepth, width, height, maxDepth);
 
             // Draw flashlight cones (before obstacles so they appear behind)
-            drawFlashlight(ctx, players.player1, focusDepth, height, focusDepth);
-            drawFlashlight(ctx, players.player2, focusDepth, height, focusDepth);
+            for (const { player } of seats) {
+                drawFlashlight(ctx, player, focusDepth, height, focusDepth, maxDepth);
+            }
 
             // Draw obstacles with visibility based on depth and flashlights
             for (const obstacle of obstacles) {
-                const visibility = getObstacleVisibility(obstacle, players);
+                const visibility = getObstacleVisibility(obstacle, players, maxDepth);
                 drawObstacle(ctx, obstacle, focusDepth, height, visibility);
             }
 
@@ -1164,135 +1334,46 @@ export function GameCanvas({ gameState, width, height }: GameCanvasProps) {
                 drawAnglerFish(ctx, fish, focusDepth, height, gameState.frame);
             }
 
+            // Draw the ghost under the live players
+            if (ghost) {
+                drawGhost(ctx, ghost, gameState.frame, focusDepth, height);
+            }
+
             // Draw players
-            drawPlayer(ctx, players.player1, 'player1', focusDepth, height);
-            drawPlayer(ctx, players.player2, 'player2', focusDepth, height);
+            for (const { playerId, player } of seats) {
+                drawPlayer(ctx, player, playerId, focusDepth, height);
+            }
 
             // Apply darkness overlay based on depth
-            const darknessOpacity = getDarknessOverlay(focusDepth);
+            const darknessOpacity = getDarknessOverlay(focusDepth, maxDepth);
             if (darknessOpacity > 0) {
                 ctx.fillStyle = `rgba(0, 0, 0, ${darknessOpacity})`;
                 ctx.fillRect(0, 0, width, height);
             }
         } else {
             // Split screen mode
-            const halfHeight = height / 2;
-
-            // Top half: Player 1
-            if (cameraMode.topPlayer) {
-                const topPlayerData = players[cameraMode.topPlayer];
-                const isAscending = topPlayerData.state === PlayerState.Ascending;
-
-                ctx.save();
-                ctx.beginPath();
-                ctx.rect(0, 0, width, halfHeight);
-                ctx.clip();
-
-                const cameraY = topPlayerData.y;
-
-                ctx.fillStyle = getWaterColor(topPlayerData.y);
-                ctx.fillRect(0, 0, width, halfHeight);
-
-                ctx.translate(0, -halfHeight / 2);
-
-                drawTitanic(ctx, cameraY, width, height);
-
-                // Flashlights
-                drawFlashlight(ctx, players.player1, cameraY, height, cameraY);
-                drawFlashlight(ctx, players.player2, cameraY, height, cameraY);
-
-                for (const obstacle of obstacles) {
-                    const visibility = getObstacleVisibility(obstacle, players);
-                    drawObstacle(ctx, obstacle, cameraY, height, visibility);
-                }
-                for (const projectile of gameState.projectiles) {
-                    drawProjectile(ctx, projectile, cameraY, height, gameState.frame);
-                }
-                for (const pickup of gameState.pickups) {
-                    drawPickup(ctx, pickup, cameraY, height, gameState.frame);
-                }
-                for (const fish of gameState.anglerFish) {
-                    drawAnglerFish(ctx, fish, cameraY, height, gameState.frame);
-                }
-                drawPlayer(ctx, topPlayerData, cameraMode.topPlayer, cameraY, height);
-
-                // Darkness overlay
-                const darknessOpacity = getDarknessOverlay(topPlayerData.y);
-                if (darknessOpacity > 0) {
-                    ctx.translate(0, halfHeight / 2);
-                    ctx.fillStyle = `rgba(0, 0, 0, ${darknessOpacity})`;
-                    ctx.fillRect(0, 0, width, halfHeight);
-                }
-
-                ctx.restore();
+            const panes = getSplitPanes(cameraMode.splitPlayers, width, height);
+            for (const pane of panes) {
+                drawSplitPane(ctx, gameState, pane, ghost);
+            }
 
-                ctx.fillStyle = COLORS.hud;
-                ctx.font = 'bold 16px monospace';
-                ctx.fillText(isAscending ? '↑ P1 ASCENDING' : '↓ P1 DESCENDING', 10, 25);
+            // An odd player out leaves the last grid cell empty
+            if (panes.length === 3) {
+                ctx.fillStyle = LETTERBOX_COLOR;
+                ctx.fillRect(width / 2, height / 2, width / 2, height / 2);
             }
 
-            // Divider line
+            // Divider lines
             ctx.strokeStyle = '#FFFFFF';
             ctx.lineWidth = 3;
             ctx.beginPath();
-            ctx.moveTo(0, halfHeight);
-            ctx.lineTo(width, halfHeight);
-            ctx.stroke();
-
-            // Bottom half: Player 2
-            if (cameraMode.bottomPlayer) {
-                const bottomPlayerData = players[cameraMode.bottomPlayer];
-                const isAscending = bottomPlayerData.state === PlayerState.Ascending;
-
-                ctx.save();
-                ctx.beginPath();
-                ctx.rect(0, halfHeight, width, halfHeight);
-                ctx.clip();
-
-                const cameraY = bottomPlayerData.y;
-
-                ctx.translate(0, halfHeight);
-
-                ctx.fillStyle = getWaterColor(bottomPlayerData.y);
-                ctx.fillRect(0, 0, width, halfHeight);
-
-                ctx.translate(0, -halfHeight / 2);
-
-                drawTitanic(ctx, cameraY, width, height);
-
-                // Flashlights
-                drawFlashlight(ctx, players.player1, cameraY, height, cameraY);
-                drawFlashlight(ctx, players.player2, cameraY, height, cameraY);
-
-                for (const obstacle of obstacles) {
-                    const visibility = getObstacleVisibility(obstacle, players);
-                    drawObstacle(ctx, obstacle, cameraY, height, visibility);
-                }
-                for (const projectile of gameState.projectiles) {
-                    drawProjectile(ctx, projectile, cameraY, height, gameState.frame);
-                }
-                for (const pickup of gameState.pickups) {
-                    drawPickup(ctx, pickup, cameraY, height, gameState.frame);
-                }
-                for (const fish of gameState.anglerFish) {
-                    drawAnglerFish(ctx, fish, cameraY, height, gameState.frame);
-                }
-                drawPlayer(ctx, bottomPlayerData, cameraMode.bottomPlayer, cameraY, height);
-
-                // Darkness overlay
-                const darknessOpacity = getDarknessOverlay(bottomPlayerData.y);
-                if (darknessOpacity > 0) {
-                    ctx.translate(0, halfHeight / 2);
-                    ctx.fillStyle = `rgba(0, 0, 0, ${darknessOpacity})`;
-                    ctx.fillRect(0, 0, width, halfHeight);
-                }
-
-                ctx.restore();
-
-                ctx.fillStyle = COLORS.hud;
-                ctx.font = 'bold 16px monospace';
-                ctx.fillText(isAscending ? '↑ P2 ASCENDING' : '↓ P2 DESCENDING', 10, halfHeight + 25);
+            ctx.moveTo(0, height / 2);
+            ctx.lineTo(width, height / 2);
+            if (panes.length > 2) {
+                ctx.moveTo(width / 2, 0);
+                ctx.lineTo(width / 2, height);
             }
+            ctx.stroke();
         }
 
         // Draw depth markers on the side
@@ -1307,7 +1388,9 @@ export function GameCanvas({ gameState, width, height }: GameCanvasProps) {
                 }
             }
         }
-    }, [gameState, width, height]);
+
+        ctx.restore();
+    }, [gameState, viewportWidth, viewportHeight, ghost]);
 
     // Redraw when game state changes
     useEffect(() => {
@@ -1317,8 +1400,8 @@ export function GameCanvas({ gameState, width, height }: GameCanvasProps) {
     return (
         <canvas
             ref={canvasRef}
-            width={width}
-            height={height}
+            width={viewportWidth}
+            height={viewportHeight}
             style={{
                 display: 'block',
                 width: '100%',
@@ -3,17 +3,42 @@
  * Fullscreen with animated background matching MainMenu style.
  */
 
-import { useEffect, useRef } from 'react';
-import type { GameState, PlayerId } from '../engine/types';
+import { useEffect, useMemo, useRef, useState } from 'react';
+import type { GameState, PlayerId, Replay } from '../engine/types';
 import { PlayerState, DeathCause } from '../engine/types';
 import { getGameResults } from '../engine/gameState';
+import { getSoloScore } from '../engine/scoring';
+import { createGhostTrack, getGhostVehicle } from '../engine/ghost';
+import type { GhostTrack } from '../engine/ghost';
+import { encodeReplayCode } from '../engine/replay';
+import { formatDailySummary, getDailyResult } from '../engine/dailyChallenge';
+import type { DailyAttempt } from '../engine/dailyChallenge';
+import { createChallengeLink, createReplayLink } from '../engine/shareLinks';
 import { generateRandomSeed } from '../engine/rng';
+import { getSeedPhrase } from '../engine/seedPhrase';
 import { soundEngine } from '../audio/SoundEngine';
+import { downloadReplay } from './replayFiles';
+import type { CpuDifficulty } from '../engine/cpuPlayer';
+import { DEFAULT_MATCH_RULES, describeMatchRules } from '../engine/matchRules';
+import type { MatchRules } from '../engine/matchRules';
+import { CPU_PLAYER_ID, PLAYER_COLORS, getPlayerLabel } from './playerLabels';
+import { MatchStatsTable } from './MatchStatsTable';
 
 interface GameOverScreenProps {
     gameState: GameState;
+    replay: Replay | null;
+    cpuDifficulty: CpuDifficulty | null;
+    /** House rules the match was played with; restarts keep them */
+    rules: MatchRules | null;
+    /** Recorded run the dive raced, if any */
+    ghost: GhostTrack | null;
+    /** Daily Dive the match was, if any */
+    daily: DailyAttempt | null;
     onRestart: (seed: number) => void;
+    /** Race a ghost of a finished solo dive */
+    onRaceGhost: (ghost: GhostTrack) => void;
     onMainMenu: () => void;
+    onWatchReplay: (replay: Replay) => void;
 }
 
 function getOutcomeText(state: PlayerState, deathCause?: DeathCause): string {
@@ -27,6 +52,18 @@ function getOutcomeText(state: PlayerState, deathCause?: DeathCause): string {
         if (deathCause === DeathCause.CrashedAscent) {
             return '💀 CRASHED';
         }
+        if (deathCause === DeathCause.KilledByRocket) {
+            return '🚀 SHOT DOWN';
+        }
+        if (deathCause === DeathCause.KilledByMine) {
+            return '💣 MINED';
+        }
+        if (deathCause === DeathCause.EatenByAngler) {
+            return '🐟 EATEN';
+        }
+        if (deathCause === DeathCause.CrushedByIce) {
+            return '🧊 CRUSHED BY ICE';
+        }
         return '☠️ DIED';
     }
     return '???';
@@ -38,8 +75,21 @@ function getOutcomeColor(state: PlayerState): string {
     return '#FFFFFF';
 }
 
-export function GameOverScreen({ gameState, onRestart, onMainMenu }: GameOverScreenProps) {
+export function GameOverScreen({
+    gameState,
+    replay,
+    cpuDifficulty,
+    rules,
+    ghost,
+    daily,
+    onRestart,
+    onRaceGhost,
+    onMainMenu,
+    onWatchReplay,
+}: GameOverScreenProps) {
     const results = getGameResults(gameState);
+    // Which text was last copied to the clipboard, for the button to confirm it
+    const [copied, setCopied] = useState<'summary' | 'challenge' | 'replay' | null>(null);
     const canvasRef = useRef<HTMLCanvasElement>(null);
     const animationRef = useRef<number>(0);
 
@@ -48,7 +98,8 @@ export function GameOverScreen({ gameState, onRestart, onMainMenu }: GameOverScr
         soundEngine.init();
         // Play a dramatic sound
         setTimeout(() => {
-            if (results.winner === 'draw') {
+            // A draw, or a solo diver who never made it back up
+            if (results.winner === 'draw' || results.winner === null) {
                 soundEngine.playImpact('heavy');
             } else {
                 soundEngine.playVictory();
@@ -162,16 +213,46 @@ export function GameOverScreen({ gameState, onRestart, onMainMenu }: GameOverScr
     }, []);
 
     const getWinnerText = (): { text: string; color: string; emoji: string } => {
-        if (results.winner === 'player1') {
-            return { text: 'PLAYER 1 WINS!', color: '#FFA500', emoji: '🏆' };
+        if (results.soloScore !== null) {
+            return results.soloScore > 0
+                ? { text: `SCORE ${results.soloScore}`, color: '#FFD700', emoji: '🏆' }
+                : { text: 'NO SCORE', color: '#888888', emoji: '💀' };
         }
-        if (results.winner === 'player2') {
-            return { text: 'PLAYER 2 WINS!', color: '#00FF7F', emoji: '🏆' };
+        if (results.winner && results.winner !== 'draw') {
+            const isCpu = cpuDifficulty !== null && results.winner === CPU_PLAYER_ID;
+            return {
+                text: `${getPlayerLabel(results.winner, cpuDifficulty)} WINS!`,
+                color: PLAYER_COLORS[results.winner],
+                emoji: isCpu ? '🤖' : '🏆',
+            };
         }
         return { text: "IT'S A DRAW!", color: '#888888', emoji: '🤝' };
     };
 
     const winner = getWinnerText();
+    const ghostScore = ghost
+        ? getSoloScore(getGhostVehicle(ghost, ghost.frames.length - 1))
+        : null;
+    const dailySummary = useMemo(
+        () =>
+            daily &&
+            formatDailySummary(
+                getDailyResult(daily.dateKey, gameState),
+                daily.practice,
+                replay && encodeReplayCode(replay)
+            ),
+        [daily, gameState, replay]
+    );
+    const copyText = (kind: 'summary' | 'challenge' | 'replay', text: string) => {
+        navigator.clipboard
+            .writeText(text)
+            .then(() => setCopied(kind))
+            .catch(() => setCopied(null));
+    };
+    const pageUrl = window.location.origin + window.location.pathname;
+    const labels = Object.fromEntries(
+        gameState.playerIds.map((playerId) => [playerId, getPlayerLabel(playerId, cpuDifficulty)])
+    );
 
     return (
         <div
@@ -227,29 +308,62 @@ export function GameOverScreen({ gameState, onRestart, onMainMenu }: GameOverScr
                     {winner.emoji} {winner.text} {winner.emoji}
                 </h2>
 
+                {ghostScore !== null && results.soloScore !== null && (
+                    <p style={{ fontSize: '20px', margin: '-24px 0 32px', color: '#C9A0E9' }}>
+                        👻 Ghost scored {ghostScore} ·{' '}
+                        {results.soloScore > ghostScore
+                            ? 'BEATEN!'
+                            : results.soloScore === ghostScore
+                              ? 'TIED'
+                              : `${ghostScore - results.soloScore} short`}
+                    </p>
+                )}
+
                 <div
                     style={{
                         display: 'flex',
                         gap: '40px',
-                        marginBottom: '40px',
+                        marginBottom: '24px',
                         justifyContent: 'center',
                     }}
                 >
-                    {/* Player 1 Results */}
-                    <PlayerResultCard
-                        playerId="player1"
-                        result={results.player1}
-                        isWinner={results.winner === 'player1'}
-                    />
-
-                    {/* Player 2 Results */}
-                    <PlayerResultCard
-                        playerId="player2"
-                        result={results.player2}
-                        isWinner={results.winner === 'player2'}
-                    />
+                    {gameState.playerIds.map((playerId) => {
+                        const result = results[playerId]!;
+                        return (
+                            <PlayerResultCard
+                                key={playerId}
+                                playerId={playerId}
+                                label={labels[playerId]!}
+                                result={result}
+                                killerLabel={
+                                    result.killedBy
+                                        ? getPlayerLabel(result.killedBy, cpuDifficulty)
+                                        : null
+                                }
+                                isWinner={results.winner === playerId}
+                            />
+                        );
+                    })}
                 </div>
 
+                <MatchStatsTable
+                    playerIds={gameState.playerIds}
+                    stats={gameState.stats}
+                    labels={labels}
+                />
+
+                {dailySummary && (
+                    <div style={dailySummaryStyle}>
+                        <pre style={dailySummaryTextStyle}>{dailySummary}</pre>
+                        <button
+                            onClick={() => copyText('summary', dailySummary)}
+                            style={replayButtonStyle}
+                        >
+                            {copied === 'summary' ? '✓ COPIED' : '📋 COPY SUMMARY'}
+                        </button>
+                    </div>
+                )}
+
                 <div
                     style={{
                         display: 'flex',
@@ -280,7 +394,9 @@ export function GameOverScreen({ gameState, onRestart, onMainMenu }: GameOverScr
                             e.currentTarget.style.transform = 'scale(1)';
                         }}
                     >
-                        🔄 REPLAY (Same Seed)
+                        {daily && !daily.practice
+                            ? '🔄 PRACTICE (Same Seed)'
+                            : '🔄 REPLAY (Same Seed)'}
                     </button>
 
                     <button
@@ -332,6 +448,65 @@ export function GameOverScreen({ gameState, onRestart, onMainMenu }: GameOverScr
                     </button>
                 </div>
 
+                <div
+                    style={{
+                        display: 'flex',
+                        gap: '15px',
+                        justifyContent: 'center',
+                        marginTop: '15px',
+                    }}
+                >
+                    <button
+                        onClick={() =>
+                            copyText(
+                                'challenge',
+                                createChallengeLink(pageUrl, {
+                                    seed: gameState.seed,
+                                    preset: rules?.preset ?? DEFAULT_MATCH_RULES.preset,
+                                    solo: results.soloScore !== null,
+                                })
+                            )
+                        }
+                        style={replayButtonStyle}
+                    >
+                        {copied === 'challenge' ? '✓ LINK COPIED' : '🔗 COPY CHALLENGE LINK'}
+                    </button>
+                    {replay && (
+                        <button
+                            onClick={() => copyText('replay', createReplayLink(pageUrl, replay))}
+                            style={replayButtonStyle}
+                        >
+                            {copied === 'replay' ? '✓ LINK COPIED' : '🔗 COPY REPLAY LINK'}
+                        </button>
+                    )}
+                </div>
+
+                {replay && (
+                    <div
+                        style={{
+                            display: 'flex',
+                            gap: '15px',
+                            justifyContent: 'center',
+                            marginTop: '15px',
+                        }}
+                    >
+                        <button onClick={() => onWatchReplay(replay)} style={replayButtonStyle}>
+                            🎬 WATCH REPLAY
+                        </button>
+                        <button onClick={() => downloadReplay(replay)} style={replayButtonStyle}>
+                            💾 SAVE REPLAY
+                        </button>
+                        {results.soloScore !== null && (
+                            <button
+                                onClick={() => onRaceGhost(createGhostTrack(replay))}
+                                style={replayButtonStyle}
+                            >
+                                👻 RACE THIS DIVE
+                            </button>
+                        )}
+                    </div>
+                )}
+
                 <div
                     style={{
                         marginTop: '30px',
@@ -339,28 +514,72 @@ export function GameOverScreen({ gameState, onRestart, onMainMenu }: GameOverScr
                         fontSize: '14px',
                     }}
                 >
-                    Seed: {gameState.seed}
+                    Seed: {getSeedPhrase(gameState.seed) ?? gameState.seed}
+                    {getSeedPhrase(gameState.seed) !== null && ` (${gameState.seed})`}
+                    {rules && (
+                        <div style={{ marginTop: '4px' }}>
+                            Rules: {describeMatchRules(rules).join(' · ') || 'Standard'}
+                        </div>
+                    )}
                 </div>
             </div>
         </div>
     );
 }
 
+const dailySummaryStyle: React.CSSProperties = {
+    display: 'flex',
+    alignItems: 'center',
+    gap: '15px',
+    maxWidth: '640px',
+    margin: '0 auto 24px',
+    padding: '12px 16px',
+    backgroundColor: 'rgba(0, 0, 0, 0.3)',
+    borderRadius: '8px',
+    border: '1px solid #2A4A6A',
+};
+
+const dailySummaryTextStyle: React.CSSProperties = {
+    flex: 1,
+    margin: 0,
+    color: '#AAC',
+    fontSize: '13px',
+    textAlign: 'left',
+    whiteSpace: 'pre-wrap',
+    wordBreak: 'break-all',
+    maxHeight: '120px',
+    overflowY: 'auto',
+};
+
+const replayButtonStyle: React.CSSProperties = {
+    padding: '10px 24px',
+    fontSize: '15px',
+    borderRadius: '8px',
+    border: '2px solid #2A4A6A',
+    backgroundColor: 'rgba(0, 0, 0, 0.3)',
+    color: '#87CEEB',
+    cursor: 'pointer',
+};
+
 function PlayerResultCard({
     playerId,
+    label,
     result,
+    killerLabel,
     isWinner,
 }: {
     playerId: PlayerId;
+    label: string;
     result: {
         state: PlayerState;
         maxDepth: number;
         deathCause?: DeathCause;
     };
+    /** Label of the opponent who scored the kill */
+    killerLabel: string | null;
     isWinner: boolean;
 }) {
-    const isPlayer1 = playerId === 'player1';
-    const playerColor = isPlayer1 ? '#FFA500' : '#00FF7F';
+    const playerColor = PLAYER_COLORS[playerId];
 
     return (
         <div
@@ -380,7 +599,7 @@ function PlayerResultCard({
                     color: playerColor,
                 }}
             >
-                {isPlayer1 ? 'PLAYER 1' : 'PLAYER 2'}
+                {label}
                 {isWinner && ' 👑'}
             </h3>
 
@@ -393,6 +612,11 @@ function PlayerResultCard({
                 }}
             >
                 {getOutcomeText(result.state, result.deathCause)}
+                {killerLabel && (
+                    <div style={{ fontSize: '14px', color: '#AAA', marginTop: '6px' }}>
+                        by {killerLabel}
+                    </div>
+                )}
             </div>
 
             <div
@@ -4,22 +4,93 @@
  */
 
 import { useState, useEffect, useRef, useCallback } from 'react';
-import type { GameState } from '../engine/types';
-import { PlayerState } from '../engine/types';
-import { createInitialState, updateGameState } from '../engine/gameState';
-import { FIXED_DT, MAX_DEPTH, setCanvasDimensions } from '../engine/config';
+import type {
+    EngineConfig,
+    GameEvent,
+    GameState,
+    PlayerId,
+    PlayerInputFrame,
+    PlayerMap,
+    Replay,
+} from '../engine/types';
+import { createInitialState, stepGameState } from '../engine/gameState';
+import { ReplayRecorder } from '../engine/replay';
+import { CpuController } from '../engine/cpuPlayer';
+import type { CpuDifficulty } from '../engine/cpuPlayer';
+import { DEFAULT_MATCH_RULES, buildMatchConfig } from '../engine/matchRules';
+import type { MatchRules } from '../engine/matchRules';
+import { getSoloScore } from '../engine/scoring';
+import type { GhostTrack } from '../engine/ghost';
+import { RollbackSession } from '../net/rollback';
+import type { OnlineMatch } from '../net/relayClient';
+import { FIXED_DT } from '../engine/config';
 import { GameCanvas } from './GameCanvas';
 import { HUD } from './HUD';
 import { useKeyboardInput } from './useKeyboardInput';
+import type { ControlBindings } from './keyBindings';
+import { DEFAULT_CONTROL_BINDINGS, getAllKeyLabels } from './keyBindings';
+import { CPU_PLAYER_ID, PLAYER_COLORS, getPlayerLabel, getSeatNumber } from './playerLabels';
 import { soundEngine } from '../audio/SoundEngine';
-import { vibrateGamepad, VibrationPatterns } from '../audio/vibrationEngine';
+import { playEventFeedback } from '../audio/eventFeedback';
 
 interface GameViewProps {
     seed: number;
-    onGameOver: (state: GameState) => void;
+    /** House rules from the setup screen; for a ghost race, only shown as the ghost's rules */
+    rules?: MatchRules;
+    /** Set to let the CPU drive player 2 */
+    cpuDifficulty?: CpuDifficulty | null;
+    /** Submarines in the match; 1 is a solo dive scored on how deep it dives and still escapes */
+    playerCount?: number;
+    /** Recorded run to race; the match is played on the ghost's seed and ruleset */
+    ghost?: GhostTrack | null;
+    /** Set to play one side of an online match through the relay */
+    online?: OnlineMatch | null;
+    /** Keys and gamepad buttons set on the controls screen */
+    controlBindings?: ControlBindings;
+    onGameOver: (state: GameState, replay: Replay) => void;
+    /** Abandon an online match whose connection broke */
+    onLeave?: () => void;
 }
 
-export function GameView({ seed, onGameOver }: GameViewProps) {
+/** Frames the simulation may stall on the opponent before the waiting notice shows */
+const PEER_WAIT_NOTICE_FRAMES = 30;
+
+/** Online and solo, either keyboard half (and any gamepad) drives this browser's submarine */
+function mergeInputFrames(a: PlayerInputFrame, b: PlayerInputFrame): PlayerInputFrame {
+    return {
+        frame: a.frame,
+        left: a.left || b.left,
+        right: a.right || b.right,
+        up: a.up || b.up,
+        down: a.down || b.down,
+        action: a.action ?? b.action,
+    };
+}
+
+/** Seats that start ready: all of them online (players readied up in the lobby), or the CPU */
+function getInitialReady(
+    playerIds: readonly PlayerId[],
+    cpuDifficulty: CpuDifficulty | null,
+    online: boolean
+): PlayerMap<boolean> {
+    const ready: PlayerMap<boolean> = {};
+    for (const playerId of playerIds) {
+        ready[playerId] = online || (cpuDifficulty !== null && playerId === CPU_PLAYER_ID);
+    }
+    return ready;
+}
+
+export function GameView({
+    seed,
+    rules = DEFAULT_MATCH_RULES,
+    cpuDifficulty = null,
+    playerCount = 2,
+    ghost = null,
+    online = null,
+    controlBindings = DEFAULT_CONTROL_BINDINGS,
+    onGameOver,
+    onLeave,
+}: GameViewProps) {
     const containerRef = useRef<HTMLDivElement>(null);
     const [dimensions, setDimensions] = useState({
         width: window.innerWidth,
@@ -28,28 +99,68 @@ export function GameView({ seed, onGameOver }: GameViewProps) {
     // Use global audio state from SoundEngine
     const [audioInitialized, setAudioInitialized] = useState(soundEngine.isReady());
 
-    // Ready state - both players must press DOWN to start
-    const [player1Ready, setPlayer1Ready] = useState(false);
-    const [player2Ready, setPlayer2Ready] = useState(false);
-    const gameStarted = player1Ready && player2Ready;
+    const solo = playerCount === 1;
+    const [keyLabels] = useState(() => getAllKeyLabels(controlBindings.keys));
+    const { player1: p1Keys, player2: p2Keys } = keyLabels;
 
-    // Update canvas dimensions in config
-    useEffect(() => {
-        setCanvasDimensions(dimensions.width, dimensions.height);
-    }, [dimensions]);
-
-    const [gameState, setGameState] = useState<GameState>(() =>
-        createInitialState({
-            seed,
-            maxDepth: MAX_DEPTH,
-            canvasWidth: dimensions.width,
-            canvasHeight: dimensions.height,
-        })
+    // The simulation always runs in the fixed logical world; only the canvas follows the window
+    const [engineConfig] = useState<EngineConfig>(() =>
+        ghost ? { ...ghost.config, playerCount } : buildMatchConfig(rules, seed, playerCount)
+    );
+    const [gameState, setGameState] = useState<GameState>(() => createInitialState(engineConfig));
+    const { playerIds } = gameState;
+
+    // Ready state - every player must press DOWN to start (the CPU is always ready,
+    // and online players already readied up in the lobby)
+    const [ready, setReady] = useState(() =>
+        getInitialReady(playerIds, cpuDifficulty, online !== null)
+    );
+    const gameStarted = playerIds.every((playerId) => ready[playerId]);
+
+    // Every frame's inputs are recorded so the match can be saved and replayed
+    const [replayRecorder] = useState(() => new ReplayRecorder(engineConfig));
+
+    const [cpuController] = useState(() =>
+        cpuDifficulty ? new CpuController(CPU_PLAYER_ID, cpuDifficulty) : null
     );
 
-    const { sampleInputs, sampleMovementOnly } = useKeyboardInput();
+    // Online matches predict the opponent's input and roll back when it turns out different
+    const rollbackRef = useRef<RollbackSession | null>(null);
+    const stalledFramesRef = useRef(0);
+    const [waitingForPeer, setWaitingForPeer] = useState(false);
+    const [connectionLost, setConnectionLost] = useState<string | null>(null);
+
+    useEffect(() => {
+        if (!online) return;
+
+        // The relay never drops inputs, so each is sent once
+        const session = new RollbackSession(
+            createInitialState(engineConfig),
+            online.playerId,
+            online.client.createInputTransport(),
+            { inputDelay: online.inputDelay, resendInputs: false }
+        );
+        rollbackRef.current = session;
+        const unsubscribe = online.client.subscribe((message) => {
+            if (message.type === 'peerLeft') setConnectionLost('Your opponent left the match');
+        });
+        const unsubscribeClose = online.client.onClose(() =>
+            setConnectionLost('Lost connection to the relay')
+        );
+
+        return () => {
+            session.dispose();
+            rollbackRef.current = null;
+            unsubscribe();
+            unsubscribeClose();
+        };
+    }, [online, engineConfig]);
+
+    const { sampleInputs, sampleMovementOnly, rocketTargets } = useKeyboardInput(
+        playerIds,
+        controlBindings
+    );
     const gameStateRef = useRef(gameState);
-    const prevStateRef = useRef(gameState);
     const animationFrameRef = useRef<number | undefined>(undefined);
     const lastTimeRef = useRef<number>(0);
     const accumulatedTimeRef = useRef<number>(0);
@@ -148,84 +259,11 @@ export function GameView({ seed, onGameOver }: GameViewProps) {
         gameStateRef.current = gameState;
     }, [gameState]);
 
-    // Handle audio events based on game state changes
+    // Update depth for ambient audio
     useEffect(() => {
         if (!audioInitialized) return;
-
-        const prev = prevStateRef.current;
-        const curr = gameState;
-
-        // Update depth for ambient audio
-        soundEngine.updateDepth(curr.currentMaxDepth);
-
-        // Check for collisions (HP decreased)
-        for (const playerId of ['player1', 'player2'] as const) {
-            const prevPlayer = prev.players[playerId];
-            const currPlayer = curr.players[playerId];
-            const gamepadIndex = playerId === 'player1' ? 0 : 1;
-
-            // Collision sound (metal scrape + impact) + vibration
-            if (currPlayer.hp < prevPlayer.hp && currPlayer.state !== PlayerState.Dead) {
-                const isHeavy = currPlayer.hp === 1;
-                soundEngine.playImpact(isHeavy ? 'heavy' : 'light');
-                soundEngine.playMetalScrape(isHeavy ? 'heavy' : 'light');
-                vibrateGamepad(
-                    gamepadIndex,
-                    isHeavy ? VibrationPatterns.collisionHeavy : VibrationPatterns.collision
-                );
-            }
-
-            // Ascent sound + vibration
-            if (
-                prevPlayer.state === PlayerState.Descending &&
-                currPlayer.state === PlayerState.Ascending
-            ) {
-                soundEngine.playAscent();
-                vibrateGamepad(gamepadIndex, VibrationPatterns.eject);
-            }
-
-            // Death sound + vibration
-            if (prevPlayer.state !== PlayerState.Dead && currPlayer.state === PlayerState.Dead) {
-                soundEngine.playDeath();
-                vibrateGamepad(gamepadIndex, VibrationPatterns.death);
-            }
-
-            // Victory sound
-            if (
-                prevPlayer.state !== PlayerState.Escaped &&
-                currPlayer.state === PlayerState.Escaped
-            ) {
-                soundEngine.playVictory();
-            }
-
-            // Rocket fire sound + vibration
-            if (currPlayer.rocketsRemaining < prevPlayer.rocketsRemaining) {
-                soundEngine.playRocketLaunch();
-                vibrateGamepad(gamepadIndex, VibrationPatterns.rocketFire);
-            }
-
-            // Mine deploy sound + vibration
-            if (currPlayer.minesRemaining < prevPlayer.minesRemaining) {
-                soundEngine.playMineDeploy();
-                vibrateGamepad(gamepadIndex, VibrationPatterns.mineDeploy);
-            }
-        }
-
-        // Check for projectile hits (new projectiles destroyed = explosion)
-        const prevProjectileCount = prev.projectiles.length;
-        const currProjectileCount = curr.projectiles.length;
-
-        // If projectiles were removed but not just by timing out, play explosion
-        // This is a simplified check - we look for decrease in projectile count
-        if (prevProjectileCount > currProjectileCount) {
-            const removedCount = prevProjectileCount - currProjectileCount;
-            for (let i = 0; i < Math.min(removedCount, 3); i++) {
-                setTimeout(() => soundEngine.playExplosion('small'), i * 50);
-            }
-        }
-
-        prevStateRef.current = curr;
-    }, [gameState, audioInitialized]);
+        soundEngine.updateDepth(gameState.currentMaxDepth);
+    }, [gameState.currentMaxDepth, audioInitialized]);
 
     // Track game over state with delay
     const [gameOverDelay, setGameOverDelay] = useState(false);
@@ -239,7 +277,7 @@ export function GameView({ seed, onGameOver }: GameViewProps) {
             
             // Delay before transitioning to results screen
             gameOverTimeoutRef.current = window.setTimeout(() => {
-                onGameOver(gameState);
+                onGameOver(gameState, replayRecorder.finish(gameState));
             }, 1500); // 1.5 second delay (faster)
         }
         
@@ -248,7 +286,7 @@ export function GameView({ seed, onGameOver }: GameViewProps) {
                 clearTimeout(gameOverTimeoutRef.current);
             }
         };
-    }, [gameState.gameOver, gameState, onGameOver, gameOverDelay]);
+    }, [gameState.gameOver, gameState, onGameOver, gameOverDelay, replayRecorder]);
 
     // Reset ambient sounds on unmount (keeps context for next game)
     useEffect(() => {
@@ -278,13 +316,17 @@ export function GameView({ seed, onGameOver }: GameViewProps) {
                 // Use movement-only sampling to not consume action button states
                 const movement = sampleMovementOnly();
 
-                // Check if players pressed DOWN to ready up
-                if (movement.player1Down && !player1Ready) {
-                    setPlayer1Ready(true);
-                    soundEngine.playImpact('light');
-                }
-                if (movement.player2Down && !player2Ready) {
-                    setPlayer2Ready(true);
+                // Check if players pressed DOWN to ready up; a solo diver may use either half
+                const readied = playerIds.filter(
+                    (playerId) =>
+                        !ready[playerId] && (movement[playerId] || (solo && movement.player2))
+                );
+                if (readied.length > 0) {
+                    setReady((current) => {
+                        const next = { ...current };
+                        for (const playerId of readied) next[playerId] = true;
+                        return next;
+                    });
                     soundEngine.playImpact('light');
                 }
 
@@ -294,12 +336,74 @@ export function GameView({ seed, onGameOver }: GameViewProps) {
             }
 
             let newState = gameStateRef.current;
-            while (accumulatedTimeRef.current >= FIXED_DT) {
-                const frameInputs = sampleInputs(newState.frame);
-                newState = updateGameState(newState, frameInputs, FIXED_DT);
+            const events: GameEvent[] = [];
+            const rollback = rollbackRef.current;
+            while (accumulatedTimeRef.current >= FIXED_DT && !newState.gameOver) {
+                if (rollback) {
+                    if (rollback.needsLocalInput()) {
+                        const local = sampleInputs(rollback.getState().frame);
+                        rollback.submitLocalInput(mergeInputFrames(local.player1, local.player2));
+                    }
+                    const step = rollback.step();
+                    // Predicted frames may still be rolled back, so only confirmed ones are recorded
+                    for (const confirmed of rollback.takeConfirmedSteps()) {
+                        replayRecorder.record(confirmed.inputs);
+                        replayRecorder.recordState(confirmed.state);
+                    }
+                    if (step) events.push(...step.events);
+
+                    const current = rollback.getState();
+                    if (current.gameOver && rollback.isConfirmed()) {
+                        newState = current;
+                        break;
+                    }
+                    if (!step || current.gameOver) {
+                        // Stalled on the opponent, or on confirming a predicted ending:
+                        // don't bank time to fast-forward through later
+                        accumulatedTimeRef.current = FIXED_DT;
+                        stalledFramesRef.current++;
+                        break;
+                    }
+                    stalledFramesRef.current = 0;
+                    newState = step.state;
+                    accumulatedTimeRef.current -= FIXED_DT;
+                    continue;
+                }
+
+                let frameInputs: PlayerMap<PlayerInputFrame>;
+                if (solo) {
+                    const local = sampleInputs(newState.frame);
+                    frameInputs = { player1: mergeInputFrames(local.player1, local.player2) };
+                    const step = stepGameState(newState, frameInputs, FIXED_DT);
+                    newState = step.state;
+                    events.push(...step.events);
+                } else {
+                    const local = sampleInputs(newState.frame);
+                    frameInputs = {};
+                    for (const playerId of playerIds) {
+                        frameInputs[playerId] = local[playerId];
+                    }
+                    if (cpuController) {
+                        frameInputs[CPU_PLAYER_ID] = cpuController.getInput(newState);
+                    }
+                    const step = stepGameState(newState, frameInputs, FIXED_DT);
+                    newState = step.state;
+                    events.push(...step.events);
+                }
+                replayRecorder.record(frameInputs);
+                replayRecorder.recordState(newState);
                 accumulatedTimeRef.current -= FIXED_DT;
             }
 
+            const stalled = stalledFramesRef.current > PEER_WAIT_NOTICE_FRAMES;
+            if (stalled !== waitingForPeer) {
+                setWaitingForPeer(stalled);
+            }
+
+            if (events.length > 0) {
+                playEventFeedback(events, newState);
+            }
+
             if (newState !== gameStateRef.current) {
                 setGameState(newState);
             }
@@ -308,7 +412,17 @@ export function GameView({ seed, onGameOver }: GameViewProps) {
                 animationFrameRef.current = requestAnimationFrame(gameLoop);
             }
         },
-        [sampleInputs, sampleMovementOnly, gameStarted, player1Ready, player2Ready]
+        [
+            sampleInputs,
+            sampleMovementOnly,
+            gameStarted,
+            solo,
+            playerIds,
+            ready,
+            replayRecorder,
+            cpuController,
+            waitingForPeer,
+        ]
     );
 
     // Start/stop game loop
@@ -337,8 +451,19 @@ export function GameView({ seed, onGameOver }: GameViewProps) {
                 cursor: 'none',
             }}
         >
-            <GameCanvas gameState={gameState} width={dimensions.width} height={dimensions.height} />
-            <HUD gameState={gameState} />
+            <GameCanvas
+                gameState={gameState}
+                width={dimensions.width}
+                height={dimensions.height}
+                ghost={ghost}
+            />
+            <HUD
+                gameState={gameState}
+                cpuDifficulty={cpuDifficulty}
+                rules={rules}
+                rocketTargets={rocketTargets}
+                ghost={ghost}
+            />
 
             {/* Game Over overlay - shows for 3 seconds before results */}
             {gameOverDelay && (
@@ -372,16 +497,37 @@ export function GameView({ seed, onGameOver }: GameViewProps) {
                         GAME OVER
                     </h1>
                     
-                    {gameState.winner && (
+                    {solo && (
+                        <p
+                            style={{
+                                fontSize: '32px',
+                                color: gameState.winner ? '#FFD700' : '#888',
+                                textShadow: '0 0 15px currentColor',
+                                fontFamily: 'monospace',
+                            }}
+                        >
+                            {gameState.winner
+                                ? `🏆 SCORE ${getSoloScore(gameState.players.player1!)} 🏆`
+                                : 'LOST AT SEA'}
+                        </p>
+                    )}
+                    {!solo && gameState.winner && (
                         <p
                             style={{
                                 fontSize: '32px',
-                                color: gameState.winner === 'player1' ? '#FFA500' : '#00FF7F',
+                                color:
+                                    gameState.winner === 'draw'
+                                        ? '#FFD700'
+                                        : PLAYER_COLORS[gameState.winner],
                                 textShadow: '0 0 15px currentColor',
                                 fontFamily: 'monospace',
                             }}
                         >
-                            🏆 {gameState.winner === 'player1' ? 'PLAYER 1' : 'PLAYER 2'} WINS! 🏆
+                            🏆{' '}
+                            {gameState.winner === 'draw'
+                                ? "IT'S A DRAW"
+                                : `${getPlayerLabel(gameState.winner, cpuDifficulty)} WINS!`}{' '}
+                            🏆
                         </p>
                     )}
                     
@@ -410,7 +556,7 @@ export function GameView({ seed, onGameOver }: GameViewProps) {
                 `}
             </style>
 
-            {/* Ready overlay - shows until both players press DOWN */}
+            {/* Ready overlay - shows until every player presses DOWN */}
             {!gameStarted && (
                 <div
                     style={{
@@ -445,57 +591,51 @@ export function GameView({ seed, onGameOver }: GameViewProps) {
                             marginBottom: '40px',
                         }}
                     >
-                        Both players must press DOWN to dive!
+                        {cpuDifficulty || solo
+                            ? 'Press DOWN to dive!'
+                            : playerIds.length === 2
+                              ? 'Both players must press DOWN to dive!'
+                              : 'All players must press DOWN to dive!'}
                     </p>
 
-                    <div style={{ display: 'flex', gap: '60px' }}>
-                        {/* Player 1 Ready Status */}
-                        <div
-                            style={{
-                                padding: '30px 50px',
-                                backgroundColor: player1Ready
-                                    ? 'rgba(255, 165, 0, 0.3)'
-                                    : 'rgba(0, 0, 0, 0.5)',
-                                border: `3px solid ${player1Ready ? '#FFA500' : '#444'}`,
-                                borderRadius: '16px',
-                                textAlign: 'center',
-                                transition: 'all 0.3s',
-                            }}
-                        >
-                            <div
-                                style={{ fontSize: '24px', color: '#FFA500', marginBottom: '10px' }}
-                            >
-                                PLAYER 1
-                            </div>
-                            <div style={{ fontSize: '40px' }}>{player1Ready ? '✅' : '⬇️'}</div>
-                            <div style={{ fontSize: '14px', color: '#888', marginTop: '10px' }}>
-                                {player1Ready ? 'READY!' : 'Press S or ↓'}
-                            </div>
-                        </div>
-
-                        {/* Player 2 Ready Status */}
-                        <div
-                            style={{
-                                padding: '30px 50px',
-                                backgroundColor: player2Ready
-                                    ? 'rgba(0, 255, 127, 0.3)'
-                                    : 'rgba(0, 0, 0, 0.5)',
-                                border: `3px solid ${player2Ready ? '#00FF7F' : '#444'}`,
-                                borderRadius: '16px',
-                                textAlign: 'center',
-                                transition: 'all 0.3s',
-                            }}
-                        >
-                            <div
-                                style={{ fontSize: '24px', color: '#00FF7F', marginBottom: '10px' }}
-                            >
-                                PLAYER 2
-                            </div>
-                            <div style={{ fontSize: '40px' }}>{player2Ready ? '✅' : '⬇️'}</div>
-                            <div style={{ fontSize: '14px', color: '#888', marginTop: '10px' }}>
-                                {player2Ready ? 'READY!' : 'Press S or ↓'}
-                            </div>
-                        </div>
+                    <div style={{ display: 'flex', gap: playerIds.length > 2 ? '30px' : '60px' }}>
+                        {playerIds.map((playerId) => {
+                            const isReady = !!ready[playerId];
+                            const color = PLAYER_COLORS[playerId];
+                            const isCpu = cpuDifficulty !== null && playerId === CPU_PLAYER_ID;
+                            return (
+                                <div
+                                    key={playerId}
+                                    style={{
+                                        padding: playerIds.length > 2 ? '30px 30px' : '30px 50px',
+                                        // 4D = 30% opacity
+                                        backgroundColor: isReady
+                                            ? `${color}4D`
+                                            : 'rgba(0, 0, 0, 0.5)',
+                                        border: `3px solid ${isReady ? color : '#444'}`,
+                                        borderRadius: '16px',
+                                        textAlign: 'center',
+                                        transition: 'all 0.3s',
+                                    }}
+                                >
+                                    <div style={{ fontSize: '24px', color, marginBottom: '10px' }}>
+                                        {getPlayerLabel(playerId, cpuDifficulty)}
+                                    </div>
+                                    <div style={{ fontSize: '40px' }}>
+                                        {isCpu ? '🤖' : isReady ? '✅' : '⬇️'}
+                                    </div>
+                                    <div
+                                        style={{ fontSize: '14px', color: '#888', marginTop: '10px' }}
+                                    >
+                                        {isReady
+                                            ? 'READY!'
+                                            : solo
+                                              ? `Press ${p1Keys.down} or ${p2Keys.down}`
+                                              : `Press ${keyLabels[playerId].down}`}
+                                    </div>
+                                </div>
+                            );
+                        })}
                     </div>
 
                     <div style={{ marginTop: '40px', color: '#666', fontSize: '14px' }}>
@@ -504,6 +644,18 @@ export function GameView({ seed, onGameOver }: GameViewProps) {
                 </div>
             )}
 
+            {/* Online connection notices */}
+            {online && (connectionLost || waitingForPeer) && !gameState.gameOver && (
+                <div style={peerNoticeStyle}>
+                    {connectionLost ?? 'Waiting for opponent…'}
+                    {connectionLost && onLeave && (
+                        <button onClick={onLeave} style={peerNoticeButtonStyle}>
+                            BACK TO LOBBY
+                        </button>
+                    )}
+                </div>
+            )}
+
             {/* Controls hint */}
             <div
                 style={{
@@ -521,12 +673,28 @@ export function GameView({ seed, onGameOver }: GameViewProps) {
                     borderRadius: '8px',
                 }}
             >
-                <div style={{ marginBottom: '4px' }}>
-                    <strong>P1:</strong> WASD move | Q eject | E rocket | R mine
-                </div>
-                <div>
-                    <strong>P2:</strong> Arrows move | / eject | . rocket | , mine
-                </div>
+                {online || solo ? (
+                    <div>
+                        <strong>YOU:</strong> {`${p1Keys.moveName} or ${p2Keys.moveName} move | `}
+                        {`${p1Keys.eject} or ${p2Keys.eject} eject | `}
+                        {`${p1Keys.rocket} or ${p2Keys.rocket} rocket | `}
+                        {`${p1Keys.mine} or ${p2Keys.mine} mine`}
+                    </div>
+                ) : (
+                    playerIds
+                        .filter((playerId) => !cpuDifficulty || playerId !== CPU_PLAYER_ID)
+                        .map((playerId) => {
+                            const keys = keyLabels[playerId];
+                            return (
+                                <div key={playerId} style={{ marginBottom: '4px' }}>
+                                    <strong>P{getSeatNumber(playerId)}:</strong>{' '}
+                                    {`${keys.moveName} move | ${keys.eject} eject | `}
+                                    {`${keys.rocket} rocket | ${keys.mine} mine`}
+                                    {playerIds.length > 2 && ` | ${keys.target} target`}
+                                </div>
+                            );
+                        })
+                )}
             </div>
 
             {/* Fullscreen button */}
@@ -572,3 +740,32 @@ export function GameView({ seed, onGameOver }: GameViewProps) {
         </div>
     );
 }
+
+const peerNoticeStyle: React.CSSProperties = {
+    position: 'absolute',
+    top: '40%',
+    left: '50%',
+    transform: 'translate(-50%, -50%)',
+    display: 'flex',
+    flexDirection: 'column',
+    alignItems: 'center',
+    gap: '16px',
+    padding: '20px 40px',
+    backgroundColor: 'rgba(0, 0, 0, 0.75)',
+    borderRadius: '12px',
+    color: '#87CEEB',
+    fontFamily: 'monospace',
+    fontSize: '20px',
+    zIndex: 100,
+};
+
+const peerNoticeButtonStyle: React.CSSProperties = {
+    padding: '10px 20px',
+    fontSize: '14px',
+    fontFamily: 'monospace',
+    borderRadius: '8px',
+    border: 'none',
+    backgroundColor: '#4A90D9',
+    color: '#FFFFFF',
+    cursor: 'pointer',
+};
@@ -3,12 +3,37 @@
  * Features prominent HP display and wear indicators.
  */
 
-import type { GameState, PlayerId } from '../engine/types';
+import type { GameState, PlayerId, PlayerMap } from '../engine/types';
 import { PlayerState } from '../engine/types';
-import { SUB_STARTING_HP } from '../engine/config';
+import type { CpuDifficulty } from '../engine/cpuPlayer';
+import { describeMatchRules } from '../engine/matchRules';
+import type { MatchRules } from '../engine/matchRules';
+import { getPotentialSoloScore } from '../engine/scoring';
+import { getGhostGap } from '../engine/ghost';
+import type { GhostGap, GhostTrack } from '../engine/ghost';
+import { formatSeed } from '../engine/seedPhrase';
+import { FIXED_DT } from '../engine/config';
+import { PLAYER_COLORS, getPlayerLabel, getSeatNumber } from './playerLabels';
 
 interface HUDProps {
     gameState: GameState;
+    cpuDifficulty?: CpuDifficulty | null;
+    /** House rules, listed next to the seed when they differ from the defaults */
+    rules?: MatchRules | null;
+    /** Opponents players chose for their rockets; unset means the nearest */
+    rocketTargets?: PlayerMap<PlayerId | null>;
+    /** Recorded run the first player is racing */
+    ghost?: GhostTrack | null;
+}
+
+/** Screen corner of a player's panel: seats 1 and 2 along the top, 3 and 4 along the bottom */
+interface HUDSlot {
+    side: 'left' | 'right';
+    edge: 'top' | 'bottom';
+}
+
+function getHUDSlot(seat: number): HUDSlot {
+    return { side: seat % 2 === 0 ? 'left' : 'right', edge: seat < 2 ? 'top' : 'bottom' };
 }
 
 /** HP Bar component - visual health display */
@@ -33,6 +58,25 @@ function HPBar({ hp, maxHp, color }: { hp: number; maxHp: number; color: string
     );
 }
 
+/** Gap to a raced ghost: where the player is relative to it, and how far ahead or behind */
+function GhostGapLine({ gap }: { gap: GhostGap }) {
+    const metres = Math.round(Math.abs(gap.depthGap));
+    const frames = gap.timeGapFrames;
+    const behind = frames !== null && frames > 0;
+    // No time gap means the ghost never got this far, so the player is ahead of it
+    const seconds = frames === null ? null : (Math.abs(frames) * FIXED_DT).toFixed(1);
+
+    return (
+        <div style={{ marginTop: '8px', fontSize: '12px', color: '#AAA' }}>
+            👻 {metres === 0 ? 'level' : `${metres}m ${gap.depthGap > 0 ? 'below' : 'above'}`}
+            {' · '}
+            <span style={{ color: behind ? '#FF6666' : '#44FF44', fontWeight: 'bold' }}>
+                {seconds === null ? 'AHEAD' : `${behind ? '+' : '-'}${seconds}s`}
+            </span>
+        </div>
+    );
+}
+
 /** Wear gauge component */
 function WearGauge({ wear }: { wear: number }) {
     const wearColor = wear > 80 ? '#FF4444' : wear > 50 ? '#FFAA00' : '#44FF44';
@@ -86,15 +130,23 @@ function WearGauge({ wear }: { wear: number }) {
 function PlayerHUD({
     playerId,
     gameState,
-    side,
+    slot,
+    label,
+    rocketTarget,
+    ghostGap,
 }: {
     playerId: PlayerId;
     gameState: GameState;
-    side: 'left' | 'right';
+    slot: HUDSlot;
+    label: string;
+    rocketTarget: PlayerId | null;
+    ghostGap: GhostGap | null;
 }) {
-    const player = gameState.players[playerId];
-    const isPlayer1 = playerId === 'player1';
-    const playerColor = isPlayer1 ? '#FFA500' : '#00FF7F';
+    const player = gameState.players[playerId]!;
+    const isSolo = gameState.playerIds.length === 1;
+    // Only worth showing when there is more than one opponent to choose from
+    const showTarget = gameState.playerIds.length > 2;
+    const playerColor = PLAYER_COLORS[playerId];
 
     const getStateLabel = (): string => {
         switch (player.state) {
@@ -130,8 +182,8 @@ function PlayerHUD({
         <div
             style={{
                 position: 'absolute',
-                top: 20,
-                [side]: 20,
+                [slot.edge]: 20,
+                [slot.side]: 20,
                 padding: '16px 20px',
                 backgroundColor: 'rgba(0, 0, 0, 0.85)',
                 borderRadius: '12px',
@@ -153,7 +205,7 @@ function PlayerHUD({
                     textShadow: `0 0 10px ${playerColor}`,
                 }}
             >
-                {isPlayer1 ? 'PLAYER 1' : 'PLAYER 2'}
+                {label}
             </div>
 
             {/* Status */}
@@ -189,7 +241,11 @@ function PlayerHUD({
                     </div>
                     <HPBar
                         hp={player.hp}
-                        maxHp={player.state === PlayerState.Ascending ? 1 : SUB_STARTING_HP}
+                        maxHp={
+                            player.state === PlayerState.Ascending
+                                ? 1
+                                : gameState.ruleset.subStartingHp
+                        }
                         color={player.hp === 1 ? '#FF4444' : playerColor}
                     />
 
@@ -225,9 +281,43 @@ function PlayerHUD({
                             </div>
                         </div>
                     )}
+
+                    {/* Rocket target */}
+                    {player.state === PlayerState.Descending && showTarget && (
+                        <div style={{ marginTop: '8px', fontSize: '12px', color: '#888' }}>
+                            🎯{' '}
+                            {rocketTarget ? (
+                                <span
+                                    style={{
+                                        color: PLAYER_COLORS[rocketTarget],
+                                        fontWeight: 'bold',
+                                    }}
+                                >
+                                    P{getSeatNumber(rocketTarget)}
+                                </span>
+                            ) : (
+                                'NEAREST'
+                            )}
+                        </div>
+                    )}
                 </>
             )}
 
+            {/* Solo score - what the dive is worth if the diver makes it back up */}
+            {isSolo && player.state !== PlayerState.Escaped && (
+                <div style={{ color: '#FFD700', marginTop: '8px', fontWeight: 'bold' }}>
+                    SCORE {getPotentialSoloScore(player)}
+                    {player.state !== PlayerState.Dead && (
+                        <span style={{ color: '#888', fontWeight: 'normal' }}> if you escape</span>
+                    )}
+                </div>
+            )}
+
+            {/* Race against a ghost */}
+            {ghostGap &&
+                (player.state === PlayerState.Descending ||
+                    player.state === PlayerState.Ascending) && <GhostGapLine gap={ghostGap} />}
+
             {/* Death info */}
             {player.state === PlayerState.Dead && (
                 <div style={{ color: '#888', marginTop: '8px' }}>
@@ -245,7 +335,19 @@ function PlayerHUD({
     );
 }
 
-export function HUD({ gameState }: HUDProps) {
+export function HUD({
+    gameState,
+    cpuDifficulty = null,
+    rules = null,
+    rocketTargets = {},
+    ghost = null,
+}: HUDProps) {
+    const ruleLabels = rules ? describeMatchRules(rules) : [];
+    const racer = gameState.playerIds[0];
+    const ghostGap = ghost
+        ? getGhostGap(ghost, gameState.players[racer]!, gameState.frame)
+        : null;
+
     return (
         <div
             style={{
@@ -257,10 +359,19 @@ export function HUD({ gameState }: HUDProps) {
                 pointerEvents: 'none',
             }}
         >
-            <PlayerHUD playerId="player1" gameState={gameState} side="left" />
-            <PlayerHUD playerId="player2" gameState={gameState} side="right" />
+            {gameState.playerIds.map((playerId, seat) => (
+                <PlayerHUD
+                    key={playerId}
+                    playerId={playerId}
+                    gameState={gameState}
+                    slot={getHUDSlot(seat)}
+                    label={getPlayerLabel(playerId, cpuDifficulty)}
+                    rocketTarget={rocketTargets[playerId] ?? null}
+                    ghostGap={playerId === racer ? ghostGap : null}
+                />
+            ))}
 
-            {/* Seed display */}
+            {/* Seed and house rules display */}
             <div
                 style={{
                     position: 'absolute',
@@ -275,7 +386,8 @@ export function HUD({ gameState }: HUDProps) {
                     borderRadius: '4px',
                 }}
             >
-                Seed: {gameState.seed}
+                Seed: {formatSeed(gameState.seed)}
+                {ruleLabels.map((label) => ` · ${label}`).join('')}
             </div>
         </div>
     );
@@ -0,0 +1,296 @@
+/**
+ * Leaderboards built from the locally stored history of finished matches,
+ * plus the recent runs themselves with their replays.
+ */
+
+import { useState } from 'react';
+import type { Replay } from '../engine/types';
+import type { DepthEntry, RunRecord } from '../engine/runHistory';
+import {
+    getDeepestDives,
+    getDeepestEscapes,
+    getHeadToHeads,
+    getSeedBests,
+} from '../engine/runHistory';
+import { parseReplay } from '../engine/replay';
+import { formatSeed } from '../engine/seedPhrase';
+import { ENGINE_VERSION } from '../engine/config';
+import { clearRunHistory, loadRunHistory } from './runHistoryStorage';
+
+interface LeaderboardScreenProps {
+    onWatchReplay: (replay: Replay) => void;
+    onBack: () => void;
+}
+
+const LeaderboardView = {
+    Escapes: 'escapes',
+    Dives: 'dives',
+    Seeds: 'seeds',
+    HeadToHead: 'headToHead',
+    Recent: 'recent',
+} as const;
+type LeaderboardView = (typeof LeaderboardView)[keyof typeof LeaderboardView];
+
+const VIEW_LABELS: Record<LeaderboardView, string> = {
+    [LeaderboardView.Escapes]: 'DEEPEST ESCAPE',
+    [LeaderboardView.Dives]: 'DEEPEST DIVE',
+    [LeaderboardView.Seeds]: 'SEED BESTS',
+    [LeaderboardView.HeadToHead]: 'HEAD TO HEAD',
+    [LeaderboardView.Recent]: 'RECENT',
+};
+
+/** Recent runs listed on the Recent view */
+const RECENT_RUN_COUNT = 20;
+
+function formatDate(playedAt: number): string {
+    return new Date(playedAt).toLocaleDateString(undefined, {
+        year: 'numeric',
+        month: 'short',
+        day: 'numeric',
+    });
+}
+
+/** Ranked table of depths */
+function DepthTable({ entries, showOutcome }: { entries: DepthEntry[]; showOutcome: boolean }) {
+    return (
+        <table style={tableStyle}>
+            <tbody>
+                {entries.map((entry, i) => (
+                    <tr key={`${entry.runId}-${entry.name}`}>
+                        <td style={{ ...cellStyle, color: '#888', width: '40px' }}>{i + 1}</td>
+                        <td style={{ ...cellStyle, fontWeight: 'bold' }}>{entry.name}</td>
+                        <td style={{ ...cellStyle, color: '#FFD700', textAlign: 'right' }}>
+                            {entry.depth}m{showOutcome && (entry.escaped ? ' ✓' : ' ✕')}
+                        </td>
+                        <td style={{ ...cellStyle, color: '#888' }}>{formatSeed(entry.seed)}</td>
+                        <td style={{ ...cellStyle, color: '#888' }}>
+                            {formatDate(entry.playedAt)}
+                        </td>
+                    </tr>
+                ))}
+            </tbody>
+        </table>
+    );
+}
+
+/** Who played, who won, and a replay if one was kept */
+function RecentRuns({
+    runs,
+    onWatchReplay,
+}: {
+    runs: RunRecord[];
+    onWatchReplay: (replay: Replay) => void;
+}) {
+    const getOutcome = (run: RunRecord): string => {
+        const { winner, soloScore } = run.results;
+        if (soloScore !== null) return soloScore > 0 ? `SCORE ${soloScore}` : 'NO SCORE';
+        if (winner === 'draw' || winner === null) return 'DRAW';
+        const name = run.players.find((player) => player.playerId === winner)?.name;
+        return `${name ?? winner} WON`;
+    };
+
+    return (
+        <table style={tableStyle}>
+            <tbody>
+                {runs.map((run) => {
+                    // Replays only play back on the engine version that recorded them
+                    const replay = run.engineVersion === ENGINE_VERSION ? run.replay : undefined;
+                    return (
+                        <tr key={run.id}>
+                            <td style={{ ...cellStyle, color: '#888' }}>
+                                {formatDate(run.playedAt)}
+                            </td>
+                            <td style={cellStyle}>
+                                {run.players.map((player) => player.name).join(' vs ')}
+                            </td>
+                            <td style={{ ...cellStyle, fontWeight: 'bold' }}>{getOutcome(run)}</td>
+                            <td style={{ ...cellStyle, color: '#888' }}>{formatSeed(run.seed)}</td>
+                            <td style={{ ...cellStyle, textAlign: 'right' }}>
+                                {replay && (
+                                    <button
+                                        onClick={() => onWatchReplay(parseReplay(replay))}
+                                        style={smallButtonStyle}
+                                    >
+                                        🎬 WATCH
+                                    </button>
+                                )}
+                            </td>
+                        </tr>
+                    );
+                })}
+            </tbody>
+        </table>
+    );
+}
+
+export function LeaderboardScreen({ onWatchReplay, onBack }: LeaderboardScreenProps) {
+    const [history, setHistory] = useState(loadRunHistory);
+    const [view, setView] = useState<LeaderboardView>(LeaderboardView.Escapes);
+
+    const handleClear = () => {
+        if (!window.confirm('Forget every stored run? The leaderboards will start over.')) return;
+        clearRunHistory();
+        setHistory([]);
+    };
+
+    const renderView = () => {
+        switch (view) {
+            case LeaderboardView.Escapes:
+                return <DepthTable entries={getDeepestEscapes(history)} showOutcome={false} />;
+            case LeaderboardView.Dives:
+                return <DepthTable entries={getDeepestDives(history)} showOutcome={true} />;
+            case LeaderboardView.Seeds:
+                return <DepthTable entries={getSeedBests(history)} showOutcome={true} />;
+            case LeaderboardView.HeadToHead:
+                return (
+                    <table style={tableStyle}>
+                        <tbody>
+                            {getHeadToHeads(history).map(({ names, wins, draws }) => (
+                                <tr key={names.join('\n')}>
+                                    <td style={{ ...cellStyle, textAlign: 'right' }}>{names[0]}</td>
+                                    <td
+                                        style={{
+                                            ...cellStyle,
+                                            color: '#FFD700',
+                                            fontWeight: 'bold',
+                                            textAlign: 'center',
+                                        }}
+                                    >
+                                        {wins[0]} – {wins[1]}
+                                    </td>
+                                    <td style={cellStyle}>{names[1]}</td>
+                                    <td style={{ ...cellStyle, color: '#888' }}>
+                                        {draws > 0 && `${draws} drawn`}
+                                    </td>
+                                </tr>
+                            ))}
+                        </tbody>
+                    </table>
+                );
+            case LeaderboardView.Recent:
+                return (
+                    <RecentRuns
+                        runs={history.slice(0, RECENT_RUN_COUNT)}
+                        onWatchReplay={onWatchReplay}
+                    />
+                );
+        }
+    };
+
+    return (
+        <div style={screenStyle}>
+            <h1 style={{ fontSize: '42px', color: '#87CEEB', marginBottom: '10px' }}>
+                🏆 LEADERBOARDS
+            </h1>
+            <p style={{ color: '#8AA', marginBottom: '30px' }}>
+                {history.length === 1 ? '1 run' : `${history.length} runs`} played on this machine
+            </p>
+
+            <div style={panelStyle}>
+                <div style={{ display: 'flex', gap: '6px' }}>
+                    {Object.values(LeaderboardView).map((option) => (
+                        <button
+                            key={option}
+                            onClick={() => setView(option)}
+                            style={{
+                                ...tabButtonStyle,
+                                backgroundColor: option === view ? '#4A90D9' : 'transparent',
+                                color: option === view ? '#FFFFFF' : '#87CEEB',
+                            }}
+                        >
+                            {VIEW_LABELS[option]}
+                        </button>
+                    ))}
+                </div>
+
+                <div style={{ minHeight: '300px', maxHeight: '50vh', overflowY: 'auto' }}>
+                    {history.length === 0 ? (
+                        <div style={{ color: '#888', padding: '40px', textAlign: 'center' }}>
+                            No runs yet. Finish a match to get on the board.
+                        </div>
+                    ) : (
+                        renderView()
+                    )}
+                </div>
+
+                <div style={{ display: 'flex', gap: '8px' }}>
+                    <button
+                        onClick={handleClear}
+                        disabled={history.length === 0}
+                        style={{ ...secondaryButtonStyle, flex: 1 }}
+                    >
+                        CLEAR HISTORY
+                    </button>
+                    <button onClick={onBack} style={{ ...secondaryButtonStyle, flex: 1 }}>
+                        🏠 MAIN MENU
+                    </button>
+                </div>
+            </div>
+        </div>
+    );
+}
+
+const screenStyle: React.CSSProperties = {
+    position: 'fixed',
+    inset: 0,
+    display: 'flex',
+    flexDirection: 'column',
+    alignItems: 'center',
+    justifyContent: 'center',
+    background: 'linear-gradient(180deg, #0A1628 0%, #050B14 100%)',
+    color: '#FFFFFF',
+    fontFamily: 'system-ui, -apple-system, sans-serif',
+};
+
+const panelStyle: React.CSSProperties = {
+    display: 'flex',
+    flexDirection: 'column',
+    gap: '16px',
+    width: '760px',
+    padding: '25px',
+    backgroundColor: 'rgba(0, 0, 0, 0.4)',
+    borderRadius: '12px',
+};
+
+const tabButtonStyle: React.CSSProperties = {
+    flex: 1,
+    padding: '8px 6px',
+    fontSize: '13px',
+    fontWeight: 'bold',
+    borderRadius: '6px',
+    border: '2px solid #4A90D9',
+    cursor: 'pointer',
+};
+
+const tableStyle: React.CSSProperties = {
+    width: '100%',
+    borderCollapse: 'collapse',
+    fontFamily: 'monospace',
+    fontSize: '14px',
+};
+
+const cellStyle: React.CSSProperties = {
+    padding: '8px 10px',
+    borderBottom: '1px solid #1A2A3A',
+    textAlign: 'left',
+};
+
+const smallButtonStyle: React.CSSProperties = {
+    padding: '4px 10px',
+    fontSize: '12px',
+    borderRadius: '6px',
+    border: '1px solid #2A4A6A',
+    backgroundColor: 'transparent',
+    color: '#87CEEB',
+    cursor: 'pointer',
+};
+
+const secondaryButtonStyle: React.CSSProperties = {
+    padding: '12px 24px',
+    fontSize: '16px',
+    borderRadius: '8px',
+    border: '2px solid #2A4A6A',
+    backgroundColor: 'transparent',
+    color: '#87CEEB',
+    cursor: 'pointer',
+};
@@ -4,10 +4,37 @@
  */
 
 import { useState, useEffect, useRef, useCallback } from 'react';
-import { generateRandomSeed } from '../engine/rng';
+import type { Replay } from '../engine/types';
+import { PLAYER_IDS } from '../engine/types';
+import { CpuDifficulty } from '../engine/cpuPlayer';
+import { createGhostTrack } from '../engine/ghost';
+import type { GhostTrack } from '../engine/ghost';
+import type { DailyResult } from '../engine/dailyChallenge';
+import { getDailyDateKey, getDailySeed } from '../engine/dailyChallenge';
+import { formatSeed } from '../engine/seedPhrase';
+import { loadDailyStatus } from './dailyChallengeStorage';
+import { readReplayFile, REPLAY_FILE_EXTENSION } from './replayFiles';
+import { PLAYER_COLORS, getSeatNumber } from './playerLabels';
+import type { ControlBindings, GamepadAction } from './keyBindings';
+import { GAMEPAD_ACTIONS, getGamepadButtonLabel, getKeyLabels } from './keyBindings';
 
 interface MainMenuProps {
-    onStartGame: (seed: number) => void;
+    /** Continue to match setup, with player 2 driven by the CPU if a difficulty is given */
+    onStartGame: (cpuDifficulty?: CpuDifficulty | null) => void;
+    /** Continue to match setup for a one-submarine dive */
+    onStartSolo: () => void;
+    /** Start today's Daily Dive, either the one official attempt or a practice dive */
+    onStartDaily: (practice: boolean) => void;
+    /** Start a solo dive racing the ghost of a loaded replay */
+    onRaceGhost: (ghost: GhostTrack) => void;
+    onWatchReplay: (replay: Replay) => void;
+    onPlayOnline: () => void;
+    onShowLeaderboards: () => void;
+    onShowControls: () => void;
+    /** Keys and gamepad buttons shown in the controls panel */
+    controlBindings: ControlBindings;
+    /** Why the link the page was opened with could not be followed */
+    linkError: string | null;
 }
 
 /** Check how many gamepads are connected */
@@ -15,19 +42,62 @@ function getConnectedGamepads(): Gamepad[] {
     return Array.from(navigator.getGamepads()).filter((g): g is Gamepad => g !== null);
 }
 
-export function MainMenu({ onStartGame }: MainMenuProps) {
-    const [customSeed, setCustomSeed] = useState('');
+export function MainMenu({
+    onStartGame,
+    onStartSolo,
+    onStartDaily,
+    onRaceGhost,
+    onWatchReplay,
+    onPlayOnline,
+    onShowLeaderboards,
+    onShowControls,
+    controlBindings,
+    linkError,
+}: MainMenuProps) {
     const [showControls, setShowControls] = useState(false);
     const [gamepads, setGamepads] = useState<Gamepad[]>([]);
+    const [replayError, setReplayError] = useState<string | null>(linkError);
+    const [cpuDifficulty, setCpuDifficulty] = useState<CpuDifficulty>(CpuDifficulty.Normal);
     const canvasRef = useRef<HTMLCanvasElement>(null);
     const animationRef = useRef<number>(0);
+    const replayInputRef = useRef<HTMLInputElement>(null);
+    const ghostInputRef = useRef<HTMLInputElement>(null);
+    const [dailyDateKey] = useState(() => getDailyDateKey(new Date()));
+    const [dailyStatus] = useState(() => loadDailyStatus(dailyDateKey));
+
+    const handleReplayFile = useCallback(
+        async (file: File | undefined) => {
+            if (!file) return;
+            try {
+                setReplayError(null);
+                onWatchReplay(await readReplayFile(file));
+            } catch (e) {
+                setReplayError(e instanceof Error ? e.message : 'Could not load replay');
+            }
+        },
+        [onWatchReplay]
+    );
+
+    const handleGhostFile = useCallback(
+        async (file: File | undefined) => {
+            if (!file) return;
+            try {
+                setReplayError(null);
+                onRaceGhost(createGhostTrack(await readReplayFile(file)));
+            } catch (e) {
+                setReplayError(e instanceof Error ? e.message : 'Could not load replay');
+            }
+        },
+        [onRaceGhost]
+    );
 
     const handleStart = useCallback(() => {
-        const seed = customSeed.trim()
-            ? parseInt(customSeed, 10) || generateRandomSeed()
-            : generateRandomSeed();
-        onStartGame(seed);
-    }, [customSeed, onStartGame]);
+        onStartGame();
+    }, [onStartGame]);
+
+    const handleStartVsCpu = useCallback(() => {
+        onStartGame(cpuDifficulty);
+    }, [cpuDifficulty, onStartGame]);
 
     const canStartWithGamepads = gamepads.length >= 2;
 
@@ -243,12 +313,14 @@ export function MainMenu({ onStartGame }: MainMenuProps) {
                         <div style={{ color: '#FF6666' }}>No gamepads connected</div>
                     ) : (
                         <div style={{ display: 'flex', flexDirection: 'column', gap: '5px' }}>
-                            {gamepads.map((gp, i) => (
+                            {gamepads.map((gp) => (
+                                // Gamepad N drives player N; extra gamepads drive nobody
                                 <div
                                     key={gp.index}
-                                    style={{ color: i === 0 ? '#FFA500' : '#00FF7F' }}
+                                    style={{ color: PLAYER_COLORS[PLAYER_IDS[gp.index]] ?? '#888' }}
                                 >
-                                    <strong>Player {i + 1}:</strong> {gp.id.split('(')[0].trim()}
+                                    <strong>Player {gp.index + 1}:</strong>{' '}
+                                    {gp.id.split('(')[0].trim()}
                                 </div>
                             ))}
                             {gamepads.length === 1 && (
@@ -269,23 +341,6 @@ export function MainMenu({ onStartGame }: MainMenuProps) {
                         margin: '0 auto',
                     }}
                 >
-                    <input
-                        type="text"
-                        placeholder="Custom seed (optional)"
-                        value={customSeed}
-                        onChange={(e) => setCustomSeed(e.target.value)}
-                        style={{
-                            padding: '12px 16px',
-                            fontSize: '16px',
-                            borderRadius: '8px',
-                            border: '2px solid #2A4A6A',
-                            backgroundColor: 'rgba(26, 42, 58, 0.8)',
-                            color: '#FFFFFF',
-                            outline: 'none',
-                            textAlign: 'center',
-                        }}
-                    />
-
                     <button
                         onClick={handleStart}
                         style={{
@@ -347,6 +402,216 @@ export function MainMenu({ onStartGame }: MainMenuProps) {
                         )}
                     </button>
 
+                    <div style={{ display: 'flex', gap: '8px' }}>
+                        <button
+                            onClick={handleStartVsCpu}
+                            style={{
+                                flex: 1,
+                                padding: '14px 20px',
+                                fontSize: '18px',
+                                fontWeight: 'bold',
+                                borderRadius: '8px',
+                                border: 'none',
+                                backgroundColor: '#8A5AD9',
+                                color: '#FFFFFF',
+                                cursor: 'pointer',
+                                transition: 'all 0.2s',
+                            }}
+                            onMouseOver={(e) => {
+                                e.currentTarget.style.backgroundColor = '#9A6AE9';
+                                e.currentTarget.style.transform = 'scale(1.02)';
+                            }}
+                            onMouseOut={(e) => {
+                                e.currentTarget.style.backgroundColor = '#8A5AD9';
+                                e.currentTarget.style.transform = 'scale(1)';
+                            }}
+                        >
+                            🤖 PLAY VS CPU
+                        </button>
+                        {Object.values(CpuDifficulty).map((difficulty) => (
+                            <button
+                                key={difficulty}
+                                onClick={() => setCpuDifficulty(difficulty)}
+                                style={{
+                                    ...difficultyButtonStyle,
+                                    backgroundColor:
+                                        difficulty === cpuDifficulty ? '#8A5AD9' : 'transparent',
+                                    color: difficulty === cpuDifficulty ? '#FFFFFF' : '#B89AE9',
+                                }}
+                            >
+                                {difficulty.toUpperCase()}
+                            </button>
+                        ))}
+                    </div>
+
+                    <button
+                        onClick={onStartSolo}
+                        style={{
+                            padding: '14px 20px',
+                            fontSize: '18px',
+                            fontWeight: 'bold',
+                            borderRadius: '8px',
+                            border: 'none',
+                            backgroundColor: '#C9762E',
+                            color: '#FFFFFF',
+                            cursor: 'pointer',
+                            transition: 'all 0.2s',
+                        }}
+                        onMouseOver={(e) => {
+                            e.currentTarget.style.backgroundColor = '#D9863E';
+                            e.currentTarget.style.transform = 'scale(1.02)';
+                        }}
+                        onMouseOut={(e) => {
+                            e.currentTarget.style.backgroundColor = '#C9762E';
+                            e.currentTarget.style.transform = 'scale(1)';
+                        }}
+                    >
+                        🤿 SOLO DIVE
+                    </button>
+
+                    <div style={dailyPanelStyle}>
+                        <div style={{ fontSize: '14px', color: '#888' }}>
+                            🗓️ DAILY DIVE · {dailyDateKey} ·{' '}
+                            {formatSeed(getDailySeed(dailyDateKey))}
+                        </div>
+                        <div style={{ fontSize: '13px', color: '#AAC' }}>
+                            Today:{' '}
+                            {dailyStatus.official
+                                ? formatDailyResult(dailyStatus.official)
+                                : dailyStatus.officialUsed
+                                  ? 'attempt abandoned'
+                                  : 'not dived yet'}
+                            {dailyStatus.practiceBest &&
+                                ` · practice best ${dailyStatus.practiceBest.score}`}
+                        </div>
+                        {dailyStatus.best && (
+                            <div style={{ fontSize: '13px', color: '#FFD700' }}>
+                                Local best: {formatDailyResult(dailyStatus.best)} on{' '}
+                                {dailyStatus.best.dateKey}
+                            </div>
+                        )}
+                        <div style={{ display: 'flex', gap: '8px' }}>
+                            <button
+                                onClick={() => onStartDaily(false)}
+                                disabled={dailyStatus.officialUsed}
+                                style={{
+                                    ...dailyButtonStyle,
+                                    flex: 2,
+                                    backgroundColor: dailyStatus.officialUsed ? '#333' : '#C9762E',
+                                    color: dailyStatus.officialUsed ? '#666' : '#FFFFFF',
+                                    cursor: dailyStatus.officialUsed ? 'not-allowed' : 'pointer',
+                                }}
+                            >
+                                {dailyStatus.officialUsed ? 'DIVED TODAY' : 'OFFICIAL ATTEMPT'}
+                            </button>
+                            <button
+                                onClick={() => onStartDaily(true)}
+                                style={{
+                                    ...dailyButtonStyle,
+                                    flex: 1,
+                                    backgroundColor: 'transparent',
+                                    color: '#E9A66E',
+                                }}
+                            >
+                                PRACTICE
+                            </button>
+                        </div>
+                    </div>
+
+                    <button
+                        onClick={onPlayOnline}
+                        style={{
+                            padding: '14px 20px',
+                            fontSize: '18px',
+                            fontWeight: 'bold',
+                            borderRadius: '8px',
+                            border: 'none',
+                            backgroundColor: '#2E8B8B',
+                            color: '#FFFFFF',
+                            cursor: 'pointer',
+                            transition: 'all 0.2s',
+                        }}
+                        onMouseOver={(e) => {
+                            e.currentTarget.style.backgroundColor = '#3E9B9B';
+                            e.currentTarget.style.transform = 'scale(1.02)';
+                        }}
+                        onMouseOut={(e) => {
+                            e.currentTarget.style.backgroundColor = '#2E8B8B';
+                            e.currentTarget.style.transform = 'scale(1)';
+                        }}
+                    >
+                        🌐 PLAY ONLINE
+                    </button>
+
+                    <button
+                        onClick={() => replayInputRef.current?.click()}
+                        style={{
+                            padding: '12px 24px',
+                            fontSize: '16px',
+                            borderRadius: '8px',
+                            border: '2px solid #2A4A6A',
+                            backgroundColor: 'transparent',
+                            color: '#87CEEB',
+                            cursor: 'pointer',
+                            transition: 'all 0.2s',
+                        }}
+                    >
+                        📂 LOAD REPLAY
+                    </button>
+                    <button
+                        onClick={onShowLeaderboards}
+                        style={{
+                            padding: '12px 24px',
+                            fontSize: '16px',
+                            borderRadius: '8px',
+                            border: '2px solid #2A4A6A',
+                            backgroundColor: 'transparent',
+                            color: '#FFD700',
+                            cursor: 'pointer',
+                            transition: 'all 0.2s',
+                        }}
+                    >
+                        🏆 LEADERBOARDS
+                    </button>
+                    <button
+                        onClick={() => ghostInputRef.current?.click()}
+                        style={{
+                            padding: '12px 24px',
+                            fontSize: '16px',
+                            borderRadius: '8px',
+                            border: '2px solid #2A4A6A',
+                            backgroundColor: 'transparent',
+                            color: '#C9A0E9',
+                            cursor: 'pointer',
+                            transition: 'all 0.2s',
+                        }}
+                    >
+                        👻 RACE A GHOST
+                    </button>
+                    <input
+                        ref={replayInputRef}
+                        type="file"
+                        accept={`${REPLAY_FILE_EXTENSION},application/json`}
+                        onChange={(e) => {
+                            handleReplayFile(e.target.files?.[0]);
+                            e.target.value = '';
+                        }}
+                        style={{ display: 'none' }}
+                    />
+                    <input
+                        ref={ghostInputRef}
+                        type="file"
+                        accept={`${REPLAY_FILE_EXTENSION},application/json`}
+                        onChange={(e) => {
+                            handleGhostFile(e.target.files?.[0]);
+                            e.target.value = '';
+                        }}
+                        style={{ display: 'none' }}
+                    />
+                    {replayError && (
+                        <div style={{ color: '#FF6666', fontSize: '13px' }}>{replayError}</div>
+                    )}
+
                     <button
                         onClick={() => setShowControls(!showControls)}
                         style={{
@@ -375,67 +640,57 @@ export function MainMenu({ onStartGame }: MainMenuProps) {
                         backgroundColor: 'rgba(0, 0, 0, 0.6)',
                         borderRadius: '12px',
                         border: '1px solid #2A4A6A',
-                        maxWidth: '700px',
+                        maxWidth: '900px',
                     }}
                 >
                     <h3 style={{ marginTop: 0, marginBottom: '15px', color: '#87CEEB' }}>
                         ⌨️ Keyboard Controls
                     </h3>
 
-                    <div style={{ display: 'flex', gap: '40px', justifyContent: 'center' }}>
-                        <div>
-                            <h4 style={{ color: '#FFA500', margin: '0 0 10px 0' }}>Player 1</h4>
-                            <div
-                                style={{
-                                    fontFamily: 'monospace',
-                                    lineHeight: '1.8',
-                                    fontSize: '14px',
-                                }}
-                            >
-                                <div>
-                                    <kbd style={kbdStyle}>W</kbd>
-                                    <kbd style={kbdStyle}>A</kbd>
-                                    <kbd style={kbdStyle}>S</kbd>
-                                    <kbd style={kbdStyle}>D</kbd> Move
-                                </div>
-                                <div>
-                                    <kbd style={kbdStyle}>Q</kbd> Eject
-                                </div>
-                                <div>
-                                    <kbd style={kbdStyle}>E</kbd> 🚀 Rocket
-                                </div>
-                                <div>
-                                    <kbd style={kbdStyle}>R</kbd> 💣 Mine
-                                </div>
-                            </div>
-                        </div>
-
-                        <div>
-                            <h4 style={{ color: '#00FF7F', margin: '0 0 10px 0' }}>Player 2</h4>
-                            <div
-                                style={{
-                                    fontFamily: 'monospace',
-                                    lineHeight: '1.8',
-                                    fontSize: '14px',
-                                }}
-                            >
-                                <div>
-                                    <kbd style={kbdStyle}>↑</kbd>
-                                    <kbd style={kbdStyle}>←</kbd>
-                                    <kbd style={kbdStyle}>↓</kbd>
-                                    <kbd style={kbdStyle}>→</kbd> Move
-                                </div>
-                                <div>
-                                    <kbd style={kbdStyle}>/</kbd> Eject
-                                </div>
-                                <div>
-                                    <kbd style={kbdStyle}>.</kbd> 🚀 Rocket
+                    <div style={{ display: 'flex', gap: '30px', justifyContent: 'center' }}>
+                        {PLAYER_IDS.map((playerId) => {
+                            const keys = getKeyLabels(controlBindings.keys[playerId]);
+                            return (
+                                <div key={playerId}>
+                                    <h4
+                                        style={{
+                                            color: PLAYER_COLORS[playerId],
+                                            margin: '0 0 10px 0',
+                                        }}
+                                    >
+                                        Player {getSeatNumber(playerId)}
+                                    </h4>
+                                    <div
+                                        style={{
+                                            fontFamily: 'monospace',
+                                            lineHeight: '1.8',
+                                            fontSize: '14px',
+                                        }}
+                                    >
+                                        <div>
+                                            {keys.move.map((key, i) => (
+                                                <kbd key={i} style={kbdStyle}>
+                                                    {key}
+                                                </kbd>
+                                            ))}{' '}
+                                            Move
+                                        </div>
+                                        <div>
+                                            <kbd style={kbdStyle}>{keys.eject}</kbd> Eject
+                                        </div>
+                                        <div>
+                                            <kbd style={kbdStyle}>{keys.rocket}</kbd> 🚀 Rocket
+                                        </div>
+                                        <div>
+                                            <kbd style={kbdStyle}>{keys.mine}</kbd> 💣 Mine
+                                        </div>
+                                        <div>
+                                            <kbd style={kbdStyle}>{keys.target}</kbd> 🎯 Target
+                                        </div>
+                                    </div>
                                 </div>
-                                <div>
-                                    <kbd style={kbdStyle}>,</kbd> 💣 Mine
-                                </div>
-                            </div>
-                        </div>
+                            );
+                        })}
                     </div>
 
                     <h3 style={{ marginTop: '20px', marginBottom: '15px', color: '#87CEEB' }}>
@@ -452,15 +707,27 @@ export function MainMenu({ onStartGame }: MainMenuProps) {
                         <div>
                             <strong>Left Stick / D-Pad:</strong> Move
                         </div>
-                        <div>
-                            <strong>A / X:</strong> 🚀 Fire Rocket
-                        </div>
-                        <div>
-                            <strong>B / Circle:</strong> 💣 Deploy Mine
-                        </div>
-                        <div>
-                            <strong>X / Square:</strong> Eject
-                        </div>
+                        {PLAYER_IDS.map((playerId) => (
+                            <div key={playerId}>
+                                <strong style={{ color: PLAYER_COLORS[playerId] }}>
+                                    P{getSeatNumber(playerId)}:
+                                </strong>{' '}
+                                {GAMEPAD_ACTIONS.map((action) =>
+                                    [
+                                        controlBindings.gamepad[playerId][action]
+                                            .map(getGamepadButtonLabel)
+                                            .join('/'),
+                                        GAMEPAD_ACTION_NAMES[action],
+                                    ].join(' ')
+                                ).join(' | ')}
+                            </div>
+                        ))}
+                    </div>
+
+                    <div style={{ textAlign: 'center', marginTop: '15px' }}>
+                        <button onClick={onShowControls} style={rebindButtonStyle}>
+                            🎛️ REBIND CONTROLS
+                        </button>
                     </div>
 
                     <div
@@ -493,6 +760,57 @@ export function MainMenu({ onStartGame }: MainMenuProps) {
     );
 }
 
+/** How each gamepad action is named in the controls panel */
+const GAMEPAD_ACTION_NAMES: Record<GamepadAction, string> = {
+    rocket: '🚀 rocket',
+    mine: '💣 mine',
+    eject: 'eject',
+    target: '🎯 target',
+};
+
+/** One line about a Daily Dive result */
+function formatDailyResult(result: DailyResult): string {
+    return `${result.depth}m ${result.escaped ? 'escaped' : 'lost'} · score ${result.score}`;
+}
+
+const dailyPanelStyle: React.CSSProperties = {
+    display: 'flex',
+    flexDirection: 'column',
+    gap: '6px',
+    padding: '10px 12px',
+    backgroundColor: 'rgba(0, 0, 0, 0.4)',
+    borderRadius: '8px',
+    border: '1px solid #6A4A2A',
+};
+
+const dailyButtonStyle: React.CSSProperties = {
+    padding: '8px 12px',
+    fontSize: '14px',
+    fontWeight: 'bold',
+    borderRadius: '8px',
+    border: '2px solid #C9762E',
+    cursor: 'pointer',
+};
+
+const difficultyButtonStyle: React.CSSProperties = {
+    padding: '6px 8px',
+    fontSize: '11px',
+    fontWeight: 'bold',
+    borderRadius: '8px',
+    border: '2px solid #8A5AD9',
+    cursor: 'pointer',
+};
+
+const rebindButtonStyle: React.CSSProperties = {
+    padding: '8px 16px',
+    fontSize: '14px',
+    borderRadius: '8px',
+    border: '2px solid #4A90D9',
+    backgroundColor: 'transparent',
+    color: '#4A90D9',
+    cursor: 'pointer',
+};
+
 const kbdStyle: React.CSSProperties = {
     display: 'inline-block',
     padding: '2px 8px',
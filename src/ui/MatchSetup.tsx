@@ -0,0 +1,381 @@
+/**
+ * Match setup screen shown between the main menu and a dive.
+ * Picks the house rules and seed for one match and remembers them as the last-used setup.
+ */
+
+import { useState, useEffect, useCallback } from 'react';
+import type { PlayerMap } from '../engine/types';
+import { PLAYER_IDS } from '../engine/types';
+import { generateRandomSeed } from '../engine/rng';
+import { parseSeedInput } from '../engine/seedPhrase';
+import { RulesetPreset } from '../engine/ruleset';
+import type { CpuDifficulty } from '../engine/cpuPlayer';
+import type { MatchRules } from '../engine/matchRules';
+import type { SharedChallenge } from '../engine/shareLinks';
+import {
+    DEFAULT_MATCH_RULES,
+    MAX_DEPTH_OPTIONS,
+    PickupFrequency,
+    STARTING_HP_OPTIONS,
+    WEAR_MULTIPLIER_OPTIONS,
+    describeMatchRules,
+} from '../engine/matchRules';
+import {
+    LOCAL_PLAYER_COUNT_OPTIONS,
+    loadLastMatchSetup,
+    saveLastMatchSetup,
+} from './matchSetupStorage';
+import { PLAYER_COLORS, getPlayerLabel } from './playerLabels';
+
+interface MatchSetupProps {
+    /** Set when player 2 will be the CPU */
+    cpuDifficulty: CpuDifficulty | null;
+    /** Set for a one-submarine dive */
+    solo: boolean;
+    /** Challenge link being answered; its seed and preset replace the last-used setup */
+    challenge: SharedChallenge | null;
+    /** Names are given for the seats players typed one for */
+    onStart: (
+        rules: MatchRules,
+        seed: number,
+        playerCount: number,
+        playerNames: PlayerMap<string>
+    ) => void;
+    onBack: () => void;
+}
+
+/** One row of mutually exclusive choices */
+function OptionRow<T extends string | number | boolean>({
+    label,
+    options,
+    value,
+    format,
+    onChange,
+}: {
+    label: string;
+    options: readonly T[];
+    value: T;
+    format: (option: T) => string;
+    onChange: (option: T) => void;
+}) {
+    return (
+        <div style={rowStyle}>
+            <div style={rowLabelStyle}>{label}</div>
+            <div style={{ display: 'flex', gap: '6px', flex: 1 }}>
+                {options.map((option) => (
+                    <button
+                        key={String(option)}
+                        onClick={() => onChange(option)}
+                        style={{
+                            ...optionButtonStyle,
+                            backgroundColor: option === value ? '#4A90D9' : 'transparent',
+                            color: option === value ? '#FFFFFF' : '#87CEEB',
+                        }}
+                    >
+                        {format(option)}
+                    </button>
+                ))}
+            </div>
+        </div>
+    );
+}
+
+const onOff = (enabled: boolean) => (enabled ? 'ON' : 'OFF');
+
+export function MatchSetup({ cpuDifficulty, solo, challenge, onStart, onBack }: MatchSetupProps) {
+    const [initialSetup] = useState(loadLastMatchSetup);
+    // A challenge is dived on standard house rules, so everyone answering it plays the same
+    const [rules, setRules] = useState<MatchRules>(
+        challenge ? { ...DEFAULT_MATCH_RULES, preset: challenge.preset } : initialSetup.rules
+    );
+    const [seedText, setSeedText] = useState(
+        challenge ? String(challenge.seed) : initialSetup.seedText
+    );
+    // Rules and seed prefilled from a challenge are the challenger's, not the player's
+    // last used ones, so they are only remembered once the player edits them
+    const [rulesEdited, setRulesEdited] = useState(!challenge);
+    const [seedEdited, setSeedEdited] = useState(!challenge);
+    const [localPlayerCount, setLocalPlayerCount] = useState(initialSetup.playerCount);
+    // The player count is only a choice for local versus; CPU matches are always one on one
+    const choosesPlayerCount = !solo && !cpuDifficulty;
+    const playerCount = solo ? 1 : cpuDifficulty ? 2 : localPlayerCount;
+    // The CPU keeps its own name
+    const namedSeatCount = cpuDifficulty ? 1 : playerCount;
+    const namedSeats = PLAYER_IDS.slice(0, namedSeatCount);
+    const [playerNames, setPlayerNames] = useState(initialSetup.playerNames);
+
+    const setPlayerName = (seat: number, name: string) =>
+        setPlayerNames((current) => {
+            const next = [...current];
+            next[seat] = name;
+            return next;
+        });
+
+    const setRule = <K extends keyof MatchRules>(key: K, value: MatchRules[K]) => {
+        setRules((current) => ({ ...current, [key]: value }));
+        setRulesEdited(true);
+    };
+
+    const handleStart = useCallback(() => {
+        saveLastMatchSetup({
+            rules: rulesEdited ? rules : initialSetup.rules,
+            seedText: seedEdited ? seedText : initialSetup.seedText,
+            playerCount: localPlayerCount,
+            playerNames,
+        });
+        const seed = parseSeedInput(seedText) ?? generateRandomSeed();
+        const names: PlayerMap<string> = {};
+        PLAYER_IDS.slice(0, namedSeatCount).forEach((playerId, seat) => {
+            const name = playerNames[seat]?.trim();
+            if (name) names[playerId] = name;
+        });
+        onStart(rules, seed, playerCount, names);
+    }, [
+        rules,
+        rulesEdited,
+        seedText,
+        seedEdited,
+        initialSetup,
+        localPlayerCount,
+        playerCount,
+        playerNames,
+        namedSeatCount,
+        onStart,
+    ]);
+
+    // Enter, or X on any gamepad, starts the dive
+    useEffect(() => {
+        const handleKeyDown = (e: KeyboardEvent) => {
+            if (e.key === 'Enter') handleStart();
+        };
+
+        // Buttons already held when the screen opens (from the menu press) don't count
+        let prevPressed: boolean[] | null = null;
+        const pollGamepads = () => {
+            const pads = Array.from(navigator.getGamepads());
+            const pressed = pads.map((gp) => gp?.buttons[2]?.pressed ?? false);
+            if (prevPressed && pressed.some((isPressed, i) => isPressed && !prevPressed![i])) {
+                handleStart();
+            }
+            prevPressed = pressed;
+        };
+
+        window.addEventListener('keydown', handleKeyDown);
+        const interval = setInterval(pollGamepads, 100);
+        return () => {
+            window.removeEventListener('keydown', handleKeyDown);
+            clearInterval(interval);
+        };
+    }, [handleStart]);
+
+    const summary = describeMatchRules(rules);
+
+    return (
+        <div style={screenStyle}>
+            <h1 style={{ fontSize: '42px', color: '#87CEEB', marginBottom: '10px' }}>
+                ⚙️ MATCH SETUP
+            </h1>
+            <p style={{ color: '#8AA', marginBottom: '30px' }}>
+                {solo
+                    ? 'Solo dive: score your deepest depth and make it back up'
+                    : cpuDifficulty
+                      ? `Versus the ${cpuDifficulty} CPU`
+                      : `${playerCount} players on one machine`}{' '}
+                · {summary.length > 0 ? summary.join(' · ') : 'Standard rules'}
+            </p>
+
+            <div style={panelStyle}>
+                {choosesPlayerCount && (
+                    <OptionRow
+                        label="Players"
+                        options={LOCAL_PLAYER_COUNT_OPTIONS}
+                        value={localPlayerCount}
+                        format={String}
+                        onChange={setLocalPlayerCount}
+                    />
+                )}
+                <div style={rowStyle}>
+                    <div style={rowLabelStyle}>{namedSeats.length > 1 ? 'Names' : 'Name'}</div>
+                    <div style={{ display: 'flex', gap: '6px', flex: 1, minWidth: 0 }}>
+                        {namedSeats.map((playerId, seat) => (
+                            <input
+                                key={playerId}
+                                type="text"
+                                maxLength={16}
+                                placeholder={getPlayerLabel(playerId, null)}
+                                value={playerNames[seat] ?? ''}
+                                onChange={(e) => setPlayerName(seat, e.target.value)}
+                                style={{
+                                    ...inputStyle,
+                                    minWidth: 0,
+                                    padding: '8px 6px',
+                                    fontSize: '13px',
+                                    borderColor: PLAYER_COLORS[playerId],
+                                }}
+                            />
+                        ))}
+                    </div>
+                </div>
+                <OptionRow
+                    label="Difficulty"
+                    options={Object.values(RulesetPreset)}
+                    value={rules.preset}
+                    format={(preset) => preset.toUpperCase()}
+                    onChange={(preset) => setRule('preset', preset)}
+                />
+                <OptionRow
+                    label="Weapons"
+                    options={[true, false]}
+                    value={rules.weapons}
+                    format={onOff}
+                    onChange={(weapons) => setRule('weapons', weapons)}
+                />
+                <OptionRow
+                    label="Angler fish"
+                    options={[true, false]}
+                    value={rules.anglerFish}
+                    format={onOff}
+                    onChange={(anglerFish) => setRule('anglerFish', anglerFish)}
+                />
+                <OptionRow
+                    label="Pickups"
+                    options={Object.values(PickupFrequency)}
+                    value={rules.pickupFrequency}
+                    format={(frequency) => frequency.toUpperCase()}
+                    onChange={(frequency) => setRule('pickupFrequency', frequency)}
+                />
+                <OptionRow
+                    label="Starting HP"
+                    options={STARTING_HP_OPTIONS}
+                    value={rules.startingHp}
+                    format={String}
+                    onChange={(hp) => setRule('startingHp', hp)}
+                />
+                <OptionRow
+                    label="Wear"
+                    options={WEAR_MULTIPLIER_OPTIONS}
+                    value={rules.wearMultiplier}
+                    format={(multiplier) => `×${multiplier}`}
+                    onChange={(multiplier) => setRule('wearMultiplier', multiplier)}
+                />
+                <OptionRow
+                    label="Max depth"
+                    options={MAX_DEPTH_OPTIONS}
+                    value={rules.maxDepth}
+                    format={(depth) => `${depth}m`}
+                    onChange={(depth) => setRule('maxDepth', depth)}
+                />
+                <div style={rowStyle}>
+                    <div style={rowLabelStyle}>Seed</div>
+                    <input
+                        type="text"
+                        placeholder="Random, or a number or phrase (rusty-turtle-abyss)"
+                        value={seedText}
+                        onChange={(e) => {
+                            setSeedText(e.target.value);
+                            setSeedEdited(true);
+                        }}
+                        style={inputStyle}
+                    />
+                </div>
+
+                <button onClick={handleStart} style={startButtonStyle}>
+                    ⬇️ START DIVE
+                </button>
+                <div style={{ display: 'flex', gap: '8px' }}>
+                    <button
+                        onClick={() => {
+                            setRules(DEFAULT_MATCH_RULES);
+                            setRulesEdited(true);
+                        }}
+                        style={{ ...secondaryButtonStyle, flex: 1 }}
+                    >
+                        RESET RULES
+                    </button>
+                    <button onClick={onBack} style={{ ...secondaryButtonStyle, flex: 1 }}>
+                        🏠 MAIN MENU
+                    </button>
+                </div>
+            </div>
+        </div>
+    );
+}
+
+const screenStyle: React.CSSProperties = {
+    position: 'fixed',
+    inset: 0,
+    display: 'flex',
+    flexDirection: 'column',
+    alignItems: 'center',
+    justifyContent: 'center',
+    background: 'linear-gradient(180deg, #0A1628 0%, #050B14 100%)',
+    color: '#FFFFFF',
+    fontFamily: 'system-ui, -apple-system, sans-serif',
+};
+
+const panelStyle: React.CSSProperties = {
+    display: 'flex',
+    flexDirection: 'column',
+    gap: '12px',
+    width: '560px',
+    padding: '25px',
+    backgroundColor: 'rgba(0, 0, 0, 0.4)',
+    borderRadius: '12px',
+};
+
+const rowStyle: React.CSSProperties = {
+    display: 'flex',
+    alignItems: 'center',
+    gap: '12px',
+};
+
+const rowLabelStyle: React.CSSProperties = {
+    width: '120px',
+    color: '#AAA',
+    fontSize: '14px',
+    textAlign: 'left',
+};
+
+const optionButtonStyle: React.CSSProperties = {
+    flex: 1,
+    padding: '8px 6px',
+    fontSize: '13px',
+    fontWeight: 'bold',
+    borderRadius: '6px',
+    border: '2px solid #4A90D9',
+    cursor: 'pointer',
+};
+
+const inputStyle: React.CSSProperties = {
+    flex: 1,
+    padding: '10px 14px',
+    fontSize: '15px',
+    borderRadius: '8px',
+    border: '2px solid #2A4A6A',
+    backgroundColor: 'rgba(26, 42, 58, 0.8)',
+    color: '#FFFFFF',
+    outline: 'none',
+    textAlign: 'center',
+};
+
+const startButtonStyle: React.CSSProperties = {
+    marginTop: '10px',
+    padding: '16px 30px',
+    fontSize: '20px',
+    fontWeight: 'bold',
+    borderRadius: '8px',
+    border: 'none',
+    backgroundColor: '#4A90D9',
+    color: '#FFFFFF',
+    cursor: 'pointer',
+};
+
+const secondaryButtonStyle: React.CSSProperties = {
+    padding: '12px 24px',
+    fontSize: '16px',
+    borderRadius: '8px',
+    border: '2px solid #2A4A6A',
+    backgroundColor: 'transparent',
+    color: '#87CEEB',
+    cursor: 'pointer',
+};
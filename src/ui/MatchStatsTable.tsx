@@ -0,0 +1,172 @@
+/**
+ * Side-by-side comparison of every player's match statistics.
+ */
+
+import type { PlayerId, PlayerMap, PlayerMatchStats } from '../engine/types';
+import { ObstacleType } from '../engine/types';
+import { FIXED_DT } from '../engine/config';
+import { PLAYER_COLORS } from './playerLabels';
+
+interface StatRow {
+    label: string;
+    value: (stats: PlayerMatchStats) => number;
+    format?: (stats: PlayerMatchStats) => string;
+    /** Which side of the comparison gets highlighted, if either */
+    better: 'higher' | 'lower' | null;
+}
+
+function formatSeconds(frames: number): string {
+    return `${(frames * FIXED_DT).toFixed(1)}s`;
+}
+
+function getTotalCollisions(stats: PlayerMatchStats): number {
+    return Object.values(stats.collisions).reduce((sum, count) => sum + count, 0);
+}
+
+const STAT_ROWS: StatRow[] = [
+    {
+        label: 'Distance travelled',
+        value: (s) => s.distanceTravelled,
+        format: (s) => `${Math.floor(s.distanceTravelled)}m`,
+        better: null,
+    },
+    {
+        label: 'Time descending',
+        value: (s) => s.descentFrames,
+        format: (s) => formatSeconds(s.descentFrames),
+        better: null,
+    },
+    {
+        label: 'Time ascending',
+        value: (s) => s.ascentFrames,
+        format: (s) => formatSeconds(s.ascentFrames),
+        better: null,
+    },
+    {
+        label: 'Collisions',
+        value: getTotalCollisions,
+        format: (s) =>
+            `${getTotalCollisions(s)} (🪸${s.collisions[ObstacleType.Coral]} ` +
+            `🧊${s.collisions[ObstacleType.IceBlock]} 🐢${s.collisions[ObstacleType.SeaTurtle]})`,
+        better: 'lower',
+    },
+    { label: 'Damage taken', value: (s) => s.damageTaken, better: 'lower' },
+    { label: 'Damage dealt', value: (s) => s.damageDealt, better: 'higher' },
+    {
+        label: 'Rockets hit / fired',
+        value: (s) => s.rocketsHit,
+        format: (s) => `${s.rocketsHit} / ${s.rocketsFired}`,
+        better: 'higher',
+    },
+    { label: 'Mines placed', value: (s) => s.minesPlaced, better: null },
+    { label: 'Pickups collected', value: (s) => s.pickupsCollected, better: 'higher' },
+    { label: 'Fish bites', value: (s) => s.fishBites, better: 'lower' },
+    {
+        label: 'Peak hull wear',
+        value: (s) => s.peakWear,
+        format: (s) => `${Math.floor(s.peakWear)}%`,
+        better: 'lower',
+    },
+];
+
+/** The player who leads a row, or null on a tie, an unranked row or a solo dive */
+function getRowLeader(
+    row: StatRow,
+    playerIds: PlayerId[],
+    stats: PlayerMap<PlayerMatchStats>
+): PlayerId | null {
+    if (!row.better || playerIds.length < 2) return null;
+    const sign = row.better === 'higher' ? 1 : -1;
+    const ranked = [...playerIds].sort(
+        (a, b) => sign * (row.value(stats[b]!) - row.value(stats[a]!))
+    );
+    if (row.value(stats[ranked[0]]!) === row.value(stats[ranked[1]]!)) return null;
+    return ranked[0];
+}
+
+export function MatchStatsTable({
+    playerIds,
+    stats,
+    labels,
+}: {
+    playerIds: PlayerId[];
+    stats: PlayerMap<PlayerMatchStats>;
+    labels: PlayerMap<string>;
+}) {
+    // Two players mirror around the row labels; otherwise the labels lead
+    const columns: Array<PlayerId | null> =
+        playerIds.length === 2 ? [playerIds[0], null, playerIds[1]] : [null, ...playerIds];
+
+    return (
+        <table style={tableStyle}>
+            <thead>
+                <tr>
+                    {columns.map((playerId, i) =>
+                        playerId ? (
+                            <th
+                                key={playerId}
+                                style={{ ...headerCellStyle, color: PLAYER_COLORS[playerId] }}
+                            >
+                                {labels[playerId]}
+                            </th>
+                        ) : (
+                            <th key={i} style={headerCellStyle} />
+                        )
+                    )}
+                </tr>
+            </thead>
+            <tbody>
+                {STAT_ROWS.map((row) => {
+                    const leader = getRowLeader(row, playerIds, stats);
+                    const format = row.format ?? ((s: PlayerMatchStats) => String(row.value(s)));
+                    const valueStyle = (playerId: PlayerId): React.CSSProperties => ({
+                        ...valueCellStyle,
+                        color: leader === playerId ? PLAYER_COLORS[playerId] : '#DDD',
+                        fontWeight: leader === playerId ? 'bold' : 'normal',
+                    });
+                    return (
+                        <tr key={row.label}>
+                            {columns.map((playerId, i) =>
+                                playerId ? (
+                                    <td key={playerId} style={valueStyle(playerId)}>
+                                        {format(stats[playerId]!)}
+                                    </td>
+                                ) : (
+                                    <td key={i} style={labelCellStyle}>
+                                        {row.label}
+                                    </td>
+                                )
+                            )}
+                        </tr>
+                    );
+                })}
+            </tbody>
+        </table>
+    );
+}
+
+const tableStyle: React.CSSProperties = {
+    margin: '0 auto 30px',
+    borderCollapse: 'collapse',
+    fontSize: '14px',
+    backgroundColor: 'rgba(0, 0, 0, 0.3)',
+    borderRadius: '8px',
+};
+
+const headerCellStyle: React.CSSProperties = {
+    padding: '6px 18px',
+    fontSize: '13px',
+    letterSpacing: '1px',
+};
+
+const labelCellStyle: React.CSSProperties = {
+    padding: '3px 18px',
+    color: '#888',
+    textAlign: 'center',
+};
+
+const valueCellStyle: React.CSSProperties = {
+    padding: '3px 18px',
+    fontFamily: 'monospace',
+    textAlign: 'center',
+};
@@ -0,0 +1,320 @@
+/**
+ * Lobby for online matches.
+ * Connects to a relay, creates or joins a room, lets the host pick the seed,
+ * and starts the match once both players are ready.
+ */
+
+import { useState, useEffect, useCallback } from 'react';
+import { RelayClient, getDefaultRelayUrl } from '../net/relayClient';
+import type { OnlineMatch } from '../net/relayClient';
+import type { OnlinePlayerId, RoomInfo } from '../net/protocol';
+import { ROOM_CODE_LENGTH } from '../net/protocol';
+import { formatSeed, parseSeedInput } from '../engine/seedPhrase';
+import { PLAYER_COLORS } from './playerLabels';
+
+interface OnlineLobbyProps {
+    /** Open relay connection, kept by the app across matches */
+    client: RelayClient | null;
+    onClientChange: (client: RelayClient | null) => void;
+    onMatchStart: (match: OnlineMatch) => void;
+    onBack: () => void;
+}
+
+export function OnlineLobby({ client, onClientChange, onMatchStart, onBack }: OnlineLobbyProps) {
+    const [relayUrl, setRelayUrl] = useState(getDefaultRelayUrl);
+    const [connecting, setConnecting] = useState(false);
+    const [error, setError] = useState<string | null>(null);
+    const [room, setRoom] = useState<RoomInfo | null>(client?.room ?? null);
+    const [playerId, setPlayerId] = useState<OnlinePlayerId | null>(client?.playerId ?? null);
+    const [joinCode, setJoinCode] = useState('');
+    const [seedInput, setSeedInput] = useState('');
+
+    // Follow the relay's updates for as long as this connection is open
+    useEffect(() => {
+        if (!client) return;
+
+        const unsubscribe = client.subscribe((message) => {
+            switch (message.type) {
+                case 'joined':
+                case 'room':
+                    setRoom(client.room);
+                    setPlayerId(client.playerId);
+                    setError(null);
+                    break;
+                case 'matchStart':
+                    onMatchStart({
+                        client,
+                        playerId: client.playerId!,
+                        seed: message.seed,
+                        inputDelay: message.inputDelay,
+                    });
+                    break;
+                case 'peerLeft':
+                    setError('Your opponent left the room');
+                    break;
+                case 'error':
+                    setError(message.message);
+                    break;
+            }
+        });
+        const unsubscribeClose = client.onClose(() => {
+            setRoom(null);
+            setPlayerId(null);
+            setError('Lost connection to the relay');
+            onClientChange(null);
+        });
+
+        return () => {
+            unsubscribe();
+            unsubscribeClose();
+        };
+    }, [client, onClientChange, onMatchStart]);
+
+    const handleConnect = useCallback(async () => {
+        setConnecting(true);
+        setError(null);
+        try {
+            onClientChange(await RelayClient.connect(relayUrl.trim()));
+        } catch (e) {
+            setError(e instanceof Error ? e.message : 'Could not connect');
+        } finally {
+            setConnecting(false);
+        }
+    }, [relayUrl, onClientChange]);
+
+    const handleLeaveRoom = useCallback(() => {
+        client?.leaveRoom();
+        setRoom(null);
+        setPlayerId(null);
+    }, [client]);
+
+    const handleBack = useCallback(() => {
+        client?.close();
+        onClientChange(null);
+        onBack();
+    }, [client, onClientChange, onBack]);
+
+    const handleSetSeed = useCallback(() => {
+        const seed = parseSeedInput(seedInput);
+        if (seed !== null) {
+            client?.send({ type: 'setSeed', seed });
+            setSeedInput('');
+        } else {
+            setError('Type a seed number or phrase');
+        }
+    }, [client, seedInput]);
+
+    const isHost = room !== null && playerId === room.host;
+    const localReady = room !== null && playerId !== null && room.slots[playerId].ready;
+
+    return (
+        <div style={screenStyle}>
+            <h1 style={{ fontSize: '42px', color: '#87CEEB', marginBottom: '10px' }}>
+                🌐 PLAY ONLINE
+            </h1>
+            <p style={{ color: '#8AA', marginBottom: '30px' }}>
+                Each browser controls one submarine. Run the relay with{' '}
+                <code style={codeStyle}>npm run relay</code>
+            </p>
+
+            <div style={panelStyle}>
+                {!client && (
+                    <>
+                        <input
+                            type="text"
+                            value={relayUrl}
+                            onChange={(e) => setRelayUrl(e.target.value)}
+                            placeholder="ws://localhost:8787"
+                            style={inputStyle}
+                        />
+                        <button
+                            onClick={handleConnect}
+                            disabled={connecting}
+                            style={primaryButtonStyle}
+                        >
+                            {connecting ? 'CONNECTING…' : '🔌 CONNECT TO RELAY'}
+                        </button>
+                    </>
+                )}
+
+                {client && !room && (
+                    <>
+                        <button
+                            onClick={() => client.send({ type: 'createRoom' })}
+                            style={primaryButtonStyle}
+                        >
+                            ➕ CREATE ROOM
+                        </button>
+                        <div style={{ display: 'flex', gap: '8px' }}>
+                            <input
+                                type="text"
+                                value={joinCode}
+                                onChange={(e) => setJoinCode(e.target.value)}
+                                placeholder="Room code"
+                                maxLength={ROOM_CODE_LENGTH}
+                                style={{ ...inputStyle, flex: 1, textTransform: 'uppercase' }}
+                            />
+                            <button
+                                onClick={() => client.send({ type: 'joinRoom', code: joinCode })}
+                                disabled={joinCode.trim().length !== ROOM_CODE_LENGTH}
+                                style={secondaryButtonStyle}
+                            >
+                                JOIN
+                            </button>
+                        </div>
+                    </>
+                )}
+
+                {room && playerId && (
+                    <>
+                        <div style={{ color: '#888', fontSize: '14px' }}>ROOM CODE</div>
+                        <div style={roomCodeStyle}>{room.code}</div>
+
+                        <div style={{ display: 'flex', gap: '12px' }}>
+                            {(['player1', 'player2'] as const).map((id) => (
+                                <div
+                                    key={id}
+                                    style={{
+                                        ...slotStyle,
+                                        borderColor: room.slots[id].ready
+                                            ? PLAYER_COLORS[id]
+                                            : '#444',
+                                    }}
+                                >
+                                    <div style={{ color: PLAYER_COLORS[id], fontWeight: 'bold' }}>
+                                        {id === 'player1' ? 'PLAYER 1' : 'PLAYER 2'}
+                                        {id === playerId && ' (YOU)'}
+                                    </div>
+                                    <div style={{ fontSize: '13px', color: '#AAA' }}>
+                                        {!room.slots[id].connected
+                                            ? 'Waiting…'
+                                            : room.slots[id].ready
+                                              ? '✅ Ready'
+                                              : 'Not ready'}
+                                    </div>
+                                </div>
+                            ))}
+                        </div>
+
+                        <div style={{ color: '#AAA' }}>
+                            Seed: <strong style={{ color: '#FFF' }}>{formatSeed(room.seed)}</strong>
+                        </div>
+                        {isHost && (
+                            <div style={{ display: 'flex', gap: '8px' }}>
+                                <input
+                                    type="text"
+                                    value={seedInput}
+                                    onChange={(e) => setSeedInput(e.target.value)}
+                                    placeholder="New seed"
+                                    style={{ ...inputStyle, flex: 1 }}
+                                />
+                                <button
+                                    onClick={handleSetSeed}
+                                    disabled={!seedInput.trim()}
+                                    style={secondaryButtonStyle}
+                                >
+                                    SET
+                                </button>
+                            </div>
+                        )}
+
+                        <button
+                            onClick={() => client?.send({ type: 'setReady', ready: !localReady })}
+                            style={{
+                                ...primaryButtonStyle,
+                                backgroundColor: localReady ? '#2E8B57' : '#4A90D9',
+                            }}
+                        >
+                            {localReady ? '✅ READY — WAITING FOR OPPONENT' : '⬇️ READY UP'}
+                        </button>
+                        <button onClick={handleLeaveRoom} style={secondaryButtonStyle}>
+                            LEAVE ROOM
+                        </button>
+                    </>
+                )}
+
+                {error && <div style={{ color: '#FF6666', fontSize: '13px' }}>{error}</div>}
+
+                <button onClick={handleBack} style={secondaryButtonStyle}>
+                    🏠 MAIN MENU
+                </button>
+            </div>
+        </div>
+    );
+}
+
+const screenStyle: React.CSSProperties = {
+    position: 'fixed',
+    inset: 0,
+    display: 'flex',
+    flexDirection: 'column',
+    alignItems: 'center',
+    justifyContent: 'center',
+    background: 'linear-gradient(180deg, #0A1628 0%, #050B14 100%)',
+    color: '#FFFFFF',
+    fontFamily: 'system-ui, -apple-system, sans-serif',
+};
+
+const panelStyle: React.CSSProperties = {
+    display: 'flex',
+    flexDirection: 'column',
+    gap: '15px',
+    width: '380px',
+    padding: '25px',
+    backgroundColor: 'rgba(0, 0, 0, 0.4)',
+    borderRadius: '12px',
+    textAlign: 'center',
+};
+
+const inputStyle: React.CSSProperties = {
+    padding: '12px 16px',
+    fontSize: '16px',
+    borderRadius: '8px',
+    border: '2px solid #2A4A6A',
+    backgroundColor: 'rgba(26, 42, 58, 0.8)',
+    color: '#FFFFFF',
+    outline: 'none',
+    textAlign: 'center',
+};
+
+const primaryButtonStyle: React.CSSProperties = {
+    padding: '16px 30px',
+    fontSize: '18px',
+    fontWeight: 'bold',
+    borderRadius: '8px',
+    border: 'none',
+    backgroundColor: '#4A90D9',
+    color: '#FFFFFF',
+    cursor: 'pointer',
+};
+
+const secondaryButtonStyle: React.CSSProperties = {
+    padding: '12px 24px',
+    fontSize: '16px',
+    borderRadius: '8px',
+    border: '2px solid #2A4A6A',
+    backgroundColor: 'transparent',
+    color: '#87CEEB',
+    cursor: 'pointer',
+};
+
+const roomCodeStyle: React.CSSProperties = {
+    fontSize: '48px',
+    fontFamily: 'monospace',
+    letterSpacing: '12px',
+    color: '#87CEEB',
+};
+
+const slotStyle: React.CSSProperties = {
+    flex: 1,
+    padding: '12px',
+    border: '2px solid',
+    borderRadius: '10px',
+    backgroundColor: 'rgba(0, 0, 0, 0.3)',
+};
+
+const codeStyle: React.CSSProperties = {
+    padding: '2px 6px',
+    backgroundColor: 'rgba(42, 74, 106, 0.8)',
+    borderRadius: '4px',
+};
@@ -0,0 +1,299 @@
+/**
+ * Replay playback screen.
+ * Re-simulates a recorded match through the same updateGameState loop as a live game,
+ * with play/pause, seeking and variable playback speed.
+ */
+
+import { useState, useEffect, useRef, useCallback } from 'react';
+import type { GameState, Replay } from '../engine/types';
+import { createInitialState, updateGameState } from '../engine/gameState';
+import { getReplayInputs } from '../engine/replay';
+import { hashState } from '../engine/snapshot';
+import { FIXED_DT } from '../engine/config';
+import { GameCanvas } from './GameCanvas';
+import { HUD } from './HUD';
+
+interface ReplayViewProps {
+    replay: Replay;
+    onExit: () => void;
+}
+
+/** Selectable playback speeds */
+const PLAYBACK_SPEEDS = [0.25, 0.5, 1, 2, 4];
+
+/** Frames between cached states, so seeking doesn't re-simulate from frame 0 */
+const KEYFRAME_INTERVAL = 300;
+
+/** Frames skipped by the arrow-key seek shortcuts (5 seconds) */
+const SEEK_STEP_FRAMES = 300;
+
+/** Format a frame index as m:ss */
+function formatFrameTime(frame: number): string {
+    const totalSeconds = Math.floor(frame * FIXED_DT);
+    const minutes = Math.floor(totalSeconds / 60);
+    const seconds = totalSeconds % 60;
+    return `${minutes}:${seconds.toString().padStart(2, '0')}`;
+}
+
+export function ReplayView({ replay, onExit }: ReplayViewProps) {
+    const [dimensions, setDimensions] = useState({
+        width: window.innerWidth,
+        height: window.innerHeight,
+    });
+    const [gameState, setGameState] = useState<GameState>(() =>
+        createInitialState(replay.config)
+    );
+    const [playing, setPlaying] = useState(true);
+    const [speed, setSpeed] = useState(1);
+
+    const gameStateRef = useRef(gameState);
+    const keyframesRef = useRef(new Map<number, GameState>());
+    const accumulatedTimeRef = useRef(0);
+
+    const atEnd = gameState.frame >= replay.frameCount || gameState.gameOver;
+    const verified = atEnd ? hashState(gameState) === replay.finalStateHash : null;
+
+    // Handle window resize
+    useEffect(() => {
+        const handleResize = () => {
+            setDimensions({
+                width: window.innerWidth,
+                height: window.innerHeight,
+            });
+        };
+
+        window.addEventListener('resize', handleResize);
+        return () => window.removeEventListener('resize', handleResize);
+    }, []);
+
+    /**
+     * Step a state forward through the replay's inputs,
+     * caching keyframes along the way for later seeks.
+     */
+    const advance = useCallback(
+        (state: GameState, frames: number): GameState => {
+            let next = state;
+            for (let i = 0; i < frames; i++) {
+                if (next.gameOver || next.frame >= replay.frameCount) break;
+                next = updateGameState(next, getReplayInputs(replay, next.frame), FIXED_DT);
+                if (next.frame % KEYFRAME_INTERVAL === 0) {
+                    keyframesRef.current.set(next.frame, next);
+                }
+            }
+            return next;
+        },
+        [replay]
+    );
+
+    const showState = useCallback((state: GameState) => {
+        gameStateRef.current = state;
+        accumulatedTimeRef.current = 0;
+        setGameState(state);
+    }, []);
+
+    /** Jump to an arbitrary frame, starting from the nearest cached keyframe */
+    const seekTo = useCallback(
+        (targetFrame: number) => {
+            const target = Math.max(0, Math.min(targetFrame, replay.frameCount));
+
+            let start: GameState | undefined;
+            for (
+                let frame = Math.floor(target / KEYFRAME_INTERVAL) * KEYFRAME_INTERVAL;
+                frame > 0 && !start;
+                frame -= KEYFRAME_INTERVAL
+            ) {
+                start = keyframesRef.current.get(frame);
+            }
+
+            const current = gameStateRef.current;
+            if (current.frame <= target && (!start || current.frame > start.frame)) {
+                start = current;
+            }
+
+            start ??= createInitialState(replay.config);
+            showState(advance(start, target - start.frame));
+        },
+        [replay, advance, showState]
+    );
+
+    const togglePlaying = useCallback(() => {
+        if (!playing && gameStateRef.current.frame >= replay.frameCount) {
+            // Restart from the beginning when pressing play at the end
+            seekTo(0);
+        }
+        setPlaying(!playing);
+    }, [playing, replay.frameCount, seekTo]);
+
+    // Playback loop
+    useEffect(() => {
+        if (!playing) return;
+
+        let lastTime = 0;
+        let frameId = 0;
+
+        const tick = (timestamp: number) => {
+            if (lastTime === 0) {
+                lastTime = timestamp;
+            }
+
+            const deltaTime = Math.min((timestamp - lastTime) / 1000, 0.2);
+            lastTime = timestamp;
+            accumulatedTimeRef.current += deltaTime * speed;
+
+            const steps = Math.floor(accumulatedTimeRef.current / FIXED_DT);
+            if (steps > 0) {
+                accumulatedTimeRef.current -= steps * FIXED_DT;
+                const next = advance(gameStateRef.current, steps);
+                if (next !== gameStateRef.current) {
+                    gameStateRef.current = next;
+                    setGameState(next);
+                }
+            }
+
+            const current = gameStateRef.current;
+            if (current.gameOver || current.frame >= replay.frameCount) {
+                setPlaying(false);
+                return;
+            }
+
+            frameId = requestAnimationFrame(tick);
+        };
+
+        frameId = requestAnimationFrame(tick);
+        return () => cancelAnimationFrame(frameId);
+    }, [playing, speed, advance, replay.frameCount]);
+
+    // Keyboard shortcuts: Space = play/pause, arrows = seek, Escape = exit
+    useEffect(() => {
+        const handleKeyDown = (e: KeyboardEvent) => {
+            if (e.code === 'Space') {
+                e.preventDefault();
+                togglePlaying();
+            } else if (e.code === 'ArrowLeft') {
+                e.preventDefault();
+                seekTo(gameStateRef.current.frame - SEEK_STEP_FRAMES);
+            } else if (e.code === 'ArrowRight') {
+                e.preventDefault();
+                seekTo(gameStateRef.current.frame + SEEK_STEP_FRAMES);
+            } else if (e.code === 'Escape') {
+                onExit();
+            }
+        };
+
+        window.addEventListener('keydown', handleKeyDown);
+        return () => window.removeEventListener('keydown', handleKeyDown);
+    }, [togglePlaying, seekTo, onExit]);
+
+    return (
+        <div
+            style={{
+                position: 'fixed',
+                top: 0,
+                left: 0,
+                width: '100vw',
+                height: '100vh',
+                backgroundColor: '#0A1628',
+                overflow: 'hidden',
+            }}
+        >
+            <GameCanvas gameState={gameState} width={dimensions.width} height={dimensions.height} />
+            <HUD gameState={gameState} />
+
+            {/* Replay badge */}
+            <div
+                style={{
+                    position: 'absolute',
+                    top: 20,
+                    left: '50%',
+                    transform: 'translateX(-50%)',
+                    padding: '6px 16px',
+                    backgroundColor: 'rgba(0, 0, 0, 0.6)',
+                    borderRadius: '8px',
+                    color: '#87CEEB',
+                    fontFamily: 'monospace',
+                    fontSize: '14px',
+                    letterSpacing: '2px',
+                }}
+            >
+                🎬 REPLAY
+                {verified !== null && (
+                    <span style={{ marginLeft: '12px', color: verified ? '#44FF44' : '#FF4444' }}>
+                        {verified ? '✓ VERIFIED' : '⚠ DESYNC'}
+                    </span>
+                )}
+            </div>
+
+            {/* Playback controls */}
+            <div
+                style={{
+                    position: 'absolute',
+                    bottom: 50,
+                    left: '50%',
+                    transform: 'translateX(-50%)',
+                    width: 'min(800px, 90vw)',
+                    padding: '12px 20px',
+                    backgroundColor: 'rgba(0, 0, 0, 0.75)',
+                    borderRadius: '12px',
+                    color: '#FFFFFF',
+                    fontFamily: 'monospace',
+                    fontSize: '14px',
+                    display: 'flex',
+                    flexDirection: 'column',
+                    gap: '10px',
+                }}
+            >
+                <input
+                    type="range"
+                    min={0}
+                    max={replay.frameCount}
+                    value={gameState.frame}
+                    onChange={(e) => seekTo(Number(e.target.value))}
+                    style={{ width: '100%' }}
+                />
+
+                <div style={{ display: 'flex', alignItems: 'center', gap: '10px' }}>
+                    <button onClick={() => seekTo(0)} style={controlButtonStyle}>
+                        ⏮
+                    </button>
+                    <button onClick={togglePlaying} style={controlButtonStyle}>
+                        {playing ? '⏸' : '▶'}
+                    </button>
+
+                    <span style={{ color: '#AAA', minWidth: '110px' }}>
+                        {formatFrameTime(gameState.frame)} / {formatFrameTime(replay.frameCount)}
+                    </span>
+
+                    <div style={{ display: 'flex', gap: '4px', marginLeft: 'auto' }}>
+                        {PLAYBACK_SPEEDS.map((s) => (
+                            <button
+                                key={s}
+                                onClick={() => setSpeed(s)}
+                                style={{
+                                    ...controlButtonStyle,
+                                    backgroundColor: s === speed ? '#4A90D9' : 'transparent',
+                                }}
+                            >
+                                {s}×
+                            </button>
+                        ))}
+                    </div>
+
+                    <button onClick={onExit} style={controlButtonStyle}>
+                        🏠 EXIT
+                    </button>
+                </div>
+            </div>
+        </div>
+    );
+}
+
+const controlButtonStyle: React.CSSProperties = {
+    padding: '6px 12px',
+    fontSize: '14px',
+    fontFamily: 'monospace',
+    borderRadius: '6px',
+    border: '1px solid #4A90D9',
+    backgroundColor: 'transparent',
+    color: '#FFFFFF',
+    cursor: 'pointer',
+};
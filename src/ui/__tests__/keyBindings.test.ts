@@ -0,0 +1,133 @@
+/**
+ * Tests for key and gamepad bindings: conflict checks and reading saved bindings.
+ */
+
+import { describe, it, expect } from 'vitest';
+import {
+    DEFAULT_CONTROL_BINDINGS,
+    findGamepadConflicts,
+    findKeyConflicts,
+    parseControlBindings,
+} from '../keyBindings';
+import type { ControlBindings } from '../keyBindings';
+
+/** Default bindings with one player's key or gamepad bindings changed */
+function withBindings(change: {
+    keys?: Partial<ControlBindings['keys']>;
+    gamepad?: Partial<ControlBindings['gamepad']>;
+}): ControlBindings {
+    return {
+        keys: { ...DEFAULT_CONTROL_BINDINGS.keys, ...change.keys },
+        gamepad: { ...DEFAULT_CONTROL_BINDINGS.gamepad, ...change.gamepad },
+    };
+}
+
+describe('Key conflicts', () => {
+    it('are none for the default bindings', () => {
+        expect(findKeyConflicts(DEFAULT_CONTROL_BINDINGS.keys)).toEqual([]);
+        expect(findGamepadConflicts(DEFAULT_CONTROL_BINDINGS.gamepad)).toEqual([]);
+    });
+
+    it('include a key shared by two different players', () => {
+        const { keys } = withBindings({
+            keys: { player2: { ...DEFAULT_CONTROL_BINDINGS.keys.player2, rocket: 'KeyW' } },
+        });
+
+        expect(findKeyConflicts(keys)).toEqual([
+            {
+                code: 'KeyW',
+                actions: [
+                    { playerId: 'player1', action: 'up' },
+                    { playerId: 'player2', action: 'rocket' },
+                ],
+            },
+        ]);
+    });
+});
+
+describe('Gamepad conflicts', () => {
+    it('include a button bound to two actions of one player', () => {
+        const { gamepad } = withBindings({
+            gamepad: { player3: { ...DEFAULT_CONTROL_BINDINGS.gamepad.player3, target: [0] } },
+        });
+
+        expect(findGamepadConflicts(gamepad)).toEqual([{ playerId: 'player3', buttons: [0] }]);
+    });
+
+    it('include an action bound to the D-pad, which always steers', () => {
+        const { gamepad } = withBindings({
+            gamepad: { player1: { ...DEFAULT_CONTROL_BINDINGS.gamepad.player1, mine: [1, 13] } },
+        });
+
+        expect(findGamepadConflicts(gamepad)).toEqual([{ playerId: 'player1', buttons: [13] }]);
+    });
+
+    it('ignore the same button on different players, who each have their own gamepad', () => {
+        const { gamepad } = withBindings({
+            gamepad: { player2: { ...DEFAULT_CONTROL_BINDINGS.gamepad.player2, target: [8] } },
+        });
+
+        expect(findGamepadConflicts(gamepad)).toEqual([]);
+    });
+});
+
+describe('Saved bindings', () => {
+    it('round-trip through JSON', () => {
+        const bindings = withBindings({
+            keys: { player4: { ...DEFAULT_CONTROL_BINDINGS.keys.player4, target: 'Space' } },
+            gamepad: { player2: { ...DEFAULT_CONTROL_BINDINGS.gamepad.player2, eject: [9] } },
+        });
+
+        expect(parseControlBindings(JSON.parse(JSON.stringify(bindings)))).toEqual(bindings);
+    });
+
+    it('fill in whatever a partial save leaves out from the defaults', () => {
+        const parsed = parseControlBindings({
+            keys: { player1: { rocket: 'Space' } },
+            gamepad: { player2: { target: [6] } },
+        });
+
+        expect(parsed).toEqual(
+            withBindings({
+                keys: { player1: { ...DEFAULT_CONTROL_BINDINGS.keys.player1, rocket: 'Space' } },
+                gamepad: { player2: { ...DEFAULT_CONTROL_BINDINGS.gamepad.player2, target: [6] } },
+            })
+        );
+    });
+
+    it('give a player their defaults back when their saved keys clash', () => {
+        const parsed = parseControlBindings({
+            keys: { player1: { rocket: 'KeyX' }, player3: { rocket: 'KeyW' } },
+        });
+
+        expect(parsed.keys.player1.rocket).toBe('KeyX');
+        expect(parsed.keys.player3).toEqual(DEFAULT_CONTROL_BINDINGS.keys.player3);
+        expect(findKeyConflicts(parsed.keys)).toEqual([]);
+    });
+
+    it('give a player their defaults back for a duplicate or D-pad button', () => {
+        const parsed = parseControlBindings({
+            gamepad: {
+                player1: { rocket: [0], mine: [0] },
+                player2: { mine: [13] },
+                player3: { target: [6] },
+            },
+        });
+
+        expect(parsed.gamepad.player1).toEqual(DEFAULT_CONTROL_BINDINGS.gamepad.player1);
+        expect(parsed.gamepad.player2).toEqual(DEFAULT_CONTROL_BINDINGS.gamepad.player2);
+        expect(parsed.gamepad.player3.target).toEqual([6]);
+    });
+
+    it('fall back to the defaults for garbage', () => {
+        for (const garbage of [null, 42, 'WASD', [], { keys: 'nope', gamepad: [1, 2] }]) {
+            expect(parseControlBindings(garbage)).toEqual(DEFAULT_CONTROL_BINDINGS);
+        }
+
+        const parsed = parseControlBindings({
+            keys: { player1: { up: '', down: 7, left: null } },
+            gamepad: { player1: { rocket: [], mine: [-1], eject: [1.5], target: 'RT' } },
+        });
+        expect(parsed).toEqual(DEFAULT_CONTROL_BINDINGS);
+    });
+});
@@ -0,0 +1,30 @@
+/**
+ * Browser storage for rebound keys and gamepad buttons.
+ */
+
+import type { ControlBindings } from './keyBindings';
+import { DEFAULT_CONTROL_BINDINGS, parseControlBindings } from './keyBindings';
+
+const STORAGE_KEY = 'titan-escape:control-bindings';
+
+/**
+ * Load the saved bindings, or the defaults if none were saved or storage is unavailable.
+ */
+export function loadControlBindings(): ControlBindings {
+    try {
+        return parseControlBindings(JSON.parse(localStorage.getItem(STORAGE_KEY) ?? '{}'));
+    } catch {
+        return DEFAULT_CONTROL_BINDINGS;
+    }
+}
+
+/**
+ * Save bindings for future sessions. Failures (private browsing, full storage) are ignored.
+ */
+export function saveControlBindings(bindings: ControlBindings): void {
+    try {
+        localStorage.setItem(STORAGE_KEY, JSON.stringify(bindings));
+    } catch {
+        // The bindings still apply until the page is reloaded
+    }
+}
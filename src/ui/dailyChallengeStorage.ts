@@ -0,0 +1,118 @@
+/**
+ * Browser storage for Daily Dive results: the one official attempt of each day,
+ * and the best practice dive of the current day.
+ */
+
+import type { DailyResult } from '../engine/dailyChallenge';
+import { isBetterDailyResult } from '../engine/dailyChallenge';
+
+const STORAGE_KEY = 'titan-escape:daily-dive';
+
+interface DailyRecords {
+    /** Official attempts by date; null for one that was started but never finished */
+    official: Record<string, DailyResult | null>;
+    /** Best practice dive, kept only for the day it was played */
+    practiceBest: DailyResult | null;
+}
+
+/** What the menu shows about a day's challenge */
+export interface DailyStatus {
+    /** Whether the day's official attempt has been started */
+    officialUsed: boolean;
+    /** Result of the day's official attempt, if it was finished */
+    official: DailyResult | null;
+    practiceBest: DailyResult | null;
+    /** Best official result of any day */
+    best: DailyResult | null;
+}
+
+function isDailyResult(value: unknown): value is DailyResult {
+    const result = value as DailyResult | null;
+    return (
+        typeof result === 'object' &&
+        result !== null &&
+        typeof result.dateKey === 'string' &&
+        typeof result.score === 'number' &&
+        typeof result.depth === 'number' &&
+        typeof result.escaped === 'boolean'
+    );
+}
+
+function loadRecords(): DailyRecords {
+    try {
+        const saved = JSON.parse(localStorage.getItem(STORAGE_KEY) ?? '{}') as {
+            official?: unknown;
+            practiceBest?: unknown;
+        };
+        const official: Record<string, DailyResult | null> = {};
+        if (typeof saved.official === 'object' && saved.official !== null) {
+            for (const [dateKey, result] of Object.entries(saved.official)) {
+                if (result === null || isDailyResult(result)) {
+                    official[dateKey] = result;
+                }
+            }
+        }
+        return {
+            official,
+            practiceBest: isDailyResult(saved.practiceBest) ? saved.practiceBest : null,
+        };
+    } catch {
+        return { official: {}, practiceBest: null };
+    }
+}
+
+function saveRecords(records: DailyRecords): void {
+    try {
+        localStorage.setItem(STORAGE_KEY, JSON.stringify(records));
+    } catch {
+        // Losing a daily result is unfortunate but not worth interrupting the game for
+    }
+}
+
+/**
+ * Load what has been played of a day's challenge.
+ * @param dateKey - Challenge date, YYYY-MM-DD
+ */
+export function loadDailyStatus(dateKey: string): DailyStatus {
+    const records = loadRecords();
+    let best: DailyResult | null = null;
+    for (const result of Object.values(records.official)) {
+        if (result && isBetterDailyResult(result, best)) {
+            best = result;
+        }
+    }
+    return {
+        officialUsed: dateKey in records.official,
+        official: records.official[dateKey] ?? null,
+        practiceBest: records.practiceBest?.dateKey === dateKey ? records.practiceBest : null,
+        best,
+    };
+}
+
+/**
+ * Use up a day's official attempt as it begins, so quitting or reloading can't retry it.
+ * @returns False if the attempt was already used
+ */
+export function startOfficialAttempt(dateKey: string): boolean {
+    const records = loadRecords();
+    if (dateKey in records.official) return false;
+    records.official[dateKey] = null;
+    saveRecords(records);
+    return true;
+}
+
+/**
+ * Record a finished Daily Dive.
+ * @param practice - Practice dives only replace the day's practice best if they beat it
+ */
+export function recordDailyResult(result: DailyResult, practice: boolean): void {
+    const records = loadRecords();
+    if (!practice) {
+        records.official[result.dateKey] = result;
+    } else {
+        const best = records.practiceBest?.dateKey === result.dateKey ? records.practiceBest : null;
+        if (!isBetterDailyResult(result, best)) return;
+        records.practiceBest = result;
+    }
+    saveRecords(records);
+}
@@ -0,0 +1,333 @@
+/**
+ * Key and gamepad button bindings for each player, as set on the controls screen.
+ * Keys are KeyboardEvent.code values, so bindings follow physical key positions
+ * whatever the keyboard layout. Gamepad movement always uses the left stick and D-pad;
+ * only the action buttons can be rebound.
+ */
+
+import type { PlayerId } from '../engine/types';
+import { PLAYER_IDS } from '../engine/types';
+
+/** Everything a player can bind a key to */
+export const KEY_ACTIONS = [
+    'up',
+    'down',
+    'left',
+    'right',
+    'eject',
+    'rocket',
+    'mine',
+    'target',
+] as const;
+export type KeyAction = (typeof KEY_ACTIONS)[number];
+
+/** Everything a player can bind gamepad buttons to */
+export const GAMEPAD_ACTIONS = ['rocket', 'mine', 'eject', 'target'] as const;
+export type GamepadAction = (typeof GAMEPAD_ACTIONS)[number];
+
+/** Key code bound to each action */
+export type KeyBindings = Record<KeyAction, string>;
+
+/** Buttons bound to each action; any of them triggers it */
+export type GamepadBindings = Record<GamepadAction, number[]>;
+
+/** Every player's bindings */
+export interface ControlBindings {
+    keys: Record<PlayerId, KeyBindings>;
+    gamepad: Record<PlayerId, GamepadBindings>;
+}
+
+/** D-pad buttons of the standard gamepad layout, which always steer */
+export const DPAD_BUTTONS = [12, 13, 14, 15] as const;
+
+const DEFAULT_GAMEPAD_BINDINGS: GamepadBindings = {
+    rocket: [0, 5], // A/Cross, RB/R1
+    mine: [1, 4], // B/Circle, LB/L1
+    eject: [2, 3], // X/Square, Y/Triangle
+    target: [7], // RT/R2
+};
+
+export const DEFAULT_CONTROL_BINDINGS: ControlBindings = {
+    keys: {
+        // WASD + QER
+        player1: {
+            up: 'KeyW',
+            down: 'KeyS',
+            left: 'KeyA',
+            right: 'KeyD',
+            eject: 'KeyQ',
+            rocket: 'KeyE',
+            mine: 'KeyR',
+            target: 'KeyF',
+        },
+        // Arrows + /, ., ,
+        player2: {
+            up: 'ArrowUp',
+            down: 'ArrowDown',
+            left: 'ArrowLeft',
+            right: 'ArrowRight',
+            eject: 'Slash',
+            rocket: 'Period',
+            mine: 'Comma',
+            target: 'Quote',
+        },
+        // IJKL + UOP
+        player3: {
+            up: 'KeyI',
+            down: 'KeyK',
+            left: 'KeyJ',
+            right: 'KeyL',
+            eject: 'KeyU',
+            rocket: 'KeyO',
+            mine: 'KeyP',
+            target: 'KeyH',
+        },
+        // Numpad 8456 + 7, 9, +
+        player4: {
+            up: 'Numpad8',
+            down: 'Numpad5',
+            left: 'Numpad4',
+            right: 'Numpad6',
+            eject: 'Numpad7',
+            rocket: 'Numpad9',
+            mine: 'NumpadAdd',
+            target: 'Numpad0',
+        },
+    },
+    gamepad: {
+        player1: DEFAULT_GAMEPAD_BINDINGS,
+        player2: DEFAULT_GAMEPAD_BINDINGS,
+        player3: DEFAULT_GAMEPAD_BINDINGS,
+        player4: DEFAULT_GAMEPAD_BINDINGS,
+    },
+};
+
+/** One binding: a player's action */
+export interface BoundAction<A extends string> {
+    playerId: PlayerId;
+    action: A;
+}
+
+/** A key bound to more than one action */
+export interface KeyConflict {
+    code: string;
+    actions: BoundAction<KeyAction>[];
+}
+
+/**
+ * Keys bound to more than one action, whether of the same player or of different players.
+ * Every player shares the one keyboard, so a key can only do one thing.
+ */
+export function findKeyConflicts(keys: Record<PlayerId, KeyBindings>): KeyConflict[] {
+    const byCode = new Map<string, BoundAction<KeyAction>[]>();
+    for (const playerId of PLAYER_IDS) {
+        for (const action of KEY_ACTIONS) {
+            const code = keys[playerId][action];
+            byCode.set(code, [...(byCode.get(code) ?? []), { playerId, action }]);
+        }
+    }
+    return [...byCode.entries()]
+        .filter(([, actions]) => actions.length > 1)
+        .map(([code, actions]) => ({ code, actions }));
+}
+
+/**
+ * Buttons bound to more than one action of a player, or to an action and the D-pad.
+ * Each player has a gamepad of their own, so different players never conflict.
+ * @returns Conflicting buttons of each player that has any
+ */
+export function findGamepadConflicts(
+    gamepad: Record<PlayerId, GamepadBindings>
+): Array<{ playerId: PlayerId; buttons: number[] }> {
+    return PLAYER_IDS.flatMap((playerId) => {
+        const bound = GAMEPAD_ACTIONS.flatMap((action) => gamepad[playerId][action]);
+        const buttons = [...new Set(bound)].filter(
+            (button) =>
+                bound.indexOf(button) !== bound.lastIndexOf(button) ||
+                (DPAD_BUTTONS as readonly number[]).includes(button)
+        );
+        return buttons.length > 0 ? [{ playerId, buttons }] : [];
+    });
+}
+
+/** Labels of key codes whose name isn't the character they type */
+const KEY_CODE_LABELS: Record<string, string> = {
+    ArrowUp: '↑',
+    ArrowDown: '↓',
+    ArrowLeft: '←',
+    ArrowRight: '→',
+    Slash: '/',
+    Backslash: '\\',
+    Period: '.',
+    Comma: ',',
+    Quote: "'",
+    Semicolon: ';',
+    BracketLeft: '[',
+    BracketRight: ']',
+    Minus: '-',
+    Equal: '=',
+    Backquote: '`',
+    Space: 'Space',
+    ShiftLeft: 'L Shift',
+    ShiftRight: 'R Shift',
+    ControlLeft: 'L Ctrl',
+    ControlRight: 'R Ctrl',
+    AltLeft: 'L Alt',
+    AltRight: 'R Alt',
+    NumpadAdd: 'Num +',
+    NumpadSubtract: 'Num -',
+    NumpadMultiply: 'Num *',
+    NumpadDivide: 'Num /',
+    NumpadDecimal: 'Num .',
+    NumpadEnter: 'Num Enter',
+};
+
+/**
+ * Short label of a key code, as printed on the key.
+ */
+export function getKeyLabel(code: string): string {
+    if (KEY_CODE_LABELS[code]) return KEY_CODE_LABELS[code];
+    const match = /^(Key|Digit|Numpad)(.+)$/.exec(code);
+    if (!match) return code;
+    return match[1] === 'Numpad' ? `Num ${match[2]}` : match[2];
+}
+
+/** Button names of the standard gamepad layout, Xbox style */
+const GAMEPAD_BUTTON_LABELS = [
+    'A',
+    'B',
+    'X',
+    'Y',
+    'LB',
+    'RB',
+    'LT',
+    'RT',
+    'Back',
+    'Start',
+    'L3',
+    'R3',
+    'D-Up',
+    'D-Down',
+    'D-Left',
+    'D-Right',
+    'Home',
+];
+
+/**
+ * Name of a gamepad button of the standard layout.
+ */
+export function getGamepadButtonLabel(button: number): string {
+    return GAMEPAD_BUTTON_LABELS[button] ?? `Button ${button}`;
+}
+
+/** How one player's keys are shown in menus and hints */
+export interface KeyLabels {
+    /** Name of the movement cluster, e.g. "WASD" */
+    moveName: string;
+    /** Movement keys as up, left, down, right */
+    move: string[];
+    down: string;
+    eject: string;
+    rocket: string;
+    mine: string;
+    target: string;
+}
+
+/** Name of a movement cluster: "WASD", "Arrows", "Numpad 8456", or each key in turn */
+function getMoveName(codes: string[], labels: string[]): string {
+    if (codes.every((code) => code.startsWith('Arrow'))) return 'Arrows';
+    if (codes.every((code) => /^Numpad\d$/.test(code))) {
+        return `Numpad ${codes.map((code) => code.slice(-1)).join('')}`;
+    }
+    return labels.every((label) => label.length === 1) ? labels.join('') : labels.join('/');
+}
+
+/**
+ * Labels of one player's keys.
+ */
+export function getKeyLabels(keys: KeyBindings): KeyLabels {
+    const moveCodes = [keys.up, keys.left, keys.down, keys.right];
+    const move = moveCodes.map(getKeyLabel);
+    return {
+        moveName: getMoveName(moveCodes, move),
+        move,
+        down: getKeyLabel(keys.down),
+        eject: getKeyLabel(keys.eject),
+        rocket: getKeyLabel(keys.rocket),
+        mine: getKeyLabel(keys.mine),
+        target: getKeyLabel(keys.target),
+    };
+}
+
+/**
+ * Labels of every player's keys.
+ */
+export function getAllKeyLabels(keys: Record<PlayerId, KeyBindings>): Record<PlayerId, KeyLabels> {
+    return Object.fromEntries(
+        PLAYER_IDS.map((playerId) => [playerId, getKeyLabels(keys[playerId])])
+    ) as Record<PlayerId, KeyLabels>;
+}
+
+/**
+ * Read bindings saved by an earlier version of the game or edited by hand.
+ * Every missing or malformed binding falls back to its default, and so do all the bindings
+ * of a player left with a conflict the controls screen would not let them save.
+ */
+export function parseControlBindings(value: unknown): ControlBindings {
+    const saved = (typeof value === 'object' && value !== null ? value : {}) as {
+        keys?: Partial<Record<PlayerId, Partial<Record<KeyAction, unknown>>>>;
+        gamepad?: Partial<Record<PlayerId, Partial<Record<GamepadAction, unknown>>>>;
+    };
+    const isButtonList = (buttons: unknown): buttons is number[] =>
+        Array.isArray(buttons) &&
+        buttons.length > 0 &&
+        buttons.every((button) => Number.isInteger(button) && button >= 0);
+
+    const bindings: ControlBindings = {
+        keys: { ...DEFAULT_CONTROL_BINDINGS.keys },
+        gamepad: { ...DEFAULT_CONTROL_BINDINGS.gamepad },
+    };
+    for (const playerId of PLAYER_IDS) {
+        const keys = saved.keys?.[playerId];
+        bindings.keys[playerId] = Object.fromEntries(
+            KEY_ACTIONS.map((action) => {
+                const code = keys?.[action];
+                return [
+                    action,
+                    typeof code === 'string' && code ? code : bindings.keys[playerId][action],
+                ];
+            })
+        ) as KeyBindings;
+
+        const buttons = saved.gamepad?.[playerId];
+        bindings.gamepad[playerId] = Object.fromEntries(
+            GAMEPAD_ACTIONS.map((action) => {
+                const bound = buttons?.[action];
+                return [
+                    action,
+                    isButtonList(bound) ? [...bound] : bindings.gamepad[playerId][action],
+                ];
+            })
+        ) as GamepadBindings;
+    }
+
+    // A key clash always involves a changed binding, since the defaults have none;
+    // resetting its player can clash with another changed binding in turn
+    for (
+        let conflicts = findKeyConflicts(bindings.keys);
+        conflicts.length > 0;
+        conflicts = findKeyConflicts(bindings.keys)
+    ) {
+        for (const { code, actions } of conflicts) {
+            for (const { playerId, action } of actions) {
+                if (code !== DEFAULT_CONTROL_BINDINGS.keys[playerId][action]) {
+                    bindings.keys[playerId] = { ...DEFAULT_CONTROL_BINDINGS.keys[playerId] };
+                }
+            }
+        }
+    }
+    for (const { playerId } of findGamepadConflicts(bindings.gamepad)) {
+        bindings.gamepad[playerId] = { ...DEFAULT_CONTROL_BINDINGS.gamepad[playerId] };
+    }
+    return bindings;
+}
@@ -0,0 +1,61 @@
+/**
+ * Browser storage for the last match setup, so a group's house rules survive reloads.
+ */
+
+import type { MatchRules } from '../engine/matchRules';
+import { parseMatchRules } from '../engine/matchRules';
+
+const STORAGE_KEY = 'titan-escape:last-match-setup';
+
+/** Everything the setup screen remembers between matches */
+export interface SavedMatchSetup {
+    rules: MatchRules;
+    /** Seed field as typed; empty means a random seed */
+    seedText: string;
+    /** Submarines in a local versus match without the CPU */
+    playerCount: number;
+    /** Names typed for each seat, in seat order; empty for unnamed seats */
+    playerNames: string[];
+}
+
+/** Player counts a local versus match can be set up for */
+export const LOCAL_PLAYER_COUNT_OPTIONS = [2, 3, 4] as const;
+
+function parsePlayerCount(value: unknown): number {
+    return LOCAL_PLAYER_COUNT_OPTIONS.find((count) => count === value) ?? 2;
+}
+
+/**
+ * Load the last-used setup, or the defaults if none was saved or storage is unavailable.
+ */
+export function loadLastMatchSetup(): SavedMatchSetup {
+    try {
+        const saved = JSON.parse(localStorage.getItem(STORAGE_KEY) ?? '{}') as {
+            rules?: unknown;
+            seedText?: unknown;
+            playerCount?: unknown;
+            playerNames?: unknown;
+        };
+        return {
+            rules: parseMatchRules(saved.rules),
+            seedText: typeof saved.seedText === 'string' ? saved.seedText : '',
+            playerCount: parsePlayerCount(saved.playerCount),
+            playerNames: Array.isArray(saved.playerNames)
+                ? saved.playerNames.map((name) => (typeof name === 'string' ? name : ''))
+                : [],
+        };
+    } catch {
+        return { rules: parseMatchRules(null), seedText: '', playerCount: 2, playerNames: [] };
+    }
+}
+
+/**
+ * Remember a setup as the last used. Failures (private browsing, full storage) are ignored.
+ */
+export function saveLastMatchSetup(setup: SavedMatchSetup): void {
+    try {
+        localStorage.setItem(STORAGE_KEY, JSON.stringify(setup));
+    } catch {
+        // Not remembering the setup is harmless
+    }
+}
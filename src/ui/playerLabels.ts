@@ -0,0 +1,40 @@
+/**
+ * Display names and colors for players, accounting for a CPU-controlled player 2.
+ */
+
+import type { PlayerId } from '../engine/types';
+import { PLAYER_IDS } from '../engine/types';
+import type { CpuDifficulty } from '../engine/cpuPlayer';
+import { COLORS } from '../engine/config';
+
+/** Player slot driven by the CPU in "Play vs CPU" matches */
+export const CPU_PLAYER_ID: PlayerId = 'player2';
+
+/** Each player's submarine color, also used for their HUD and results */
+export const PLAYER_COLORS: Record<PlayerId, string> = {
+    player1: COLORS.sub1,
+    player2: COLORS.sub2,
+    player3: COLORS.sub3,
+    player4: COLORS.sub4,
+};
+
+/** Each player's escape capsule color */
+export const CAPSULE_COLORS: Record<PlayerId, string> = {
+    player1: COLORS.capsule1,
+    player2: COLORS.capsule2,
+    player3: COLORS.capsule3,
+    player4: COLORS.capsule4,
+};
+
+/** Seat number shown to players, e.g. 3 for player3 */
+export function getSeatNumber(playerId: PlayerId): number {
+    return PLAYER_IDS.indexOf(playerId) + 1;
+}
+
+/** Uppercase label for HUDs and results, e.g. "PLAYER 1" or "CPU (HARD)" */
+export function getPlayerLabel(playerId: PlayerId, cpuDifficulty: CpuDifficulty | null): string {
+    if (cpuDifficulty && playerId === CPU_PLAYER_ID) {
+        return `CPU (${cpuDifficulty.toUpperCase()})`;
+    }
+    return `PLAYER ${getSeatNumber(playerId)}`;
+}
@@ -0,0 +1,35 @@
+/**
+ * Browser helpers for saving replays to disk and loading them back.
+ */
+
+import type { Replay } from '../engine/types';
+import { serializeReplay, parseReplay } from '../engine/replay';
+
+/** File extension used for saved replays */
+export const REPLAY_FILE_EXTENSION = '.titanreplay';
+
+/**
+ * Save a replay as a file download.
+ */
+export function downloadReplay(replay: Replay): void {
+    const blob = new Blob([serializeReplay(replay)], { type: 'application/json' });
+    const url = URL.createObjectURL(blob);
+
+    const link = document.createElement('a');
+    link.href = url;
+    link.download = `titan-escape-${replay.config.seed}-${Date.now()}${REPLAY_FILE_EXTENSION}`;
+    document.body.appendChild(link);
+    link.click();
+    link.remove();
+
+    URL.revokeObjectURL(url);
+}
+
+/**
+ * Read a replay from a user-selected file.
+ * Rejects with a readable message if the file is not a playable replay.
+ */
+export async function readReplayFile(file: File): Promise<Replay> {
+    const text = await file.text();
+    return parseReplay(text);
+}
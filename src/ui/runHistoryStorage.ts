@@ -0,0 +1,60 @@
+/**
+ * Browser storage for the history of finished matches, which the leaderboards are built from.
+ */
+
+import type { RunRecord } from '../engine/runHistory';
+import { parseRunHistory } from '../engine/runHistory';
+
+const STORAGE_KEY = 'titan-escape:run-history';
+
+/** Oldest runs are forgotten past this many */
+const MAX_STORED_RUNS = 200;
+
+/** Only the most recent runs keep their replays, which are by far the largest part */
+const MAX_STORED_REPLAYS = 20;
+
+/**
+ * Load every stored run, newest first. Returns an empty history if storage is unavailable.
+ */
+export function loadRunHistory(): RunRecord[] {
+    try {
+        return parseRunHistory(JSON.parse(localStorage.getItem(STORAGE_KEY) ?? '[]'));
+    } catch {
+        return [];
+    }
+}
+
+/**
+ * Add a finished match to the stored history.
+ * If storage fills up, replays are dropped before the run itself is.
+ */
+export function saveRun(run: RunRecord): void {
+    const history = [run, ...loadRunHistory()].slice(0, MAX_STORED_RUNS);
+    const withoutOldReplays = history.map((record, i) =>
+        i < MAX_STORED_REPLAYS ? record : { ...record, replay: undefined }
+    );
+    const withoutReplays = history.map((record) => ({
+        ...record,
+        replay: undefined,
+    }));
+
+    for (const attempt of [withoutOldReplays, withoutReplays]) {
+        try {
+            localStorage.setItem(STORAGE_KEY, JSON.stringify(attempt));
+            return;
+        } catch {
+            // Full or unavailable storage: try again smaller, or give up on remembering the run
+        }
+    }
+}
+
+/**
+ * Forget every stored run.
+ */
+export function clearRunHistory(): void {
+    try {
+        localStorage.removeItem(STORAGE_KEY);
+    } catch {
+        // Nothing stored that could be cleared
+    }
+}
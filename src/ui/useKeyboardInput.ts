@@ -1,28 +1,45 @@
 /**
- * React hook for handling keyboard AND gamepad input for both players.
- * Maps physical keys and gamepad buttons to player actions in a hot-seat multiplayer setup.
+ * React hook for handling keyboard AND gamepad input for up to four players.
+ * Maps physical keys and gamepad buttons to player actions in a hot-seat multiplayer setup,
+ * through the bindings set on the controls screen (see keyBindings.ts for the defaults).
  *
- * Keyboard Controls:
- * Player 1: WASD movement, Q=eject, E=rocket, R=mine
- * Player 2: Arrow keys movement, /=eject, .=rocket, ,=mine
+ * Default Keyboard Controls:
+ * Player 1: WASD movement, Q=eject, E=rocket, R=mine, F=rocket target
+ * Player 2: Arrow keys movement, /=eject, .=rocket, ,=mine, '=rocket target
+ * Player 3: IJKL movement, U=eject, O=rocket, P=mine, H=rocket target
+ * Player 4: Numpad 8456 movement, 7=eject, 9=rocket, +=mine, 0=rocket target
  *
- * Gamepad Controls (Standard layout):
- * Movement: Left stick OR D-pad
+ * Default Gamepad Controls (Standard layout), gamepad N drives player N:
+ * Movement: Left stick OR D-pad (not rebindable)
  * A/X button: Fire rocket
  * B/Circle button: Deploy mine
  * X/Square or Y/Triangle button: Eject
  * RB/R1: Alternative rocket
  * LB/L1: Alternative mine
+ * RT/R2: Cycle rocket target
+ *
+ * Rockets aim at the nearest opponent until a player picks a target; cycling goes through
+ * every opponent in seat order and back to nearest.
  */
 
-import { useEffect, useRef, useCallback } from 'react';
-import type { PlayerInputFrame, PlayerId, PlayerAction } from '../engine/types';
+import { useState, useEffect, useRef, useCallback } from 'react';
+import type { PlayerInputFrame, PlayerId, PlayerAction, PlayerMap } from '../engine/types';
+import { PLAYER_IDS } from '../engine/types';
+import type { ControlBindings, GamepadBindings } from './keyBindings';
+import { DEFAULT_CONTROL_BINDINGS } from './keyBindings';
 
 // ============ GAMEPAD SUPPORT ============
 
 // Dead zone for analog sticks (to prevent drift)
 const STICK_DEADZONE = 0.3;
 
+/** Gamepad button actions in the order they win when pressed together */
+const GAMEPAD_BUTTON_ACTIONS: Array<[keyof GamepadBindings, PlayerAction]> = [
+    ['rocket', 'fireRocket'],
+    ['mine', 'deployMine'],
+    ['eject', 'dumpBallast'],
+];
+
 // Track previous button states for edge detection (fire once per press)
 const prevGamepadButtonStates: Record<number, Record<number, boolean>> = {};
 
@@ -33,15 +50,10 @@ interface GamepadMovement {
     right: boolean;
 }
 
-interface GamepadInputResult {
-    movement: {
-        player1: GamepadMovement;
-        player2: GamepadMovement;
-    };
-    actions: {
-        player1: PlayerAction;
-        player2: PlayerAction;
-    };
+interface GamepadInput {
+    movement: GamepadMovement;
+    action: PlayerAction;
+    cycleTarget: boolean;
 }
 
 /**
@@ -97,219 +109,171 @@ function getGamepadMovement(gamepad: Gamepad): GamepadMovement {
 }
 
 /**
- * Get action from a gamepad (rocket, mine, eject)
+ * Get action from a gamepad (rocket, mine, eject) through its player's bindings
  */
-function getGamepadAction(gamepad: Gamepad): PlayerAction {
-    const index = gamepad.index;
-
-    // A button (0) = Fire rocket
-    if (gamepad.buttons[0] && wasGamepadButtonJustPressed(index, 0, gamepad.buttons[0].pressed)) {
-        return 'fireRocket';
-    }
-
-    // B button (1) = Deploy mine
-    if (gamepad.buttons[1] && wasGamepadButtonJustPressed(index, 1, gamepad.buttons[1].pressed)) {
-        return 'deployMine';
-    }
-
-    // X button (2) or Y button (3) = Eject (dumpBallast)
-    if (gamepad.buttons[2] && wasGamepadButtonJustPressed(index, 2, gamepad.buttons[2].pressed)) {
-        return 'dumpBallast';
-    }
-    if (gamepad.buttons[3] && wasGamepadButtonJustPressed(index, 3, gamepad.buttons[3].pressed)) {
-        return 'dumpBallast';
-    }
-
-    // RB/R1 button (5) = Alternative rocket
-    if (gamepad.buttons[5] && wasGamepadButtonJustPressed(index, 5, gamepad.buttons[5].pressed)) {
-        return 'fireRocket';
-    }
-
-    // LB/L1 button (4) = Alternative mine
-    if (gamepad.buttons[4] && wasGamepadButtonJustPressed(index, 4, gamepad.buttons[4].pressed)) {
-        return 'deployMine';
+function getGamepadAction(gamepad: Gamepad, bindings: GamepadBindings): PlayerAction {
+    for (const [bindingAction, action] of GAMEPAD_BUTTON_ACTIONS) {
+        for (const button of bindings[bindingAction]) {
+            const state = gamepad.buttons[button];
+            if (state && wasGamepadButtonJustPressed(gamepad.index, button, state.pressed)) {
+                return action;
+            }
+        }
     }
-
     return null;
 }
 
+/** Whether any of the buttons bound to cycling the rocket target was just pressed */
+function wasTargetCycled(gamepad: Gamepad, bindings: GamepadBindings): boolean {
+    // Every button is checked so each one's pressed state stays tracked
+    return bindings.target
+        .map((button) => {
+            const state = gamepad.buttons[button];
+            return !!state && wasGamepadButtonJustPressed(gamepad.index, button, state.pressed);
+        })
+        .some(Boolean);
+}
+
 /**
- * Sample all connected gamepads
+ * Sample the gamepad of each player (gamepad 0 = player 1, gamepad 1 = player 2, ...)
  */
-function sampleGamepads(): GamepadInputResult {
-    const result: GamepadInputResult = {
-        movement: {
-            player1: { up: false, down: false, left: false, right: false },
-            player2: { up: false, down: false, left: false, right: false },
-        },
-        actions: {
-            player1: null,
-            player2: null,
-        },
-    };
-
+function sampleGamepads(bindings: Record<PlayerId, GamepadBindings>): PlayerMap<GamepadInput> {
+    const result: PlayerMap<GamepadInput> = {};
     const gamepads = navigator.getGamepads();
 
-    // Gamepad 0 = Player 1
-    if (gamepads[0]) {
-        result.movement.player1 = getGamepadMovement(gamepads[0]);
-        result.actions.player1 = getGamepadAction(gamepads[0]);
-    }
-
-    // Gamepad 1 = Player 2
-    if (gamepads[1]) {
-        result.movement.player2 = getGamepadMovement(gamepads[1]);
-        result.actions.player2 = getGamepadAction(gamepads[1]);
-    }
+    PLAYER_IDS.forEach((playerId, i) => {
+        const gamepad = gamepads[i];
+        if (!gamepad) return;
+        result[playerId] = {
+            movement: getGamepadMovement(gamepad),
+            action: getGamepadAction(gamepad, bindings[playerId]),
+            cycleTarget: wasTargetCycled(gamepad, bindings[playerId]),
+        };
+    });
 
     return result;
 }
 
 // ============ KEYBOARD SUPPORT ============
 
-/** Key mappings for Player 1 (WASD + QER) */
-const P1_KEYS = {
-    up: 'KeyW',
-    down: 'KeyS',
-    left: 'KeyA',
-    right: 'KeyD',
-    eject: 'KeyQ',
-    rocket: 'KeyE',
-    mine: 'KeyR',
-};
-
-/** Key mappings for Player 2 (Arrows + /, ., ,) */
-const P2_KEYS = {
-    up: 'ArrowUp',
-    down: 'ArrowDown',
-    left: 'ArrowLeft',
-    right: 'ArrowRight',
-    eject: 'Slash', // /
-    rocket: 'Period', // .
-    mine: 'Comma', // ,
-};
-
-/** Current state of pressed keys */
+/** Current state of one player's held movement keys */
 interface KeyState {
-    player1: {
-        up: boolean;
-        down: boolean;
-        left: boolean;
-        right: boolean;
-    };
-    player2: {
-        up: boolean;
-        down: boolean;
-        left: boolean;
-        right: boolean;
-    };
+    up: boolean;
+    down: boolean;
+    left: boolean;
+    right: boolean;
+}
+
+/** Movement keys that steer, in the order KeyState lists them */
+const MOVEMENT_KEYS = ['up', 'down', 'left', 'right'] as const;
+
+function createPerPlayer<T>(create: () => T): Record<PlayerId, T> {
+    return Object.fromEntries(PLAYER_IDS.map((playerId) => [playerId, create()])) as Record<
+        PlayerId,
+        T
+    >;
 }
 
-/** Track which action was just pressed this frame (for single-fire) */
-interface ActionPressed {
-    player1: PlayerAction;
-    player2: PlayerAction;
+/**
+ * The opponent after `current` in seat order, wrapping back to null (nearest)
+ * after the last one.
+ */
+function getNextTarget(
+    playerId: PlayerId,
+    current: PlayerId | null,
+    playerIds: readonly PlayerId[]
+): PlayerId | null {
+    const choices = [null, ...playerIds.filter((id) => id !== playerId)];
+    return choices[(choices.indexOf(current) + 1) % choices.length];
 }
 
 /**
- * Hook that tracks keyboard input for both players.
+ * Hook that tracks keyboard input for every player.
  * Returns a function to sample the current input state as PlayerInputFrames.
+ * @param playerIds - Players in the match; rocket targets cycle through these
+ * @param bindings - Keys and gamepad buttons of every player
  */
-export function useKeyboardInput() {
-    const keyState = useRef<KeyState>({
-        player1: { up: false, down: false, left: false, right: false },
-        player2: { up: false, down: false, left: false, right: false },
-    });
+export function useKeyboardInput(
+    playerIds: readonly PlayerId[] = PLAYER_IDS,
+    bindings: ControlBindings = DEFAULT_CONTROL_BINDINGS
+) {
+    const keyState = useRef(
+        createPerPlayer<KeyState>(() => ({ up: false, down: false, left: false, right: false }))
+    );
 
     // Track which action key was pressed since last sample (for single-fire behavior)
-    const actionPressed = useRef<ActionPressed>({
-        player1: null,
-        player2: null,
-    });
+    const actionPressed = useRef(createPerPlayer<PlayerAction>(() => null));
 
-    useEffect(() => {
-        const handleKeyDown = (e: KeyboardEvent) => {
-            const code = e.code;
+    // Chosen rocket targets (null = nearest), kept in state so the HUD can show them
+    const [rocketTargets, setRocketTargets] = useState<PlayerMap<PlayerId | null>>({});
+    const rocketTargetsRef = useRef(rocketTargets);
+    const playerIdsRef = useRef(playerIds);
+    const bindingsRef = useRef(bindings);
 
-            // Player 1 movement
-            if (code === P1_KEYS.up) {
-                e.preventDefault();
-                keyState.current.player1.up = true;
-            }
-            if (code === P1_KEYS.down) {
-                e.preventDefault();
-                keyState.current.player1.down = true;
-            }
-            if (code === P1_KEYS.left) {
-                e.preventDefault();
-                keyState.current.player1.left = true;
-            }
-            if (code === P1_KEYS.right) {
-                e.preventDefault();
-                keyState.current.player1.right = true;
-            }
+    useEffect(() => {
+        playerIdsRef.current = playerIds;
+    }, [playerIds]);
 
-            // Player 1 actions (only set if not already set this frame)
-            if (code === P1_KEYS.eject && !actionPressed.current.player1) {
-                e.preventDefault();
-                actionPressed.current.player1 = 'dumpBallast';
-            }
-            if (code === P1_KEYS.rocket && !actionPressed.current.player1) {
-                e.preventDefault();
-                actionPressed.current.player1 = 'fireRocket';
-            }
-            if (code === P1_KEYS.mine && !actionPressed.current.player1) {
-                e.preventDefault();
-                actionPressed.current.player1 = 'deployMine';
-            }
+    useEffect(() => {
+        bindingsRef.current = bindings;
+    }, [bindings]);
+
+    const cycleTarget = useCallback((playerId: PlayerId) => {
+        const current = rocketTargetsRef.current[playerId] ?? null;
+        const next = {
+            ...rocketTargetsRef.current,
+            [playerId]: getNextTarget(playerId, current, playerIdsRef.current),
+        };
+        rocketTargetsRef.current = next;
+        setRocketTargets(next);
+    }, []);
 
-            // Player 2 movement
-            if (code === P2_KEYS.up) {
-                e.preventDefault();
-                keyState.current.player2.up = true;
-            }
-            if (code === P2_KEYS.down) {
-                e.preventDefault();
-                keyState.current.player2.down = true;
-            }
-            if (code === P2_KEYS.left) {
-                e.preventDefault();
-                keyState.current.player2.left = true;
-            }
-            if (code === P2_KEYS.right) {
-                e.preventDefault();
-                keyState.current.player2.right = true;
-            }
+    useEffect(() => {
+        const handleKeyDown = (e: KeyboardEvent) => {
+            const code = e.code;
 
-            // Player 2 actions
-            if (code === P2_KEYS.eject && !actionPressed.current.player2) {
-                e.preventDefault();
-                actionPressed.current.player2 = 'dumpBallast';
-            }
-            if (code === P2_KEYS.rocket && !actionPressed.current.player2) {
-                e.preventDefault();
-                actionPressed.current.player2 = 'fireRocket';
-            }
-            if (code === P2_KEYS.mine && !actionPressed.current.player2) {
-                e.preventDefault();
-                actionPressed.current.player2 = 'deployMine';
+            for (const playerId of PLAYER_IDS) {
+                const keys = bindingsRef.current.keys[playerId];
+
+                // Movement
+                for (const direction of MOVEMENT_KEYS) {
+                    if (code === keys[direction]) {
+                        e.preventDefault();
+                        keyState.current[playerId][direction] = true;
+                    }
+                }
+
+                // Actions (only set if not already set this frame)
+                const action: PlayerAction =
+                    code === keys.eject
+                        ? 'dumpBallast'
+                        : code === keys.rocket
+                          ? 'fireRocket'
+                          : code === keys.mine
+                            ? 'deployMine'
+                            : null;
+                if (action && !actionPressed.current[playerId]) {
+                    e.preventDefault();
+                    actionPressed.current[playerId] = action;
+                }
+
+                if (code === keys.target && !e.repeat) {
+                    e.preventDefault();
+                    cycleTarget(playerId);
+                }
             }
         };
 
         const handleKeyUp = (e: KeyboardEvent) => {
             const code = e.code;
 
-            // Player 1
-            if (code === P1_KEYS.up) keyState.current.player1.up = false;
-            if (code === P1_KEYS.down) keyState.current.player1.down = false;
-            if (code === P1_KEYS.left) keyState.current.player1.left = false;
-            if (code === P1_KEYS.right) keyState.current.player1.right = false;
-
-            // Player 2
-            if (code === P2_KEYS.up) keyState.current.player2.up = false;
-            if (code === P2_KEYS.down) keyState.current.player2.down = false;
-            if (code === P2_KEYS.left) keyState.current.player2.left = false;
-            if (code === P2_KEYS.right) keyState.current.player2.right = false;
+            for (const playerId of PLAYER_IDS) {
+                for (const direction of MOVEMENT_KEYS) {
+                    if (code === bindingsRef.current.keys[playerId][direction]) {
+                        keyState.current[playerId][direction] = false;
+                    }
+                }
+            }
         };
 
         window.addEventListener('keydown', handleKeyDown);
@@ -335,54 +299,47 @@ export function useKeyboardInput() {
             window.removeEventListener('gamepadconnected', handleGamepadConnect);
             window.removeEventListener('gamepaddisconnected', handleGamepadDisconnect);
         };
-    }, []);
+    }, [cycleTarget]);
 
     /**
-     * Sample the current input state for both players.
+     * Sample the current input state for every player slot.
      * Combines keyboard and gamepad input.
      * This should be called once per game frame.
      * The action is consumed after sampling (single-fire).
      */
-    const sampleInputs = useCallback((frame: number): Record<PlayerId, PlayerInputFrame> => {
-        // Get keyboard actions
-        let p1Action = actionPressed.current.player1;
-        let p2Action = actionPressed.current.player2;
-
-        // Reset keyboard action pressed flags after sampling
-        actionPressed.current.player1 = null;
-        actionPressed.current.player2 = null;
-
-        // Get gamepad input
-        const gamepadInput = sampleGamepads();
-
-        // Merge gamepad actions (gamepad takes priority if keyboard action is null)
-        if (!p1Action && gamepadInput.actions.player1) {
-            p1Action = gamepadInput.actions.player1;
-        }
-        if (!p2Action && gamepadInput.actions.player2) {
-            p2Action = gamepadInput.actions.player2;
-        }
-
-        return {
-            player1: {
-                frame,
-                // Combine keyboard and gamepad movement (OR together)
-                up: keyState.current.player1.up || gamepadInput.movement.player1.up,
-                down: keyState.current.player1.down || gamepadInput.movement.player1.down,
-                left: keyState.current.player1.left || gamepadInput.movement.player1.left,
-                right: keyState.current.player1.right || gamepadInput.movement.player1.right,
-                action: p1Action,
-            },
-            player2: {
-                frame,
-                up: keyState.current.player2.up || gamepadInput.movement.player2.up,
-                down: keyState.current.player2.down || gamepadInput.movement.player2.down,
-                left: keyState.current.player2.left || gamepadInput.movement.player2.left,
-                right: keyState.current.player2.right || gamepadInput.movement.player2.right,
-                action: p2Action,
-            },
-        };
-    }, []);
+    const sampleInputs = useCallback(
+        (frame: number): Record<PlayerId, PlayerInputFrame> => {
+            const gamepadInput = sampleGamepads(bindingsRef.current.gamepad);
+
+            return createPerPlayerFrom((playerId) => {
+                const keys = keyState.current[playerId];
+                const gamepad = gamepadInput[playerId];
+                if (gamepad?.cycleTarget) {
+                    cycleTarget(playerId);
+                }
+
+                // Keyboard action first, then the gamepad's; reset the keyboard flag after sampling
+                const action = actionPressed.current[playerId] ?? gamepad?.action ?? null;
+                actionPressed.current[playerId] = null;
+
+                const input: PlayerInputFrame = {
+                    frame,
+                    // Combine keyboard and gamepad movement (OR together)
+                    up: keys.up || !!gamepad?.movement.up,
+                    down: keys.down || !!gamepad?.movement.down,
+                    left: keys.left || !!gamepad?.movement.left,
+                    right: keys.right || !!gamepad?.movement.right,
+                    action,
+                };
+                const rocketTarget = rocketTargetsRef.current[playerId];
+                if (action === 'fireRocket' && rocketTarget) {
+                    input.rocketTarget = rocketTarget;
+                }
+                return input;
+            });
+        },
+        [cycleTarget]
+    );
 
     // Get connected gamepad count
     const getGamepadCount = useCallback((): number => {
@@ -390,51 +347,28 @@ export function useKeyboardInput() {
     }, []);
 
     /**
-     * Sample only movement inputs (no actions) - used for ready check.
+     * Sample which players hold DOWN (no actions) - used for ready check.
      * This doesn't consume action button states.
      */
-    const sampleMovementOnly = useCallback((): { player1Down: boolean; player2Down: boolean } => {
-        // Check keyboard
-        const p1KeyDown = keyState.current.player1.down;
-        const p2KeyDown = keyState.current.player2.down;
-
-        // Check gamepads (just movement, no button state tracking)
-        let p1GamepadDown = false;
-        let p2GamepadDown = false;
-
+    const sampleMovementOnly = useCallback((): Record<PlayerId, boolean> => {
         const gamepads = navigator.getGamepads();
 
-        // Gamepad 0 = Player 1
-        if (gamepads[0]) {
-            const gp = gamepads[0];
-            // Check stick
-            if (gp.axes.length >= 2 && gp.axes[1] > STICK_DEADZONE) {
-                p1GamepadDown = true;
-            }
-            // Check D-pad
-            if (gp.buttons.length >= 14 && gp.buttons[13]?.pressed) {
-                p1GamepadDown = true;
-            }
-        }
-
-        // Gamepad 1 = Player 2
-        if (gamepads[1]) {
-            const gp = gamepads[1];
-            // Check stick
-            if (gp.axes.length >= 2 && gp.axes[1] > STICK_DEADZONE) {
-                p2GamepadDown = true;
-            }
-            // Check D-pad
-            if (gp.buttons.length >= 14 && gp.buttons[13]?.pressed) {
-                p2GamepadDown = true;
-            }
-        }
+        return createPerPlayerFrom((playerId) => {
+            // Check gamepads (just movement, no button state tracking)
+            const gp = gamepads[PLAYER_IDS.indexOf(playerId)];
+            const stickDown = !!gp && gp.axes.length >= 2 && gp.axes[1] > STICK_DEADZONE;
+            const dpadDown = !!gp && gp.buttons.length >= 14 && !!gp.buttons[13]?.pressed;
 
-        return {
-            player1Down: p1KeyDown || p1GamepadDown,
-            player2Down: p2KeyDown || p2GamepadDown,
-        };
+            return keyState.current[playerId].down || stickDown || dpadDown;
+        });
     }, []);
 
-    return { sampleInputs, getGamepadCount, sampleMovementOnly };
+    return { sampleInputs, getGamepadCount, sampleMovementOnly, rocketTargets };
+}
+
+function createPerPlayerFrom<T>(create: (playerId: PlayerId) => T): Record<PlayerId, T> {
+    return Object.fromEntries(PLAYER_IDS.map((playerId) => [playerId, create(playerId)])) as Record<
+        PlayerId,
+        T
+    >;
 }